@@ -0,0 +1,275 @@
+import { fileURLToPath } from 'node:url';
+import { Octokit } from 'octokit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  collectAlerts,
+  dismissAlerts,
+  formatDiff,
+  formatReport,
+  generateDiff,
+  generateReport,
+  reopenAlerts,
+} from '../api.js';
+import { registerFormatter } from '../formatters/registry.js';
+import * as index from '../index.js';
+import { getGitHubToken } from '../lib/auth.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { fetchAllAlertsWithDetails, fetchCodeQLAlerts, updateAlerts } from '../lib/codeql.js';
+import { getGitHubRepoFromRemote, parseRepositoryName } from '../lib/git.js';
+import { loadReport, loadSARIF } from '../lib/reports.js';
+
+vi.mock('octokit');
+vi.mock('../lib/auth.js');
+vi.mock('../lib/codeql.js');
+vi.mock('../lib/git.js');
+vi.mock('../lib/reports.js');
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection detected',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+describe('generateReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Octokit).mockImplementation(class {} as never);
+    vi.mocked(getGitHubToken).mockReturnValue('env-token');
+    vi.mocked(getGitHubRepoFromRemote).mockResolvedValue({
+      owner: 'test-owner',
+      repo: 'test-repo',
+    });
+    vi.mocked(parseRepositoryName).mockImplementation((name) => {
+      const [owner, repo] = name.split('/');
+      return { owner, repo };
+    });
+    vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+  });
+
+  it('should return the formatted report with its alerts and metadata', async () => {
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const report = await generateReport({ token: 'api-token', detail: 'minimum' });
+
+    expect(report.repoName).toBe('test-owner/test-repo');
+    expect(report.alerts).toEqual([mockAlert]);
+    expect(report.metadata).toEqual({ ref: undefined });
+    expect(JSON.parse(report.content)).toEqual([
+      expect.objectContaining({ number: 1, rule_id: 'js/sql-injection' }),
+    ]);
+    expect(getGitHubToken).not.toHaveBeenCalled();
+    expect(Octokit).toHaveBeenCalledWith({
+      auth: 'api-token',
+      baseUrl: 'https://api.github.com',
+      retry: { enabled: false },
+      throttle: { enabled: false },
+    });
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    expect(consoleLogSpy).not.toHaveBeenCalled();
+  });
+
+  it('should report progress through the callback', async () => {
+    const onProgress = vi.fn();
+
+    await generateReport({ repos: ['acme/api'], format: 'md', onProgress });
+
+    expect(getGitHubRepoFromRemote).not.toHaveBeenCalled();
+    expect(getGitHubToken).toHaveBeenCalledWith('github.com');
+    expect(onProgress).toHaveBeenCalledWith('🔍 Fetching CodeQL alerts...');
+    expect(onProgress).toHaveBeenCalledWith('   Found 1 open alert(s)');
+  });
+
+  it('should record alerts whose details could not be fetched in the metadata', async () => {
+    vi.mocked(fetchAllAlertsWithDetails).mockImplementation(
+      async (_octokit, repo, _filter, options) => {
+        options?.onFailure?.(4, new Error('Not Found'), repo);
+        return [mockAlert];
+      },
+    );
+
+    const { metadata } = await collectAlerts({ partial: true });
+
+    expect(metadata.failedAlerts).toEqual([4]);
+  });
+
+  it('should read SARIF input without the API', async () => {
+    vi.mocked(loadSARIF).mockResolvedValue({ alerts: [mockAlert] });
+
+    const report = await generateReport({ input: 'results.sarif', format: 'csv' });
+
+    expect(report.repoName).toBe('results.sarif');
+    expect(report.content.split('\n')[0]).toContain('number,rule_id');
+    expect(Octokit).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ input: 'results.sarif', repos: ['acme/api'] }, 'input cannot be combined'],
+    [
+      { input: 'results.sarif', filter: { state: 'fixed' as const } },
+      'input only holds open alerts, state fixed cannot be reported',
+    ],
+    [{ org: 'acme', ref: 'main' }, 'org cannot be combined'],
+    [{ ref: 'main', currentBranch: true }, 'Only one of ref, pr and currentBranch can be set'],
+  ])('should reject %j', async (options, message) => {
+    await expect(collectAlerts(options)).rejects.toThrow(message);
+    expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatReport', () => {
+  const collection = { alerts: [mockAlert], repoName: 'acme/api', metadata: {} };
+
+  it('should default to JSON at medium detail', () => {
+    const [alert] = JSON.parse(formatReport(collection));
+
+    expect(alert).toHaveProperty('rule_description');
+    expect(alert).not.toHaveProperty('help_text');
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => formatReport(collection, { format: 'pdf' })).toThrow('Unknown format pdf');
+  });
+
+  it.each(['md', 'txt'])('should render %s reports with a template', (format) => {
+    expect(
+      formatReport(collection, { format, template: '{{repository}}: {{total}} alert(s)' }),
+    ).toBe('acme/api: 1 alert(s)');
+  });
+
+  it('should render with a registered formatter', () => {
+    registerFormatter({
+      name: 'titles',
+      extension: 'titles.txt',
+      detailLevels: ['minimum', 'medium'],
+      format: (alerts, { repoName, detail }) =>
+        `${repoName} (${detail}): ${alerts.map((alert) => alert.rule.id).join(', ')}`,
+    });
+
+    expect(formatReport(collection, { format: 'titles' })).toBe(
+      'acme/api (medium): js/sql-injection',
+    );
+    expect(() => formatReport(collection, { format: 'titles', detail: 'raw' })).toThrow(
+      'Format titles does not support the raw detail level',
+    );
+  });
+});
+
+describe('generateDiff', () => {
+  // Any existing file is loaded as a report
+  const reportFile = fileURLToPath(import.meta.url);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadReport)
+      .mockResolvedValue([mockAlert, { ...mockAlert, number: 2 }])
+      .mockResolvedValueOnce([mockAlert]);
+  });
+
+  it('should compare two saved reports without the API', async () => {
+    const report = await generateDiff({ base: reportFile, head: reportFile });
+
+    expect(report.diff.new.map((alert) => alert.number)).toEqual([2]);
+    expect(report.metadata).toEqual({ base: reportFile, head: reportFile });
+    expect(JSON.parse(report.content)).toHaveProperty('summary');
+    expect(Octokit).not.toHaveBeenCalled();
+  });
+
+  it('should skip snippets outside a git checkout', async () => {
+    const onWarning = vi.fn();
+
+    const { diff } = await generateDiff({ base: reportFile, head: reportFile, snippets: true });
+    await generateDiff({ base: reportFile, head: reportFile, snippets: true, onWarning });
+
+    expect(diff.new[0]).not.toHaveProperty('snippet');
+    expect(onWarning).toHaveBeenCalledWith(
+      '⚠️  The current directory is not a git checkout, skipping snippets',
+    );
+  });
+});
+
+describe('formatDiff', () => {
+  it('should reject report formats', () => {
+    const collection = {
+      diff: { new: [], fixed: [], unchanged: [] },
+      metadata: { base: 'main', head: 'feature' },
+    };
+
+    expect(() => formatDiff(collection, { format: 'csv' })).toThrow(
+      'Diffs support format json, sarif, txt, md, prompt, not csv',
+    );
+  });
+});
+
+describe('dismissAlerts and reopenAlerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Octokit).mockImplementation(class {} as never);
+    vi.mocked(parseRepositoryName).mockReturnValue({ owner: 'acme', repo: 'api' });
+    vi.mocked(fetchCodeQLAlerts).mockResolvedValue([{ ...mockAlert, number: 8 }]);
+  });
+
+  it('should pick the alerts matching a filter without changing them on a dry run', async () => {
+    const result = await reopenAlerts({
+      repo: 'acme/api',
+      token: 'api-token',
+      filter: { minSeverity: 'error' },
+      dryRun: true,
+    });
+
+    expect(fetchCodeQLAlerts).toHaveBeenCalledWith(
+      expect.anything(),
+      { owner: 'acme', repo: 'api' },
+      { minSeverity: 'error', state: 'dismissed' },
+    );
+    expect(result).toEqual({ updates: [{ number: 8, state: 'open' }], applied: [], failed: [] });
+    expect(updateAlerts).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{}, 'dismiss needs one of: numbers, filter or triage'],
+    [{ filter: { rules: [] } }, 'dismiss needs one of: numbers, filter or triage'],
+    [{ numbers: [3, 1.5, 0] }, 'Invalid alert number(s) 1.5, 0'],
+    [{ numbers: [3], reason: 'false positive' as const }, 'dismiss needs reason and comment'],
+  ])('should reject %j', async (options, message) => {
+    await expect(dismissAlerts({ repo: 'acme/api', ...options })).rejects.toThrow(message);
+    expect(Octokit).not.toHaveBeenCalled();
+  });
+});
+
+describe('package index', () => {
+  it('should export the API and formatters', () => {
+    expect(index.generateReport).toBe(generateReport);
+    expect(index.generateDiff).toBe(generateDiff);
+    expect(index.dismissAlerts).toBe(dismissAlerts);
+    expect(index.listFormatters().map((formatter) => formatter.name)).toContain('junit');
+    expect(index.registerFormatter).toBe(registerFormatter);
+    expect(typeof index.formatAsMarkdown).toBe('function');
+    expect(typeof index.applyAlertFilter).toBe('function');
+  });
+});
@@ -1,4 +1,4 @@
-import { execSync } from 'node:child_process';
+import { execFileSync } from 'node:child_process';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import { getGitHubToken } from '../lib/auth.js';
 
@@ -21,16 +21,16 @@ describe('getGitHubToken', () => {
   it('should fall back to gh CLI when GITHUB_TOKEN is not set', () => {
     delete process.env.GITHUB_TOKEN;
     // biome-ignore lint/suspicious/noExplicitAny: mocking requires any type
-    vi.mocked(execSync).mockReturnValue('test-token-from-gh\n' as any);
+    vi.mocked(execFileSync).mockReturnValue('test-token-from-gh\n' as any);
 
     const token = getGitHubToken();
     expect(token).toBe('test-token-from-gh');
-    expect(execSync).toHaveBeenCalledWith('gh auth token', { encoding: 'utf-8' });
+    expect(execFileSync).toHaveBeenCalledWith('gh', ['auth', 'token'], { encoding: 'utf-8' });
   });
 
   it('should throw error when neither GITHUB_TOKEN nor gh CLI are available', () => {
     delete process.env.GITHUB_TOKEN;
-    vi.mocked(execSync).mockImplementation(() => {
+    vi.mocked(execFileSync).mockImplementation(() => {
       throw new Error('gh not found');
     });
 
@@ -38,4 +38,57 @@ describe('getGitHubToken', () => {
       'GitHub token not found. Please set GITHUB_TOKEN environment variable or authenticate with `gh auth login`',
     );
   });
+
+  describe('enterprise hosts', () => {
+    const originalEnterpriseEnv = {
+      GH_ENTERPRISE_TOKEN: process.env.GH_ENTERPRISE_TOKEN,
+      GITHUB_ENTERPRISE_TOKEN: process.env.GITHUB_ENTERPRISE_TOKEN,
+    };
+
+    afterEach(() => {
+      for (const [name, value] of Object.entries(originalEnterpriseEnv)) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+    });
+
+    it('should use enterprise token environment variables', () => {
+      process.env.GITHUB_TOKEN = 'public-token';
+      delete process.env.GH_ENTERPRISE_TOKEN;
+      process.env.GITHUB_ENTERPRISE_TOKEN = 'enterprise-token';
+
+      expect(getGitHubToken('github.example.com')).toBe('enterprise-token');
+
+      process.env.GH_ENTERPRISE_TOKEN = 'gh-enterprise-token';
+      expect(getGitHubToken('github.example.com')).toBe('gh-enterprise-token');
+    });
+
+    it('should ask the gh CLI for the host token', () => {
+      delete process.env.GH_ENTERPRISE_TOKEN;
+      delete process.env.GITHUB_ENTERPRISE_TOKEN;
+      // biome-ignore lint/suspicious/noExplicitAny: mocking requires any type
+      vi.mocked(execFileSync).mockReturnValue('host-token\n' as any);
+
+      expect(getGitHubToken('github.example.com')).toBe('host-token');
+      expect(execFileSync).toHaveBeenCalledWith(
+        'gh',
+        ['auth', 'token', '--hostname', 'github.example.com'],
+        { encoding: 'utf-8' },
+      );
+    });
+
+    it('should throw a host specific error when no token is available', () => {
+      delete process.env.GH_ENTERPRISE_TOKEN;
+      delete process.env.GITHUB_ENTERPRISE_TOKEN;
+      // biome-ignore lint/suspicious/noExplicitAny: mocking requires any type
+      vi.mocked(execFileSync).mockReturnValue('\n' as any);
+
+      expect(() => getGitHubToken('github.example.com')).toThrow(
+        'GitHub token for github.example.com not found. Please set GH_ENTERPRISE_TOKEN environment variable or authenticate with `gh auth login --hostname github.example.com`',
+      );
+    });
+  });
 });
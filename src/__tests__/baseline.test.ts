@@ -0,0 +1,267 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  applyBaseline,
+  type Baseline,
+  baselineFingerprint,
+  createBaseline,
+  loadBaseline,
+  parseBaseline,
+  saveBaseline,
+  validateExpiry,
+} from '../lib/baseline.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+
+vi.mock('node:fs/promises');
+
+function alert(number: number, path: string, line: number, message = 'Potential SQL injection') {
+  return {
+    number,
+    rule: {
+      id: 'js/sql-injection',
+      severity: 'error',
+      description: 'SQL injection vulnerability',
+      name: 'SQL Injection',
+    },
+    most_recent_instance: {
+      ref: 'refs/heads/main',
+      analysis_key: 'test-analysis',
+      category: 'security',
+      state: 'open',
+      commit_sha: 'abc123',
+      message: { text: message },
+      location: { path, start_line: line, end_line: line, start_column: 1, end_column: 10 },
+    },
+    tool: { name: 'CodeQL', version: '2.0.0' },
+  } satisfies CodeQLAlert;
+}
+
+const dbAlert = alert(1, 'src/db.js', 10);
+const apiAlert = alert(2, 'lib/api.js', 4, 'Query built from user input');
+
+const baseline: Baseline = {
+  version: 1,
+  alerts: [
+    {
+      rule_id: 'js/sql-injection',
+      path: 'src/db.js',
+      fingerprint: baselineFingerprint(dbAlert),
+      reason: 'Input is validated upstream',
+    },
+  ],
+};
+
+describe('baselineFingerprint', () => {
+  it('should stay the same when the alert moves to another line', () => {
+    expect(baselineFingerprint(dbAlert)).toMatch(/^[0-9a-f]{16}$/);
+    expect(baselineFingerprint(alert(7, 'src/db.js', 42))).toBe(baselineFingerprint(dbAlert));
+  });
+
+  it('should differ per path and message', () => {
+    expect(baselineFingerprint(alert(1, 'src/other.js', 10))).not.toBe(
+      baselineFingerprint(dbAlert),
+    );
+    expect(baselineFingerprint(alert(1, 'src/db.js', 10, 'Other'))).not.toBe(
+      baselineFingerprint(dbAlert),
+    );
+  });
+});
+
+describe('createBaseline', () => {
+  it('should write one sorted entry per alert with the reason', () => {
+    const second = alert(3, 'src/db.js', 30);
+    const created = createBaseline([second, dbAlert, apiAlert], {
+      reason: 'Accepted',
+      expires: '2030-01-31',
+    });
+
+    expect(created).toEqual({
+      version: 1,
+      alerts: [
+        {
+          rule_id: 'js/sql-injection',
+          path: 'lib/api.js',
+          fingerprint: baselineFingerprint(apiAlert),
+          reason: 'Accepted',
+          expires: '2030-01-31',
+          message: 'Query built from user input',
+        },
+        {
+          rule_id: 'js/sql-injection',
+          path: 'src/db.js',
+          fingerprint: baselineFingerprint(second, 1),
+          reason: 'Accepted',
+          expires: '2030-01-31',
+          message: 'Potential SQL injection',
+        },
+        {
+          rule_id: 'js/sql-injection',
+          path: 'src/db.js',
+          fingerprint: baselineFingerprint(dbAlert),
+          reason: 'Accepted',
+          expires: '2030-01-31',
+          message: 'Potential SQL injection',
+        },
+      ],
+    });
+    expect(baselineFingerprint(second, 1)).not.toBe(baselineFingerprint(second));
+  });
+
+  it('should sort entries in the same file by rule', () => {
+    const xss = { ...dbAlert, rule: { ...dbAlert.rule, id: 'js/xss' } };
+    const created = createBaseline([xss, dbAlert], { reason: 'Accepted' });
+
+    expect(created.alerts.map((entry) => entry.rule_id)).toEqual(['js/sql-injection', 'js/xss']);
+    expect(created.alerts[0]).not.toHaveProperty('expires');
+  });
+
+  it('should keep the reason and expiry of existing entries', () => {
+    const previous: Baseline = {
+      version: 1,
+      alerts: [{ ...baseline.alerts[0], expires: '2029-06-30' }],
+    };
+    const created = createBaseline([dbAlert, apiAlert], { reason: 'New' }, previous);
+
+    expect(created.alerts[1]).toMatchObject({
+      reason: 'Input is validated upstream',
+      expires: '2029-06-30',
+    });
+    expect(created.alerts[0]).toMatchObject({ reason: 'New' });
+    expect(
+      createBaseline([dbAlert], { reason: 'New', expires: '2030-01-01' }, baseline).alerts[0],
+    ).not.toHaveProperty('expires');
+  });
+});
+
+describe('validateExpiry', () => {
+  it('should accept calendar dates only', () => {
+    expect(() => validateExpiry('2030-12-31')).not.toThrow();
+    expect(() => validateExpiry('31.12.2030')).toThrow(
+      'Invalid expiry date 31.12.2030, expected YYYY-MM-DD',
+    );
+    expect(() => validateExpiry('2030-13-45')).toThrow('Invalid expiry date 2030-13-45');
+  });
+});
+
+describe('parseBaseline', () => {
+  it('should accept a valid baseline', () => {
+    expect(parseBaseline(baseline, 'b.json')).toBe(baseline);
+  });
+
+  it.each([null, [], { version: 2, alerts: [] }, { version: 1 }, { version: 1, alerts: {} }])(
+    'should reject %j',
+    (data) => {
+      expect(() => parseBaseline(data, 'b.json')).toThrow(
+        'Invalid baseline file b.json: expected version 1 and a list of alerts',
+      );
+    },
+  );
+
+  it('should reject entries without a key or reason', () => {
+    const { reason: _, ...withoutReason } = baseline.alerts[0];
+
+    expect(() => parseBaseline({ version: 1, alerts: [withoutReason] }, 'b.yml')).toThrow(
+      'Invalid baseline file b.yml: alert 1 needs a rule_id, path, fingerprint and reason',
+    );
+    expect(() => parseBaseline({ version: 1, alerts: [null] }, 'b.yml')).toThrow('alert 1 needs');
+  });
+
+  it('should reject invalid expiry dates', () => {
+    const entry = { ...baseline.alerts[0], expires: 'soon' };
+
+    expect(() => parseBaseline({ version: 1, alerts: [entry] }, 'b.json')).toThrow(
+      'Invalid baseline file b.json: alert 1 expires on soon, expected YYYY-MM-DD',
+    );
+  });
+});
+
+describe('loadBaseline and saveBaseline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should round-trip JSON', async () => {
+    await saveBaseline('.codeql-baseline.json', baseline);
+    const [, content] = vi.mocked(writeFile).mock.calls[0];
+    expect(content).toBe(`${JSON.stringify(baseline, null, 2)}\n`);
+
+    vi.mocked(readFile).mockResolvedValue(content as string);
+    expect(await loadBaseline('.codeql-baseline.json')).toEqual(baseline);
+  });
+
+  it('should round-trip YAML', async () => {
+    const dated: Baseline = {
+      version: 1,
+      alerts: [{ ...baseline.alerts[0], expires: '2030-01-31' }],
+    };
+    await saveBaseline('baseline.YAML', dated);
+    const [path, content] = vi.mocked(writeFile).mock.calls[0];
+    expect(path).toBe('baseline.YAML');
+    expect(content).toContain('version: 1\nalerts:\n  - rule_id: js/sql-injection\n');
+
+    vi.mocked(readFile).mockResolvedValue(content as string);
+    expect(await loadBaseline('baseline.YAML')).toEqual(dated);
+  });
+
+  it('should read hand-written YAML with unquoted dates', async () => {
+    vi.mocked(readFile).mockResolvedValue(
+      [
+        'version: 1',
+        'alerts:',
+        '  - rule_id: js/xss',
+        '    path: src/view.js',
+        '    fingerprint: 0123456789abcdef',
+        '    reason: Escaped by the template engine',
+        '    expires: 2030-01-31',
+      ].join('\n'),
+    );
+
+    const loaded = await loadBaseline('baseline.yml');
+    expect(loaded.alerts[0].expires).toBe('2030-01-31');
+  });
+
+  it('should report files that cannot be parsed', async () => {
+    vi.mocked(readFile).mockResolvedValue('{ not json');
+
+    await expect(loadBaseline('b.json')).rejects.toThrow('Could not parse baseline file b.json:');
+  });
+});
+
+describe('applyBaseline', () => {
+  it('should leave out alerts listed in the baseline', () => {
+    const result = applyBaseline([dbAlert, apiAlert], baseline, '2030-01-01');
+
+    expect(result).toEqual({ alerts: [apiAlert], suppressed: 1, expired: [] });
+  });
+
+  it('should keep matching an alert after its line moves', () => {
+    const moved = alert(5, 'src/db.js', 99);
+
+    expect(applyBaseline([moved], baseline, '2030-01-01').suppressed).toBe(1);
+  });
+
+  it('should report new alerts with the same rule, path and message', () => {
+    const added = alert(5, 'src/db.js', 99);
+    const result = applyBaseline([added, dbAlert], baseline, '2030-01-01');
+
+    expect(result).toEqual({ alerts: [added], suppressed: 1, expired: [] });
+  });
+
+  it('should stop suppressing alerts after the expiry date', () => {
+    const entry = { ...baseline.alerts[0], expires: '2030-01-31' };
+    const dated: Baseline = { version: 1, alerts: [entry] };
+
+    expect(applyBaseline([dbAlert], dated, '2030-01-31').suppressed).toBe(1);
+    expect(applyBaseline([dbAlert], dated, '2030-02-01')).toEqual({
+      alerts: [dbAlert],
+      suppressed: 0,
+      expired: [entry],
+    });
+  });
+
+  it('should default to the current date', () => {
+    const entry = { ...baseline.alerts[0], expires: '2000-01-01' };
+
+    expect(applyBaseline([dbAlert], { version: 1, alerts: [entry] }).expired).toEqual([entry]);
+  });
+});
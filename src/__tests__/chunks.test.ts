@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { chunkAlerts, chunkPath, chunkSourceFiles, estimateTokens } from '../lib/chunks.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+
+function alert(number: number, path: string, ruleId = 'js/sql-injection'): CodeQLAlert {
+  return {
+    number,
+    rule: {
+      id: ruleId,
+      severity: 'error',
+      description: 'SQL injection vulnerability',
+      name: 'SQL Injection',
+    },
+    most_recent_instance: {
+      ref: 'refs/heads/main',
+      analysis_key: 'test-analysis',
+      category: 'security',
+      state: 'open',
+      commit_sha: 'abc123',
+      message: { text: 'Potential SQL injection' },
+      location: { path, start_line: 10, end_line: 12, start_column: 5, end_column: 20 },
+    },
+    tool: { name: 'CodeQL', version: '2.0.0' },
+  };
+}
+
+// A 40 token header plus 100 tokens per alert
+const render = (alerts: CodeQLAlert[]) => 'h'.repeat(160) + 'a'.repeat(400 * alerts.length);
+const numbers = (chunks: CodeQLAlert[][]) => chunks.map((chunk) => chunk.map((a) => a.number));
+
+describe('estimateTokens', () => {
+  it('should estimate four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('chunkAlerts', () => {
+  it('should return no chunks without alerts', () => {
+    expect(chunkAlerts([], 1000, render)).toEqual([]);
+  });
+
+  it('should keep everything in one chunk when it fits', () => {
+    const alerts = [alert(1, 'a.js'), alert(2, 'b.js')];
+    expect(numbers(chunkAlerts(alerts, 1000, render))).toEqual([[1, 2]]);
+  });
+
+  it('should keep alerts in the same file together', () => {
+    const alerts = [alert(1, 'a.js'), alert(2, 'b.js'), alert(3, 'a.js'), alert(4, 'c.js')];
+
+    // Room for two alerts per chunk
+    expect(numbers(chunkAlerts(alerts, 240, render))).toEqual([
+      [1, 3],
+      [2, 4],
+    ]);
+  });
+
+  it('should split a file that does not fit by rule, then by alert', () => {
+    const alerts = [
+      alert(1, 'a.js', 'js/xss'),
+      alert(2, 'a.js', 'js/sql-injection'),
+      alert(3, 'a.js', 'js/xss'),
+      alert(4, 'a.js', 'js/xss'),
+      alert(5, 'a.js', 'js/xss'),
+    ];
+
+    expect(numbers(chunkAlerts(alerts, 240, render))).toEqual([[1, 3], [4, 5], [2]]);
+  });
+
+  it('should split alerts without numbers one by one', () => {
+    const alerts = [alert(0, 'a.js'), alert(0, 'a.js'), alert(0, 'a.js')];
+    const chunks = chunkAlerts(alerts, 240, render);
+
+    expect(chunks.map((chunk) => chunk.length)).toEqual([2, 1]);
+    expect(chunks.flat()).toEqual(alerts);
+  });
+
+  it('should give an alert too large for the budget a chunk of its own', () => {
+    const alerts = [alert(1, 'a.js'), alert(2, 'b.js')];
+    expect(numbers(chunkAlerts(alerts, 100, render))).toEqual([[1], [2]]);
+  });
+
+  it('should not mix files of different repositories', () => {
+    const api = { ...alert(1, 'a.js'), repository: { full_name: 'acme/api' } };
+    const web = { ...alert(2, 'a.js'), repository: { full_name: 'acme/web' } };
+    const api2 = { ...alert(3, 'a.js'), repository: { full_name: 'acme/api' } };
+
+    expect(numbers(chunkAlerts([api, web, api2], 240, render))).toEqual([[1, 3], [2]]);
+  });
+});
+
+describe('chunkSourceFiles', () => {
+  it('should list distinct files, with repositories in grouped reports', () => {
+    expect(chunkSourceFiles([alert(1, 'a.js'), alert(2, 'a.js'), alert(3, 'b.js')])).toEqual([
+      'a.js',
+      'b.js',
+    ]);
+    expect(
+      chunkSourceFiles([{ ...alert(1, 'a.js'), repository: { full_name: 'acme/api' } }]),
+    ).toEqual(['acme/api:a.js']);
+  });
+});
+
+describe('chunkPath', () => {
+  it('should number chunks next to the index', () => {
+    expect(chunkPath('report.md', 2, 5)).toBe('report-2.md');
+    expect(chunkPath('out/report.txt', 2, 12)).toBe('out/report-02.txt');
+    expect(chunkPath('report', 1, 1)).toBe('report-1');
+  });
+});
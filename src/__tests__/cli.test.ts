@@ -1,26 +1,83 @@
-import { writeFile } from 'node:fs/promises';
+import type { Stats } from 'node:fs';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { Octokit } from 'octokit';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
 import { main } from '../cli.js';
-import { formatAsJSON } from '../formatters/json.js';
-import { formatAsMarkdown } from '../formatters/markdown.js';
-import { formatAsSARIF } from '../formatters/sarif.js';
-import { formatAsText } from '../formatters/text.js';
+import { formatAsCSV, validateColumns } from '../formatters/csv.js';
+import { formatAsHTML } from '../formatters/html.js';
+import { formatAsJSON, formatAsJSONLines, formatDiffAsJSON } from '../formatters/json.js';
+import { formatAsJUnit } from '../formatters/junit.js';
+import {
+  formatAsMarkdown,
+  formatChunkIndexAsMarkdown,
+  formatDiffAsMarkdown,
+} from '../formatters/markdown.js';
+import { formatAsPrompt, validatePromptTemplate } from '../formatters/prompt.js';
+import { formatAsSARIF, formatDiffAsSARIF } from '../formatters/sarif.js';
+import { validateReportTemplate } from '../formatters/template.js';
+import { formatAsText, formatChunkIndexAsText, formatDiffAsText } from '../formatters/text.js';
 import { getGitHubToken } from '../lib/auth.js';
+import {
+  applyBaseline,
+  type Baseline,
+  createBaseline,
+  loadBaseline,
+  saveBaseline,
+  validateExpiry,
+} from '../lib/baseline.js';
+import { attachCodeFlows } from '../lib/codeflows.js';
 import type { CodeQLAlert } from '../lib/codeql.js';
-import { fetchAllAlertsWithDetails } from '../lib/codeql.js';
-import { getGitHubRepoFromRemote } from '../lib/git.js';
+import {
+  fetchAllAlertsWithDetails,
+  fetchAllOrgAlertsWithDetails,
+  fetchCodeQLAlerts,
+  updateAlerts,
+} from '../lib/codeql.js';
+import { configForCommand, loadConfig } from '../lib/config.js';
+import { type AlertDiff, diffAlerts } from '../lib/diff.js';
+import { applyAlertFilter } from '../lib/filters.js';
+import { evaluateGate, formatGateSummary } from '../lib/gate.js';
+import {
+  getCurrentBranch,
+  getGitHubRepoFromRemote,
+  isGitCheckout,
+  normalizeRef,
+  parseGitHubUrl,
+  parseRepositoryName,
+  pullRequestRef,
+} from '../lib/git.js';
+import { loadReport, loadSARIF } from '../lib/reports.js';
+import { fetchRuleHelp } from '../lib/rules.js';
+import { attachSnippets } from '../lib/snippets.js';
+import { loadTriage } from '../lib/triage.js';
 
 // Mock all dependencies
 vi.mock('node:fs/promises');
 vi.mock('octokit');
 vi.mock('../lib/auth.js');
+vi.mock('../lib/baseline.js');
 vi.mock('../lib/git.js');
 vi.mock('../lib/codeql.js');
+vi.mock('../lib/snippets.js');
+vi.mock('../lib/codeflows.js');
+vi.mock('../lib/config.js');
+vi.mock('../lib/rules.js');
+vi.mock('../lib/diff.js');
+vi.mock('../lib/filters.js');
+vi.mock('../lib/gate.js');
+vi.mock('../lib/reports.js');
+vi.mock('../lib/triage.js');
+vi.mock('../formatters/csv.js');
+vi.mock('../formatters/html.js');
+vi.mock('../formatters/junit.js');
 vi.mock('../formatters/json.js');
 vi.mock('../formatters/text.js');
 vi.mock('../formatters/markdown.js');
+vi.mock('../formatters/prompt.js');
 vi.mock('../formatters/sarif.js');
+vi.mock('../formatters/template.js');
 
 const mockAlert: CodeQLAlert = {
   number: 1,
@@ -75,11 +132,25 @@ describe('CLI', () => {
       owner: 'test-owner',
       repo: 'test-repo',
     });
+    vi.mocked(parseRepositoryName).mockImplementation((name) => {
+      const [owner, repo] = name.split('/');
+      return { owner, repo };
+    });
+    vi.mocked(loadConfig).mockResolvedValue(undefined);
+    vi.mocked(configForCommand).mockImplementation((config) => config);
+    vi.mocked(isGitCheckout).mockResolvedValue(true);
+    vi.mocked(attachCodeFlows).mockImplementation(async (_octokit, alerts) => alerts);
+    vi.mocked(fetchRuleHelp).mockResolvedValue([]);
     vi.mocked(writeFile).mockResolvedValue(undefined);
     vi.mocked(formatAsJSON).mockReturnValue('{"mock":"json"}');
     vi.mocked(formatAsText).mockReturnValue('mock text');
     vi.mocked(formatAsMarkdown).mockReturnValue('# Mock Markdown');
     vi.mocked(formatAsSARIF).mockReturnValue('{"mock":"sarif"}');
+    vi.mocked(formatAsPrompt).mockReturnValue('# Mock Prompt');
+    vi.mocked(formatAsHTML).mockReturnValue('<html></html>');
+    vi.mocked(formatAsCSV).mockReturnValue('number\n1\n');
+    vi.mocked(formatAsJSONLines).mockReturnValue('{"number":1}\n');
+    vi.mocked(formatAsJUnit).mockReturnValue('<testsuites/>\n');
 
     // Mock Octokit constructor: a class is constructable and survives biome's
     // useArrowFunction lint (an arrow function can't be `new`ed).
@@ -103,13 +174,13 @@ describe('CLI', () => {
       expect(getGitHubToken).toHaveBeenCalled();
       expect(getGitHubRepoFromRemote).toHaveBeenCalled();
       expect(fetchAllAlertsWithDetails).toHaveBeenCalled();
-      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'medium');
+      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'medium', {});
       expect(writeFile).toHaveBeenCalledWith(
         expect.stringMatching(/code-scanning-report-.*\.json$/),
         '{"mock":"json"}',
         'utf-8',
       );
-      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('✅ Report saved to:'));
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('✅ Report saved to:'));
     });
 
     it('should generate SARIF report when format specified', async () => {
@@ -119,7 +190,7 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(formatAsSARIF).toHaveBeenCalledWith([mockAlert], 'test-owner/test-repo', 'medium');
+      expect(formatAsSARIF).toHaveBeenCalledWith([mockAlert], 'test-owner/test-repo', 'medium', {});
       expect(writeFile).toHaveBeenCalledWith(
         expect.stringMatching(/code-scanning-report-.*\.sarif$/),
         '{"mock":"sarif"}',
@@ -134,7 +205,12 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(formatAsText).toHaveBeenCalledWith([mockAlert], 'medium');
+      expect(formatAsText).toHaveBeenCalledWith(
+        [mockAlert],
+        'medium',
+        {},
+        { repoName: 'test-owner/test-repo', template: undefined },
+      );
       expect(writeFile).toHaveBeenCalledWith(
         expect.stringMatching(/code-scanning-report-.*\.txt$/),
         'mock text',
@@ -149,7 +225,13 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(formatAsMarkdown).toHaveBeenCalledWith([mockAlert], 'test-owner/test-repo', 'medium');
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        { template: undefined },
+      );
       expect(writeFile).toHaveBeenCalledWith(
         expect.stringMatching(/code-scanning-report-.*\.md$/),
         '# Mock Markdown',
@@ -174,7 +256,7 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'minimum');
+      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'minimum', {});
     });
 
     it('should use full detail level when specified', async () => {
@@ -184,7 +266,7 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'full');
+      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'full', { rules: [] });
     });
 
     it('should use raw detail level when specified', async () => {
@@ -194,22 +276,2447 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'raw');
+      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'raw', {});
     });
   });
 
-  describe('no alerts found (celebration)', () => {
-    it('should celebrate and exit with 0 when no alerts found', async () => {
+  describe('alert filters', () => {
+    it('should fetch open alerts without filters by default', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        { owner: 'test-owner', repo: 'test-repo' },
+        expect.objectContaining({ state: 'open', minSeverity: undefined, rules: undefined }),
+        expect.anything(),
+      );
+    });
+
+    it('should pass filter options to the fetch', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--state',
+        'all',
+        '--min-severity',
+        'warning',
+        '--rule',
+        'js/*',
+        'py/*',
+        '--exclude-rule',
+        'js/xss',
+        '--tool',
+        'CodeQL',
+        '--path',
+        'src/**',
+        '--exclude-path',
+        'src/vendor/**',
+      ];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+      expect(exitCode).toBe(0);
+
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        {
+          state: 'all',
+          minSeverity: 'warning',
+          toolName: 'CodeQL',
+          rules: ['js/*', 'py/*'],
+          excludeRules: ['js/xss'],
+          paths: ['src/**'],
+          excludePaths: ['src/vendor/**'],
+        },
+        expect.anything(),
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Found 1 alert(s)');
+    });
+
+    it('should label the found count with the requested state', async () => {
+      process.argv = ['node', 'cli.js', '--state', 'dismissed'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Found 1 dismissed alert(s)');
+    });
+  });
+
+  describe('ref scoping', () => {
+    it('should not scope to a ref by default', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ ref: undefined }),
+        expect.anything(),
+      );
+      expect(getCurrentBranch).not.toHaveBeenCalled();
+    });
+
+    it('should scope to the given ref', async () => {
+      process.argv = ['node', 'cli.js', '--ref', 'develop', '--format', 'md'];
+      vi.mocked(normalizeRef).mockReturnValue('refs/heads/develop');
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+      expect(exitCode).toBe(0);
+
+      expect(normalizeRef).toHaveBeenCalledWith('develop');
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ ref: 'refs/heads/develop' }),
+        expect.anything(),
+      );
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        { ref: 'refs/heads/develop' },
+        { template: undefined },
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Ref: refs/heads/develop');
+    });
+
+    it('should scope to a pull request', async () => {
+      process.argv = ['node', 'cli.js', '--pr', '42', '--format', 'txt'];
+      vi.mocked(pullRequestRef).mockReturnValue('refs/pull/42/merge');
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+      expect(exitCode).toBe(0);
+
+      expect(pullRequestRef).toHaveBeenCalledWith(42);
+      expect(formatAsText).toHaveBeenCalledWith(
+        [mockAlert],
+        'medium',
+        { ref: 'refs/pull/42/merge' },
+        { repoName: 'test-owner/test-repo', template: undefined },
+      );
+    });
+
+    it('should scope to the current branch', async () => {
+      process.argv = ['node', 'cli.js', '--current-branch', '--format', 'sarif'];
+      vi.mocked(getCurrentBranch).mockResolvedValue('feature/login');
+      vi.mocked(normalizeRef).mockReturnValue('refs/heads/feature/login');
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+      expect(exitCode).toBe(0);
+
+      expect(normalizeRef).toHaveBeenCalledWith('feature/login');
+      expect(formatAsSARIF).toHaveBeenCalledWith([mockAlert], 'test-owner/test-repo', 'medium', {
+        ref: 'refs/heads/feature/login',
+      });
+    });
+
+    it('should fail when the current branch cannot be detected', async () => {
+      process.argv = ['node', 'cli.js', '--current-branch'];
+      vi.mocked(getCurrentBranch).mockRejectedValue(new Error('HEAD is detached'));
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('❌ Error: HEAD is detached');
+    });
+  });
+
+  describe('alert detail fetching', () => {
+    it('should pass concurrency, retry and partial options', async () => {
+      process.argv = ['node', 'cli.js', '--concurrency', '2', '--retries', '5', '--partial'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ concurrency: 2, retries: 5, partial: true }),
+      );
+    });
+
+    it('should default to five concurrent requests without partial results', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ concurrency: 5, retries: 3, partial: false }),
+      );
+    });
+
+    it.each([
+      [['--concurrency', 'abc'], '--concurrency must be a positive integer'],
+      [['--concurrency', '0'], '--concurrency must be a positive integer'],
+      [['--retries', '-1'], '--retries must be a non-negative integer'],
+      [['--retries', '1.5'], '--retries must be a non-negative integer'],
+    ])('should reject %j', async (args, message) => {
+      process.argv = ['node', 'cli.js', ...args];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`❌ Error: ${message}`);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+
+    it('should reject a concurrency from the environment that is not a number', async () => {
+      vi.stubEnv('CODEQL_REPORT_CONCURRENCY', 'abc');
+      process.argv = ['node', 'cli.js'];
+
+      try {
+        expect(await main()).toBe(1);
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          '❌ Error: --concurrency must be a positive integer',
+        );
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it('should allow turning retries off', async () => {
+      process.argv = ['node', 'cli.js', '--retries', '0'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ retries: 0 }),
+      );
+    });
+
+    it('should report alerts whose details could not be fetched', async () => {
+      process.argv = ['node', 'cli.js', '--partial', '--format', 'md'];
+      vi.mocked(fetchAllAlertsWithDetails).mockImplementation(
+        async (_octokit, repo, _filter, options) => {
+          options?.onFailure?.(7, new Error('Not Found'), repo);
+          options?.onFailure?.(3, new Error('Not Found'), repo);
+          return [mockAlert];
+        },
+      );
+
+      const exitCode = await main();
+      expect(exitCode).toBe(0);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  Could not fetch details for 2 alert(s): #3, #7',
+      );
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        { failedAlerts: [3, 7] },
+        { template: undefined },
+      );
+    });
+
+    it('should show progress only on interactive terminals', async () => {
       process.argv = ['node', 'cli.js'];
+      const writeSpy = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const originalIsTTY = process.stderr.isTTY;
+      vi.mocked(fetchAllAlertsWithDetails).mockImplementation(
+        async (_octokit, _repo, _filter, options) => {
+          options?.onProgress?.(1, 2);
+          options?.onProgress?.(2, 2);
+          return [mockAlert];
+        },
+      );
+
+      try {
+        process.stderr.isTTY = false;
+        await main();
+        expect(writeSpy).not.toHaveBeenCalled();
+
+        process.stderr.isTTY = true;
+        await main();
+        expect(writeSpy).toHaveBeenCalledWith('\r   Fetched details for 1/2 alert(s)');
+        expect(writeSpy).toHaveBeenCalledWith('\r   Fetched details for 2/2 alert(s)');
+        expect(writeSpy).toHaveBeenCalledWith('\n');
+      } finally {
+        process.stderr.isTTY = originalIsTTY;
+      }
+    });
+  });
+
+  describe('stdout output', () => {
+    type WriteCallback = (error?: Error | null) => void;
+
+    function mockStdout(error?: NodeJS.ErrnoException) {
+      return vi.spyOn(process.stdout, 'write').mockImplementation(((
+        _data: string,
+        callback: WriteCallback,
+      ) => {
+        callback(error);
+        return true;
+      }) as typeof process.stdout.write);
+    }
+
+    it('should stream the report to stdout with --output -', async () => {
+      process.argv = ['node', 'cli.js', '--output', '-'];
+      const writeSpy = mockStdout();
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      try {
+        const exitCode = await main();
+
+        expect(exitCode).toBe(0);
+        expect(writeSpy).toHaveBeenCalledWith('{"mock":"json"}\n', expect.any(Function));
+        expect(writeFile).not.toHaveBeenCalled();
+        expect(consoleLogSpy).not.toHaveBeenCalled();
+        expect(consoleErrorSpy).toHaveBeenCalledWith('🔐 Authenticating with GitHub...');
+      } finally {
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should not add a second trailing newline', async () => {
+      process.argv = ['node', 'cli.js', '--output', '-', '--format', 'txt'];
+      const writeSpy = mockStdout();
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(formatAsText).mockReturnValue('mock text\n');
+
+      try {
+        await main();
+        expect(writeSpy).toHaveBeenCalledWith('mock text\n', expect.any(Function));
+      } finally {
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should write empty reports to stdout', async () => {
+      process.argv = ['node', 'cli.js', '-o', '-', '-f', 'jsonl'];
+      const writeSpy = mockStdout();
       vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([]);
+      vi.mocked(formatAsJSONLines).mockReturnValue('');
+
+      try {
+        expect(await main()).toBe(0);
+        expect(writeSpy).toHaveBeenCalledWith('', expect.any(Function));
+      } finally {
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should treat a closed pipe as done', async () => {
+      process.argv = ['node', 'cli.js', '-o', '-'];
+      const writeSpy = mockStdout(Object.assign(new Error('write EPIPE'), { code: 'EPIPE' }));
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      try {
+        expect(await main()).toBe(0);
+        expect(await main()).toBe(0);
+        // The stream also emits the error, which would crash the process without a listener
+        expect(process.stdout.listenerCount('error')).toBe(1);
+        expect(() =>
+          process.stdout.emit('error', Object.assign(new Error('write EPIPE'), { code: 'EPIPE' })),
+        ).not.toThrow();
+        expect(() =>
+          process.stdout.emit('error', Object.assign(new Error('write EIO'), { code: 'EIO' })),
+        ).toThrow('write EIO');
+      } finally {
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should fail on other stdout errors', async () => {
+      process.argv = ['node', 'cli.js', '-o', '-'];
+      const writeSpy = mockStdout(Object.assign(new Error('write EIO'), { code: 'EIO' }));
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      try {
+        expect(await main()).toBe(1);
+        expect(consoleErrorSpy).toHaveBeenCalledWith('❌ Error: write EIO');
+      } finally {
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should keep progress off stdout when writing a file', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^✅ Report saved to: code-scanning-report-/),
+      );
+    });
+
+    it('should suppress progress but keep warnings with --quiet', async () => {
+      process.argv = ['node', 'cli.js', '--quiet', '--partial'];
+      const writeSpy = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const originalIsTTY = process.stderr.isTTY;
+      vi.mocked(fetchAllAlertsWithDetails).mockImplementation(
+        async (_octokit, repo, _filter, options) => {
+          options?.onProgress?.(1, 1);
+          options?.onFailure?.(3, new Error('Not Found'), repo);
+          return [mockAlert];
+        },
+      );
+
+      try {
+        process.stderr.isTTY = true;
+        const exitCode = await main();
+
+        expect(exitCode).toBe(0);
+        expect(writeSpy).not.toHaveBeenCalled();
+        expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          '⚠️  Could not fetch details for 1 alert(s): #3',
+        );
+      } finally {
+        process.stderr.isTTY = originalIsTTY;
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should still report errors with --quiet', async () => {
+      process.argv = ['node', 'cli.js', '-q'];
+      vi.mocked(getGitHubRepoFromRemote).mockRejectedValue(new Error('No remote'));
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('❌ Error: No remote');
+    });
+  });
+
+  describe('token budget chunks', () => {
+    const otherAlert = {
+      ...mockAlert,
+      number: 2,
+      most_recent_instance: {
+        ...mockAlert.most_recent_instance,
+        location: { ...mockAlert.most_recent_instance.location, path: 'src/other.js' },
+      },
+    };
+
+    beforeEach(() => {
+      // 25 estimated tokens per alert
+      vi.mocked(formatAsMarkdown).mockImplementation((alerts) => 'x'.repeat(100 * alerts.length));
+      vi.mocked(formatAsText).mockImplementation((alerts) => 'x'.repeat(100 * alerts.length));
+      vi.mocked(formatChunkIndexAsMarkdown).mockReturnValue('# Mock Index');
+      vi.mocked(formatChunkIndexAsText).mockReturnValue('mock index');
+    });
+
+    it('should write numbered chunk files and an index', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'md', '--max-tokens', '30', '-o', 'report.md'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert, otherAlert]);
 
       const exitCode = await main();
 
       expect(exitCode).toBe(0);
-      expect(consoleLogSpy).toHaveBeenCalledWith(
-        '🎉 No CodeQL alerts found! Your repository is clean!',
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        { chunk: { index: 1, total: 2, totalAlerts: 2 } },
+        { template: undefined },
+      );
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [otherAlert],
+        'test-owner/test-repo',
+        'medium',
+        { chunk: { index: 2, total: 2, totalAlerts: 2 } },
+        { template: undefined },
+      );
+      expect(writeFile).toHaveBeenCalledWith('report-1.md', 'x'.repeat(100), 'utf-8');
+      expect(writeFile).toHaveBeenCalledWith('report-2.md', 'x'.repeat(100), 'utf-8');
+      expect(formatChunkIndexAsMarkdown).toHaveBeenCalledWith(
+        [
+          { file: 'report-1.md', alerts: [mockAlert], tokens: 25 },
+          { file: 'report-2.md', alerts: [otherAlert], tokens: 25 },
+        ],
+        'test-owner/test-repo',
+        'medium',
+        30,
+        {},
+      );
+      expect(writeFile).toHaveBeenCalledWith('report.md', '# Mock Index', 'utf-8');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '✅ Report split into 2 chunk(s), index saved to: report.md',
+      );
+    });
+
+    it('should put the index at the default path', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'md', '--max-tokens', '1000'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      const paths = vi.mocked(writeFile).mock.calls.map(([path]) => path);
+      expect(paths).toEqual([
+        expect.stringMatching(/^code-scanning-report-.*-1\.md$/),
+        expect.stringMatching(/^code-scanning-report-.*Z\.md$/),
+      ]);
+    });
+
+    it('should only summarize the repositories of each text chunk', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--repo',
+        'acme/api',
+        '--repo',
+        'acme/web',
+        '-f',
+        'txt',
+        '--max-tokens',
+        '1000',
+        '-o',
+        'report.txt',
+      ];
+      vi.mocked(fetchAllAlertsWithDetails)
+        .mockResolvedValueOnce([mockAlert])
+        .mockResolvedValueOnce([]);
+      const alert = { ...mockAlert, repository: { full_name: 'acme/api' } };
+
+      await main();
+
+      expect(formatAsText).toHaveBeenLastCalledWith(
+        [alert],
+        'medium',
+        {
+          ref: undefined,
+          repositories: [{ name: 'acme/api' }],
+          chunk: { index: 1, total: 1, totalAlerts: 1 },
+        },
+        { repoName: 'acme/api, acme/web', template: undefined },
+      );
+      expect(formatChunkIndexAsText).toHaveBeenCalledWith(
+        [{ file: 'report-1.txt', alerts: [alert], tokens: 25 }],
+        'medium',
+        1000,
+        { ref: undefined, repositories: [{ name: 'acme/api' }, { name: 'acme/web' }] },
+      );
+      expect(writeFile).toHaveBeenCalledWith('report.txt', 'mock index', 'utf-8');
+    });
+
+    it('should warn about chunks over the budget', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'md', '--max-tokens', '10', '-o', 'report.md'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert, otherAlert]);
+
+      await main();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  2 chunk(s) exceed 10 tokens, a single alert does not fit the budget',
+      );
+    });
+
+    it('should fill chunks in report order', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '-f',
+        'md',
+        '--max-tokens',
+        '30',
+        '--sort-by',
+        'number',
+        '-o',
+        'report.md',
+      ];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([otherAlert, mockAlert]);
+
+      await main();
+
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {
+          order: { sortBy: 'number' },
+          chunk: { index: 1, total: 2, totalAlerts: 2 },
+        },
+        { template: undefined },
+      );
+    });
+
+    it.each([
+      [['--max-tokens', '0', '-f', 'md'], '--max-tokens must be a positive integer'],
+      [['--max-tokens', '1.5', '-f', 'md'], '--max-tokens must be a positive integer'],
+      [['--max-tokens', '100'], '--max-tokens requires --format md or txt'],
+      [
+        ['--max-tokens', '100', '-f', 'md', '-o', '-'],
+        '--max-tokens writes several files and cannot be combined with --output -',
+      ],
+      [
+        ['diff', 'a.json', 'b.json', '--max-tokens', '100', '-f', 'md'],
+        '--max-tokens is only supported for reports, not diffs',
+      ],
+    ])('should reject %j', async (args, message) => {
+      process.argv = ['node', 'cli.js', ...args];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`❌ Error: ${message}`);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-repository reports', () => {
+    it('should report on a single repository given with --repo', async () => {
+      process.argv = ['node', 'cli.js', '--repo', 'other/repo', '--format', 'md'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubRepoFromRemote).not.toHaveBeenCalled();
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        { owner: 'other', repo: 'repo' },
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'other/repo',
+        'medium',
+        {},
+        { template: undefined },
+      );
+    });
+
+    it('should group alerts from several repositories', async () => {
+      process.argv = ['node', 'cli.js', '--repo', 'acme/api', '--repo', 'acme/web', '--partial'];
+      vi.mocked(fetchAllAlertsWithDetails)
+        .mockImplementationOnce(async (_octokit, repo, _filter, options) => {
+          options?.onFailure?.(4, new Error('Not Found'), repo);
+          return [mockAlert];
+        })
+        .mockResolvedValueOnce([]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledTimes(2);
+      expect(formatAsJSON).toHaveBeenCalledWith(
+        [{ ...mockAlert, repository: { full_name: 'acme/api' } }],
+        'medium',
+        {
+          repositories: [{ name: 'acme/api', failedAlerts: [4] }, { name: 'acme/web' }],
+        },
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '   Found 1 open alert(s) across 2 repositories',
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  Could not fetch details for 1 alert(s): acme/api#4',
+      );
+    });
+
+    it('should fetch organization alerts', async () => {
+      process.argv = ['node', 'cli.js', '--org', 'acme', '--format', 'txt', '--snippets'];
+      const alerts = [
+        { ...mockAlert, repository: { full_name: 'acme/web' } },
+        { ...mockAlert, repository: { full_name: 'acme/api' } },
+      ];
+      vi.mocked(fetchAllOrgAlertsWithDetails).mockResolvedValue(alerts);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubRepoFromRemote).not.toHaveBeenCalled();
+      expect(fetchAllOrgAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        'acme',
+        expect.objectContaining({ state: 'open' }),
+        expect.anything(),
+      );
+      expect(attachSnippets).not.toHaveBeenCalled();
+      expect(formatAsText).toHaveBeenCalledWith(
+        alerts,
+        'medium',
+        {
+          organization: 'acme',
+          repositories: [{ name: 'acme/api' }, { name: 'acme/web' }],
+        },
+        { repoName: 'acme', template: undefined },
+      );
+    });
+
+    it('should celebrate organizations without alerts', async () => {
+      process.argv = ['node', 'cli.js', '--org', 'acme'];
+      vi.mocked(fetchAllOrgAlertsWithDetails).mockResolvedValue([]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '🎉 No CodeQL alerts found! Your repositories are clean!',
+      );
+    });
+
+    it('should reject invalid repository names', async () => {
+      process.argv = ['node', 'cli.js', '--repo', 'not-a-repo'];
+      vi.mocked(parseRepositoryName).mockImplementation(() => {
+        throw new Error('Invalid repository: not-a-repo. Expected owner/name');
+      });
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Invalid repository: not-a-repo. Expected owner/name',
+      );
+    });
+  });
+
+  describe('GitHub Enterprise Server', () => {
+    it('should use the host of the repository remote', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'md'];
+      vi.mocked(getGitHubRepoFromRemote).mockResolvedValue({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        host: 'github.example.com',
+      });
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubToken).toHaveBeenCalledWith('github.example.com');
+      expect(Octokit).toHaveBeenCalledWith({
+        auth: 'test-token',
+        baseUrl: 'https://github.example.com/api/v3',
+        retry: { enabled: false },
+        throttle: { enabled: false },
+      });
+      expect(consoleErrorSpy).toHaveBeenCalledWith('🔐 Authenticating with github.example.com...');
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        { host: 'github.example.com' },
+        { template: undefined },
+      );
+    });
+
+    it('should match remotes against the API URL host', async () => {
+      process.argv = ['node', 'cli.js', '--api-url', 'https://ghe.internal/api/v3/'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubRepoFromRemote).toHaveBeenCalledWith(
+        undefined,
+        expect.arrayContaining(['github.com', 'ghe.internal']),
+      );
+      expect(getGitHubToken).toHaveBeenCalledWith('ghe.internal');
+      expect(Octokit).toHaveBeenCalledWith({
+        auth: 'test-token',
+        baseUrl: 'https://ghe.internal/api/v3',
+        retry: { enabled: false },
+        throttle: { enabled: false },
+      });
+    });
+
+    it('should use the public API for github.com', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(getGitHubToken).toHaveBeenCalledWith('github.com');
+      expect(Octokit).toHaveBeenCalledWith({
+        auth: 'test-token',
+        baseUrl: 'https://api.github.com',
+        retry: { enabled: false },
+        throttle: { enabled: false },
+      });
+    });
+
+    it('should include the host in organization reports', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--org',
+        'acme',
+        '--api-url',
+        'https://ghe.internal/api/v3',
+      ];
+      vi.mocked(fetchAllOrgAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(getGitHubRepoFromRemote).not.toHaveBeenCalled();
+      expect(formatAsJSON).toHaveBeenCalledWith(
+        [mockAlert],
+        'medium',
+        expect.objectContaining({ host: 'ghe.internal', organization: 'acme' }),
+      );
+    });
+  });
+
+  describe('code flows', () => {
+    it('should only fetch code flows at full detail', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(attachCodeFlows).not.toHaveBeenCalled();
+    });
+
+    it('should attach code flows for the report ref', async () => {
+      process.argv = ['node', 'cli.js', '--detail', 'full', '--ref', 'main', '--concurrency', '2'];
+      const withFlows = { ...mockAlert, code_flows: [] };
+      vi.mocked(normalizeRef).mockReturnValue('refs/heads/main');
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert, mockAlert]);
+      vi.mocked(attachCodeFlows).mockResolvedValue([withFlows, mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(attachCodeFlows).toHaveBeenCalledWith(
+        expect.anything(),
+        [mockAlert, mockAlert],
+        expect.any(Function),
+        { concurrency: 2, retries: 3, ref: 'refs/heads/main' },
+      );
+      const repoOf = vi.mocked(attachCodeFlows).mock.calls[0][2];
+      expect(repoOf(mockAlert)).toEqual({ owner: 'test-owner', repo: 'test-repo' });
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Found code flows for 1 alert(s)');
+      expect(formatAsJSON).toHaveBeenCalledWith([withFlows, mockAlert], 'full', {
+        ref: 'refs/heads/main',
+        rules: [],
+      });
+    });
+
+    it('should look up code flows in each alert repository', async () => {
+      process.argv = ['node', 'cli.js', '--org', 'acme', '--detail', 'full'];
+      vi.mocked(fetchAllOrgAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      const repoOf = vi.mocked(attachCodeFlows).mock.calls[0][2];
+      expect(repoOf({ ...mockAlert, repository: { full_name: 'acme/api' } })).toEqual({
+        owner: 'acme',
+        repo: 'api',
+      });
+    });
+  });
+
+  describe('rule help', () => {
+    const rule = {
+      id: mockAlert.rule.id,
+      name: mockAlert.rule.name,
+      severity: mockAlert.rule.severity,
+      description: mockAlert.rule.description,
+      help: '# Help',
+    };
+
+    it('should only fetch rule help at full detail', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'md'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(fetchRuleHelp).not.toHaveBeenCalled();
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        { template: undefined },
+      );
+    });
+
+    it('should pass fetched rules to the formatter', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'md', '--detail', 'full', '--retries', '1'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(fetchRuleHelp).mockResolvedValue([rule]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(fetchRuleHelp).toHaveBeenCalledWith(
+        expect.anything(),
+        [mockAlert],
+        expect.any(Function),
+        { concurrency: 5, retries: 1 },
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Found help for 1 of 1 rule(s)');
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'full',
+        { rules: [rule] },
+        { template: undefined },
+      );
+    });
+
+    it('should include rules in grouped report metadata', async () => {
+      process.argv = ['node', 'cli.js', '--org', 'acme', '--detail', 'full'];
+      const alert = { ...mockAlert, repository: { full_name: 'acme/api' } };
+      vi.mocked(fetchAllOrgAlertsWithDetails).mockResolvedValue([alert]);
+      vi.mocked(fetchRuleHelp).mockResolvedValue([rule]);
+
+      await main();
+
+      expect(formatAsJSON).toHaveBeenCalledWith(
+        [alert],
+        'full',
+        expect.objectContaining({ organization: 'acme', rules: [rule] }),
+      );
+    });
+  });
+
+  describe('html format', () => {
+    it('should write a self-contained HTML report', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'html', '--detail', 'minimum'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      expect(await main()).toBe(0);
+      expect(formatAsHTML).toHaveBeenCalledWith([mockAlert], 'test-owner/test-repo', 'minimum', {});
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.html$/),
+        '<html></html>',
+        'utf-8',
+      );
+    });
+
+    it('should reject HTML diffs before comparing', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json', '--format', 'html'];
+
+      expect(await main()).toBe(1);
+      expect(loadReport).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Diffs support --format json, sarif, txt, md, prompt, not html',
+      );
+    });
+  });
+
+  describe('csv and jsonl formats', () => {
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+    });
+
+    it('should write CSV with the detail level columns', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'csv'];
+
+      expect(await main()).toBe(0);
+      expect(validateColumns).not.toHaveBeenCalled();
+      expect(formatAsCSV).toHaveBeenCalledWith([mockAlert], 'medium', {}, {});
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.csv$/),
+        'number\n1\n',
+        'utf-8',
+      );
+    });
+
+    it('should split repeated and comma separated columns', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '-f',
+        'csv',
+        '--columns',
+        'number, file_path',
+        '--columns',
+        'severity,',
+      ];
+
+      expect(await main()).toBe(0);
+      expect(validateColumns).toHaveBeenCalledWith(['number', 'file_path', 'severity']);
+      expect(formatAsCSV).toHaveBeenCalledWith(
+        [mockAlert],
+        'medium',
+        {},
+        { columns: ['number', 'file_path', 'severity'] },
+      );
+    });
+
+    it('should reject unknown columns before fetching alerts', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'csv', '--columns', 'path'];
+      vi.mocked(validateColumns).mockImplementation(() => {
+        throw new Error('Unknown CSV column(s) path');
+      });
+
+      expect(await main()).toBe(1);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('❌ Error: Unknown CSV column(s) path');
+    });
+
+    it('should ignore columns for other formats', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'json', '--columns', 'path'];
+
+      expect(await main()).toBe(0);
+      expect(validateColumns).not.toHaveBeenCalled();
+    });
+
+    it('should reject CSV diffs before comparing', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json', '-f', 'csv'];
+
+      expect(await main()).toBe(1);
+      expect(loadReport).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Diffs support --format json, sarif, txt, md, prompt, not csv',
+      );
+    });
+
+    it('should write JSON Lines', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'jsonl', '--detail', 'full'];
+
+      expect(await main()).toBe(0);
+      expect(formatAsJSONLines).toHaveBeenCalledWith([mockAlert], 'full', { rules: [] });
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.jsonl$/),
+        '{"number":1}\n',
+        'utf-8',
+      );
+    });
+  });
+
+  describe('junit format', () => {
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+    });
+
+    it('should write JUnit XML failing on warnings by default', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'junit'];
+
+      expect(await main()).toBe(0);
+      expect(formatAsJUnit).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        {
+          failOn: 'warning',
+        },
+      );
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.junit\.xml$/),
+        '<testsuites/>\n',
+        'utf-8',
+      );
+    });
+
+    it('should write a report on clean runs for CI test reporters', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'junit', '-o', 'codeql.xml'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([]);
+
+      expect(await main()).toBe(0);
+      expect(formatAsJUnit).toHaveBeenCalledWith(
+        [],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        {
+          failOn: 'warning',
+        },
+      );
+      expect(writeFile).toHaveBeenCalledWith('codeql.xml', '<testsuites/>\n', 'utf-8');
+    });
+
+    it('should pass the failure threshold', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '-f',
+        'junit',
+        '--junit-fail-on',
+        'error',
+        '-o',
+        'codeql.xml',
+      ];
+
+      expect(await main()).toBe(0);
+      expect(formatAsJUnit).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        {
+          failOn: 'error',
+        },
+      );
+      expect(writeFile).toHaveBeenCalledWith('codeql.xml', '<testsuites/>\n', 'utf-8');
+    });
+  });
+
+  describe('formatter modules', () => {
+    // Formatter modules are imported from disk, so they are written with the real file system
+    const fs = vi.importActual<typeof import('node:fs/promises')>('node:fs/promises');
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await (await fs).mkdtemp(join(tmpdir(), 'codeql-cli-formatters-'));
+    });
+
+    afterAll(async () => {
+      await (await fs).rm(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+    });
+
+    async function writeFormatterModule(name: string, source: string): Promise<string> {
+      const path = join(dir, name);
+      await (await fs).writeFile(path, source, 'utf-8');
+      return path;
+    }
+
+    it('should write reports in a format of a formatter module', async () => {
+      const path = await writeFormatterModule(
+        'rules.mjs',
+        `export default {
+          name: 'rules',
+          extension: 'rules.txt',
+          detailLevels: ['minimum', 'medium'],
+          format: (alerts) => alerts.map((alert) => alert.rule.id).join('\\n'),
+        };`,
+      );
+      process.argv = ['node', 'cli.js', '--formatter-module', path, '--format', 'rules'];
+
+      expect(await main()).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`🧩 Loaded format(s) rules from ${path}`);
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.rules\.txt$/),
+        'js/sql-injection',
+        'utf-8',
+      );
+    });
+
+    it('should reject detail levels the format does not render before fetching', async () => {
+      const path = await writeFormatterModule(
+        'brief.mjs',
+        `export default {
+          name: 'brief',
+          extension: 'brief.txt',
+          detailLevels: ['minimum'],
+          format: () => '',
+        };`,
+      );
+      process.argv = ['node', 'cli.js', '--formatter-module', path, '-f', 'brief', '-d', 'full'];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Format brief does not support the full detail level, only minimum',
+      );
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown formats before fetching', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'pdf'];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('❌ Error: Unknown format pdf, available: json, sarif, txt'),
+      );
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+
+    it('should report formatter modules that cannot be loaded', async () => {
+      process.argv = ['node', 'cli.js', '--formatter-module', 'missing-formatter.mjs'];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('❌ Error: Could not load formatter module missing-formatter.mjs:'),
+      );
+    });
+  });
+
+  describe('alert ordering', () => {
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+    });
+
+    it('should pass grouping and sorting to the formatter', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'md', '--group-by', 'rule', '--sort-by', 'severity'];
+
+      expect(await main()).toBe(0);
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        { order: { groupBy: 'rule', sortBy: 'severity' } },
+        { template: undefined },
+      );
+    });
+
+    it('should include the ordering in grouped report metadata', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--repo',
+        'acme/api',
+        '--repo',
+        'acme/web',
+        '--group-by',
+        'file',
+      ];
+
+      expect(await main()).toBe(0);
+      expect(formatAsJSON).toHaveBeenCalledWith(
+        expect.anything(),
+        'medium',
+        expect.objectContaining({ order: { groupBy: 'file' } }),
+      );
+    });
+  });
+
+  describe('prompt format', () => {
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+    });
+
+    it('should write one task per file to a .prompt.md file', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'prompt'];
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(readFile).not.toHaveBeenCalled();
+      expect(formatAsPrompt).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        { groupBy: 'file' },
+      );
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.prompt\.md$/),
+        '# Mock Prompt',
+        'utf-8',
+      );
+    });
+
+    it('should read a custom template and group per alert', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--format',
+        'prompt',
+        '--prompt-group',
+        'alert',
+        '--prompt-template',
+        'task.md',
+      ];
+      vi.mocked(readFile).mockResolvedValue('Fix {{alerts}}');
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(readFile).toHaveBeenCalledWith('task.md', 'utf-8');
+      expect(validatePromptTemplate).toHaveBeenCalledWith('Fix {{alerts}}');
+      expect(formatAsPrompt).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        { groupBy: 'alert', template: 'Fix {{alerts}}' },
+      );
+    });
+
+    it('should reject invalid templates before fetching alerts', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'prompt', '--prompt-template', 'task.md'];
+      vi.mocked(readFile).mockResolvedValue('{{typo}}');
+      vi.mocked(validatePromptTemplate).mockImplementation(() => {
+        throw new Error('Unknown template placeholder {{typo}}');
+      });
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(1);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Unknown template placeholder {{typo}}',
+      );
+    });
+
+    it('should ignore the template for other formats', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'md', '--prompt-template', 'task.md'];
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(readFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('report templates', () => {
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(readFile).mockResolvedValue('{{repository}}: {{total}}');
+    });
+
+    it('should read and check a template for Markdown reports', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'md', '--template', 'ticket.md'];
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(readFile).toHaveBeenCalledWith('ticket.md', 'utf-8');
+      expect(validateReportTemplate).toHaveBeenCalledWith('{{repository}}: {{total}}');
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'medium',
+        {},
+        {
+          template: '{{repository}}: {{total}}',
+        },
+      );
+    });
+
+    it('should use the template for every chunk of a text report', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '-f',
+        'txt',
+        '--template',
+        'ticket.txt',
+        '--max-tokens',
+        '1000',
+        '-o',
+        'report.txt',
+      ];
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(formatAsText).toHaveBeenLastCalledWith(
+        [mockAlert],
+        'medium',
+        { chunk: { index: 1, total: 1, totalAlerts: 1 } },
+        { repoName: 'test-owner/test-repo', template: '{{repository}}: {{total}}' },
+      );
+    });
+
+    it('should reject invalid templates before fetching alerts', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'txt', '--template', 'ticket.txt'];
+      vi.mocked(validateReportTemplate).mockImplementation(() => {
+        throw new Error('Unknown template placeholder {{typo}}');
+      });
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(1);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Unknown template placeholder {{typo}}',
+      );
+    });
+
+    it('should ignore the template for other formats', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'json', '--template', 'ticket.md'];
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(readFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('source snippets', () => {
+    it('should not read snippets by default', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(attachSnippets).not.toHaveBeenCalled();
+    });
+
+    it('should attach snippets with the requested context', async () => {
+      process.argv = ['node', 'cli.js', '--snippets', '--context', '5'];
+      const withSnippet = {
+        ...mockAlert,
+        snippet: { start_line: 5, end_line: 17, code: 'code', status: 'unchanged' as const },
+      };
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(attachSnippets).mockResolvedValue([withSnippet]);
+
+      const exitCode = await main();
+      expect(exitCode).toBe(0);
+
+      expect(attachSnippets).toHaveBeenCalledWith([mockAlert], { context: 5 });
+      expect(formatAsJSON).toHaveBeenCalledWith([withSnippet], 'medium', {});
+    });
+
+    it('should read snippets for a repository given with --repo that is checked out', async () => {
+      process.argv = ['node', 'cli.js', '--snippets', '--repo', 'Test-Owner/test-repo'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(attachSnippets).toHaveBeenCalledWith([mockAlert], { context: 3 });
+    });
+
+    it.each([
+      ['another repository', 'other/repo'],
+      ['no repository', 'test-owner/test-repo'],
+    ])('should skip snippets when the current directory is a checkout of %s', async (_, repo) => {
+      process.argv = ['node', 'cli.js', '--snippets', '--repo', repo];
+      if (repo === 'test-owner/test-repo') {
+        vi.mocked(getGitHubRepoFromRemote).mockRejectedValue(new Error('No git remotes found'));
+      }
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      expect(await main()).toBe(0);
+
+      expect(attachSnippets).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        `⚠️  The current directory is not a checkout of ${repo}, skipping snippets`,
+      );
+    });
+
+    it('should skip snippets for raw detail', async () => {
+      process.argv = ['node', 'cli.js', '--snippets', '--detail', 'raw'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      await main();
+
+      expect(attachSnippets).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('build gate', () => {
+    const failed = { passed: false, counted: [mockAlert], allowed: 0 };
+    const passed = { passed: true, counted: [], allowed: 0 };
+
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(evaluateGate).mockReturnValue(failed);
+      vi.mocked(formatGateSummary).mockReturnValue('❌ Gate failed');
+    });
+
+    it('should not gate without thresholds', async () => {
+      process.argv = ['node', 'cli.js'];
+
+      expect(await main()).toBe(0);
+      expect(evaluateGate).not.toHaveBeenCalled();
+    });
+
+    it('should exit with code 2 after writing the report when the gate fails', async () => {
+      process.argv = ['node', 'cli.js', '--fail-on', 'error', '--quiet'];
+
+      expect(await main()).toBe(2);
+      expect(writeFile).toHaveBeenCalled();
+      expect(evaluateGate).toHaveBeenCalledWith([mockAlert], { failOn: 'error' }, undefined);
+      expect(formatGateSummary).toHaveBeenCalledWith(failed, { failOn: 'error' });
+      // The verdict is shown even when progress messages are not
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('❌ Gate failed');
+    });
+
+    it('should exit with code 0 when the gate passes', async () => {
+      process.argv = ['node', 'cli.js', '--max-alerts', '5'];
+      vi.mocked(evaluateGate).mockReturnValue(passed);
+      vi.mocked(formatGateSummary).mockReturnValue('✅ Gate passed');
+
+      expect(await main()).toBe(0);
+      expect(evaluateGate).toHaveBeenCalledWith([mockAlert], { maxAlerts: 5 }, undefined);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✅ Gate passed');
+    });
+
+    it('should gate reports without alerts', async () => {
+      process.argv = ['node', 'cli.js', '--max-alerts', '0'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([]);
+      vi.mocked(evaluateGate).mockReturnValue(passed);
+
+      expect(await main()).toBe(0);
+      expect(evaluateGate).toHaveBeenCalledWith([], { maxAlerts: 0 }, undefined);
+    });
+
+    it('should gate chunked reports', async () => {
+      process.argv = ['node', 'cli.js', '-f', 'md', '--max-tokens', '100000', '--fail-on', 'note'];
+
+      expect(await main()).toBe(2);
+      expect(evaluateGate).toHaveBeenCalledWith([mockAlert], { failOn: 'note' }, undefined);
+    });
+
+    it('should only count alerts missing from the compared report', async () => {
+      process.argv = ['node', 'cli.js', '--fail-on', 'warning', '--compare-to', 'main.json'];
+      vi.mocked(loadReport).mockResolvedValue([mockAlert]);
+
+      expect(await main()).toBe(2);
+      expect(loadReport).toHaveBeenCalledWith('main.json');
+      expect(evaluateGate).toHaveBeenCalledWith([mockAlert], { failOn: 'warning' }, [mockAlert]);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('📄 Loading report to compare to main.json...');
+    });
+
+    it('should gate the new alerts of a diff', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json', '--fail-on', 'error'];
+      const newAlert = { ...mockAlert, number: 2 };
+      vi.mocked(stat).mockResolvedValue({ isFile: () => true } as Stats);
+      vi.mocked(loadReport).mockResolvedValue([mockAlert]);
+      vi.mocked(applyAlertFilter).mockImplementation((alerts) => alerts);
+      vi.mocked(diffAlerts).mockReturnValue({ new: [newAlert], fixed: [], unchanged: [] });
+      vi.mocked(formatDiffAsJSON).mockReturnValue('{}');
+
+      expect(await main()).toBe(2);
+      expect(evaluateGate).toHaveBeenCalledWith([newAlert], { failOn: 'error' }, undefined);
+    });
+
+    it.each([
+      [['--max-alerts', '-1'], '--max-alerts must be a non-negative integer'],
+      [['--max-alerts', '1.5'], '--max-alerts must be a non-negative integer'],
+      [['--compare-to', 'main.json'], '--compare-to requires --fail-on or --max-alerts'],
+      [
+        [
+          '--fail-on',
+          'error',
+          '--compare-to',
+          'main.json',
+          '--repo',
+          'acme/api',
+          '--repo',
+          'acme/web',
+        ],
+        '--compare-to is only supported for single repository reports',
+      ],
+      [
+        ['diff', 'old.json', 'new.json', '--max-alerts', '0', '--compare-to', 'main.json'],
+        '--compare-to is only supported for reports, diffs only gate new alerts',
+      ],
+    ])('should reject %j before fetching alerts', async (args, message) => {
+      process.argv = ['node', 'cli.js', ...args];
+
+      expect(await main()).toBe(1);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(loadReport).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`❌ Error: ${message}`);
+    });
+  });
+
+  describe('baseline file', () => {
+    const entry = {
+      rule_id: 'js/sql-injection',
+      path: 'src/database.js',
+      fingerprint: '0123456789abcdef',
+      reason: 'Accepted risk',
+      expires: '2024-01-31',
+    };
+    const existing: Baseline = { version: 1, alerts: [entry] };
+    const created: Baseline = { version: 1, alerts: [entry, entry] };
+
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(createBaseline).mockReturnValue(created);
+      vi.mocked(loadBaseline).mockResolvedValue(existing);
+    });
+
+    it('should snapshot the current alerts into the default baseline file', async () => {
+      process.argv = ['node', 'cli.js', 'baseline', 'create'];
+      vi.mocked(stat).mockRejectedValue(new Error('ENOENT'));
+
+      expect(await main()).toBe(0);
+      expect(loadBaseline).not.toHaveBeenCalled();
+      expect(createBaseline).toHaveBeenCalledWith(
+        [mockAlert],
+        { reason: 'Accepted when the baseline was created' },
+        undefined,
+      );
+      expect(saveBaseline).toHaveBeenCalledWith('.codeql-baseline.json', created);
+      expect(formatAsJSON).not.toHaveBeenCalled();
+      expect(writeFile).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '✅ Baseline of 2 alert(s) saved to: .codeql-baseline.json',
+      );
+    });
+
+    it('should keep the entries of the baseline file it replaces', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        'baseline',
+        'create',
+        '--baseline-file',
+        'baseline.yml',
+        '--reason',
+        'Triaged in SEC-42',
+        '--expires',
+        '2030-01-31',
+      ];
+      vi.mocked(stat).mockResolvedValue({ isFile: () => true } as Stats);
+
+      expect(await main()).toBe(0);
+      expect(validateExpiry).toHaveBeenCalledWith('2030-01-31');
+      expect(loadBaseline).toHaveBeenCalledWith('baseline.yml');
+      expect(createBaseline).toHaveBeenCalledWith(
+        [mockAlert],
+        { reason: 'Triaged in SEC-42', expires: '2030-01-31' },
+        existing,
+      );
+      expect(saveBaseline).toHaveBeenCalledWith('baseline.yml', created);
+    });
+
+    it('should leave baseline alerts out of reports and count them', async () => {
+      process.argv = ['node', 'cli.js', '--baseline-file', 'baseline.json', '--fail-on', 'error'];
+      vi.mocked(applyBaseline).mockReturnValue({ alerts: [mockAlert], suppressed: 2, expired: [] });
+      vi.mocked(evaluateGate).mockReturnValue({ passed: true, counted: [], allowed: 0 });
+
+      expect(await main()).toBe(0);
+      expect(loadBaseline).toHaveBeenCalledWith('baseline.json');
+      expect(applyBaseline).toHaveBeenCalledWith([mockAlert], existing);
+      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'medium', { suppressed: 2 });
+      // Suppressed alerts do not count towards the gate
+      expect(evaluateGate).toHaveBeenCalledWith([mockAlert], { failOn: 'error' }, undefined);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '   Suppressed 2 alert(s) listed in the baseline file',
+      );
+    });
+
+    it('should warn about expired entries', async () => {
+      process.argv = ['node', 'cli.js', '--baseline-file', 'baseline.json', '-q'];
+      vi.mocked(applyBaseline).mockReturnValue({ alerts: [], suppressed: 0, expired: [entry] });
+
+      expect(await main()).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  1 baseline entr(ies) expired and no longer suppress alerts: js/sql-injection in src/database.js (2024-01-31)',
+      );
+      // Every alert is suppressed, the report is empty
+      expect(formatAsJSON).toHaveBeenCalledWith([], 'medium', expect.anything());
+    });
+
+    it.each([
+      [
+        ['diff', 'old.json', 'new.json', '--baseline-file', 'b.json'],
+        '--baseline-file is only supported for reports',
+      ],
+      [
+        ['--baseline-file', 'b.json', '--repo', 'acme/api', '--repo', 'acme/web'],
+        'Baseline files are only supported for single repository reports',
+      ],
+      [
+        ['baseline', 'create', '--org', 'acme'],
+        'Baseline files are only supported for single repository reports',
+      ],
+    ])('should reject %j', async (args, message) => {
+      process.argv = ['node', 'cli.js', ...args];
+
+      expect(await main()).toBe(1);
+      expect(loadBaseline).not.toHaveBeenCalled();
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`❌ Error: ${message}`);
+    });
+
+    it('should reject invalid expiry dates before fetching alerts', async () => {
+      process.argv = ['node', 'cli.js', 'baseline', 'create', '--expires', 'soon'];
+      vi.mocked(validateExpiry).mockImplementation(() => {
+        throw new Error('Invalid expiry date soon, expected YYYY-MM-DD');
+      });
+
+      expect(await main()).toBe(1);
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SARIF input', () => {
+    beforeEach(() => {
+      vi.mocked(loadSARIF).mockResolvedValue({ alerts: [mockAlert] });
+      vi.mocked(applyAlertFilter).mockImplementation((alerts) => alerts);
+    });
+
+    it('should report on a SARIF file without a token or the API', async () => {
+      process.argv = ['node', 'cli.js', '--input', 'results.sarif', '--format', 'md'];
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(loadSARIF).toHaveBeenCalledWith('results.sarif');
+      expect(getGitHubToken).not.toHaveBeenCalled();
+      expect(getGitHubRepoFromRemote).not.toHaveBeenCalled();
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'results.sarif',
+        'medium',
+        {},
+        { template: undefined },
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('📄 Loading SARIF file results.sarif...');
+    });
+
+    it('should skip snippets outside a git checkout', async () => {
+      process.argv = ['node', 'cli.js', '--input', 'results.sarif', '--snippets'];
+      vi.mocked(isGitCheckout).mockResolvedValue(false);
+
+      expect(await main()).toBe(0);
+      expect(attachSnippets).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  The current directory is not a git checkout, skipping snippets',
+      );
+    });
+
+    it.each(['dismissed', 'fixed'])('should reject --state %s', async (state) => {
+      process.argv = ['node', 'cli.js', '--input', 'results.sarif', '--state', state];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        `❌ Error: input only holds open alerts, state ${state} cannot be reported`,
+      );
+      expect(loadSARIF).not.toHaveBeenCalled();
+    });
+
+    it('should name the report after the repository the SARIF records', async () => {
+      process.argv = ['node', 'cli.js', '--input', 'results.sarif', '--format', 'md'];
+      vi.mocked(loadSARIF).mockResolvedValue({
+        alerts: [mockAlert],
+        repositoryUri: 'https://github.example.com/acme/api',
+        ref: 'refs/heads/main',
+      });
+      vi.mocked(parseGitHubUrl).mockReturnValue({
+        owner: 'acme',
+        repo: 'api',
+        host: 'github.example.com',
+      });
+
+      await main();
+
+      expect(parseGitHubUrl).toHaveBeenCalledWith(
+        'https://github.example.com/acme/api',
+        expect.arrayContaining(['github.com']),
+      );
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'acme/api',
+        'medium',
+        {
+          ref: 'refs/heads/main',
+          host: 'github.example.com',
+        },
+        { template: undefined },
+      );
+    });
+
+    it('should apply filters to the results of the file', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--input',
+        'results.sarif',
+        '--min-severity',
+        'error',
+        '--tool',
+        'CodeQL',
+      ];
+      const otherTool = { ...mockAlert, number: 2, tool: { name: 'ESLint', version: '9.0.0' } };
+      vi.mocked(loadSARIF).mockResolvedValue({ alerts: [mockAlert, otherTool] });
+
+      await main();
+
+      expect(applyAlertFilter).toHaveBeenCalledWith(
+        [mockAlert, otherTool],
+        expect.objectContaining({ minSeverity: 'error' }),
+      );
+      expect(formatAsJSON).toHaveBeenCalledWith([mockAlert], 'medium', {});
+    });
+
+    it('should keep code flows and rule help of the file at full detail', async () => {
+      process.argv = ['node', 'cli.js', '--input', 'results.sarif', '--detail', 'full'];
+
+      expect(await main()).toBe(0);
+      expect(attachCodeFlows).not.toHaveBeenCalled();
+      expect(fetchRuleHelp).not.toHaveBeenCalled();
+    });
+
+    it('should pass the compared report as saved, SARIF alerts have no numbers to match', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        '--input',
+        'results.sarif',
+        '--fail-on',
+        'error',
+        '--compare-to',
+        'main.json',
+      ];
+      vi.mocked(loadReport).mockResolvedValue([{ ...mockAlert, number: 7 }]);
+      vi.mocked(evaluateGate).mockReturnValue({ passed: true, counted: [], allowed: 0 });
+
+      expect(await main()).toBe(0);
+      expect(evaluateGate).toHaveBeenCalledWith([mockAlert], { failOn: 'error' }, [
+        { ...mockAlert, number: 7 },
+      ]);
+    });
+
+    it('should reject diffs', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json', '--input', 'results.sarif'];
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: --input is only supported for reports, diff takes SARIF files directly',
+      );
+    });
+  });
+
+  describe('config files', () => {
+    const loaded = {
+      path: '/work/repo/.codeql-report.json',
+      config: { format: 'md', detail: 'full' as const, rule: ['js/*'] },
+    };
+
+    beforeEach(() => {
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(loadConfig).mockResolvedValue(loaded);
+    });
+
+    it('should use the config file options as defaults', async () => {
+      process.argv = ['node', 'cli.js'];
+
+      expect(await main()).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '📄 Loaded config file /work/repo/.codeql-report.json',
+      );
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ rules: ['js/*'] }),
+        expect.anything(),
+      );
+      expect(formatAsMarkdown).toHaveBeenCalledWith(
+        [mockAlert],
+        'test-owner/test-repo',
+        'full',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should let environment variables and flags override the config file', async () => {
+      process.argv = ['node', 'cli.js', '--format', 'txt'];
+      vi.stubEnv('CODEQL_REPORT_FORMAT', 'sarif');
+      vi.stubEnv('CODEQL_REPORT_DETAIL', 'minimum');
+
+      try {
+        expect(await main()).toBe(0);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+      expect(formatAsText).toHaveBeenCalledWith(
+        [mockAlert],
+        'minimum',
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(formatAsSARIF).not.toHaveBeenCalled();
+      expect(formatAsMarkdown).not.toHaveBeenCalled();
+    });
+
+    it('should print the effective configuration', async () => {
+      process.argv = ['node', 'cli.js', 'config', 'print', '--detail', 'minimum'];
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(((
+        _data: string,
+        callback: () => void,
+      ) => {
+        callback();
+        return true;
+      }) as typeof process.stdout.write);
+
+      try {
+        expect(await main()).toBe(0);
+        const printed = JSON.parse(writeSpy.mock.calls[0][0] as string);
+        expect(printed).toMatchObject({
+          format: 'md',
+          detail: 'minimum',
+          rule: ['js/*'],
+          state: 'open',
+          concurrency: 5,
+        });
+        expect(printed).not.toHaveProperty('groupBy');
+      } finally {
+        writeSpy.mockRestore();
+      }
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+
+    it('should note when no config file was found', async () => {
+      process.argv = ['node', 'cli.js', 'config', 'print'];
+      vi.mocked(loadConfig).mockResolvedValue(undefined);
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(((
+        _data: string,
+        callback: () => void,
+      ) => {
+        callback();
+        return true;
+      }) as typeof process.stdout.write);
+
+      try {
+        expect(await main()).toBe(0);
+        expect(JSON.parse(writeSpy.mock.calls[0][0] as string)).toMatchObject({ format: 'json' });
+      } finally {
+        writeSpy.mockRestore();
+      }
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '📄 No config file found, showing environment variables, flags and defaults',
+      );
+    });
+
+    describe('report options', () => {
+      beforeEach(async () => {
+        const actual = await vi.importActual<typeof import('../lib/config.js')>('../lib/config.js');
+        vi.mocked(configForCommand).mockImplementation(actual.configForCommand);
+      });
+
+      it('should leave the baseline file of reports out of diffs', async () => {
+        process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json'];
+        vi.mocked(loadConfig).mockResolvedValue({
+          path: '/work/repo/.codeql-report.json',
+          config: { baselineFile: '/work/repo/.codeql-baseline.yml', maxTokens: 4000 },
+        });
+        vi.mocked(stat).mockResolvedValue({ isFile: () => true } as Stats);
+        vi.mocked(loadReport).mockResolvedValue([mockAlert]);
+        vi.mocked(applyAlertFilter).mockImplementation((alerts) => alerts);
+        vi.mocked(diffAlerts).mockReturnValue({ new: [], fixed: [], unchanged: [mockAlert] });
+        vi.mocked(formatDiffAsJSON).mockReturnValue('{}');
+
+        expect(await main()).toBe(0);
+        expect(configForCommand).toHaveBeenCalledWith(expect.anything(), 'diff');
+        expect(formatDiffAsJSON).toHaveBeenCalled();
+      });
+
+      it.each([
+        ['other formats', ['-f', 'json']],
+        ['other commands', ['baseline', 'create', '-f', 'json']],
+      ])('should not apply a config token budget to %s', async (_, args) => {
+        process.argv = ['node', 'cli.js', ...args];
+        vi.mocked(loadConfig).mockResolvedValue({
+          path: '/work/repo/.codeql-report.json',
+          config: { format: 'md', maxTokens: 4000 },
+        });
+        vi.mocked(stat).mockRejectedValue(new Error('ENOENT'));
+        vi.mocked(createBaseline).mockReturnValue({ version: 1, alerts: [] });
+
+        expect(await main()).toBe(0);
+        expect(consoleErrorSpy).not.toHaveBeenCalledWith(expect.stringContaining('--max-tokens'));
+      });
+
+      it('should write the whole report to stdout despite a config token budget', async () => {
+        process.argv = ['node', 'cli.js', '--output', '-'];
+        vi.mocked(loadConfig).mockResolvedValue({
+          path: '/work/repo/.codeql-report.json',
+          config: { format: 'md', maxTokens: 4000 },
+        });
+        vi.mocked(formatAsMarkdown).mockReturnValue('# Report');
+        const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(((
+          _data: string,
+          callback: () => void,
+        ) => {
+          callback();
+          return true;
+        }) as typeof process.stdout.write);
+
+        try {
+          expect(await main()).toBe(0);
+          expect(writeSpy).toHaveBeenCalledWith('# Report\n', expect.any(Function));
+        } finally {
+          writeSpy.mockRestore();
+        }
+        expect(writeFile).not.toHaveBeenCalled();
+      });
+
+      it('should still reject a token budget given as a flag', async () => {
+        process.argv = ['node', 'cli.js', '--max-tokens', '100', '-o', '-'];
+
+        expect(await main()).toBe(1);
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          '❌ Error: --max-tokens writes several files and cannot be combined with --output -',
+        );
+      });
+    });
+
+    it('should report invalid config files before parsing arguments', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(loadConfig).mockRejectedValue(
+        new Error('Invalid config file .codeql-report.json: unknown option colour'),
+      );
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: Invalid config file .codeql-report.json: unknown option colour',
+      );
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismiss and reopen', () => {
+    const dismissal = {
+      number: 3,
+      state: 'dismissed',
+      reason: 'false positive',
+      comment: 'Input is validated',
+    } as const;
+
+    beforeEach(() => {
+      vi.mocked(updateAlerts).mockImplementation(async (_octokit, _repo, updates) => updates);
+    });
+
+    it('should dismiss alerts by number with a reason and comment', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        'dismiss',
+        '3',
+        '5',
+        '--dismiss-reason',
+        'false positive',
+        '--comment',
+        'Input is validated',
+      ];
+
+      expect(await main()).toBe(0);
+      expect(getGitHubRepoFromRemote).toHaveBeenCalled();
+      expect(updateAlerts).toHaveBeenCalledWith(
+        expect.anything(),
+        { owner: 'test-owner', repo: 'test-repo' },
+        [dismissal, { ...dismissal, number: 5 }],
+        expect.objectContaining({ concurrency: 5, retries: 3 }),
+      );
+      expect(fetchAllAlertsWithDetails).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✅ Dismissed 2 alert(s)');
+    });
+
+    it('should reopen the dismissed alerts matching a filter', async () => {
+      process.argv = ['node', 'cli.js', 'reopen', '--rule', 'js/*', '--repo', 'acme/api'];
+      vi.mocked(fetchCodeQLAlerts).mockResolvedValue([{ ...mockAlert, number: 8 }]);
+
+      expect(await main()).toBe(0);
+      expect(getGitHubRepoFromRemote).not.toHaveBeenCalled();
+      expect(fetchCodeQLAlerts).toHaveBeenCalledWith(
+        expect.anything(),
+        { owner: 'acme', repo: 'api' },
+        expect.objectContaining({ rules: ['js/*'], state: 'dismissed' }),
+      );
+      expect(updateAlerts).toHaveBeenCalledWith(
+        expect.anything(),
+        { owner: 'acme', repo: 'api' },
+        [{ number: 8, state: 'open' }],
+        expect.anything(),
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✅ Reopened 1 alert(s)');
+    });
+
+    it('should only pick open alerts to dismiss by filter', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        'dismiss',
+        '--path',
+        'test/**',
+        '--dismiss-reason',
+        'used in tests',
+        '--comment',
+        'Test fixture',
+      ];
+      vi.mocked(fetchCodeQLAlerts).mockResolvedValue([]);
+
+      expect(await main()).toBe(0);
+      expect(fetchCodeQLAlerts).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ paths: ['test/**'], state: 'open' }),
+      );
+      expect(updateAlerts).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✅ No alerts to dismiss');
+    });
+
+    it('should leave filters of the config file and environment variables out', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        'dismiss',
+        '--dismiss-reason',
+        "won't fix",
+        '--comment',
+        'Vendored',
+      ];
+      vi.mocked(loadConfig).mockResolvedValue({
+        path: '/repo/.codeql-report.json',
+        config: { excludePath: ['vendor/**'] },
+      });
+      vi.stubEnv('CODEQL_REPORT_RULE', 'js/*');
+
+      try {
+        expect(await main()).toBe(1);
+      } finally {
+        vi.unstubAllEnvs();
+      }
+      expect(fetchCodeQLAlerts).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '❌ Error: dismiss needs one of: alert numbers, a filter (e.g. --rule or --path) or --triage',
+      );
+    });
+
+    it('should only filter by the command line filters', async () => {
+      process.argv = ['node', 'cli.js', 'reopen', '--min-severity', 'error', '--tool', 'CodeQL'];
+      vi.mocked(loadConfig).mockResolvedValue({
+        path: '/repo/.codeql-report.json',
+        config: { excludePath: ['vendor/**'] },
+      });
+      vi.mocked(fetchCodeQLAlerts).mockResolvedValue([]);
+
+      expect(await main()).toBe(0);
+      expect(fetchCodeQLAlerts).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({
+          minSeverity: 'error',
+          toolName: 'CodeQL',
+          excludePaths: undefined,
+          state: 'dismissed',
+        }),
+      );
+    });
+
+    it('should apply the decisions of a triage file for the command', async () => {
+      process.argv = ['node', 'cli.js', 'dismiss', '--triage', 'triage.json'];
+      vi.mocked(loadTriage).mockResolvedValue([dismissal, { number: 4, state: 'open' }]);
+
+      expect(await main()).toBe(0);
+      expect(loadTriage).toHaveBeenCalledWith('triage.json');
+      expect(updateAlerts).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        [dismissal],
+        expect.anything(),
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('📄 Loading triage file triage.json...');
+    });
+
+    it('should list the changes without making them on a dry run', async () => {
+      process.argv = ['node', 'cli.js', 'reopen', '3', '--dry-run'];
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(((
+        _data: string,
+        callback: () => void,
+      ) => {
+        callback();
+        return true;
+      }) as typeof process.stdout.write);
+
+      try {
+        expect(await main()).toBe(0);
+        expect(writeSpy).toHaveBeenCalledWith('reopen #3\n', expect.any(Function));
+      } finally {
+        writeSpy.mockRestore();
+      }
+      expect(updateAlerts).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '🔎 Dry run: would reopen 1 alert(s), nothing was changed',
+      );
+    });
+
+    it('should describe dismissals on a dry run', async () => {
+      process.argv = ['node', 'cli.js', 'dismiss', '--triage', 'triage.json', '--dry-run'];
+      vi.mocked(loadTriage).mockResolvedValue([dismissal]);
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(((
+        _data: string,
+        callback: () => void,
+      ) => {
+        callback();
+        return true;
+      }) as typeof process.stdout.write);
+
+      try {
+        expect(await main()).toBe(0);
+        expect(writeSpy).toHaveBeenCalledWith(
+          'dismiss #3 (false positive): Input is validated\n',
+          expect.any(Function),
+        );
+      } finally {
+        writeSpy.mockRestore();
+      }
+    });
+
+    it('should report failed updates', async () => {
+      process.argv = ['node', 'cli.js', 'reopen', '3', '4'];
+      vi.mocked(updateAlerts).mockImplementation(async (_octokit, _repo, updates, options) => {
+        options?.onFailure?.(updates[0], new Error('Not Found'));
+        return updates.slice(1);
+      });
+
+      expect(await main()).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✅ Reopened 1 alert(s)');
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  Could not reopen 1 alert(s): #3 (Not Found)',
+      );
+    });
+
+    it.each([
+      [
+        ['reopen'],
+        'reopen needs one of: alert numbers, a filter (e.g. --rule or --path) or --triage',
+      ],
+      [
+        ['reopen', '3', '--min-severity', 'error'],
+        'reopen needs one of: alert numbers, a filter (e.g. --rule or --path) or --triage',
+      ],
+      [['reopen', '3', 'x', '0'], 'Invalid alert number(s) x, 0'],
+      [['dismiss', '3', '--comment', 'Fine'], 'dismiss needs --dismiss-reason and --comment'],
+      [['reopen', '3', '--org', 'acme'], 'reopen is only supported for a single GitHub repository'],
+      [
+        ['reopen', '3', '--repo', 'acme/api', '--repo', 'acme/web'],
+        'reopen is only supported for a single GitHub repository',
+      ],
+      [
+        ['reopen', '--tool', 'CodeQL', '--input', 'results.sarif'],
+        'reopen is only supported for a single GitHub repository',
+      ],
+    ])('should reject %j before connecting', async (args, message) => {
+      process.argv = ['node', 'cli.js', ...args];
+
+      expect(await main()).toBe(1);
+      expect(getGitHubToken).not.toHaveBeenCalled();
+      expect(updateAlerts).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(`❌ Error: ${message}`);
+    });
+  });
+
+  describe('diff command', () => {
+    const mockDiff: AlertDiff = {
+      new: [{ ...mockAlert, number: 2 }],
+      fixed: [],
+      unchanged: [{ base: mockAlert, head: mockAlert, moved: false }],
+    };
+    const isFile = { isFile: () => true } as Stats;
+
+    beforeEach(() => {
+      vi.mocked(diffAlerts).mockReturnValue(mockDiff);
+      vi.mocked(applyAlertFilter).mockImplementation((alerts) => alerts);
+      vi.mocked(formatDiffAsJSON).mockReturnValue('{"mock":"diff"}');
+      vi.mocked(formatDiffAsMarkdown).mockReturnValue('# Mock Diff');
+      vi.mocked(formatDiffAsText).mockReturnValue('mock diff');
+      vi.mocked(formatDiffAsSARIF).mockReturnValue('{"mock":"sarif-diff"}');
+    });
+
+    it('should compare two saved reports without contacting GitHub', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.sarif'];
+      vi.mocked(stat).mockResolvedValue(isFile);
+      vi.mocked(loadReport)
+        .mockResolvedValueOnce([mockAlert])
+        .mockResolvedValueOnce([mockAlert, { ...mockAlert, number: 2 }]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubToken).not.toHaveBeenCalled();
+      expect(loadReport).toHaveBeenCalledWith('old.json');
+      expect(loadReport).toHaveBeenCalledWith('new.sarif');
+      expect(applyAlertFilter).toHaveBeenCalledWith([mockAlert], expect.objectContaining({}));
+      expect(diffAlerts).toHaveBeenCalledWith(
+        [mockAlert],
+        [mockAlert, { ...mockAlert, number: 2 }],
+      );
+      expect(formatDiffAsJSON).toHaveBeenCalledWith(mockDiff, 'medium', {
+        base: 'old.json',
+        head: 'new.sarif',
+      });
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-diff-.*\.json$/),
+        '{"mock":"diff"}',
+        'utf-8',
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   New: 1, Fixed: 0, Unchanged: 1');
+    });
+
+    it('should fetch alerts for refs', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'main', 'feature', '--format', 'md'];
+      vi.mocked(stat).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(normalizeRef).mockImplementation((ref) => `refs/heads/${ref}`);
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubToken).toHaveBeenCalledTimes(1);
+      expect(getGitHubRepoFromRemote).toHaveBeenCalledTimes(1);
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        { owner: 'test-owner', repo: 'test-repo' },
+        expect.objectContaining({ ref: 'refs/heads/main' }),
+        expect.anything(),
+      );
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ ref: 'refs/heads/feature' }),
+        expect.anything(),
+      );
+      expect(formatDiffAsMarkdown).toHaveBeenCalledWith(mockDiff, 'medium', {
+        repoName: 'test-owner/test-repo',
+        base: 'main',
+        head: 'feature',
+      });
+    });
+
+    it('should warn about alerts whose details could not be fetched for refs', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'main', 'feature', '--partial'];
+      vi.mocked(stat).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(formatDiffAsJSON).mockReturnValue('{}');
+      vi.mocked(fetchAllAlertsWithDetails).mockImplementation(
+        async (_octokit, repo, _filter, options) => {
+          options?.onFailure?.(4, new Error('Not Found'), repo);
+          return [mockAlert];
+        },
+      );
+
+      expect(await main()).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '⚠️  Could not fetch details for 2 alert(s): #4, #4',
+      );
+    });
+
+    it('should record enterprise hosts when fetching refs', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'main', 'feature', '--format', 'md'];
+      vi.mocked(stat).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(getGitHubRepoFromRemote).mockResolvedValue({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        host: 'github.example.com',
+      });
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(getGitHubToken).toHaveBeenCalledWith('github.example.com');
+      expect(formatDiffAsMarkdown).toHaveBeenCalledWith(mockDiff, 'medium', {
+        host: 'github.example.com',
+        repoName: 'test-owner/test-repo',
+        base: 'main',
+        head: 'feature',
+      });
+    });
+
+    it('should treat directories as refs', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'main', 'old.json', '--format', 'txt'];
+      vi.mocked(stat)
+        .mockResolvedValueOnce({ isFile: () => false } as Stats)
+        .mockResolvedValueOnce(isFile);
+      vi.mocked(normalizeRef).mockReturnValue('refs/heads/main');
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+      vi.mocked(loadReport).mockResolvedValue([]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(fetchAllAlertsWithDetails).toHaveBeenCalledTimes(1);
+      expect(formatDiffAsText).toHaveBeenCalledWith(mockDiff, 'medium', {
+        repoName: 'test-owner/test-repo',
+        base: 'main',
+        head: 'old.json',
+      });
+    });
+
+    it('should attach snippets to the head side and write SARIF diffs', async () => {
+      process.argv = [
+        'node',
+        'cli.js',
+        'diff',
+        'old.json',
+        'new.json',
+        '--format',
+        'sarif',
+        '--snippets',
+        '--output',
+        'diff.sarif',
+      ];
+      vi.mocked(stat).mockResolvedValue(isFile);
+      vi.mocked(loadReport).mockResolvedValue([mockAlert]);
+      vi.mocked(attachSnippets).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(attachSnippets).toHaveBeenCalledTimes(1);
+      expect(formatDiffAsSARIF).toHaveBeenCalledWith(mockDiff, 'medium');
+      expect(writeFile).toHaveBeenCalledWith('diff.sarif', '{"mock":"sarif-diff"}', 'utf-8');
+    });
+
+    it('should turn new alerts into prompt tasks', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json', '--format', 'prompt'];
+      vi.mocked(stat).mockResolvedValue(isFile);
+      vi.mocked(loadReport).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(formatAsPrompt).toHaveBeenCalledWith(
+        mockDiff.new,
+        'this repository',
+        'medium',
+        {},
+        { groupBy: 'file' },
+      );
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-diff-.*\.prompt\.md$/),
+        '# Mock Prompt',
+        'utf-8',
+      );
+    });
+
+    it('should keep the repository and host of fetched refs in prompts', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'main', 'feature', '--format', 'prompt'];
+      vi.mocked(stat).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(getGitHubRepoFromRemote).mockResolvedValue({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        host: 'github.example.com',
+      });
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([mockAlert]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(formatAsPrompt).toHaveBeenCalledWith(
+        mockDiff.new,
+        'test-owner/test-repo',
+        'medium',
+        { host: 'github.example.com' },
+        { groupBy: 'file' },
+      );
+    });
+
+    it('should report load errors', async () => {
+      process.argv = ['node', 'cli.js', 'diff', 'old.json', 'new.json'];
+      vi.mocked(stat).mockResolvedValue(isFile);
+      vi.mocked(loadReport).mockRejectedValue(new Error('Unable to parse report old.json'));
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('❌ Error: Unable to parse report old.json');
+    });
+  });
+
+  describe('no alerts found (celebration)', () => {
+    it('should celebrate, write an empty report and exit with 0 when no alerts found', async () => {
+      process.argv = ['node', 'cli.js'];
+      vi.mocked(fetchAllAlertsWithDetails).mockResolvedValue([]);
+
+      const exitCode = await main();
+
+      expect(exitCode).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '🎉 No CodeQL alerts found! Your repository is clean!',
+      );
+      expect(formatAsJSON).toHaveBeenCalledWith([], 'medium', {});
+      expect(writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/code-scanning-report-.*\.json$/),
+        '{"mock":"json"}',
+        'utf-8',
       );
-      expect(writeFile).not.toHaveBeenCalled();
     });
   });
 
@@ -280,12 +2787,12 @@ describe('CLI', () => {
       const exitCode = await main();
       expect(exitCode).toBe(0);
 
-      expect(consoleLogSpy).toHaveBeenCalledWith('🔐 Authenticating with GitHub...');
-      expect(consoleLogSpy).toHaveBeenCalledWith('📂 Detecting repository from git remote...');
-      expect(consoleLogSpy).toHaveBeenCalledWith('   Repository: test-owner/test-repo');
-      expect(consoleLogSpy).toHaveBeenCalledWith('🔍 Fetching CodeQL alerts...');
-      expect(consoleLogSpy).toHaveBeenCalledWith('   Found 1 open alert(s)');
-      expect(consoleLogSpy).toHaveBeenCalledWith('📝 Generating JSON report (medium detail)...');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('🔐 Authenticating with GitHub...');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('📂 Detecting repository from git remote...');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Repository: test-owner/test-repo');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('🔍 Fetching CodeQL alerts...');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('   Found 1 open alert(s)');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('📝 Generating JSON report (medium detail)...');
     });
   });
 });
@@ -0,0 +1,278 @@
+import type { Octokit } from 'octokit';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  attachCodeFlows,
+  extractCodeFlows,
+  extractRelatedLocations,
+  findSarifResult,
+  formatFlowLocation,
+  type SarifLog,
+  type SarifResult,
+  toFlowLocation,
+} from '../lib/codeflows.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import type { GitHubRepo } from '../lib/git.js';
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'This query depends on a [user-provided value](1).',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+const mockRepo: GitHubRepo = {
+  owner: 'test-owner',
+  repo: 'test-repo',
+};
+
+function location(uri: string, startLine: number, message?: string) {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri },
+      region: { startLine, startColumn: 3, endColumn: 9 },
+    },
+    ...(message && { message: { text: message } }),
+  };
+}
+
+const sarifResult: SarifResult = {
+  ruleId: 'js/sql-injection',
+  locations: [location('src/database.js', 10)],
+  relatedLocations: [{ id: 1, ...location('src/server.js', 4, 'user-provided value') }],
+  codeFlows: [
+    {
+      threadFlows: [
+        {
+          locations: [
+            { location: location('src/server.js', 4, 'req.query.id') },
+            { location: location('src/database.js', 10, 'query') },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const sarifLog: SarifLog = {
+  runs: [
+    {
+      results: [
+        { ...sarifResult, locations: [location('src/other.js', 10)] },
+        { ...sarifResult, ruleId: 'js/xss' },
+        sarifResult,
+      ],
+    },
+  ],
+};
+
+const analysis = {
+  id: 42,
+  commit_sha: 'abc123',
+  analysis_key: 'test-analysis',
+  category: 'security',
+};
+
+function createOctokit(overrides: Record<string, unknown> = {}) {
+  return {
+    rest: {
+      codeScanning: {
+        listAlertInstances: vi.fn().mockResolvedValue({ data: [mockAlert.most_recent_instance] }),
+        listRecentAnalyses: vi
+          .fn()
+          .mockResolvedValue({ data: [{ ...analysis, id: 41, commit_sha: 'old' }, analysis] }),
+        getAnalysis: vi.fn().mockResolvedValue({ data: sarifLog }),
+        ...overrides,
+      },
+    },
+  } as unknown as Octokit;
+}
+
+describe('SARIF code flow parsing', () => {
+  it('should convert SARIF locations with default columns and end lines', () => {
+    expect(toFlowLocation(location('src/a.js', 7, 'source'))).toEqual({
+      path: 'src/a.js',
+      start_line: 7,
+      end_line: 7,
+      start_column: 3,
+      end_column: 9,
+      message: 'source',
+    });
+    expect(toFlowLocation({})).toEqual({
+      path: '',
+      start_line: 0,
+      end_line: 0,
+      start_column: 1,
+      end_column: 1,
+    });
+  });
+
+  it('should extract one code flow per thread flow', () => {
+    const flows = extractCodeFlows({
+      codeFlows: [...(sarifResult.codeFlows ?? []), { threadFlows: [{ locations: [{}] }, {}] }, {}],
+    });
+
+    expect(flows).toHaveLength(1);
+    expect(flows[0].map(formatFlowLocation)).toEqual(['src/server.js:4:3', 'src/database.js:10:3']);
+    expect(flows[0][0].message).toBe('req.query.id');
+    expect(extractCodeFlows({})).toEqual([]);
+  });
+
+  it('should extract related locations', () => {
+    expect(extractRelatedLocations(sarifResult)).toEqual([
+      {
+        path: 'src/server.js',
+        start_line: 4,
+        end_line: 4,
+        start_column: 3,
+        end_column: 9,
+        message: 'user-provided value',
+      },
+    ]);
+    expect(extractRelatedLocations({})).toEqual([]);
+  });
+
+  it('should find the result for an alert by rule and primary location', () => {
+    expect(findSarifResult(sarifLog, mockAlert)).toBe(sarifResult);
+    expect(findSarifResult({ runs: [{}, { results: [{}] }] }, mockAlert)).toBeUndefined();
+  });
+});
+
+describe('attachCodeFlows', () => {
+  it('should attach code flows and related locations from the analysis SARIF', async () => {
+    const octokit = createOctokit();
+
+    const [alert] = await attachCodeFlows(octokit, [mockAlert], () => mockRepo, {
+      ref: 'refs/heads/main',
+    });
+
+    expect(alert.code_flows).toHaveLength(1);
+    expect(alert.code_flows?.[0]).toHaveLength(2);
+    expect(alert.related_locations).toHaveLength(1);
+    expect(octokit.rest.codeScanning.listAlertInstances).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      alert_number: 1,
+      ref: 'refs/heads/main',
+      per_page: 100,
+    });
+    expect(octokit.rest.codeScanning.getAnalysis).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      analysis_id: 42,
+      headers: { accept: 'application/sarif+json' },
+    });
+  });
+
+  it('should download each analysis once', async () => {
+    const octokit = createOctokit();
+
+    await attachCodeFlows(octokit, [mockAlert, { ...mockAlert, number: 2 }], () => mockRepo, {
+      concurrency: 1,
+    });
+
+    expect(octokit.rest.codeScanning.listAlertInstances).toHaveBeenCalledTimes(2);
+    expect(octokit.rest.codeScanning.listRecentAnalyses).toHaveBeenCalledTimes(1);
+    expect(octokit.rest.codeScanning.getAnalysis).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['a JSON string', JSON.stringify(sarifLog)],
+    ['raw bytes', new TextEncoder().encode(JSON.stringify(sarifLog)).buffer],
+  ])('should decode SARIF downloaded as %s', async (_name, data) => {
+    const octokit = createOctokit({ getAnalysis: vi.fn().mockResolvedValue({ data }) });
+
+    const [alert] = await attachCodeFlows(octokit, [mockAlert], () => mockRepo);
+
+    expect(alert.code_flows).toHaveLength(1);
+  });
+
+  it('should fall back to the most recent instance without instances on the ref', async () => {
+    const octokit = createOctokit({
+      listAlertInstances: vi.fn().mockResolvedValue({ data: [] }),
+      listRecentAnalyses: vi
+        .fn()
+        .mockResolvedValue({ data: [{ ...analysis, category: undefined }] }),
+    });
+    const alert = {
+      ...mockAlert,
+      most_recent_instance: { ...mockAlert.most_recent_instance, category: undefined },
+    } as unknown as CodeQLAlert;
+
+    const [result] = await attachCodeFlows(octokit, [alert], () => mockRepo);
+
+    expect(octokit.rest.codeScanning.listRecentAnalyses).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      ref: 'refs/heads/main',
+      per_page: 100,
+    });
+    expect(result.code_flows).toHaveLength(1);
+  });
+
+  it('should leave alerts unchanged when the analysis is not found', async () => {
+    const octokit = createOctokit({
+      listRecentAnalyses: vi.fn().mockResolvedValue({ data: [] }),
+    });
+
+    await expect(attachCodeFlows(octokit, [mockAlert], () => mockRepo)).resolves.toEqual([
+      mockAlert,
+    ]);
+    expect(octokit.rest.codeScanning.getAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should leave alerts unchanged when the SARIF has no matching result', async () => {
+    const octokit = createOctokit({
+      getAnalysis: vi.fn().mockResolvedValue({ data: { runs: [] } }),
+    });
+
+    await expect(attachCodeFlows(octokit, [mockAlert], () => mockRepo)).resolves.toEqual([
+      mockAlert,
+    ]);
+  });
+
+  it('should not add empty code flows or related locations', async () => {
+    const octokit = createOctokit({
+      getAnalysis: vi.fn().mockResolvedValue({
+        data: { runs: [{ results: [{ ...sarifResult, codeFlows: [], relatedLocations: [] }] }] },
+      }),
+    });
+
+    const [alert] = await attachCodeFlows(octokit, [mockAlert], () => mockRepo);
+
+    expect(alert).toEqual(mockAlert);
+  });
+
+  it('should leave alerts unchanged when requests fail', async () => {
+    const octokit = createOctokit({
+      getAnalysis: vi.fn().mockRejectedValue(new Error('Not Found')),
+    });
+
+    await expect(attachCodeFlows(octokit, [mockAlert], () => mockRepo)).resolves.toEqual([
+      mockAlert,
+    ]);
+  });
+});
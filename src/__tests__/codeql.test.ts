@@ -1,7 +1,15 @@
 import type { Octokit } from 'octokit';
 import { describe, expect, it, vi } from 'vitest';
 import type { CodeQLAlert } from '../lib/codeql.js';
-import { fetchAlertDetails, fetchAllAlertsWithDetails, fetchCodeQLAlerts } from '../lib/codeql.js';
+import {
+  fetchAlertDetails,
+  fetchAllAlertsWithDetails,
+  fetchAllOrgAlertsWithDetails,
+  fetchCodeQLAlerts,
+  fetchOrgCodeQLAlerts,
+  updateAlertState,
+  updateAlerts,
+} from '../lib/codeql.js';
 import type { GitHubRepo } from '../lib/git.js';
 
 const mockAlert: CodeQLAlert = {
@@ -98,6 +106,93 @@ describe('CodeQL API', () => {
       expect(alerts).toHaveLength(0);
     });
 
+    it('should request open alerts by default', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: [] }),
+          },
+        },
+      } as unknown as Octokit;
+
+      await fetchCodeQLAlerts(mockOctokit, mockRepo);
+
+      expect(mockOctokit.rest.codeScanning.listAlertsForRepo).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        state: 'open',
+        per_page: 100,
+        page: 1,
+      });
+    });
+
+    it('should push state and tool name filters to the API query', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: [] }),
+          },
+        },
+      } as unknown as Octokit;
+
+      await fetchCodeQLAlerts(mockOctokit, mockRepo, { state: 'dismissed', toolName: 'CodeQL' });
+
+      expect(mockOctokit.rest.codeScanning.listAlertsForRepo).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'dismissed', tool_name: 'CodeQL' }),
+      );
+    });
+
+    it('should push the ref to the API query', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: [] }),
+          },
+        },
+      } as unknown as Octokit;
+
+      await fetchCodeQLAlerts(mockOctokit, mockRepo, { ref: 'refs/pull/42/merge' });
+
+      expect(mockOctokit.rest.codeScanning.listAlertsForRepo).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: 'refs/pull/42/merge' }),
+      );
+    });
+
+    it('should omit state from the API query for all states', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: [] }),
+          },
+        },
+      } as unknown as Octokit;
+
+      await fetchCodeQLAlerts(mockOctokit, mockRepo, { state: 'all' });
+
+      expect(mockOctokit.rest.codeScanning.listAlertsForRepo).toHaveBeenCalledWith(
+        expect.not.objectContaining({ state: expect.anything() }),
+      );
+    });
+
+    it('should apply client-side filters to listed alerts', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({
+              data: [
+                mockAlert,
+                { ...mockAlert, number: 2, rule: { ...mockAlert.rule, id: 'js/xss' } },
+              ],
+            }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alerts = await fetchCodeQLAlerts(mockOctokit, mockRepo, { excludeRules: ['js/xss'] });
+
+      expect(alerts.map((alert) => alert.number)).toEqual([1]);
+    });
+
     it('should continue pagination until fewer than perPage results', async () => {
       const mockAlerts = Array.from({ length: 100 }, (_, i) => ({ ...mockAlert, number: i + 1 }));
       const mockOctokit = {
@@ -175,6 +270,101 @@ describe('CodeQL API', () => {
       expect(mockOctokit.rest.codeScanning.getAlert).toHaveBeenCalledTimes(2);
     });
 
+    it('should retry rate limited detail requests', async () => {
+      const rateLimited = Object.assign(new Error('rate limited'), {
+        status: 403,
+        response: { headers: { 'retry-after': '0' } },
+      });
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: [mockAlert] }),
+            getAlert: vi
+              .fn()
+              .mockRejectedValueOnce(rateLimited)
+              .mockResolvedValueOnce({ data: mockAlert }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alerts = await fetchAllAlertsWithDetails(mockOctokit, mockRepo);
+
+      expect(alerts).toEqual([mockAlert]);
+      expect(mockOctokit.rest.codeScanning.getAlert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail the whole fetch on an error by default', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: [mockAlert] }),
+            getAlert: vi.fn().mockRejectedValue(new Error('Not Found')),
+          },
+        },
+      } as unknown as Octokit;
+
+      await expect(fetchAllAlertsWithDetails(mockOctokit, mockRepo)).rejects.toThrow('Not Found');
+    });
+
+    it('should fall back to listed alerts and report failures in partial mode', async () => {
+      const listed = [
+        { ...mockAlert, number: 1 },
+        { ...mockAlert, number: 2 },
+      ];
+      const detailed = { ...mockAlert, number: 1, help: 'help text' };
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({ data: listed }),
+            getAlert: vi
+              .fn()
+              .mockResolvedValueOnce({ data: detailed })
+              .mockRejectedValueOnce(new Error('Not Found')),
+          },
+        },
+      } as unknown as Octokit;
+      const onFailure = vi.fn();
+      const onProgress = vi.fn();
+
+      const alerts = await fetchAllAlertsWithDetails(
+        mockOctokit,
+        mockRepo,
+        {},
+        { partial: true, concurrency: 1, onFailure, onProgress },
+      );
+
+      expect(alerts).toEqual([detailed, listed[1]]);
+      expect(onFailure).toHaveBeenCalledWith(2, expect.any(Error), mockRepo);
+      expect(onProgress).toHaveBeenNthCalledWith(1, 1, 2);
+      expect(onProgress).toHaveBeenNthCalledWith(2, 2, 2);
+    });
+
+    it('should only fetch details for alerts that pass the filter', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForRepo: vi.fn().mockResolvedValue({
+              data: [
+                { ...mockAlert, number: 1 },
+                { ...mockAlert, number: 2, rule: { ...mockAlert.rule, severity: 'note' } },
+              ],
+            }),
+            getAlert: vi.fn().mockResolvedValue({ data: { ...mockAlert, number: 1 } }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alerts = await fetchAllAlertsWithDetails(mockOctokit, mockRepo, {
+        minSeverity: 'warning',
+      });
+
+      expect(alerts).toHaveLength(1);
+      expect(mockOctokit.rest.codeScanning.getAlert).toHaveBeenCalledTimes(1);
+      expect(mockOctokit.rest.codeScanning.getAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ alert_number: 1 }),
+      );
+    });
+
     it('should handle empty results', async () => {
       const mockOctokit = {
         rest: {
@@ -193,4 +383,237 @@ describe('CodeQL API', () => {
       expect(mockOctokit.rest.codeScanning.getAlert).not.toHaveBeenCalled();
     });
   });
+
+  describe('fetchOrgCodeQLAlerts', () => {
+    it('should page through organization alerts and apply filters', async () => {
+      const page = Array.from({ length: 100 }, (_, i) => ({ ...mockAlert, number: i + 1 }));
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForOrg: vi
+              .fn()
+              .mockResolvedValueOnce({ data: page })
+              .mockResolvedValueOnce({
+                data: [{ ...mockAlert, number: 101, rule: { ...mockAlert.rule, id: 'js/xss' } }],
+              }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alerts = await fetchOrgCodeQLAlerts(mockOctokit, 'acme', {
+        state: 'dismissed',
+        toolName: 'CodeQL',
+        rules: ['js/xss'],
+      });
+
+      expect(alerts).toHaveLength(1);
+      expect(mockOctokit.rest.codeScanning.listAlertsForOrg).toHaveBeenCalledTimes(2);
+      expect(mockOctokit.rest.codeScanning.listAlertsForOrg).toHaveBeenCalledWith({
+        org: 'acme',
+        state: 'dismissed',
+        tool_name: 'CodeQL',
+        per_page: 100,
+        page: 2,
+      });
+    });
+
+    it('should request open alerts by default and stop on an empty page', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForOrg: vi.fn().mockResolvedValue({ data: [] }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alerts = await fetchOrgCodeQLAlerts(mockOctokit, 'acme');
+
+      expect(alerts).toEqual([]);
+      expect(mockOctokit.rest.codeScanning.listAlertsForOrg).toHaveBeenCalledWith({
+        org: 'acme',
+        state: 'open',
+        per_page: 100,
+        page: 1,
+      });
+    });
+
+    it('should omit state from the API query for all states', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForOrg: vi.fn().mockResolvedValue({ data: [mockAlert] }),
+          },
+        },
+      } as unknown as Octokit;
+
+      await fetchOrgCodeQLAlerts(mockOctokit, 'acme', { state: 'all' });
+
+      expect(mockOctokit.rest.codeScanning.listAlertsForOrg).toHaveBeenCalledWith({
+        org: 'acme',
+        per_page: 100,
+        page: 1,
+      });
+    });
+  });
+
+  describe('fetchAllOrgAlertsWithDetails', () => {
+    it('should fetch details from each alert repository and keep the repository', async () => {
+      const listed = [
+        { ...mockAlert, number: 1, repository: { full_name: 'acme/api' } },
+        { ...mockAlert, number: 1, repository: { full_name: 'acme/web' } },
+      ];
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForOrg: vi.fn().mockResolvedValue({ data: listed }),
+            getAlert: vi.fn().mockResolvedValue({ data: { ...mockAlert, help: 'help text' } }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alerts = await fetchAllOrgAlertsWithDetails(
+        mockOctokit,
+        'acme',
+        {},
+        { concurrency: 1 },
+      );
+
+      expect(alerts).toEqual([
+        { ...mockAlert, help: 'help text', repository: { full_name: 'acme/api' } },
+        { ...mockAlert, help: 'help text', repository: { full_name: 'acme/web' } },
+      ]);
+      expect(mockOctokit.rest.codeScanning.getAlert).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'api',
+        alert_number: 1,
+      });
+      expect(mockOctokit.rest.codeScanning.getAlert).toHaveBeenCalledWith({
+        owner: 'acme',
+        repo: 'web',
+        alert_number: 1,
+      });
+    });
+
+    it('should report the repository of failed alerts in partial mode', async () => {
+      const listed = { ...mockAlert, number: 4, repository: { full_name: 'acme/api' } };
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            listAlertsForOrg: vi.fn().mockResolvedValue({ data: [listed] }),
+            getAlert: vi.fn().mockRejectedValue(new Error('Not Found')),
+          },
+        },
+      } as unknown as Octokit;
+      const onFailure = vi.fn();
+
+      const alerts = await fetchAllOrgAlertsWithDetails(
+        mockOctokit,
+        'acme',
+        {},
+        { partial: true, onFailure },
+      );
+
+      expect(alerts).toEqual([listed]);
+      expect(onFailure).toHaveBeenCalledWith(4, expect.any(Error), { owner: 'acme', repo: 'api' });
+    });
+  });
+
+  describe('updateAlertState', () => {
+    it('should dismiss an alert with a reason and comment', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            updateAlert: vi.fn().mockResolvedValue({ data: mockAlert }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const alert = await updateAlertState(mockOctokit, mockRepo, {
+        number: 1,
+        state: 'dismissed',
+        reason: 'false positive',
+        comment: 'Input is validated',
+      });
+
+      expect(alert).toEqual(mockAlert);
+      expect(mockOctokit.rest.codeScanning.updateAlert).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        alert_number: 1,
+        state: 'dismissed',
+        dismissed_reason: 'false positive',
+        dismissed_comment: 'Input is validated',
+      });
+    });
+
+    it('should reopen an alert', async () => {
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            updateAlert: vi.fn().mockResolvedValue({ data: mockAlert }),
+          },
+        },
+      } as unknown as Octokit;
+
+      await updateAlertState(mockOctokit, mockRepo, { number: 2, state: 'open' });
+
+      expect(mockOctokit.rest.codeScanning.updateAlert).toHaveBeenCalledWith({
+        owner: 'test-owner',
+        repo: 'test-repo',
+        alert_number: 2,
+        state: 'open',
+      });
+    });
+  });
+
+  describe('updateAlerts', () => {
+    it('should retry rate limited updates', async () => {
+      const rateLimited = Object.assign(new Error('rate limited'), {
+        status: 403,
+        response: { headers: { 'retry-after': '0' } },
+      });
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            updateAlert: vi
+              .fn()
+              .mockRejectedValueOnce(rateLimited)
+              .mockResolvedValueOnce({ data: mockAlert }),
+          },
+        },
+      } as unknown as Octokit;
+
+      const applied = await updateAlerts(mockOctokit, mockRepo, [{ number: 1, state: 'open' }]);
+
+      expect(applied).toEqual([{ number: 1, state: 'open' }]);
+      expect(mockOctokit.rest.codeScanning.updateAlert).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep going after a failed update', async () => {
+      const notFound = new Error('Not Found');
+      const mockOctokit = {
+        rest: {
+          codeScanning: {
+            updateAlert: vi
+              .fn()
+              .mockRejectedValueOnce(notFound)
+              .mockResolvedValueOnce({ data: mockAlert }),
+          },
+        },
+      } as unknown as Octokit;
+      const onFailure = vi.fn();
+      const updates = [
+        { number: 1, state: 'open' as const },
+        { number: 2, state: 'open' as const },
+      ];
+
+      const applied = await updateAlerts(mockOctokit, mockRepo, updates, {
+        concurrency: 1,
+        onFailure,
+      });
+
+      expect(applied).toEqual([updates[1]]);
+      expect(onFailure).toHaveBeenCalledWith(updates[0], notFound);
+    });
+  });
 });
@@ -0,0 +1,209 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { SimpleGit } from 'simple-git';
+import simpleGit from 'simple-git';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configForCommand, loadConfig, parseConfig } from '../lib/config.js';
+
+vi.mock('simple-git');
+
+describe('parseConfig', () => {
+  it('should keep valid options and resolve paths against the root', () => {
+    const config = parseConfig(
+      {
+        format: 'md',
+        detail: 'full',
+        snippets: true,
+        maxAlerts: 0,
+        rule: ['js/*'],
+        promptTemplate: 'templates/task.md',
+        template: 'templates/ticket.md',
+        formatterModule: ['./formats/tickets.mjs', '/opt/formats/feed.mjs'],
+      },
+      '.codeql-report.json',
+      '/work/repo',
+    );
+
+    expect(config).toEqual({
+      format: 'md',
+      detail: 'full',
+      snippets: true,
+      maxAlerts: 0,
+      rule: ['js/*'],
+      promptTemplate: '/work/repo/templates/task.md',
+      template: '/work/repo/templates/ticket.md',
+      formatterModule: ['/work/repo/formats/tickets.mjs', '/opt/formats/feed.mjs'],
+    });
+  });
+
+  it.each([null, ['md'], 'md'])('should reject %j as a whole', (data) => {
+    expect(() => parseConfig(data, '.codeql-report.json', '/repo')).toThrow(
+      'Invalid config file .codeql-report.json: expected an object of options',
+    );
+  });
+
+  it('should not let config files choose the API host', () => {
+    expect(() =>
+      parseConfig({ apiUrl: 'https://attacker.example/api/v3' }, '.codeql-report.json', '/repo'),
+    ).toThrow('Invalid config file .codeql-report.json: unknown option apiUrl');
+  });
+
+  it('should reject unknown options', () => {
+    expect(() => parseConfig({ colour: 'red' }, '.codeql-report.json', '/repo')).toThrow(
+      'Invalid config file .codeql-report.json: unknown option colour, expected one of format, formatterModule, detail',
+    );
+  });
+
+  it.each([
+    [{ detail: 'fulll' }, 'detail must be one of minimum, medium, full, raw, got "fulll"'],
+    [{ format: '' }, 'format must be a string, got ""'],
+    [{ format: 1 }, 'format must be a string, got 1'],
+    [{ snippets: 'yes' }, 'snippets must be true or false, got "yes"'],
+    [{ context: '5' }, 'context must be a non-negative number, got "5"'],
+    [{ maxAlerts: -1 }, 'maxAlerts must be a non-negative number, got -1'],
+    [{ rule: 'js/*' }, 'rule must be a list of strings, got "js/*"'],
+    [{ path: ['src/**', 3] }, 'path must be a list of strings, got ["src/**",3]'],
+  ])('should reject %j', (data, message) => {
+    expect(() => parseConfig(data, '.codeql-report.json', '/repo')).toThrow(
+      `Invalid config file .codeql-report.json: ${message}`,
+    );
+  });
+});
+
+describe('configForCommand', () => {
+  const config = {
+    format: 'md',
+    rule: ['js/*'],
+    failOn: 'error' as const,
+    maxTokens: 4000,
+    baselineFile: '/repo/.codeql-baseline.yml',
+  };
+
+  it('should apply every option to reports', () => {
+    expect(configForCommand(config)).toEqual(config);
+  });
+
+  it('should leave out the options of reports for other commands', () => {
+    expect(configForCommand(config, 'diff')).toEqual({ format: 'md', rule: ['js/*'] });
+    expect(configForCommand(config, 'baseline')).toEqual({
+      format: 'md',
+      rule: ['js/*'],
+      baselineFile: '/repo/.codeql-baseline.yml',
+    });
+  });
+
+  it('should keep every option for config print', () => {
+    expect(configForCommand(config, 'config')).toEqual(config);
+  });
+});
+
+describe('loadConfig', () => {
+  let root: string;
+  let mockGit: { revparse: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'codeql-config-'));
+    mockGit = { revparse: vi.fn().mockResolvedValue(`${root}\n`) };
+    vi.mocked(simpleGit).mockReturnValue(mockGit as unknown as SimpleGit);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should load .codeql-report.json from the repository root', async () => {
+    await writeFile(
+      join(root, '.codeql-report.json'),
+      '{"format":"md","baselineFile":"ci/b.json"}',
+    );
+    await writeFile(join(root, 'package.json'), '{"codeql-report":{"format":"txt"}}');
+
+    const loaded = await loadConfig(join(root, 'src'));
+
+    expect(simpleGit).toHaveBeenCalledWith(join(root, 'src'));
+    expect(mockGit.revparse).toHaveBeenCalledWith(['--show-toplevel']);
+    expect(loaded).toEqual({
+      path: join(root, '.codeql-report.json'),
+      config: { format: 'md', baselineFile: join(root, 'ci/b.json') },
+    });
+  });
+
+  it('should load the exports of codeql-report.config.js', async () => {
+    await writeFile(
+      join(root, 'codeql-report.config.js'),
+      "module.exports = { detail: 'full', groupBy: 'file' };",
+    );
+
+    expect(await loadConfig()).toEqual({
+      path: join(root, 'codeql-report.config.js'),
+      config: { detail: 'full', groupBy: 'file' },
+    });
+  });
+
+  it('should report config modules that cannot be loaded', async () => {
+    await writeFile(join(root, 'codeql-report.config.js'), 'module.exports = {');
+
+    await expect(loadConfig()).rejects.toThrow(
+      `Could not load config file ${join(root, 'codeql-report.config.js')}:`,
+    );
+  });
+
+  it('should fall back to the codeql-report key of package.json', async () => {
+    await writeFile(
+      join(root, 'package.json'),
+      '{"name":"api","codeql-report":{"minSeverity":"error"}}',
+    );
+
+    expect(await loadConfig()).toEqual({
+      path: join(root, 'package.json'),
+      config: { minSeverity: 'error' },
+    });
+  });
+
+  it('should name the package.json key in errors', async () => {
+    await writeFile(join(root, 'package.json'), '{"codeql-report":{"state":"closed"}}');
+
+    await expect(loadConfig()).rejects.toThrow(
+      `Invalid config file ${join(root, 'package.json')} (codeql-report key): state must be one of`,
+    );
+  });
+
+  it.each(['{"name":"api"}', 'null'])(
+    'should return undefined with package.json %s',
+    async (content) => {
+      await writeFile(join(root, 'package.json'), content);
+
+      expect(await loadConfig()).toBeUndefined();
+      expect(simpleGit).toHaveBeenCalledWith(process.cwd());
+    },
+  );
+
+  it('should return undefined in a root without config files', async () => {
+    expect(await loadConfig()).toBeUndefined();
+  });
+
+  it('should look in the working directory outside a repository', async () => {
+    mockGit.revparse.mockRejectedValue(new Error('fatal: not a git repository'));
+    await writeFile(join(root, '.codeql-report.json'), '{"state":"all"}');
+
+    expect(await loadConfig(root)).toEqual({
+      path: join(root, '.codeql-report.json'),
+      config: { state: 'all' },
+    });
+  });
+
+  it('should report invalid JSON', async () => {
+    await writeFile(join(root, '.codeql-report.json'), '{"format":');
+
+    await expect(loadConfig()).rejects.toThrow(
+      `Could not parse config file ${join(root, '.codeql-report.json')}:`,
+    );
+  });
+
+  it('should report config files that cannot be read', async () => {
+    await mkdir(join(root, '.codeql-report.json'));
+
+    await expect(loadConfig()).rejects.toThrow('EISDIR');
+  });
+});
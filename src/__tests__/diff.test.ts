@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { alertFingerprint, diffAlerts } from '../lib/diff.js';
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection detected',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+function alertAt(number: number, path: string, line: number, ruleId = 'js/sql-injection') {
+  return {
+    ...mockAlert,
+    number,
+    rule: { ...mockAlert.rule, id: ruleId },
+    most_recent_instance: {
+      ...mockAlert.most_recent_instance,
+      location: { ...mockAlert.most_recent_instance.location, path, start_line: line },
+    },
+  };
+}
+
+describe('alertFingerprint', () => {
+  it('should ignore alert numbers and line numbers', () => {
+    expect(alertFingerprint(alertAt(1, 'a.js', 10))).toBe(alertFingerprint(alertAt(2, 'a.js', 20)));
+  });
+
+  it('should differ by rule, path and message', () => {
+    const fingerprint = alertFingerprint(mockAlert);
+    expect(alertFingerprint(alertAt(1, 'src/database.js', 10, 'js/xss'))).not.toBe(fingerprint);
+    expect(alertFingerprint(alertAt(1, 'src/other.js', 10))).not.toBe(fingerprint);
+    expect(
+      alertFingerprint({
+        ...mockAlert,
+        most_recent_instance: { ...mockAlert.most_recent_instance, message: { text: 'Other' } },
+      }),
+    ).not.toBe(fingerprint);
+  });
+});
+
+describe('diffAlerts', () => {
+  it('should classify new, fixed and unchanged alerts by number', () => {
+    const base = [alertAt(1, 'a.js', 10), alertAt(2, 'b.js', 5, 'js/xss')];
+    const head = [alertAt(1, 'a.js', 10), alertAt(3, 'c.js', 1, 'js/eval')];
+
+    const diff = diffAlerts(base, head);
+
+    expect(diff.new.map((alert) => alert.number)).toEqual([3]);
+    expect(diff.fixed.map((alert) => alert.number)).toEqual([2]);
+    expect(diff.unchanged).toEqual([{ base: base[0], head: head[0], moved: false }]);
+  });
+
+  it('should mark matched alerts whose location changed as moved', () => {
+    const diff = diffAlerts([alertAt(1, 'a.js', 10)], [alertAt(1, 'a.js', 14)]);
+
+    expect(diff.unchanged[0].moved).toBe(true);
+    expect(diff.new).toHaveLength(0);
+    expect(diff.fixed).toHaveLength(0);
+  });
+
+  it('should match alerts without numbers by fingerprint', () => {
+    const base = [alertAt(0, 'a.js', 10), alertAt(0, 'a.js', 30)];
+    const head = [alertAt(0, 'a.js', 12)];
+
+    const diff = diffAlerts(base, head);
+
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.unchanged[0].base).toBe(base[0]);
+    expect(diff.fixed).toEqual([base[1]]);
+  });
+
+  it('should fall back to fingerprints when numbers differ', () => {
+    const diff = diffAlerts([alertAt(5, 'a.js', 10)], [alertAt(9, 'a.js', 10)]);
+
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.unchanged[0].moved).toBe(false);
+  });
+
+  it('should not match numbers of alerts with different rules', () => {
+    // Both sides numbered in file order, a new rule's alert took number 1
+    const base = alertAt(1, 'a.js', 10, 'js/r1');
+    const added = alertAt(1, 'b.js', 20, 'js/r2');
+    const diff = diffAlerts([base], [added, alertAt(2, 'a.js', 10, 'js/r1')]);
+
+    expect(diff.new).toEqual([added]);
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.unchanged[0]).toMatchObject({ base, moved: false });
+    expect(diff.fixed).toEqual([]);
+  });
+
+  it('should handle empty sides', () => {
+    expect(diffAlerts([], [mockAlert]).new).toEqual([mockAlert]);
+    expect(diffAlerts([mockAlert], []).fixed).toEqual([mockAlert]);
+  });
+});
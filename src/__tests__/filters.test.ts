@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import {
+  applyAlertFilter,
+  globToRegExp,
+  matchesAlertFilter,
+  matchesAnyGlob,
+  securitySeverityRank,
+  severityRank,
+} from '../lib/filters.js';
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection detected',
+    },
+    location: {
+      path: 'src/db/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+function withAlert(ruleId: string, severity: string, path: string): CodeQLAlert {
+  return {
+    ...mockAlert,
+    rule: { ...mockAlert.rule, id: ruleId, severity },
+    most_recent_instance: {
+      ...mockAlert.most_recent_instance,
+      location: { ...mockAlert.most_recent_instance.location, path },
+    },
+  };
+}
+
+describe('severityRank', () => {
+  it('should rank severities in ascending order', () => {
+    expect(severityRank('note')).toBeLessThan(severityRank('warning'));
+    expect(severityRank('warning')).toBeLessThan(severityRank('ERROR'));
+  });
+
+  it('should rank unknown severities lowest', () => {
+    expect(severityRank('unknown')).toBe(0);
+  });
+});
+
+describe('securitySeverityRank', () => {
+  it('should rank security severities in ascending order', () => {
+    expect(securitySeverityRank('low')).toBeLessThan(securitySeverityRank('medium'));
+    expect(securitySeverityRank('medium')).toBeLessThan(securitySeverityRank('high'));
+    expect(securitySeverityRank('high')).toBeLessThan(securitySeverityRank('CRITICAL'));
+  });
+
+  it('should rank missing and unknown levels lowest', () => {
+    expect(securitySeverityRank(null)).toBe(0);
+    expect(securitySeverityRank(undefined)).toBe(0);
+    expect(securitySeverityRank('severe')).toBe(0);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('should match single segment wildcards', () => {
+    expect(globToRegExp('src/*.js').test('src/app.js')).toBe(true);
+    expect(globToRegExp('src/*.js').test('src/db/app.js')).toBe(false);
+  });
+
+  it('should match across directories with **', () => {
+    expect(globToRegExp('src/**').test('src/db/app.js')).toBe(true);
+    expect(globToRegExp('**/*.js').test('app.js')).toBe(true);
+    expect(globToRegExp('src/**/app.js').test('src/app.js')).toBe(true);
+  });
+
+  it('should match single characters with ?', () => {
+    expect(globToRegExp('js/xs?').test('js/xss')).toBe(true);
+    expect(globToRegExp('js/xs?').test('js/xs')).toBe(false);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(globToRegExp('file.(js)').test('file.(js)')).toBe(true);
+    expect(globToRegExp('file.js').test('fileXjs')).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('should match if any glob matches', () => {
+    expect(matchesAnyGlob('js/xss', ['py/*', 'js/*'])).toBe(true);
+    expect(matchesAnyGlob('js/xss', ['py/*'])).toBe(false);
+  });
+});
+
+describe('matchesAlertFilter', () => {
+  it('should pass everything with an empty filter', () => {
+    expect(matchesAlertFilter(mockAlert, {})).toBe(true);
+    expect(matchesAlertFilter(mockAlert, { rules: [], paths: [] })).toBe(true);
+  });
+
+  it('should filter by minimum severity', () => {
+    expect(matchesAlertFilter(mockAlert, { minSeverity: 'error' })).toBe(true);
+    expect(matchesAlertFilter(withAlert('js/x', 'warning', 'a.js'), { minSeverity: 'error' })).toBe(
+      false,
+    );
+  });
+
+  it('should filter by rule include and exclude globs', () => {
+    expect(matchesAlertFilter(mockAlert, { rules: ['js/*'] })).toBe(true);
+    expect(matchesAlertFilter(mockAlert, { rules: ['py/*'] })).toBe(false);
+    expect(matchesAlertFilter(mockAlert, { excludeRules: ['js/sql-*'] })).toBe(false);
+  });
+
+  it('should filter by path include and exclude globs', () => {
+    expect(matchesAlertFilter(mockAlert, { paths: ['src/**'] })).toBe(true);
+    expect(matchesAlertFilter(mockAlert, { paths: ['test/**'] })).toBe(false);
+    expect(matchesAlertFilter(mockAlert, { excludePaths: ['**/db/*'] })).toBe(false);
+  });
+});
+
+describe('applyAlertFilter', () => {
+  it('should keep only matching alerts', () => {
+    const alerts = [
+      mockAlert,
+      withAlert('js/xss', 'warning', 'src/view.js'),
+      withAlert('py/sql-injection', 'error', 'app/db.py'),
+    ];
+
+    const result = applyAlertFilter(alerts, { rules: ['js/*'], minSeverity: 'warning' });
+
+    expect(result).toHaveLength(2);
+    expect(applyAlertFilter(alerts, { excludePaths: ['src/**'] })).toHaveLength(1);
+  });
+});
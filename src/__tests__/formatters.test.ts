@@ -1,9 +1,30 @@
-import { describe, expect, it } from 'vitest';
-import { formatAsJSON } from '../formatters/json.js';
-import { formatAsMarkdown, generateMarkdownTable } from '../formatters/markdown.js';
-import { formatAsSARIF } from '../formatters/sarif.js';
-import { formatAsText } from '../formatters/text.js';
+import { describe, expect, it, vi } from 'vitest';
+import { CSV_COLUMNS, formatAsCSV, validateColumns } from '../formatters/csv.js';
+import { formatAsHTML } from '../formatters/html.js';
+import { formatAsJSON, formatAsJSONLines, formatDiffAsJSON } from '../formatters/json.js';
+import { formatAsJUnit } from '../formatters/junit.js';
+import {
+  DEFAULT_MARKDOWN_TEMPLATE,
+  formatAsMarkdown,
+  formatChunkIndexAsMarkdown,
+  formatDiffAsMarkdown,
+  generateMarkdownTable,
+} from '../formatters/markdown.js';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  formatAsPrompt,
+  validatePromptTemplate,
+} from '../formatters/prompt.js';
+import { formatAsSARIF, formatDiffAsSARIF } from '../formatters/sarif.js';
+import { validateReportTemplate } from '../formatters/template.js';
+import {
+  DEFAULT_TEXT_TEMPLATE,
+  formatAsText,
+  formatChunkIndexAsText,
+  formatDiffAsText,
+} from '../formatters/text.js';
 import type { CodeQLAlert } from '../lib/codeql.js';
+import type { AlertDiff } from '../lib/diff.js';
 
 const mockAlert: CodeQLAlert = {
   number: 1,
@@ -36,6 +57,78 @@ const mockAlert: CodeQLAlert = {
   },
 };
 
+const alertWithSnippet: CodeQLAlert = {
+  ...mockAlert,
+  snippet: {
+    start_line: 9,
+    end_line: 13,
+    code: 'const db = connect();\nconst q = "SELECT * FROM t WHERE id = " + id;\ndb.query(q);\nreturn q;\n}',
+    status: 'unchanged',
+  },
+};
+
+const movedAlert: CodeQLAlert = {
+  ...mockAlert,
+  number: 2,
+  most_recent_instance: {
+    ...mockAlert.most_recent_instance,
+    location: { ...mockAlert.most_recent_instance.location, start_line: 20, end_line: 22 },
+  },
+};
+
+const mockDiff: AlertDiff = {
+  new: [{ ...mockAlert, number: 3, rule: { ...mockAlert.rule, id: 'js/xss', name: 'XSS' } }],
+  fixed: [{ ...mockAlert, number: 4, rule: { ...mockAlert.rule, name: 'Fixed Rule' } }],
+  unchanged: [
+    { base: mockAlert, head: mockAlert, moved: false },
+    { base: { ...mockAlert, number: 2 }, head: movedAlert, moved: true },
+  ],
+};
+
+const emptyDiff: AlertDiff = { new: [], fixed: [], unchanged: [] };
+
+const source = {
+  path: 'src/server.js',
+  start_line: 4,
+  end_line: 4,
+  start_column: 3,
+  end_column: 9,
+  message: 'req.query.id',
+};
+const sink = { ...source, path: 'src/database.js', start_line: 10, message: undefined };
+const alertWithFlows: CodeQLAlert = {
+  ...mockAlert,
+  code_flows: [[source, sink]],
+  related_locations: [source],
+};
+
+const apiAlert: CodeQLAlert = { ...mockAlert, repository: { full_name: 'acme/api' } };
+const webAlert: CodeQLAlert = {
+  ...mockAlert,
+  number: 2,
+  rule: { ...mockAlert.rule, severity: 'warning' },
+  repository: { full_name: 'acme/web' },
+};
+const alertWithHelp: CodeQLAlert = {
+  ...mockAlert,
+  rule: {
+    ...mockAlert.rule,
+    full_description: 'Building a SQL query from user-controlled sources is vulnerable.',
+    help: '# SQL injection\n\nUse query parameters.\n\n```python\n# not a heading\n```',
+    help_uri: 'https://codeql.github.com/js-sql-injection',
+    tags: ['security', 'external/cwe/cwe-089'],
+  },
+};
+
+const groupedMetadata = {
+  organization: 'acme',
+  repositories: [
+    { name: 'acme/api', failedAlerts: [7] },
+    { name: 'acme/web' },
+    { name: 'acme/docs' },
+  ],
+};
+
 describe('Formatters', () => {
   describe('formatAsJSON', () => {
     it('should format alerts as JSON with default (medium) detail', () => {
@@ -94,6 +187,13 @@ describe('Formatters', () => {
       expect(parsed[0]).toHaveProperty('rule');
     });
 
+    it('should include snippet field when snippets are attached', () => {
+      const parsed = JSON.parse(formatAsJSON([alertWithSnippet], 'minimum'));
+      expect(parsed[0].snippet).toEqual(alertWithSnippet.snippet);
+      expect(JSON.parse(formatAsJSON([alertWithSnippet], 'full'))[0]).toHaveProperty('snippet');
+      expect(JSON.parse(formatAsJSON([mockAlert], 'medium'))[0]).not.toHaveProperty('snippet');
+    });
+
     it('should handle empty array', () => {
       const result = formatAsJSON([]);
       expect(result).toBe('[]');
@@ -112,6 +212,13 @@ describe('Formatters', () => {
       expect(result).toContain('src/database.js');
     });
 
+    it('should name alerts without a number by their location', () => {
+      const result = formatAsText([{ ...mockAlert, number: 0 }]);
+
+      expect(result).toContain('Alert at src/database.js:10\n');
+      expect(result).not.toContain('Alert #0');
+    });
+
     it('should format alerts with minimum detail (commit now included)', () => {
       const result = formatAsText([mockAlert], 'minimum');
       expect(result).toContain('Detail Level: minimum');
@@ -130,6 +237,34 @@ describe('Formatters', () => {
       expect(result).toContain('Commit:');
     });
 
+    it('should include line-numbered snippets', () => {
+      const result = formatAsText([alertWithSnippet]);
+      expect(result).toContain('Code:');
+      expect(result).toContain('  > 10 | const q = "SELECT * FROM t WHERE id = " + id;');
+      expect(result).toContain('     9 | const db = connect();');
+      expect(result).not.toContain('WARNING:');
+    });
+
+    it('should mark snippets that do not match the analyzed commit', () => {
+      const changed = {
+        ...alertWithSnippet,
+        snippet: { ...alertWithSnippet.snippet, status: 'changed' },
+      } as CodeQLAlert;
+      const result = formatAsText([changed]);
+      expect(result).toContain('WARNING: Local file differs from analyzed commit abc123');
+    });
+
+    it('should label the ref in the header', () => {
+      const result = formatAsText([mockAlert], 'medium', { ref: 'refs/pull/42/merge' });
+      expect(result).toContain('Ref: refs/pull/42/merge');
+      expect(formatAsText([mockAlert])).not.toContain('Ref:');
+    });
+
+    it('should list alerts whose details could not be fetched', () => {
+      const result = formatAsText([mockAlert], 'medium', { failedAlerts: [3, 7] });
+      expect(result).toContain('Incomplete: details could not be fetched for alert(s) #3, #7');
+    });
+
     it('should handle empty array', () => {
       const result = formatAsText([]);
       expect(result).toContain('Total Alerts: 0');
@@ -199,6 +334,13 @@ describe('Formatters', () => {
       expect(result).toContain('`js/sql-injection`');
     });
 
+    it('should name alerts without a number by their location', () => {
+      const result = formatAsMarkdown([{ ...mockAlert, number: 0 }], 'owner/repo');
+
+      expect(result).toContain('### Alert at src/database.js:10: SQL Injection');
+      expect(result).not.toContain('Alert #0');
+    });
+
     it('should format with minimum detail (commit now included)', () => {
       const result = formatAsMarkdown([mockAlert], 'owner/repo', 'minimum');
       expect(result).toContain('**Detail Level:** minimum');
@@ -215,6 +357,20 @@ describe('Formatters', () => {
       expect(result).toContain('**Reference:**');
     });
 
+    it('should label the ref in the header', () => {
+      const result = formatAsMarkdown([mockAlert], 'owner/repo', 'medium', {
+        ref: 'refs/heads/feature',
+      });
+      expect(result).toContain('**Ref:** `refs/heads/feature`');
+      expect(formatAsMarkdown([mockAlert], 'owner/repo')).not.toContain('**Ref:**');
+    });
+
+    it('should list alerts whose details could not be fetched', () => {
+      const result = formatAsMarkdown([mockAlert], 'owner/repo', 'medium', { failedAlerts: [3] });
+      expect(result).toContain('**Incomplete:** details could not be fetched for alert(s) #3');
+      expect(formatAsMarkdown([mockAlert], 'owner/repo')).not.toContain('**Incomplete:**');
+    });
+
     it('should include severity summary table', () => {
       const result = formatAsMarkdown([mockAlert], 'owner/repo');
       expect(result).toContain('Severity');
@@ -231,6 +387,22 @@ describe('Formatters', () => {
       expect(result).toContain('"rule"');
     });
 
+    it('should include fenced line-numbered snippets', () => {
+      const result = formatAsMarkdown([alertWithSnippet], 'owner/repo');
+      expect(result).toContain('#### Code');
+      expect(result).toContain('```js\n   9 | const db = connect();\n> 10 |');
+      expect(result).not.toContain('⚠️');
+    });
+
+    it('should mark snippets that could not be verified against the analyzed commit', () => {
+      const unverified = {
+        ...alertWithSnippet,
+        snippet: { ...alertWithSnippet.snippet, status: 'unverified' },
+      } as CodeQLAlert;
+      const result = formatAsMarkdown([unverified], 'owner/repo');
+      expect(result).toContain('> ⚠️ Analyzed commit abc123 is not available locally');
+    });
+
     it('should handle multiple alerts with different severities', () => {
       const alerts: CodeQLAlert[] = [
         mockAlert,
@@ -276,6 +448,23 @@ describe('Formatters', () => {
       expect(parsed[0]).toHaveProperty('tool');
     });
 
+    it('should record the ref in version control provenance', () => {
+      const result = formatAsSARIF([mockAlert], 'owner/repo', 'medium', {
+        ref: 'refs/pull/42/merge',
+      });
+      const parsed = JSON.parse(result);
+      expect(parsed.runs[0].versionControlProvenance).toEqual([
+        { repositoryUri: 'https://github.com/owner/repo', branch: 'refs/pull/42/merge' },
+      ]);
+      const withoutRef = JSON.parse(formatAsSARIF([mockAlert], 'owner/repo'));
+      expect(withoutRef.runs[0]).not.toHaveProperty('versionControlProvenance');
+    });
+
+    it('should record alert numbers in result properties', () => {
+      const parsed = JSON.parse(formatAsSARIF([mockAlert], 'owner/repo', 'minimum'));
+      expect(parsed.runs[0].results[0].properties).toEqual({ alertNumber: 1 });
+    });
+
     it('should map medium severity to warning level', () => {
       const mediumAlert = { ...mockAlert, rule: { ...mockAlert.rule, severity: 'medium' } };
       const result = formatAsSARIF([mediumAlert], 'owner/repo');
@@ -297,4 +486,1501 @@ describe('Formatters', () => {
       expect(parsed.runs[0].results[0].level).toBe('note');
     });
   });
+
+  describe('code flows', () => {
+    it('should render numbered Markdown steps and related locations at full detail', () => {
+      const result = formatAsMarkdown([alertWithFlows], 'owner/repo', 'full');
+
+      expect(result).toContain(
+        '#### Code Flow\n\n1. `src/server.js:4:3` - req.query.id\n2. `src/database.js:10:3`',
+      );
+      expect(result).toContain('#### Related Locations\n\n1. `src/server.js:4:3` - req.query.id');
+    });
+
+    it('should number Markdown code flows when there are several', () => {
+      const result = formatAsMarkdown(
+        [{ ...mockAlert, code_flows: [[source], [sink]] }],
+        'owner/repo',
+        'full',
+      );
+
+      expect(result).toContain('#### Code Flow 1 of 2');
+      expect(result).toContain('#### Code Flow 2 of 2');
+      expect(result).not.toContain('#### Related Locations');
+    });
+
+    it('should not render code flows below full detail', () => {
+      expect(formatAsMarkdown([alertWithFlows], 'owner/repo', 'medium')).not.toContain('Code Flow');
+      expect(formatAsText([alertWithFlows], 'medium')).not.toContain('Code Flow');
+    });
+
+    it('should render indented text steps', () => {
+      const result = formatAsText([alertWithFlows], 'full');
+
+      expect(result).toContain(
+        'Code Flow:\n  1. src/server.js:4:3 - req.query.id\n  2. src/database.js:10:3',
+      );
+      expect(result).toContain('Related Locations:\n  1. src/server.js:4:3 - req.query.id');
+
+      const several = formatAsText([{ ...mockAlert, code_flows: [[source], [sink]] }], 'full');
+      expect(several).toContain('Code Flow 1/2:');
+      expect(several).not.toContain('Related Locations:');
+    });
+
+    it('should emit SARIF code flows and related locations', () => {
+      const parsed = JSON.parse(formatAsSARIF([alertWithFlows], 'owner/repo', 'full'));
+      const [result] = parsed.runs[0].results;
+
+      expect(result.codeFlows).toEqual([
+        {
+          threadFlows: [
+            {
+              locations: [
+                {
+                  location: {
+                    physicalLocation: {
+                      artifactLocation: { uri: 'src/server.js' },
+                      region: { startLine: 4, endLine: 4, startColumn: 3, endColumn: 9 },
+                    },
+                    message: { text: 'req.query.id' },
+                  },
+                },
+                {
+                  location: {
+                    physicalLocation: {
+                      artifactLocation: { uri: 'src/database.js' },
+                      region: { startLine: 10, endLine: 4, startColumn: 3, endColumn: 9 },
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ]);
+      expect(result.relatedLocations[0]).toMatchObject({
+        id: 1,
+        message: { text: 'req.query.id' },
+      });
+
+      const withoutFlows = JSON.parse(formatAsSARIF([mockAlert], 'owner/repo', 'full'));
+      expect(withoutFlows.runs[0].results[0]).not.toHaveProperty('codeFlows');
+    });
+
+    it('should keep code flows in full JSON output', () => {
+      const [alert] = JSON.parse(formatAsJSON([alertWithFlows], 'full'));
+      expect(alert.code_flows).toHaveLength(1);
+      expect(alert.related_locations).toHaveLength(1);
+    });
+  });
+
+  describe('rules appendix', () => {
+    it('should render each Markdown rule once and link alerts to it', () => {
+      const result = formatAsMarkdown(
+        [alertWithHelp, { ...alertWithHelp, number: 2 }],
+        'owner/repo',
+        'full',
+      );
+
+      expect(result.match(/Use query parameters/g)).toHaveLength(1);
+      expect(
+        result.match(/\*\*Rule ID:\*\* \[`js\/sql-injection`\]\(#rule-js-sql-injection\)/g),
+      ).toHaveLength(2);
+      expect(result).toContain(
+        '## Rules\n\n<a id="rule-js-sql-injection"></a>\n### `js/sql-injection`: SQL Injection',
+      );
+      expect(result).toContain('**Tags:** security, external/cwe/cwe-089\n**CWE:** CWE-89');
+      expect(result).toContain('**Documentation:** https://codeql.github.com/js-sql-injection');
+      // Help headings are nested below the rule heading, code blocks are left alone
+      expect(result).toContain('#### SQL injection');
+      expect(result).toContain('```python\n# not a heading\n```');
+      expect(result.indexOf('## Rules')).toBeGreaterThan(result.indexOf('### Alert #2'));
+    });
+
+    it('should leave help out of the Markdown appendix below full detail', () => {
+      const result = formatAsMarkdown([alertWithHelp], 'owner/repo', 'medium');
+
+      expect(result).toContain('## Rules');
+      expect(result).toContain('**CWE:** CWE-89');
+      expect(result).not.toContain('Use query parameters');
+      expect(result).not.toContain('**Documentation:**');
+    });
+
+    it('should not render a rules appendix at minimum detail', () => {
+      const markdown = formatAsMarkdown([alertWithHelp], 'owner/repo', 'minimum');
+      expect(markdown).not.toContain('## Rules');
+      expect(markdown).toContain('**Rule ID:** `js/sql-injection`');
+      expect(formatAsText([alertWithHelp], 'minimum')).not.toContain('RULES');
+    });
+
+    it('should prefer rules from metadata', () => {
+      const rules = [{ ...mockAlert.rule, help: 'Fetched help' }];
+
+      expect(formatAsMarkdown([mockAlert], 'owner/repo', 'full', { rules })).toContain(
+        'Fetched help',
+      );
+      expect(formatAsText([mockAlert], 'full', { rules })).toContain('Help:\n  Fetched help');
+    });
+
+    it('should render the text appendix with indented help', () => {
+      const result = formatAsText([alertWithHelp, { ...alertWithHelp, number: 2 }], 'full');
+
+      expect(result.match(/Use query parameters/g)).toHaveLength(1);
+      expect(result).toContain('RULES (1)');
+      expect(result).toContain(
+        'js/sql-injection: SQL Injection\nSeverity: error\nDescription: SQL injection vulnerability',
+      );
+      expect(result).toContain('Tags: security, external/cwe/cwe-089\nCWE: CWE-89');
+      expect(result).toContain('Documentation: https://codeql.github.com/js-sql-injection');
+      expect(result).toContain('Help:\n  # SQL injection\n\n  Use query parameters.');
+
+      const medium = formatAsText([mockAlert], 'medium');
+      expect(medium).toContain('RULES (1)');
+      expect(medium).not.toContain('Tags:');
+      expect(medium).not.toContain('Help:');
+    });
+
+    it('should render appendices in grouped reports', () => {
+      const markdown = formatAsMarkdown([apiAlert, webAlert], 'acme', 'medium', groupedMetadata);
+      const text = formatAsText([apiAlert, webAlert], 'medium', groupedMetadata);
+
+      expect(markdown).toContain('## Rules');
+      expect(text).toContain('RULES (1)');
+    });
+
+    it('should describe rules in SARIF tool.driver.rules', () => {
+      const parsed = JSON.parse(formatAsSARIF([alertWithHelp, mockAlert], 'owner/repo', 'full'));
+
+      expect(parsed.runs[0].tool.driver.rules).toEqual([
+        {
+          id: 'js/sql-injection',
+          name: 'SQL Injection',
+          shortDescription: { text: 'SQL injection vulnerability' },
+          fullDescription: {
+            text: 'Building a SQL query from user-controlled sources is vulnerable.',
+          },
+          helpUri: 'https://codeql.github.com/js-sql-injection',
+          help: { text: alertWithHelp.rule.help, markdown: alertWithHelp.rule.help },
+          defaultConfiguration: { level: 'error' },
+          properties: { tags: ['security', 'external/cwe/cwe-089'], cwe: ['CWE-89'] },
+        },
+      ]);
+    });
+
+    it('should leave SARIF rule help out below full detail', () => {
+      const parsed = JSON.parse(formatAsSARIF([alertWithHelp], 'owner/repo', 'medium'));
+      const [rule] = parsed.runs[0].tool.driver.rules;
+
+      expect(rule).not.toHaveProperty('help');
+      expect(rule).not.toHaveProperty('helpUri');
+      expect(rule.properties.cwe).toEqual(['CWE-89']);
+
+      const plain = JSON.parse(
+        formatAsSARIF(
+          [{ ...mockAlert, rule: { ...mockAlert.rule, description: '' } }],
+          'owner/repo',
+        ),
+      );
+      expect(plain.runs[0].tool.driver.rules[0]).toEqual({
+        id: 'js/sql-injection',
+        name: 'SQL Injection',
+        shortDescription: { text: 'SQL Injection' },
+        defaultConfiguration: { level: 'error' },
+      });
+    });
+
+    it('should only list the rules of each repository run', () => {
+      const xssAlert = { ...webAlert, rule: { ...webAlert.rule, id: 'js/xss' } };
+      const parsed = JSON.parse(
+        formatAsSARIF([apiAlert, xssAlert], 'acme', 'medium', groupedMetadata),
+      );
+      const ruleIds = parsed.runs.map((run: { tool: { driver: { rules: { id: string }[] } } }) =>
+        run.tool.driver.rules.map((rule) => rule.id),
+      );
+
+      expect(ruleIds).toEqual([['js/sql-injection'], ['js/xss'], []]);
+    });
+
+    it('should copy rule help into full JSON alerts', () => {
+      const [alert] = JSON.parse(formatAsJSON([alertWithHelp], 'full'));
+      expect(alert.help_text).toBe(alertWithHelp.rule.help);
+    });
+  });
+
+  describe('report chunks', () => {
+    const chunk = { index: 2, total: 3, totalAlerts: 5 };
+    const chunks = [
+      {
+        file: 'report-1.md',
+        alerts: ['a.js', 'b.js', 'c.js', 'd.js'].map((path, number) => ({
+          ...mockAlert,
+          number,
+          most_recent_instance: {
+            ...mockAlert.most_recent_instance,
+            location: { ...mockAlert.most_recent_instance.location, path },
+          },
+        })),
+        tokens: 900,
+      },
+      { file: 'report 2.md', alerts: [mockAlert], tokens: 1200 },
+    ];
+
+    it('should show the chunk position in report headers', () => {
+      expect(formatAsMarkdown([mockAlert], 'owner/repo', 'medium', { chunk })).toContain(
+        '**Chunk:** 2 of 3 (1 of 5 alerts)',
+      );
+      expect(formatAsText([mockAlert], 'medium', { chunk })).toContain(
+        'Chunk: 2 of 3 (1 of 5 alerts)',
+      );
+    });
+
+    it('should only list the chunk rules in its glossary', () => {
+      const xssRule = { ...mockAlert.rule, id: 'js/xss', help: 'XSS help' };
+      const rules = [{ ...mockAlert.rule, help: 'SQL help' }, xssRule];
+
+      const result = formatAsMarkdown([mockAlert], 'owner/repo', 'full', { rules, chunk });
+
+      expect(result).toContain('SQL help');
+      expect(result).not.toContain('XSS help');
+    });
+
+    it('should list Markdown chunks with links, sizes and source files', () => {
+      const result = formatChunkIndexAsMarkdown(chunks, 'owner/repo', 'full', 1000, {
+        ref: 'refs/heads/main',
+      });
+
+      expect(result).toContain('# CodeQL Security Scan Report Index');
+      expect(result).toContain('**Repository:** owner/repo');
+      expect(result).toContain('**Ref:** `refs/heads/main`');
+      expect(result).toContain('**Total Alerts:** 5');
+      expect(result).toContain('**Chunks:** 2 (up to 1000 estimated tokens each)');
+      expect(result).toMatch(
+        /\| 1 +\| \[report-1\.md\]\(report-1\.md\) +\| 4 +\| 900 +\| `a\.js`, `b\.js`, `c\.js` \+1 more \|/,
+      );
+      expect(result).toContain('[report 2.md](report%202.md)');
+      expect(result).toContain('1200 (over budget)');
+    });
+
+    it('should describe grouped reports in the Markdown index', () => {
+      const result = formatChunkIndexAsMarkdown(chunks, 'acme', 'medium', 1000, {
+        host: 'github.example.com',
+        ...groupedMetadata,
+      });
+
+      expect(result).toContain('**Host:** github.example.com');
+      expect(result).toContain('**Organization:** acme\n**Repositories:** 3');
+      expect(result).not.toContain('**Repository:**');
+
+      const repos = formatChunkIndexAsMarkdown(chunks, 'a, b', 'medium', 1000, {
+        repositories: [{ name: 'a' }, { name: 'b' }],
+      });
+      expect(repos).not.toContain('**Organization:**');
+    });
+
+    it('should list text chunks', () => {
+      const result = formatChunkIndexAsText(chunks, 'medium', 1000, {
+        host: 'github.example.com',
+        ref: 'refs/heads/main',
+        ...groupedMetadata,
+      });
+
+      expect(result).toContain('CodeQL Security Scan Report Index');
+      expect(result).toContain('Host: github.example.com');
+      expect(result).toContain('Organization: acme\nRepositories: 3\nRef: refs/heads/main');
+      expect(result).toContain('Chunks: 2 (up to 1000 estimated tokens each)');
+      expect(result).toContain(
+        '1. report-1.md - 4 alert(s), ~900 tokens\n   Files: a.js, b.js, c.js, d.js',
+      );
+      expect(result).toContain('2. report 2.md - 1 alert(s), ~1200 tokens, over budget');
+
+      expect(formatChunkIndexAsText(chunks, 'medium', 1000)).not.toContain('Repositories:');
+    });
+  });
+
+  describe('baseline suppression', () => {
+    const chunks = [{ file: 'report-1.md', alerts: [mockAlert], tokens: 100 }];
+
+    it('should show the suppressed count in report headers', () => {
+      const metadata = { suppressed: 3 };
+
+      expect(formatAsMarkdown([mockAlert], 'owner/repo', 'medium', metadata)).toContain(
+        '**Total Alerts:** 1\n**Suppressed:** 3 alert(s) listed in the baseline file\n',
+      );
+      expect(formatAsText([mockAlert], 'medium', metadata)).toContain(
+        'Total Alerts: 1\nSuppressed: 3 alert(s) listed in the baseline file\n',
+      );
+      expect(formatAsHTML([mockAlert], 'owner/repo', 'medium', metadata)).toContain(
+        '<dt>Suppressed</dt><dd>3 alert(s) listed in the baseline file</dd>',
+      );
+      expect(formatChunkIndexAsMarkdown(chunks, 'owner/repo', 'medium', 1000, metadata)).toContain(
+        '**Suppressed:** 3 alert(s) listed in the baseline file',
+      );
+      expect(formatChunkIndexAsText(chunks, 'medium', 1000, metadata)).toContain(
+        'Suppressed: 3 alert(s) listed in the baseline file',
+      );
+    });
+
+    it('should show when a baseline suppressed nothing', () => {
+      expect(formatAsText([mockAlert], 'medium', { suppressed: 0 })).toContain(
+        'Suppressed: 0 alert(s)',
+      );
+      expect(formatAsText([mockAlert], 'medium')).not.toContain('Suppressed');
+      expect(formatChunkIndexAsMarkdown(chunks, 'owner/repo', 'medium', 1000)).not.toContain(
+        'Suppressed',
+      );
+    });
+  });
+
+  describe('formatAsCSV', () => {
+    it('should write a header and a row per alert with the detail level fields', () => {
+      const result = formatAsCSV([mockAlert, movedAlert], 'minimum');
+
+      expect(result).toBe(
+        [
+          'number,rule_id,rule_name,severity,message,file_path,start_line,end_line,commit_sha',
+          '1,js/sql-injection,SQL Injection,error,Potential SQL injection detected,src/database.js,10,12,abc123',
+          '2,js/sql-injection,SQL Injection,error,Potential SQL injection detected,src/database.js,20,22,abc123',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should add medium and full detail columns', () => {
+      const [medium] = formatAsCSV([mockAlert], 'medium').split('\n');
+      expect(medium).toContain(',commit_sha,rule_description,start_column,end_column,state,');
+      expect(medium.endsWith('security_severity,tags,cwe_ids')).toBe(true);
+
+      const [full] = formatAsCSV([mockAlert], 'full').split('\n');
+      expect(
+        full.endsWith(',cwe_ids,ref,analysis_key,category,tool_name,tool_version,help_text'),
+      ).toBe(true);
+      expect(formatAsCSV([mockAlert], 'raw')).toBe(formatAsCSV([mockAlert], 'full'));
+    });
+
+    it('should quote values with separators, quotes and line breaks', () => {
+      const alert = {
+        ...mockAlert,
+        most_recent_instance: {
+          ...mockAlert.most_recent_instance,
+          message: { text: 'Query built from "id", then\nexecuted' },
+        },
+      };
+
+      expect(formatAsCSV([alert], 'minimum', {}, { columns: ['number', 'message'] })).toBe(
+        'number,message\n1,"Query built from ""id"", then\nexecuted"\n',
+      );
+    });
+
+    it.each([
+      ['=HYPERLINK("http://example.com")', `"'=HYPERLINK(""http://example.com"")"`],
+      ['+1', "'+1"],
+      ['-2+3', "'-2+3"],
+      ['@SUM(A1)', "'@SUM(A1)"],
+      ['\tcmd', "'\tcmd"],
+    ])('should keep spreadsheets from running %j as a formula', (text, expected) => {
+      const alert = {
+        ...mockAlert,
+        most_recent_instance: { ...mockAlert.most_recent_instance, message: { text } },
+      };
+
+      expect(formatAsCSV([alert], 'minimum', {}, { columns: ['message'] })).toBe(
+        `message\n${expected}\n`,
+      );
+    });
+
+    it('should write selected columns from any detail level and join lists', () => {
+      const alert = {
+        ...alertWithHelp,
+        rule: { ...alertWithHelp.rule, security_severity_level: 'high' },
+      };
+
+      expect(
+        formatAsCSV([alert], 'minimum', {}, { columns: ['rule_id', 'tags', 'cwe_ids', 'state'] }),
+      ).toBe(
+        'rule_id,tags,cwe_ids,state\njs/sql-injection,security; external/cwe/cwe-089,CWE-89,open\n',
+      );
+      expect(formatAsCSV([mockAlert], 'medium', {}, { columns: ['repository', 'number'] })).toBe(
+        'repository,number\n,1\n',
+      );
+    });
+
+    it('should lead with the repository in grouped reports', () => {
+      const result = formatAsCSV([webAlert, apiAlert], 'minimum', {
+        ...groupedMetadata,
+        order: { sortBy: 'number' },
+      });
+
+      const lines = result.split('\n');
+      expect(lines[0].startsWith('repository,number,')).toBe(true);
+      expect(lines[1].startsWith('acme/api,1,')).toBe(true);
+      expect(lines[2].startsWith('acme/web,2,')).toBe(true);
+    });
+
+    it('should reject unknown columns', () => {
+      expect(() => validateColumns(['number', 'file_path'])).not.toThrow();
+      expect(() => validateColumns(['number', 'path', 'line'])).toThrow(
+        `Unknown CSV column(s) path, line. Available: ${CSV_COLUMNS.join(', ')}`,
+      );
+    });
+  });
+
+  describe('formatAsJSONLines', () => {
+    it('should write one compact alert per line', () => {
+      const result = formatAsJSONLines([mockAlert, movedAlert], 'minimum');
+      const lines = result.split('\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[2]).toBe('');
+      expect(JSON.parse(lines[0])).toEqual(JSON.parse(formatAsJSON([mockAlert], 'minimum'))[0]);
+      expect(JSON.parse(lines[1]).number).toBe(2);
+      expect(formatAsJSONLines([])).toBe('');
+    });
+
+    it('should keep messages with line breaks on one line', () => {
+      const alert = {
+        ...mockAlert,
+        most_recent_instance: {
+          ...mockAlert.most_recent_instance,
+          message: { text: 'first\nsecond' },
+        },
+      };
+
+      expect(formatAsJSONLines([alert]).split('\n')).toHaveLength(2);
+    });
+
+    it('should add the repository to grouped alerts', () => {
+      const [api, web] = formatAsJSONLines([apiAlert, webAlert], 'minimum', groupedMetadata)
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+
+      expect(api).toMatchObject({ repository: 'acme/api', number: 1 });
+      expect(Object.keys(api)[0]).toBe('repository');
+      expect(web.repository).toBe('acme/web');
+    });
+
+    it('should write raw alerts as returned by the API', () => {
+      const [line] = formatAsJSONLines([apiAlert], 'raw').split('\n');
+      expect(JSON.parse(line)).toEqual(apiAlert);
+    });
+
+    it('should write alerts in report order', () => {
+      const numbers = formatAsJSONLines([movedAlert, mockAlert], 'minimum', {
+        order: { sortBy: 'number' },
+      })
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).number);
+
+      expect(numbers).toEqual([1, 2]);
+    });
+  });
+
+  describe('formatAsJUnit', () => {
+    it('should write a testsuite per rule and a failing testcase per alert', () => {
+      const result = formatAsJUnit([mockAlert], 'owner/repo', 'minimum');
+
+      expect(result).toBe(
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<testsuites name="CodeQL alerts: owner/repo" tests="1" failures="1" errors="0" skipped="0">',
+          '  <testsuite name="js/sql-injection" tests="1" failures="1" errors="0" skipped="0">',
+          '    <properties>',
+          '      <property name="rule_name" value="SQL Injection"/>',
+          '      <property name="severity" value="error"/>',
+          '    </properties>',
+          '    <testcase name="#1 src/database.js:10" classname="js/sql-injection" file="src/database.js" line="10">',
+          '      <failure message="src/database.js:10: Potential SQL injection detected" type="error">Rule: js/sql-injection (SQL Injection)',
+          'Severity: error',
+          'Location: src/database.js, lines 10-12',
+          'Message: Potential SQL injection detected',
+          'Commit: abc123</failure>',
+          '    </testcase>',
+          '  </testsuite>',
+          '</testsuites>',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should write an empty document without alerts', () => {
+      expect(formatAsJUnit([], 'owner/repo')).toBe(
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<testsuites name="CodeQL alerts: owner/repo" tests="0" failures="0" errors="0" skipped="0">',
+          '</testsuites>',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should skip alerts below the failure threshold', () => {
+      const note: CodeQLAlert = {
+        ...mockAlert,
+        number: 3,
+        rule: { ...mockAlert.rule, id: 'js/unused-variable', severity: 'note' },
+      };
+      const alerts = [mockAlert, webAlert, note];
+
+      const result = formatAsJUnit(alerts, 'owner/repo');
+      expect(result).toContain('tests="3" failures="2" errors="0" skipped="1"');
+      expect(result).toContain(
+        '<testsuite name="js/unused-variable" tests="1" failures="0" errors="0" skipped="1">',
+      );
+      expect(result).toContain(
+        '<skipped message="src/database.js:10: Potential SQL injection detected">',
+      );
+      expect(result).toContain(
+        '<failure message="src/database.js:10: Potential SQL injection detected" type="warning">',
+      );
+
+      expect(formatAsJUnit(alerts, 'owner/repo', 'medium', {}, { failOn: 'error' })).toContain(
+        'tests="3" failures="1" errors="0" skipped="2"',
+      );
+      expect(formatAsJUnit(alerts, 'owner/repo', 'medium', {}, { failOn: 'note' })).toContain(
+        'tests="3" failures="3" errors="0" skipped="0"',
+      );
+    });
+
+    it('should sort suites by rule and testcases by the sort order', () => {
+      const xss: CodeQLAlert = {
+        ...mockAlert,
+        number: 5,
+        rule: { ...mockAlert.rule, id: 'js/xss' },
+      };
+      const result = formatAsJUnit([xss, movedAlert, mockAlert], 'owner/repo', 'minimum', {
+        ref: 'refs/heads/main',
+        order: { groupBy: 'file', sortBy: 'number' },
+      });
+
+      const names = [...result.matchAll(/<(testsuite|testcase) name="([^"]+)"/g)].map(
+        (match) => match[2],
+      );
+      expect(names).toEqual([
+        'js/sql-injection',
+        '#1 src/database.js:10',
+        '#2 src/database.js:20',
+        'js/xss',
+        '#5 src/database.js:10',
+      ]);
+      expect(result).toContain('<property name="ref" value="refs/heads/main"/>');
+    });
+
+    it('should name testcases after their repository in grouped reports', () => {
+      const result = formatAsJUnit([apiAlert, webAlert], 'acme', 'minimum', groupedMetadata);
+
+      expect(result).toContain('<testcase name="acme/api#1 src/database.js:10"');
+      expect(result).toContain('<testcase name="acme/web#2 src/database.js:10"');
+    });
+
+    it('should escape XML and drop characters XML does not allow', () => {
+      const alert: CodeQLAlert = {
+        ...mockAlert,
+        rule: { ...mockAlert.rule, name: 'Tom & "Jerry\'s" <rule>' },
+        most_recent_instance: {
+          ...mockAlert.most_recent_instance,
+          message: { text: 'Bad <input>\u0007 & more' },
+        },
+      };
+
+      const result = formatAsJUnit([alert], 'owner/repo', 'minimum');
+      expect(result).toContain(
+        '<property name="rule_name" value="Tom &amp; &quot;Jerry&apos;s&quot; &lt;rule&gt;"/>',
+      );
+      expect(result).toContain('message="src/database.js:10: Bad &lt;input&gt; &amp; more"');
+      expect(result).toContain('Message: Bad &lt;input&gt; &amp; more');
+      expect(result).not.toContain('\u0007');
+    });
+
+    it('should add the fields of the detail level to the failure', () => {
+      const alert: CodeQLAlert = {
+        ...alertWithFlows,
+        rule: {
+          ...alertWithHelp.rule,
+          security_severity_level: 'high',
+        },
+        snippet: { start_line: 10, end_line: 10, code: 'const q = "a" + id;', status: 'changed' },
+      };
+
+      const medium = formatAsJUnit([alert], 'owner/repo');
+      expect(medium).toContain('<property name="security_severity" value="high"/>');
+      expect(medium).toContain('Security Severity: high\nDescription: SQL injection vulnerability');
+      expect(medium).toContain('CWE: CWE-89');
+      expect(medium).toContain('Location: src/database.js, lines 10-12, columns 5-20');
+      expect(medium).toContain('State: open');
+      expect(medium).toContain('  WARNING: Local file differs from analyzed commit abc123');
+      expect(medium).toContain('  &gt; 10 | const q = &quot;a&quot; + id;');
+      expect(medium).not.toContain('Code Flow');
+      expect(formatAsJUnit([alertWithSnippet], 'owner/repo')).not.toContain('WARNING');
+
+      const full = formatAsJUnit([alert], 'owner/repo', 'full');
+      expect(full).toContain(
+        'Code Flow:\n  1. src/server.js:4:3 - req.query.id\n  2. src/database.js:10:3',
+      );
+      expect(full).toContain('Related Locations:\n  1. src/server.js:4:3 - req.query.id');
+      expect(full).toContain('Help:\n# SQL injection');
+
+      const twoFlows = formatAsJUnit(
+        [{ ...alertWithFlows, code_flows: [[source], [sink]] }],
+        'owner/repo',
+        'full',
+      );
+      expect(twoFlows).toContain('Code Flow 1/2:');
+      expect(twoFlows).toContain('Code Flow 2/2:');
+    });
+
+    it('should write the original API response at raw detail', () => {
+      const result = formatAsJUnit([mockAlert], 'owner/repo', 'raw');
+
+      expect(result).toContain('type="error">{\n  &quot;number&quot;: 1,');
+      expect(result).not.toContain('Rule: js/sql-injection');
+    });
+  });
+
+  describe('formatAsHTML', () => {
+    it('should produce a self-contained page', () => {
+      const result = formatAsHTML([mockAlert], 'owner/repo');
+
+      expect(result.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true);
+      expect(result).toContain('<title>CodeQL Security Scan Report: owner/repo</title>');
+      expect(result).toContain('<style>');
+      expect(result).toContain('<script>');
+      expect(result).not.toMatch(/<link|<script src|<img|https?:\/\//);
+      expect(result.endsWith('</html>')).toBe(true);
+    });
+
+    it('should render report metadata and severity summaries', () => {
+      const result = formatAsHTML(
+        [
+          { ...mockAlert, rule: { ...mockAlert.rule, security_severity_level: 'high' } },
+          { ...mockAlert, number: 2, rule: { ...mockAlert.rule, severity: 'warning' } },
+        ],
+        'owner/repo',
+        'medium',
+        { host: 'github.example.com', ref: 'refs/heads/main', failedAlerts: [9] },
+      );
+
+      expect(result).toContain('<dt>Host</dt><dd>github.example.com</dd>');
+      expect(result).toContain('<dt>Repository</dt><dd>owner/repo</dd>');
+      expect(result).toContain('<dt>Ref</dt><dd>refs/heads/main</dd>');
+      expect(result).toContain('<dt>Total Alerts</dt><dd>2</dd>');
+      expect(result).toContain('<th data-sort="number">Security Severity</th>');
+      expect(result).toContain('<td data-value="3">high</td>');
+      expect(result).toContain('<td data-value="0"></td>');
+      expect(result).toContain(
+        '<dt>Incomplete</dt><dd>details could not be fetched for alert(s) #9</dd>',
+      );
+      expect(result).toContain('<th>Severity</th><th>Count</th>');
+      expect(result).toContain(
+        '<tr><td>error</td><td>1</td></tr>\n<tr><td>warning</td><td>1</td></tr>',
+      );
+      expect(result).toContain('<th>Security Severity</th><th>Count</th>');
+      expect(result).toContain(
+        '<tr><td>high</td><td>1</td></tr>\n<tr><td>none</td><td>1</td></tr>',
+      );
+      expect(result).toContain('<option value="error">error</option>');
+      expect(result).toContain('<span id="count">Showing 2 of 2 alerts</span>');
+    });
+
+    it('should render a sortable row per alert with collapsible details', () => {
+      const result = formatAsHTML([mockAlert], 'owner/repo', 'medium');
+
+      expect(result).toContain('<th data-sort="number">#</th>');
+      expect(result).not.toContain('>Repository</th>');
+      expect(result).toContain('<tr data-severity="error">\n<td data-value="1">1</td>');
+      expect(result).toContain('<td data-value="3" class="severity-error">error</td>');
+      expect(result).toContain(
+        '<td data-value="src/database.js:00000010"><code>src/database.js:10</code></td>',
+      );
+      expect(result).toContain('<details>\n<summary>Potential SQL injection detected</summary>');
+      expect(result).toContain('<dt>Description</dt><dd>SQL injection vulnerability</dd>');
+      expect(result).toContain('<dt>Columns</dt><dd>5-20</dd>');
+      expect(result).toContain('<dt>State</dt><dd>open</dd>');
+      expect(result).not.toContain('<dt>Reference</dt>');
+    });
+
+    it('should only show the fields of the detail level', () => {
+      const minimum = formatAsHTML([mockAlert], 'owner/repo', 'minimum');
+      expect(minimum).not.toContain('<dt>Description</dt>');
+      expect(minimum).not.toContain('<dt>State</dt>');
+      expect(minimum).toContain('<dt>Commit</dt><dd><code>abc123</code></dd>');
+
+      const full = formatAsHTML(
+        [{ ...alertWithFlows, rule: { ...alertWithHelp.rule, tags: alertWithHelp.rule.tags } }],
+        'owner/repo',
+        'full',
+      );
+      expect(full).toContain('<dt>CWE</dt><dd>CWE-89</dd>');
+      expect(full).toContain('<dt>Reference</dt><dd>refs/heads/main</dd>');
+      expect(full).toContain('<dt>Tool</dt><dd>CodeQL 2.0.0</dd>');
+      expect(full).toContain(
+        '<h4>Code Flow</h4>\n<ol>\n<li><code>src/server.js:4:3</code> - req.query.id</li>',
+      );
+      expect(full).toContain('<h4>Related Locations</h4>');
+      expect(full).toContain('<details><summary>Rule help</summary>\n<pre># SQL injection');
+
+      const raw = formatAsHTML([mockAlert], 'owner/repo', 'raw');
+      expect(raw).toContain('<pre>{\n  &quot;number&quot;: 1,');
+    });
+
+    it('should number several code flows', () => {
+      const result = formatAsHTML(
+        [{ ...alertWithFlows, code_flows: [[source], [sink]] }],
+        'owner/repo',
+        'full',
+      );
+
+      expect(result).toContain('<h4>Code Flow 2 of 2</h4>');
+    });
+
+    it('should embed snippets with their warnings', () => {
+      const result = formatAsHTML(
+        [{ ...alertWithSnippet, snippet: { ...alertWithSnippet.snippet, status: 'changed' } }],
+        'owner/repo',
+      );
+
+      expect(result).toContain('<p class="warning">⚠️ Local file differs');
+      expect(result).toContain(
+        '<pre><code>   9 | const db = connect();\n&gt; 10 | const q = &quot;SELECT * FROM t WHERE id = &quot; + id;',
+      );
+      expect(formatAsHTML([alertWithSnippet], 'owner/repo')).not.toContain('class="warning"');
+    });
+
+    it('should escape alert content', () => {
+      const result = formatAsHTML(
+        [
+          {
+            ...mockAlert,
+            most_recent_instance: {
+              ...mockAlert.most_recent_instance,
+              message: { text: `<script>alert('x')</script> & more` },
+            },
+          },
+        ],
+        '<owner>/repo',
+      );
+
+      expect(result).toContain(
+        '<summary>&lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt; &amp; more</summary>',
+      );
+      expect(result).toContain('<dd>&lt;owner&gt;/repo</dd>');
+      expect(result).not.toContain("<script>alert('x')");
+    });
+
+    it('should add a repository column and summary to grouped reports', () => {
+      const result = formatAsHTML([apiAlert, webAlert], 'acme', 'medium', groupedMetadata);
+
+      expect(result).toContain('<title>CodeQL Security Scan Report: acme</title>');
+      expect(result).toContain('<dt>Organization</dt><dd>acme</dd>');
+      expect(result).toContain('<dt>Repositories</dt><dd>3</dd>');
+      expect(result).toContain(
+        '<dt>Incomplete</dt><dd>details could not be fetched for alert(s) acme/api #7</dd>',
+      );
+      expect(result).toContain('<th data-sort="text">Repository</th>');
+      expect(result).toContain('<td data-value="acme/web">acme/web</td>');
+      expect(result).toContain('<tr><td>acme/docs</td><td>0</td></tr>');
+
+      const repositories = formatAsHTML([{ ...mockAlert }], 'acme/api', 'minimum', {
+        repositories: [],
+      });
+      expect(repositories).not.toContain('<dt>Organization</dt>');
+      expect(repositories).not.toContain('<dt>Incomplete</dt>');
+      expect(repositories).toContain('<td data-value=""></td>');
+    });
+
+    it('should list alerts in report order', () => {
+      const result = formatAsHTML([movedAlert, mockAlert], 'owner/repo', 'medium', {
+        order: { sortBy: 'number' },
+      });
+
+      expect(result.indexOf('<td data-value="1">')).toBeLessThan(
+        result.indexOf('<td data-value="2">'),
+      );
+    });
+  });
+
+  describe('formatAsPrompt', () => {
+    it('should produce one task per file with constraints and a response shape', () => {
+      const result = formatAsPrompt([mockAlert, movedAlert, webAlert], 'owner/repo');
+
+      expect(result).toContain('# Fix CodeQL Security Alerts');
+      expect(result).toContain(
+        'You are fixing CodeQL code scanning alerts in owner/repo. Work through the 2 task(s)',
+      );
+      expect(result).toContain('## Task 1 of 2: Fix 2 alerts in `src/database.js`');
+      expect(result).toContain('**Repository:** owner/repo');
+      expect(result).toContain('**Alerts:** #1, #2\n');
+      // Files of other repositories are separate tasks
+      expect(result).toContain(
+        '## Task 2 of 2: Fix SQL Injection (#2)\n\n**Repository:** acme/web',
+      );
+      expect(result).toContain(
+        '- **#1 SQL Injection** (`js/sql-injection`, error) at lines 10-12: Potential SQL injection detected',
+      );
+      expect(result).toContain(
+        'Alert #1: not included, read lines 10-12 of `src/database.js` before changing it.',
+      );
+      expect(result).toContain(
+        '#### SQL Injection (`js/sql-injection`)\n\nSQL injection vulnerability',
+      );
+      expect(result).toContain('do not change unrelated code');
+      expect(result).toContain('a unified diff against `src/database.js`');
+    });
+
+    it('should produce one task per alert', () => {
+      const single = {
+        ...mockAlert,
+        most_recent_instance: {
+          ...mockAlert.most_recent_instance,
+          location: { ...mockAlert.most_recent_instance.location, end_line: 10 },
+        },
+      };
+      const result = formatAsPrompt(
+        [single, movedAlert],
+        'owner/repo',
+        'medium',
+        {},
+        {
+          groupBy: 'alert',
+        },
+      );
+
+      expect(result).toContain('## Task 1 of 2: Fix SQL Injection (#1)');
+      expect(result).toContain('## Task 2 of 2: Fix SQL Injection (#2)');
+      expect(result).toContain('at line 10:');
+    });
+
+    it('should refer to alerts without a number by their lines', () => {
+      const result = formatAsPrompt(
+        [
+          { ...mockAlert, number: 0 },
+          { ...alertWithSnippet, number: 0 },
+        ],
+        'owner/repo',
+      );
+      const single = formatAsPrompt(
+        [{ ...mockAlert, number: 0 }],
+        'owner/repo',
+        'medium',
+        {},
+        {
+          groupBy: 'alert',
+        },
+      );
+
+      expect(result).toContain('**Alerts:** lines 10-12, lines 10-12\n');
+      expect(result).toContain(
+        '- **SQL Injection** (`js/sql-injection`, error) at lines 10-12: Potential SQL injection detected',
+      );
+      expect(result).toContain(
+        'Alert: not included, read lines 10-12 of `src/database.js` before changing it.',
+      );
+      expect(result).toContain('Alert at lines 10-12:\n');
+      expect(result).not.toContain('#0');
+      expect(single).toContain('## Task 1 of 1: Fix SQL Injection (lines 10-12)');
+    });
+
+    it('should include the flagged code from snippets', () => {
+      const changed = {
+        ...alertWithSnippet,
+        snippet: { ...alertWithSnippet.snippet, status: 'changed' },
+      } as CodeQLAlert;
+
+      expect(formatAsPrompt([alertWithSnippet], 'owner/repo')).toContain(
+        'Alert #1 (lines 10-12):\n\n```js\n   9 | const db = connect();\n> 10 |',
+      );
+      expect(formatAsPrompt([changed], 'owner/repo')).toContain(
+        '> ⚠️ Local file differs from analyzed commit abc123',
+      );
+    });
+
+    it('should include data flows at full detail', () => {
+      expect(formatAsPrompt([alertWithFlows], 'owner/repo', 'full')).toContain(
+        '  - Data flow: `src/server.js:4:3` (req.query.id) → `src/database.js:10:3`',
+      );
+      expect(formatAsPrompt([alertWithFlows], 'owner/repo', 'raw')).toContain('Data flow');
+      expect(formatAsPrompt([alertWithFlows], 'owner/repo', 'medium')).not.toContain('Data flow');
+      expect(formatAsPrompt([mockAlert], 'owner/repo', 'full')).not.toContain('Data flow');
+    });
+
+    it('should use rule help as remediation guidance', () => {
+      const result = formatAsPrompt([alertWithHelp], 'owner/repo', 'full');
+
+      expect(result).toContain('##### SQL injection\n\nUse query parameters.');
+      expect(result).toContain('Documentation: https://codeql.github.com/js-sql-injection');
+
+      const rules = [{ ...mockAlert.rule, full_description: 'Full description' }];
+      expect(formatAsPrompt([mockAlert], 'owner/repo', 'medium', { rules })).toContain(
+        '(`js/sql-injection`)\n\nFull description',
+      );
+    });
+
+    it('should show the ref, host and alert repositories', () => {
+      const result = formatAsPrompt([apiAlert], 'acme', 'medium', {
+        host: 'github.example.com',
+        ref: 'refs/heads/main',
+      });
+
+      expect(result).toContain('alerts in acme at `refs/heads/main`.');
+      expect(result).toContain('**Host:** github.example.com');
+      expect(result).toContain('**Repository:** acme/api');
+    });
+
+    it('should render custom templates', () => {
+      const result = formatAsPrompt(
+        [mockAlert],
+        'owner/repo',
+        'medium',
+        {},
+        {
+          template: 'Fix {{alerts}} in {{file}} ({{task}}/{{total}})\n\n',
+        },
+      );
+
+      expect(result).toContain('---\n\nFix #1 in src/database.js (1/1)\n');
+      expect(result).not.toContain('### Constraints');
+    });
+
+    it('should validate templates', () => {
+      expect(() => validatePromptTemplate(DEFAULT_PROMPT_TEMPLATE)).not.toThrow();
+      expect(() => validatePromptTemplate('{{snippet}}')).toThrow(
+        'Unknown template placeholder {{snippet}}',
+      );
+      expect(() => validatePromptTemplate('{{#code}}{{snippet}}{{/code}}')).toThrow(
+        'Unknown template placeholder {{snippet}}',
+      );
+    });
+  });
+
+  describe('security severity', () => {
+    const securityAlert: CodeQLAlert = {
+      ...mockAlert,
+      rule: {
+        ...mockAlert.rule,
+        security_severity_level: 'high',
+        tags: ['security', 'external/cwe/cwe-089', 'external/cwe/cwe-090'],
+      },
+    };
+    const criticalAlert: CodeQLAlert = {
+      ...mockAlert,
+      number: 2,
+      rule: { ...mockAlert.rule, id: 'js/xss', name: 'XSS', security_severity_level: 'critical' },
+    };
+    const qualityAlert: CodeQLAlert = {
+      ...mockAlert,
+      number: 3,
+      rule: { ...mockAlert.rule, id: 'js/unused-local-variable', security_severity_level: null },
+    };
+    const alerts = [securityAlert, qualityAlert, criticalAlert];
+
+    it('should flatten security severity, tags and CWE ids from medium detail', () => {
+      const [medium] = JSON.parse(formatAsJSON([securityAlert], 'medium'));
+      expect(medium).toMatchObject({
+        security_severity: 'high',
+        tags: ['security', 'external/cwe/cwe-089', 'external/cwe/cwe-090'],
+        cwe_ids: ['CWE-89', 'CWE-90'],
+      });
+
+      const [full] = JSON.parse(formatAsJSON([securityAlert], 'full'));
+      expect(full.security_severity).toBe('high');
+
+      const [minimum] = JSON.parse(formatAsJSON([securityAlert], 'minimum'));
+      expect(minimum).not.toHaveProperty('security_severity');
+
+      const [quality] = JSON.parse(formatAsJSON([qualityAlert], 'medium'));
+      expect(quality).not.toHaveProperty('security_severity');
+      expect(quality).not.toHaveProperty('cwe_ids');
+    });
+
+    it('should summarize grouped JSON reports by security severity', () => {
+      const parsed = JSON.parse(
+        formatAsJSON(
+          alerts.map((alert) => ({ ...alert, repository: { full_name: 'acme/api' } })),
+          'minimum',
+          { repositories: [{ name: 'acme/api' }, { name: 'acme/web' }] },
+        ),
+      );
+
+      expect(parsed.summary.by_security_severity).toEqual({ critical: 1, high: 1, none: 1 });
+      expect(Object.keys(parsed.summary.by_security_severity)).toEqual([
+        'critical',
+        'high',
+        'none',
+      ]);
+      expect(parsed.repositories[1].summary).not.toHaveProperty('by_security_severity');
+    });
+
+    it('should add a Markdown summary table and per-alert lines', () => {
+      const result = formatAsMarkdown(alerts, 'owner/repo', 'medium');
+
+      expect(result).toContain('## Summary by Security Severity');
+      expect(result).toContain('| critical          | 1     |');
+      expect(result).toContain('| none              | 1     |');
+      expect(result).toContain(
+        '**Severity:** error\n**Security Severity:** high\n**Description:** SQL injection vulnerability\n**CWE:** CWE-89, CWE-90',
+      );
+      expect(result).toContain('**Security Severity:** critical\n**Description:**');
+    });
+
+    it('should leave out the security summary without security queries', () => {
+      expect(formatAsMarkdown([qualityAlert], 'owner/repo')).not.toContain('Security Severity');
+      expect(formatAsText([qualityAlert])).not.toContain('Security Severity');
+    });
+
+    it('should summarize text reports by security severity', () => {
+      const result = formatAsText(alerts, 'medium');
+
+      expect(result).toContain('Total Alerts: 3\nSecurity Severity: critical: 1, high: 1, none: 1');
+      expect(result).toContain(
+        'Severity: error\nSecurity Severity: high\nDescription: SQL injection vulnerability\nCWE: CWE-89, CWE-90',
+      );
+    });
+
+    it('should show the security severity of each rule in the appendices', () => {
+      expect(formatAsMarkdown([criticalAlert], 'owner/repo')).toContain(
+        '**Severity:** error\n**Security Severity:** critical\n**Description:**',
+      );
+      expect(formatAsText([criticalAlert])).toContain(
+        'js/xss: XSS\nSeverity: error\nSecurity Severity: critical',
+      );
+    });
+
+    it('should map security severity to SARIF security-severity scores', () => {
+      const parsed = JSON.parse(formatAsSARIF(alerts, 'owner/repo'));
+      const rules = parsed.runs[0].tool.driver.rules;
+
+      expect(rules.map((rule: { properties?: object }) => rule.properties)).toEqual([
+        {
+          tags: ['security', 'external/cwe/cwe-089', 'external/cwe/cwe-090'],
+          cwe: ['CWE-89', 'CWE-90'],
+          'security-severity': '8.0',
+        },
+        undefined,
+        { 'security-severity': '9.5' },
+      ]);
+    });
+  });
+
+  describe('alert ordering', () => {
+    const xssAlert: CodeQLAlert = {
+      ...mockAlert,
+      number: 3,
+      rule: { ...mockAlert.rule, id: 'js/xss', name: 'XSS', severity: 'warning' },
+      most_recent_instance: {
+        ...mockAlert.most_recent_instance,
+        location: { ...mockAlert.most_recent_instance.location, path: 'src/views/page.js' },
+      },
+    };
+    const alerts = [xssAlert, movedAlert, mockAlert];
+
+    it('should render Markdown sections with a heading and count each', () => {
+      const result = formatAsMarkdown(alerts, 'owner/repo', 'medium', {
+        order: { groupBy: 'file', sortBy: 'number' },
+      });
+
+      expect(result).toContain(
+        '## Detailed Alerts\n\n### File: `src/database.js` (2)\n\n#### Alert #1: SQL Injection',
+      );
+      expect(result).toContain('##### Location');
+      expect(result.indexOf('#### Alert #1')).toBeLessThan(result.indexOf('#### Alert #2'));
+      expect(result).toContain('### File: `src/views/page.js` (1)\n\n#### Alert #3: XSS');
+    });
+
+    it('should not quote severity section names', () => {
+      const result = formatAsMarkdown(alerts, 'owner/repo', 'minimum', {
+        order: { groupBy: 'severity' },
+      });
+
+      expect(result.indexOf('### Severity: error (2)')).toBeLessThan(
+        result.indexOf('### Severity: warning (1)'),
+      );
+    });
+
+    it('should section alerts within each repository', () => {
+      const result = formatAsMarkdown([apiAlert, webAlert], 'acme', 'medium', {
+        ...groupedMetadata,
+        order: { groupBy: 'rule' },
+      });
+
+      expect(result).toContain(
+        '## acme/web\n\n**Alerts:** 1\n\n### Rule: `js/sql-injection` (1)\n\n#### Alert #2',
+      );
+    });
+
+    it('should keep Markdown alerts as sorted without grouping', () => {
+      const result = formatAsMarkdown(alerts, 'owner/repo', 'medium', {
+        order: { sortBy: 'number' },
+      });
+
+      expect(result).not.toContain('### File:');
+      expect(result.indexOf('### Alert #1')).toBeLessThan(result.indexOf('### Alert #3'));
+    });
+
+    it('should render text sections with a heading and count each', () => {
+      const result = formatAsText(alerts, 'minimum', {
+        order: { groupBy: 'directory', sortBy: 'path' },
+      });
+
+      expect(result).toContain(`DIRECTORY: src (2)\n${'-'.repeat(80)}\n\nAlert #1`);
+      expect(result).toContain(`DIRECTORY: src/views (1)\n${'-'.repeat(80)}\n\nAlert #3`);
+      expect(result.indexOf('DIRECTORY: src (2)')).toBeLessThan(
+        result.indexOf('DIRECTORY: src/views'),
+      );
+    });
+
+    it('should keep sections next to each other in JSON', () => {
+      const order = { groupBy: 'rule' as const, sortBy: 'number' as const };
+
+      const flat = JSON.parse(
+        formatAsJSON([xssAlert, movedAlert, mockAlert], 'minimum', { order }),
+      );
+      expect(flat.map((alert: { number: number }) => alert.number)).toEqual([1, 2, 3]);
+
+      const grouped = JSON.parse(
+        formatAsJSON([webAlert, { ...webAlert, number: 1 }], 'minimum', {
+          ...groupedMetadata,
+          order,
+        }),
+      );
+      expect(
+        grouped.repositories[1].alerts.map((alert: { number: number }) => alert.number),
+      ).toEqual([1, 2]);
+    });
+
+    it('should order SARIF results', () => {
+      const order = { sortBy: 'severity' as const };
+      const parsed = JSON.parse(
+        formatAsSARIF([xssAlert, mockAlert], 'owner/repo', 'medium', { order }),
+      );
+      expect(
+        parsed.runs[0].results.map(
+          (result: { properties: { alertNumber: number } }) => result.properties.alertNumber,
+        ),
+      ).toEqual([1, 3]);
+
+      const raw = JSON.parse(formatAsSARIF([xssAlert, mockAlert], 'owner/repo', 'raw', { order }));
+      expect(raw.map((alert: CodeQLAlert) => alert.number)).toEqual([1, 3]);
+    });
+
+    it('should order prompt tasks', () => {
+      const result = formatAsPrompt([xssAlert, mockAlert], 'owner/repo', 'medium', {
+        order: { sortBy: 'severity' },
+      });
+
+      expect(result).toContain('## Task 1 of 2: Fix SQL Injection (#1)');
+      expect(result).toContain('## Task 2 of 2: Fix XSS (#3)');
+    });
+  });
+
+  describe('enterprise hosts', () => {
+    const metadata = { host: 'github.example.com' };
+
+    it('should show the host in Markdown and text headers', () => {
+      expect(formatAsMarkdown([mockAlert], 'owner/repo', 'medium', metadata)).toContain(
+        '**Host:** github.example.com\n**Repository:** owner/repo',
+      );
+      expect(formatAsText([mockAlert], 'medium', metadata)).toContain(
+        'CodeQL Security Scan Report\nHost: github.example.com',
+      );
+    });
+
+    it('should show the host in diff headers', () => {
+      const diffMetadata = { ...metadata, base: 'main', head: 'feature' };
+
+      expect(formatDiffAsMarkdown(emptyDiff, 'medium', diffMetadata)).toContain(
+        '**Host:** github.example.com',
+      );
+      expect(formatDiffAsText(emptyDiff, 'medium', diffMetadata)).toContain(
+        'Host: github.example.com',
+      );
+      expect(JSON.parse(formatDiffAsJSON(emptyDiff, 'medium', diffMetadata)).host).toBe(
+        'github.example.com',
+      );
+    });
+
+    it('should include the host in grouped JSON reports', () => {
+      const parsed = JSON.parse(
+        formatAsJSON([apiAlert], 'medium', { ...metadata, repositories: [{ name: 'acme/api' }] }),
+      );
+      expect(parsed.host).toBe('github.example.com');
+    });
+
+    it('should use the host in SARIF repository URIs', () => {
+      const parsed = JSON.parse(
+        formatAsSARIF([mockAlert], 'owner/repo', 'medium', { ...metadata, ref: 'refs/heads/main' }),
+      );
+      expect(parsed.runs[0].versionControlProvenance[0].repositoryUri).toBe(
+        'https://github.example.com/owner/repo',
+      );
+    });
+  });
+
+  describe('repository grouping', () => {
+    it('should group JSON alerts per repository with summaries', () => {
+      const parsed = JSON.parse(formatAsJSON([apiAlert, webAlert], 'minimum', groupedMetadata));
+
+      expect(parsed.organization).toBe('acme');
+      expect(parsed.summary).toEqual({ total: 2, by_severity: { error: 1, warning: 1 } });
+      expect(parsed.repositories).toHaveLength(3);
+      expect(parsed.repositories[0]).toMatchObject({
+        repository: 'acme/api',
+        summary: { total: 1, by_severity: { error: 1 } },
+        failed_alerts: [7],
+      });
+      expect(parsed.repositories[0].alerts[0].number).toBe(1);
+      expect(parsed.repositories[1]).not.toHaveProperty('failed_alerts');
+      expect(parsed.repositories[2]).toEqual({
+        repository: 'acme/docs',
+        summary: { total: 0, by_severity: {} },
+        alerts: [],
+      });
+    });
+
+    it('should omit the organization for repository lists', () => {
+      const parsed = JSON.parse(
+        formatAsJSON([apiAlert], 'medium', { repositories: [{ name: 'acme/api' }] }),
+      );
+      expect(parsed).not.toHaveProperty('organization');
+    });
+
+    it('should render Markdown sections and a summary table per repository', () => {
+      const result = formatAsMarkdown([apiAlert, webAlert], 'acme', 'medium', groupedMetadata);
+
+      expect(result).toContain('**Organization:** acme');
+      expect(result).toContain('**Repositories:** 3');
+      expect(result).not.toContain('**Repository:**');
+      expect(result).toContain('## Summary by Repository');
+      expect(result).toContain('| Repository | Total | error | warning |');
+      expect(result).toContain('| acme/docs  | 0     | 0     | 0       |');
+      expect(result).toContain('| **Total**  | 2     | 1     | 1       |');
+      expect(result).toContain('## acme/api\n\n**Alerts:** 1');
+      expect(result).toContain(
+        '**Incomplete:** details could not be fetched for alert(s) #7\n\n### Alert #1',
+      );
+      expect(result).toContain('## acme/web\n\n**Alerts:** 1\n\n### Alert #2');
+      expect(result).not.toContain('## Detailed Alerts');
+    });
+
+    it('should group Markdown alerts without an organization', () => {
+      const result = formatAsMarkdown([apiAlert], 'acme/api', 'medium', {
+        repositories: [{ name: 'acme/api' }],
+      });
+
+      expect(result).not.toContain('**Organization:**');
+      expect(result).toContain('**Repositories:** 1');
+    });
+
+    it('should render text sections and per-repository counts', () => {
+      const result = formatAsText([apiAlert, webAlert], 'medium', groupedMetadata);
+
+      expect(result).toContain('Organization: acme');
+      expect(result).toContain('Repositories: 3');
+      expect(result).toContain('  acme/api: 1 (error: 1)');
+      expect(result).toContain('  acme/docs: 0');
+      expect(result).toContain('  Total: 2 (error: 1, warning: 1)');
+      expect(result).toContain(
+        'REPOSITORY: acme/api (1)\nIncomplete: details could not be fetched for alert(s) #7',
+      );
+      expect(result).toContain('REPOSITORY: acme/web (1)');
+    });
+
+    it('should keep alerts from unlisted repositories in their own group', () => {
+      const result = formatAsText([mockAlert], 'minimum', { repositories: [] });
+
+      expect(result).not.toContain('Organization:');
+      expect(result).toContain('Repositories: 1');
+      expect(result).toContain('REPOSITORY:  (1)');
+    });
+
+    it('should write one SARIF run per repository', () => {
+      const parsed = JSON.parse(
+        formatAsSARIF([apiAlert, webAlert], 'acme', 'medium', groupedMetadata),
+      );
+
+      expect(parsed.runs).toHaveLength(3);
+      expect(parsed.runs[0].versionControlProvenance).toEqual([
+        { repositoryUri: 'https://github.com/acme/api' },
+      ]);
+      expect(parsed.runs[0].results).toHaveLength(1);
+      expect(parsed.runs[1].versionControlProvenance[0].repositoryUri).toBe(
+        'https://github.com/acme/web',
+      );
+      expect(parsed.runs[2].results).toEqual([]);
+    });
+  });
+
+  describe('report templates', () => {
+    const template = [
+      '# {{repository}}: {{total}} alert(s), {{errors}} error(s), {{warnings}} warning(s), {{notes}} note(s)',
+      '{{#alerts}}',
+      '- {{repository}}#{{number}} {{rule_id}} at {{file_path}}:{{start_line}} [{{cwe_ids}}]',
+      '{{/alerts}}',
+      '{{^alerts}}',
+      'No alerts',
+      '{{/alerts}}',
+      '',
+    ].join('\n');
+
+    it('should render Markdown reports with a custom template', () => {
+      const alerts = [{ ...alertWithHelp, repository: { full_name: 'acme/api' } }, webAlert];
+
+      expect(formatAsMarkdown(alerts, 'acme', 'minimum', groupedMetadata, { template })).toBe(
+        [
+          '# acme: 2 alert(s), 1 error(s), 1 warning(s), 0 note(s)',
+          '- acme/api#1 js/sql-injection at src/database.js:10 [CWE-89]',
+          '- acme/web#2 js/sql-injection at src/database.js:10 []',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should render text reports with the repository and report metadata', () => {
+      const result = formatAsText(
+        [],
+        'medium',
+        { ref: 'refs/heads/main', host: 'github.example.com', suppressed: 2 },
+        {
+          repoName: 'owner/repo',
+          template: `{{ref}} {{host}} {{detail}} {{suppressed}}\n${template}`,
+        },
+      );
+
+      expect(result).toBe(
+        'refs/heads/main github.example.com medium 2\n# owner/repo: 0 alert(s), 0 error(s), 0 warning(s), 0 note(s)\nNo alerts\n',
+      );
+    });
+
+    it('should provide the blocks of the built-in layout', () => {
+      const markdown = formatAsMarkdown(
+        [mockAlert],
+        'owner/repo',
+        'medium',
+        {},
+        {
+          template: '{{details}}\n\n{{summary}}\n\n{{generated}}',
+        },
+      );
+      const text = formatAsText([mockAlert], 'medium', {}, { template: '[{{header}}]' });
+
+      expect(markdown).toMatch(/^## Detailed Alerts\n\n### Alert #1/);
+      expect(markdown).toContain('## Summary by Severity');
+      expect(markdown).toMatch(/\n\d{4}-\d{2}-\d{2}T[\d:.]+Z$/);
+      expect(text).toBe('[Total Alerts: 1\nDetail Level: medium]');
+    });
+
+    it('should render the built-in layouts with the default templates', () => {
+      vi.useFakeTimers({ now: new Date('2026-01-02T03:04:05Z'), toFake: ['Date'] });
+      try {
+        expect(
+          formatAsMarkdown(
+            [mockAlert],
+            'owner/repo',
+            'full',
+            {},
+            { template: DEFAULT_MARKDOWN_TEMPLATE },
+          ),
+        ).toBe(formatAsMarkdown([mockAlert], 'owner/repo', 'full'));
+      } finally {
+        vi.useRealTimers();
+      }
+      expect(formatAsText([], 'medium', {}, { template: DEFAULT_TEXT_TEMPLATE })).toBe(
+        formatAsText([]),
+      );
+    });
+
+    it('should validate templates', () => {
+      expect(() => validateReportTemplate(DEFAULT_MARKDOWN_TEMPLATE)).not.toThrow();
+      expect(() => validateReportTemplate(DEFAULT_TEXT_TEMPLATE)).not.toThrow();
+      expect(() => validateReportTemplate(template)).not.toThrow();
+      expect(() => validateReportTemplate('{{#alerts}}{{rule}}{{/alerts}}')).toThrow(
+        'Unknown template placeholder {{rule}}',
+      );
+      expect(() => validateReportTemplate('{{#alerts}}')).toThrow(
+        'Unclosed template section {{#alerts}}',
+      );
+    });
+  });
+
+  describe('diff formatters', () => {
+    const metadata = { repoName: 'owner/repo', base: 'main', head: 'feature' };
+
+    it('should format diffs as JSON sections', () => {
+      const parsed = JSON.parse(formatDiffAsJSON(mockDiff, 'minimum', metadata));
+      expect(parsed.repository).toBe('owner/repo');
+      expect(parsed.base).toBe('main');
+      expect(parsed.head).toBe('feature');
+      expect(parsed.summary).toEqual({ new: 1, fixed: 1, unchanged: 2, moved: 1 });
+      expect(parsed.new[0].number).toBe(3);
+      expect(parsed.fixed[0].number).toBe(4);
+      expect(parsed.unchanged[0]).not.toHaveProperty('previous_location');
+      expect(parsed.unchanged[1].previous_location).toEqual({
+        file_path: 'src/database.js',
+        start_line: 10,
+        end_line: 12,
+      });
+    });
+
+    it('should omit the repository from JSON diffs of report files', () => {
+      const parsed = JSON.parse(formatDiffAsJSON(emptyDiff));
+      expect(parsed).not.toHaveProperty('repository');
+      expect(parsed.base).toBe('base');
+    });
+
+    it('should format diffs as Markdown sections', () => {
+      const result = formatDiffAsMarkdown(mockDiff, 'medium', metadata);
+      expect(result).toContain('# CodeQL Alert Diff');
+      expect(result).toContain('**Repository:** owner/repo');
+      expect(result).toContain('**Base:** `main`');
+      expect(result).toContain('| Unchanged | 2 (1 moved) |');
+      expect(result).toContain('## New Alerts (1)\n\n### Alert #3: XSS');
+      expect(result).toContain('## Fixed Alerts (1)\n\n### Alert #4: Fixed Rule');
+      expect(result).toContain('## Unchanged Alerts (2)');
+      expect(result).toContain('- **Moved from:** `src/database.js:10`');
+    });
+
+    it('should mark empty Markdown diff sections', () => {
+      const result = formatDiffAsMarkdown(emptyDiff);
+      expect(result).not.toContain('**Repository:**');
+      expect(result).toContain('## New Alerts (0)\n\n_None_');
+      expect(result).toContain('| Unchanged | 0     |');
+    });
+
+    it('should format diffs as text sections', () => {
+      const result = formatDiffAsText(mockDiff, 'medium', metadata);
+      expect(result).toContain('CodeQL Alert Diff');
+      expect(result).toContain('Repository: owner/repo');
+      expect(result).toContain('Unchanged: 2 (1 moved)');
+      expect(result).toContain('NEW ALERTS (1)');
+      expect(result).toContain('FIXED ALERTS (1)');
+      expect(result).toContain('  Moved from: src/database.js:10');
+    });
+
+    it('should format empty text diffs', () => {
+      const result = formatDiffAsText(emptyDiff, 'raw');
+      expect(result).not.toContain('Repository:');
+      expect(result).toContain('Unchanged: 0\n');
+    });
+
+    it('should format diffs as SARIF with baseline states', () => {
+      const parsed = JSON.parse(formatDiffAsSARIF(mockDiff, 'full'));
+      const states = parsed.runs[0].results.map(
+        (result: { baselineState: string; properties: { alertNumber: number } }) => [
+          result.properties.alertNumber,
+          result.baselineState,
+        ],
+      );
+      expect(states).toEqual([
+        [3, 'new'],
+        [1, 'unchanged'],
+        [2, 'updated'],
+        [4, 'absent'],
+      ]);
+      expect(parsed.runs[0].tool.driver.version).toBe('2.0.0');
+    });
+
+    it('should return raw diffs as JSON for SARIF', () => {
+      const parsed = JSON.parse(formatDiffAsSARIF(mockDiff, 'raw'));
+      expect(parsed.new[0]).toHaveProperty('most_recent_instance');
+    });
+  });
 });
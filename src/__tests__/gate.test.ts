@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { evaluateGate, formatGateSummary } from '../lib/gate.js';
+
+function alert(number: number, severity: string, path = 'src/app.js'): CodeQLAlert {
+  return {
+    number,
+    rule: {
+      id: `js/rule-${number}`,
+      severity,
+      description: 'A problem',
+      name: 'Problem',
+    },
+    most_recent_instance: {
+      ref: 'refs/heads/main',
+      analysis_key: 'test-analysis',
+      category: 'security',
+      state: 'open',
+      commit_sha: 'abc123',
+      message: { text: `Problem ${number}` },
+      location: { path, start_line: number, end_line: number, start_column: 1, end_column: 2 },
+    },
+    tool: { name: 'CodeQL', version: '2.0.0' },
+  };
+}
+
+const alerts = [alert(1, 'error'), alert(2, 'warning'), alert(3, 'note')];
+
+describe('evaluateGate', () => {
+  it('should count alerts at or above the failure severity', () => {
+    const result = evaluateGate(alerts, { failOn: 'warning' });
+
+    expect(result.passed).toBe(false);
+    expect(result.counted.map((a) => a.number)).toEqual([1, 2]);
+    expect(result.allowed).toBe(0);
+    expect(result.baselined).toBeUndefined();
+  });
+
+  it('should count every alert without a failure severity', () => {
+    expect(evaluateGate(alerts, { maxAlerts: 3 })).toMatchObject({ passed: true, allowed: 3 });
+    expect(evaluateGate(alerts, { maxAlerts: 2 }).passed).toBe(false);
+  });
+
+  it('should allow up to the maximum number of alerts', () => {
+    expect(evaluateGate(alerts, { failOn: 'warning', maxAlerts: 2 }).passed).toBe(true);
+    expect(evaluateGate(alerts, { failOn: 'error', maxAlerts: 0 }).passed).toBe(false);
+    expect(evaluateGate([], { failOn: 'note' }).passed).toBe(true);
+  });
+
+  it('should only count alerts missing from the baseline', () => {
+    const baseline = [{ ...alert(1, 'error'), number: 0 }, alert(9, 'error')];
+    const result = evaluateGate(alerts, { failOn: 'warning' }, baseline);
+
+    expect(result.counted.map((a) => a.number)).toEqual([2]);
+    expect(result.baselined).toBe(1);
+    expect(evaluateGate(alerts, { failOn: 'error' }, baseline).passed).toBe(true);
+  });
+});
+
+describe('formatGateSummary', () => {
+  it('should summarize a passing gate', () => {
+    const options = { failOn: 'error' as const, maxAlerts: 1 };
+    expect(formatGateSummary(evaluateGate(alerts, options), options)).toBe(
+      '✅ Gate passed: 1 alert(s) at or above error, 1 allowed',
+    );
+  });
+
+  it('should list the alerts failing the gate', () => {
+    const options = { failOn: 'warning' as const };
+    const grouped = alerts.map((a) => ({ ...a, repository: { full_name: 'acme/api' } }));
+
+    expect(formatGateSummary(evaluateGate(grouped, options), options)).toBe(
+      '❌ Gate failed: 2 alert(s) at or above warning, 0 allowed (acme/api#1, acme/api#2)',
+    );
+  });
+
+  it('should describe new alerts against a baseline', () => {
+    const options = { maxAlerts: 0 };
+    const sarifAlert = { ...alert(4, 'error', 'lib/db.js'), number: 0 };
+
+    expect(formatGateSummary(evaluateGate([sarifAlert], options, []), options)).toBe(
+      '❌ Gate failed: 1 new alert(s), 0 allowed, 0 in compared report (lib/db.js:4)',
+    );
+  });
+
+  it('should cut long alert lists short', () => {
+    const many = Array.from({ length: 12 }, (_, index) => alert(index + 1, 'error'));
+    const summary = formatGateSummary(evaluateGate(many, {}), {});
+
+    expect(summary).toBe(
+      '❌ Gate failed: 12 alert(s), 0 allowed (#1, #2, #3, #4, #5, #6, #7, #8, #9, #10 and 2 more)',
+    );
+  });
+});
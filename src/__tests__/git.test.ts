@@ -1,7 +1,15 @@
 import type { SimpleGit } from 'simple-git';
 import simpleGit from 'simple-git';
 import { describe, expect, it, vi } from 'vitest';
-import { getGitHubRepoFromRemote, parseGitHubUrl } from '../lib/git.js';
+import {
+  getCurrentBranch,
+  getGitHubRepoFromRemote,
+  isGitCheckout,
+  normalizeRef,
+  parseGitHubUrl,
+  parseRepositoryName,
+  pullRequestRef,
+} from '../lib/git.js';
 
 vi.mock('simple-git');
 
@@ -35,6 +43,55 @@ describe('parseGitHubUrl', () => {
     const result = parseGitHubUrl('https://github.com/my-org_name/my-repo_name.git');
     expect(result).toEqual({ owner: 'my-org_name', repo: 'my-repo_name' });
   });
+
+  it('should parse bare owner/repo', () => {
+    expect(parseGitHubUrl('owner/repo.git')).toEqual({ owner: 'owner', repo: 'repo' });
+  });
+
+  describe('enterprise hosts', () => {
+    const hosts = ['github.com', 'github.example.com'];
+
+    it.each([
+      'https://github.example.com/owner/repo.git',
+      'https://user@github.example.com:8443/owner/repo',
+      'git@github.example.com:owner/repo.git',
+      'ssh://git@github.example.com/owner/repo.git',
+      'ssh://git@GitHub.Example.com:2222/owner/repo.git/',
+      'git://github.example.com/owner/repo.git',
+    ])('should parse %s', (url) => {
+      expect(parseGitHubUrl(url, hosts)).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        host: 'github.example.com',
+      });
+    });
+
+    it('should keep github.com remotes without a host', () => {
+      expect(parseGitHubUrl('ssh://git@github.com/owner/repo.git', hosts)).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+      });
+    });
+
+    it('should reject hosts that are not configured', () => {
+      expect(parseGitHubUrl('https://github.example.com/owner/repo.git')).toBeNull();
+      expect(parseGitHubUrl('git@gitlab.com:owner/repo.git', hosts)).toBeNull();
+    });
+  });
+});
+
+describe('parseRepositoryName', () => {
+  it('should parse owner/name', () => {
+    expect(parseRepositoryName('my-org/my-repo')).toEqual({ owner: 'my-org', repo: 'my-repo' });
+    expect(parseRepositoryName('owner/repo.git')).toEqual({ owner: 'owner', repo: 'repo' });
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseRepositoryName('repo')).toThrow(
+      'Invalid repository: repo. Expected owner/name',
+    );
+    expect(() => parseRepositoryName('a/b/c')).toThrow('Invalid repository: a/b/c');
+  });
 });
 
 describe('getGitHubRepoFromRemote', () => {
@@ -131,6 +188,22 @@ describe('getGitHubRepoFromRemote', () => {
     await expect(getGitHubRepoFromRemote()).rejects.toThrow('Failed to get git remote information');
   });
 
+  it('should recognize remotes on configured enterprise hosts', async () => {
+    const mockGit = {
+      getRemotes: vi.fn().mockResolvedValue([
+        {
+          name: 'origin',
+          refs: { fetch: 'ssh://git@github.example.com:2222/owner/repo.git', push: '' },
+        },
+      ]),
+    };
+    vi.mocked(simpleGit).mockReturnValue(mockGit as unknown as SimpleGit);
+
+    const result = await getGitHubRepoFromRemote(undefined, ['github.com', 'github.example.com']);
+
+    expect(result).toEqual({ owner: 'owner', repo: 'repo', host: 'github.example.com' });
+  });
+
   it('should pass cwd parameter to simpleGit', async () => {
     const mockGit = {
       getRemotes: vi
@@ -146,3 +219,67 @@ describe('getGitHubRepoFromRemote', () => {
     expect(simpleGit).toHaveBeenCalledWith('/custom/path');
   });
 });
+
+describe('isGitCheckout', () => {
+  it('should tell whether the directory is in a git working tree', async () => {
+    const mockGit = { checkIsRepo: vi.fn().mockResolvedValue(false) };
+    vi.mocked(simpleGit).mockReturnValue(mockGit as unknown as SimpleGit);
+
+    expect(await isGitCheckout('/tmp')).toBe(false);
+    expect(simpleGit).toHaveBeenCalledWith('/tmp');
+  });
+
+  it('should return false when git cannot run', async () => {
+    vi.mocked(simpleGit).mockImplementation(() => {
+      throw new Error('Cannot use simple-git on a directory that does not exist');
+    });
+
+    expect(await isGitCheckout('/missing')).toBe(false);
+  });
+});
+
+describe('getCurrentBranch', () => {
+  it('should return the checked out branch', async () => {
+    const mockGit = {
+      revparse: vi.fn().mockResolvedValue('feature/login\n'),
+    };
+    vi.mocked(simpleGit).mockReturnValue(mockGit as unknown as SimpleGit);
+
+    const result = await getCurrentBranch('/custom/path');
+
+    expect(result).toBe('feature/login');
+    expect(simpleGit).toHaveBeenCalledWith('/custom/path');
+    expect(mockGit.revparse).toHaveBeenCalledWith(['--abbrev-ref', 'HEAD']);
+  });
+
+  it('should throw error on detached HEAD', async () => {
+    const mockGit = {
+      revparse: vi.fn().mockResolvedValue('HEAD\n'),
+    };
+    vi.mocked(simpleGit).mockReturnValue(mockGit as unknown as SimpleGit);
+
+    await expect(getCurrentBranch()).rejects.toThrow('HEAD is detached');
+  });
+});
+
+describe('normalizeRef', () => {
+  it('should expand branch names', () => {
+    expect(normalizeRef('main')).toBe('refs/heads/main');
+    expect(normalizeRef('feature/login')).toBe('refs/heads/feature/login');
+  });
+
+  it('should keep fully qualified refs', () => {
+    expect(normalizeRef('refs/tags/v1.0.0')).toBe('refs/tags/v1.0.0');
+  });
+});
+
+describe('pullRequestRef', () => {
+  it('should return the merge ref for a pull request', () => {
+    expect(pullRequestRef(42)).toBe('refs/pull/42/merge');
+  });
+
+  it('should reject invalid pull request numbers', () => {
+    expect(() => pullRequestRef(0)).toThrow('Invalid pull request number: 0');
+    expect(() => pullRequestRef(Number.NaN)).toThrow('Invalid pull request number');
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getApiUrl, getConfiguredHosts, getDefaultHost, getHostFromApiUrl } from '../lib/hosts.js';
+
+describe('getDefaultHost', () => {
+  const originalHost = process.env.GH_HOST;
+
+  afterEach(() => {
+    if (originalHost === undefined) {
+      delete process.env.GH_HOST;
+    } else {
+      process.env.GH_HOST = originalHost;
+    }
+  });
+
+  it('should default to github.com', () => {
+    delete process.env.GH_HOST;
+    expect(getDefaultHost()).toBe('github.com');
+  });
+
+  it('should use GH_HOST when set', () => {
+    process.env.GH_HOST = 'github.example.com';
+    expect(getDefaultHost()).toBe('github.example.com');
+  });
+});
+
+describe('getApiUrl', () => {
+  it('should use the public API for github.com', () => {
+    expect(getApiUrl('github.com')).toBe('https://api.github.com');
+  });
+
+  it('should use the /api/v3 path for enterprise hosts', () => {
+    expect(getApiUrl('github.example.com')).toBe('https://github.example.com/api/v3');
+  });
+});
+
+describe('getHostFromApiUrl', () => {
+  it('should map the public API to github.com', () => {
+    expect(getHostFromApiUrl('https://api.github.com')).toBe('github.com');
+  });
+
+  it('should return the enterprise host without port', () => {
+    expect(getHostFromApiUrl('https://github.example.com:8443/api/v3')).toBe('github.example.com');
+  });
+
+  it('should reject invalid URLs', () => {
+    expect(() => getHostFromApiUrl('not a url')).toThrow('Invalid API URL: not a url');
+  });
+});
+
+describe('getConfiguredHosts', () => {
+  const originalHost = process.env.GH_HOST;
+
+  afterEach(() => {
+    if (originalHost === undefined) {
+      delete process.env.GH_HOST;
+    } else {
+      process.env.GH_HOST = originalHost;
+    }
+  });
+
+  it('should include github.com, GH_HOST and the API URL host', () => {
+    process.env.GH_HOST = 'GHE.example.com';
+
+    expect(getConfiguredHosts('https://other.example.com/api/v3')).toEqual([
+      'github.com',
+      'ghe.example.com',
+      'other.example.com',
+    ]);
+  });
+
+  it('should not repeat hosts', () => {
+    delete process.env.GH_HOST;
+
+    expect(getConfiguredHosts()).toEqual(['github.com']);
+    expect(getConfiguredHosts('https://api.github.com')).toEqual(['github.com']);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { groupAlerts, orderAlerts, sortAlerts } from '../lib/ordering.js';
+
+function alert(
+  number: number,
+  path: string,
+  options: { severity?: string; ruleId?: string; line?: number; createdAt?: string } = {},
+): CodeQLAlert {
+  return {
+    number,
+    rule: {
+      id: options.ruleId ?? 'js/sql-injection',
+      severity: options.severity ?? 'error',
+      description: 'SQL injection vulnerability',
+      name: 'SQL Injection',
+    },
+    most_recent_instance: {
+      ref: 'refs/heads/main',
+      analysis_key: 'test-analysis',
+      category: 'security',
+      state: 'open',
+      commit_sha: 'abc123',
+      message: { text: 'Potential SQL injection' },
+      location: {
+        path,
+        start_line: options.line ?? 10,
+        end_line: options.line ?? 10,
+        start_column: 5,
+        end_column: 20,
+      },
+    },
+    ...(options.createdAt && { created_at: options.createdAt }),
+    tool: { name: 'CodeQL', version: '2.0.0' },
+  };
+}
+
+const numbers = (alerts: CodeQLAlert[]) => alerts.map((a) => a.number);
+
+const alerts = [
+  alert(3, 'src/b.js', { severity: 'note', ruleId: 'js/xss', createdAt: '2024-03-01T00:00:00Z' }),
+  alert(1, 'src/a.js', { severity: 'warning', line: 20 }),
+  alert(4, 'src/a.js', { severity: 'error', line: 5, createdAt: '2024-01-01T00:00:00Z' }),
+  alert(2, 'README.md', { severity: 'warning', ruleId: 'js/xss' }),
+];
+
+describe('sortAlerts', () => {
+  it('should keep the given order without a sort key', () => {
+    const sorted = sortAlerts(alerts);
+    expect(numbers(sorted)).toEqual([3, 1, 4, 2]);
+    expect(sorted).not.toBe(alerts);
+  });
+
+  it('should sort by severity, then location', () => {
+    expect(numbers(sortAlerts(alerts, 'severity'))).toEqual([4, 2, 1, 3]);
+  });
+
+  it('should rank alerts of the same severity by security severity', () => {
+    const medium = alert(1, 'a.js');
+    const critical = alert(2, 'b.js');
+    critical.rule.security_severity_level = 'critical';
+    medium.rule.security_severity_level = 'medium';
+
+    expect(numbers(sortAlerts([medium, critical, alert(3, 'c.js')], 'severity'))).toEqual([
+      2, 1, 3,
+    ]);
+  });
+
+  it('should sort by path and line', () => {
+    expect(numbers(sortAlerts(alerts, 'path'))).toEqual([2, 4, 1, 3]);
+  });
+
+  it('should sort alerts at the same location by number', () => {
+    expect(numbers(sortAlerts([alert(2, 'a.js'), alert(1, 'a.js')], 'path'))).toEqual([1, 2]);
+  });
+
+  it('should sort by path within each repository', () => {
+    const api = { ...alert(1, 'z.js'), repository: { full_name: 'acme/api' } };
+    const web = { ...alert(2, 'a.js'), repository: { full_name: 'acme/web' } };
+    const local = alert(3, 'b.js');
+    expect(numbers(sortAlerts([web, api, local], 'path'))).toEqual([3, 1, 2]);
+    expect(numbers(sortAlerts([local, web, api], 'path'))).toEqual([3, 1, 2]);
+  });
+
+  it('should sort by alert number', () => {
+    expect(numbers(sortAlerts(alerts, 'number'))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should order equal numbers of different repositories by repository', () => {
+    const api = { ...alert(1, 'a.js'), repository: { full_name: 'acme/api' } };
+    const web = { ...alert(1, 'a.js'), repository: { full_name: 'acme/web' } };
+    const local = alert(1, 'a.js');
+
+    expect(sortAlerts([web, api, local], 'number')).toEqual([local, api, web]);
+  });
+
+  it('should sort oldest first, alerts without a creation date last', () => {
+    expect(numbers(sortAlerts(alerts, 'created'))).toEqual([4, 3, 1, 2]);
+  });
+
+  it('should not modify the input', () => {
+    sortAlerts(alerts, 'number');
+    expect(numbers(alerts)).toEqual([3, 1, 4, 2]);
+  });
+});
+
+describe('groupAlerts', () => {
+  it('should form a single unnamed section without grouping', () => {
+    expect(groupAlerts(alerts, { sortBy: 'number' })).toEqual([
+      { name: '', alerts: sortAlerts(alerts, 'number') },
+    ]);
+    expect(groupAlerts([])).toEqual([{ name: '', alerts: [] }]);
+  });
+
+  it('should group by file, sorted by name', () => {
+    const groups = groupAlerts(alerts, { groupBy: 'file', sortBy: 'path' });
+
+    expect(groups.map((group) => group.name)).toEqual(['README.md', 'src/a.js', 'src/b.js']);
+    expect(groups.map((group) => numbers(group.alerts))).toEqual([[2], [4, 1], [3]]);
+  });
+
+  it('should group by directory', () => {
+    const groups = groupAlerts(alerts, { groupBy: 'directory' });
+
+    expect(groups.map((group) => group.name)).toEqual(['.', 'src']);
+    expect(numbers(groups[1].alerts)).toEqual([3, 1, 4]);
+  });
+
+  it('should group by rule', () => {
+    const groups = groupAlerts(alerts, { groupBy: 'rule', sortBy: 'number' });
+
+    expect(groups.map((group) => [group.name, numbers(group.alerts)])).toEqual([
+      ['js/sql-injection', [1, 4]],
+      ['js/xss', [2, 3]],
+    ]);
+  });
+
+  it('should put the most severe section first', () => {
+    const groups = groupAlerts(
+      [
+        ...alerts,
+        alert(5, 'x.js', { severity: 'Unknown' }),
+        alert(6, 'x.js', { severity: 'recommendation' }),
+      ],
+      { groupBy: 'severity' },
+    );
+
+    expect(groups.map((group) => group.name)).toEqual([
+      'error',
+      'warning',
+      'note',
+      'recommendation',
+      'unknown',
+    ]);
+    expect(numbers(groups[1].alerts)).toEqual([1, 2]);
+  });
+});
+
+describe('orderAlerts', () => {
+  it('should put the sections back to back', () => {
+    expect(numbers(orderAlerts(alerts, { groupBy: 'rule', sortBy: 'path' }))).toEqual([4, 1, 2, 3]);
+    expect(numbers(orderAlerts(alerts))).toEqual([3, 1, 4, 2]);
+  });
+});
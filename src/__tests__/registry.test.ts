@@ -0,0 +1,202 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  type Formatter,
+  getFormatter,
+  listFormatters,
+  loadFormatterModule,
+  registerFormatter,
+} from '../formatters/registry.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection detected',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+describe('formatter registry', () => {
+  it('should register the built-in formats', () => {
+    expect(listFormatters().map((formatter) => formatter.name)).toEqual([
+      'json',
+      'sarif',
+      'txt',
+      'md',
+      'prompt',
+      'html',
+      'csv',
+      'jsonl',
+      'junit',
+    ]);
+    expect(getFormatter('junit').extension).toBe('junit.xml');
+    expect(getFormatter('prompt').extension).toBe('prompt.md');
+  });
+
+  it.each(listFormatters().map((formatter) => [formatter.name, formatter]))(
+    'should render the %s format',
+    (_name, formatter) => {
+      const content = formatter.format([mockAlert], {
+        repoName: 'acme/api',
+        detail: 'medium',
+        metadata: {},
+      });
+
+      expect(content).toContain('src/database.js');
+    },
+  );
+
+  it('should reject unknown formats', () => {
+    expect(() => getFormatter('pdf')).toThrow(
+      'Unknown format pdf, available: json, sarif, txt, md, prompt',
+    );
+  });
+
+  it('should reject detail levels a format does not render', () => {
+    const formatter: Formatter = {
+      name: 'summary',
+      extension: 'summary.txt',
+      detailLevels: ['minimum'],
+      format: (alerts) => `${alerts.length} alert(s)`,
+    };
+    registerFormatter(formatter);
+
+    expect(getFormatter('summary', 'minimum')).toBe(formatter);
+    expect(() => getFormatter('summary', 'full')).toThrow(
+      'Format summary does not support the full detail level, only minimum',
+    );
+  });
+
+  it('should keep names unique but allow registering the same formatter again', () => {
+    const formatter: Formatter = {
+      name: 'tsv',
+      extension: 'tsv',
+      detailLevels: ['minimum', 'medium'],
+      format: () => '',
+    };
+    registerFormatter(formatter);
+    registerFormatter(formatter);
+
+    expect(() => registerFormatter({ ...formatter })).toThrow('Format tsv is already registered');
+    expect(() => registerFormatter({ ...getFormatter('json'), format: () => '' })).toThrow(
+      'Format json is already registered',
+    );
+  });
+
+  it.each([
+    [{ name: '', extension: 'txt', detailLevels: ['medium'], format: () => '' }],
+    [{ name: 'bare', extension: 'txt', detailLevels: [], format: () => '' }],
+    [{ name: 'bare', extension: 'txt', detailLevels: ['verbose'], format: () => '' }],
+    [{ name: 'bare', extension: 'txt', detailLevels: ['medium'] }],
+    [null],
+  ])('should reject invalid formatter %j', (formatter) => {
+    expect(() => registerFormatter(formatter as unknown as Formatter)).toThrow(
+      'Invalid formatter: expected a name, an extension, detail levels',
+    );
+  });
+});
+
+describe('loadFormatterModule', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'codeql-formatters-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeModule(name: string, source: string): Promise<string> {
+    const path = join(dir, name);
+    await writeFile(path, source, 'utf-8');
+    return path;
+  }
+
+  it('should register a default exported formatter', async () => {
+    const path = await writeModule(
+      'count.mjs',
+      `export default {
+        name: 'count',
+        extension: 'count.txt',
+        detailLevels: ['minimum', 'medium'],
+        format: (alerts, { repoName }) => repoName + ': ' + alerts.length,
+      };`,
+    );
+
+    const loaded = await loadFormatterModule(path);
+
+    expect(loaded.map((formatter) => formatter.name)).toEqual(['count']);
+    expect(
+      getFormatter('count', 'medium').format([mockAlert], {
+        repoName: 'acme/api',
+        detail: 'medium',
+        metadata: {},
+      }),
+    ).toBe('acme/api: 1');
+  });
+
+  it('should register a list of formatters and tolerate loading it twice', async () => {
+    const path = await writeModule(
+      'list.mjs',
+      `const detailLevels = ['medium'];
+      export default [
+        { name: 'first', extension: 'first', detailLevels, format: () => 'first' },
+        { name: 'second', extension: 'second', detailLevels, format: () => 'second' },
+      ];`,
+    );
+
+    await loadFormatterModule(path);
+    const loaded = await loadFormatterModule(path);
+
+    expect(loaded).toHaveLength(2);
+    expect(getFormatter('second').extension).toBe('second');
+  });
+
+  it.each([
+    ['named.mjs', "export const formatter = { name: 'named' };"],
+    ['empty.mjs', 'export default [];'],
+    ['partial.mjs', "export default [{ name: 'partial', extension: 'p', detailLevels: [] }];"],
+  ])('should reject module %s without formatters', async (name, source) => {
+    const path = await writeModule(name, source);
+
+    await expect(loadFormatterModule(path)).rejects.toThrow(
+      `Invalid formatter module ${path}: the default export must be a formatter or a list of formatters`,
+    );
+    expect(() => getFormatter('partial')).toThrow('Unknown format partial');
+  });
+
+  it('should report modules that cannot be imported', async () => {
+    const path = join(dir, 'missing.mjs');
+
+    await expect(loadFormatterModule(path)).rejects.toThrow(
+      `Could not load formatter module ${path}:`,
+    );
+  });
+});
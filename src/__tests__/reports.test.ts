@@ -0,0 +1,377 @@
+import { readFile } from 'node:fs/promises';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { loadReport, loadSARIF, parseJSONReport, parseSARIFReport } from '../lib/reports.js';
+
+vi.mock('node:fs/promises');
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection detected',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+const fullFlatAlert = {
+  number: 1,
+  rule_id: 'js/sql-injection',
+  rule_name: 'SQL Injection',
+  severity: 'error',
+  message: 'Potential SQL injection detected',
+  file_path: 'src/database.js',
+  start_line: 10,
+  end_line: 12,
+  commit_sha: 'abc123',
+  rule_description: 'SQL injection vulnerability',
+  start_column: 5,
+  end_column: 20,
+  state: 'open',
+  ref: 'refs/heads/main',
+  analysis_key: 'test-analysis',
+  category: 'security',
+  tool_name: 'CodeQL',
+  tool_version: '2.0.0',
+};
+
+describe('parseJSONReport', () => {
+  it('should restore full detail alerts', () => {
+    expect(parseJSONReport([fullFlatAlert])).toEqual([mockAlert]);
+  });
+
+  it('should restore help text', () => {
+    const [alert] = parseJSONReport([{ ...fullFlatAlert, help_text: 'Use parameters' }]);
+    expect(alert.help).toBe('Use parameters');
+  });
+
+  it('should restore code flows and related locations', () => {
+    const step = {
+      path: 'src/server.js',
+      start_line: 4,
+      end_line: 4,
+      start_column: 3,
+      end_column: 9,
+      message: 'req.query.id',
+    };
+    const [alert] = parseJSONReport([
+      { ...fullFlatAlert, code_flows: [[step]], related_locations: [step] },
+    ]);
+
+    expect(alert.code_flows).toEqual([[step]]);
+    expect(alert.related_locations).toEqual([step]);
+  });
+
+  it('should restore security severity and tags', () => {
+    const [alert] = parseJSONReport([
+      {
+        ...fullFlatAlert,
+        security_severity: 'high',
+        tags: ['security', 'external/cwe/cwe-089'],
+        cwe_ids: ['CWE-89'],
+      },
+    ]);
+
+    expect(alert.rule.security_severity_level).toBe('high');
+    expect(alert.rule.tags).toEqual(['security', 'external/cwe/cwe-089']);
+  });
+
+  it('should fill defaults for minimum detail alerts', () => {
+    const [alert] = parseJSONReport([{ rule_id: 'js/xss', file_path: 'a.js' }]);
+
+    expect(alert.number).toBe(0);
+    expect(alert.rule.name).toBe('js/xss');
+    expect(alert.most_recent_instance.location).toEqual({
+      path: 'a.js',
+      start_line: 0,
+      end_line: 0,
+      start_column: 1,
+      end_column: 1,
+    });
+  });
+
+  it('should keep raw detail alerts as they are', () => {
+    expect(parseJSONReport([mockAlert])[0]).toBe(mockAlert);
+  });
+
+  it('should reject unsupported structures', () => {
+    expect(() => parseJSONReport({ alerts: [] })).toThrow('expected an array of alerts');
+    expect(() => parseJSONReport([{ foo: 'bar' }])).toThrow('unrecognized alert structure');
+    expect(() => parseJSONReport([null])).toThrow('unrecognized alert structure');
+  });
+});
+
+describe('parseSARIFReport', () => {
+  it('should convert results into alerts', () => {
+    const alerts = parseSARIFReport({
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'CodeQL',
+              version: '2.0.0',
+              rules: [
+                {
+                  id: 'js/sql-injection',
+                  name: 'SQL Injection',
+                  shortDescription: { text: 'SQL injection vulnerability' },
+                },
+              ],
+            },
+          },
+          results: [
+            {
+              ruleId: 'js/sql-injection',
+              level: 'error',
+              message: { text: 'Potential SQL injection detected' },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: 'src/database.js' },
+                    region: { startLine: 10, endLine: 12, startColumn: 5, endColumn: 20 },
+                  },
+                },
+              ],
+              properties: { alertNumber: 7 },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].number).toBe(7);
+    expect(alerts[0].rule).toEqual(mockAlert.rule);
+    expect(alerts[0].most_recent_instance.location).toEqual(
+      mockAlert.most_recent_instance.location,
+    );
+    expect(alerts[0].tool).toEqual(mockAlert.tool);
+  });
+
+  it('should keep code flows and related locations', () => {
+    const location = {
+      physicalLocation: {
+        artifactLocation: { uri: 'src/server.js' },
+        region: { startLine: 4 },
+      },
+    };
+    const [alert] = parseSARIFReport({
+      runs: [
+        {
+          results: [
+            {
+              ruleId: 'js/sql-injection',
+              codeFlows: [{ threadFlows: [{ locations: [{ location }] }] }],
+              relatedLocations: [{ id: 1, ...location }],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(alert.code_flows?.[0][0].path).toBe('src/server.js');
+    expect(alert.related_locations?.[0].start_line).toBe(4);
+  });
+
+  it('should restore rule help and tags from the driver rules', () => {
+    const [withMarkdown, withText] = parseSARIFReport({
+      runs: [
+        {
+          tool: {
+            driver: {
+              rules: [
+                {
+                  id: 'js/sql-injection',
+                  fullDescription: { text: 'Full description' },
+                  help: { text: 'Help', markdown: '# Help' },
+                  helpUri: 'https://example.com/help',
+                  properties: { tags: ['security'], 'security-severity': '8.8' },
+                },
+                { id: 'js/xss', help: { text: 'Plain help' }, properties: { tags: [] } },
+              ],
+            },
+          },
+          results: [{ ruleId: 'js/sql-injection' }, { ruleId: 'js/xss' }],
+        },
+      ],
+    });
+
+    expect(withMarkdown.rule).toMatchObject({
+      full_description: 'Full description',
+      help: '# Help',
+      help_uri: 'https://example.com/help',
+      tags: ['security'],
+      security_severity_level: 'high',
+    });
+    expect(withText.rule.help).toBe('Plain help');
+    expect(withText.rule).not.toHaveProperty('tags');
+    expect(withText.rule).not.toHaveProperty('security_severity_level');
+  });
+
+  it('should fill defaults for sparse results', () => {
+    const [alert] = parseSARIFReport({ runs: [{ results: [{}] }, {}] });
+
+    expect(alert.number).toBe(0);
+    expect(alert.rule.severity).toBe('warning');
+    expect(alert.most_recent_instance.location.path).toBe('');
+    expect(alert.tool).toEqual({ name: '', version: '' });
+    expect(alert).not.toHaveProperty('code_flows');
+    expect(alert).not.toHaveProperty('related_locations');
+  });
+
+  it('should skip results marked absent in a SARIF diff', () => {
+    const alerts = parseSARIFReport({
+      runs: [{ results: [{ ruleId: 'a', baselineState: 'absent' }, { ruleId: 'b' }] }],
+    });
+
+    expect(alerts.map((alert) => alert.rule.id)).toEqual(['b']);
+  });
+
+  it('should read CodeQL CLI output with rules in query packs', () => {
+    const [alert, other] = parseSARIFReport({
+      runs: [
+        {
+          tool: {
+            driver: { name: 'CodeQL', version: '2.19.0' },
+            extensions: [
+              {
+                rules: [
+                  { id: 'js/xss', name: 'XSS', defaultConfiguration: { level: 'error' } },
+                  { id: 'js/unused', defaultConfiguration: {} },
+                ],
+              },
+              {},
+            ],
+          },
+          versionControlProvenance: [
+            { repositoryUri: 'https://github.com/acme/api', revisionId: 'def456', branch: 'main' },
+          ],
+          automationDetails: { id: '/language:javascript/' },
+          results: [{ rule: { id: 'js/xss' } }, { ruleId: 'js/unused', level: 'note' }],
+        },
+      ],
+    });
+
+    expect(alert.rule).toMatchObject({ id: 'js/xss', name: 'XSS', severity: 'error' });
+    expect(alert.most_recent_instance).toMatchObject({
+      ref: 'main',
+      commit_sha: 'def456',
+      category: '/language:javascript/',
+    });
+    expect(alert.tool).toEqual({ name: 'CodeQL', version: '2.19.0' });
+    expect(other.rule.severity).toBe('note');
+  });
+});
+
+describe('loadReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load JSON reports', async () => {
+    vi.mocked(readFile).mockResolvedValue(JSON.stringify([fullFlatAlert]));
+
+    const alerts = await loadReport('report.json');
+
+    expect(readFile).toHaveBeenCalledWith('report.json', 'utf-8');
+    expect(alerts).toEqual([mockAlert]);
+  });
+
+  it('should load SARIF reports', async () => {
+    vi.mocked(readFile).mockResolvedValue(
+      JSON.stringify({ version: '2.1.0', runs: [{ results: [{ ruleId: 'js/xss' }] }] }),
+    );
+
+    const alerts = await loadReport('report.sarif');
+
+    expect(alerts[0].rule.id).toBe('js/xss');
+  });
+
+  it('should reject invalid JSON', async () => {
+    vi.mocked(readFile).mockResolvedValue('not json');
+
+    await expect(loadReport('report.json')).rejects.toThrow(
+      'Unable to parse report report.json: not valid JSON',
+    );
+  });
+});
+
+describe('loadSARIF', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should keep number 0 for results without an alert number', async () => {
+    vi.mocked(readFile).mockResolvedValue(
+      JSON.stringify({
+        runs: [
+          {
+            results: [
+              { ruleId: 'a' },
+              { ruleId: 'b', properties: { alertNumber: 42 } },
+              { ruleId: 'c' },
+            ],
+          },
+        ],
+      }),
+    );
+
+    const input = await loadSARIF('results.sarif');
+
+    expect(readFile).toHaveBeenCalledWith('results.sarif', 'utf-8');
+    expect(input.alerts.map((alert) => alert.number)).toEqual([0, 42, 0]);
+    expect(input).not.toHaveProperty('repositoryUri');
+    expect(input).not.toHaveProperty('ref');
+  });
+
+  it('should return the provenance of the first run that records it', async () => {
+    vi.mocked(readFile).mockResolvedValue(
+      JSON.stringify({
+        runs: [
+          { results: [] },
+          {
+            versionControlProvenance: [
+              { repositoryUri: 'https://github.com/acme/api', branch: 'refs/heads/main' },
+            ],
+            results: [{ ruleId: 'a' }],
+          },
+        ],
+      }),
+    );
+
+    const input = await loadSARIF('results.sarif');
+
+    expect(input.repositoryUri).toBe('https://github.com/acme/api');
+    expect(input.ref).toBe('refs/heads/main');
+  });
+
+  it('should reject files that are not SARIF', async () => {
+    vi.mocked(readFile).mockResolvedValue(JSON.stringify([fullFlatAlert]));
+
+    await expect(loadSARIF('report.json')).rejects.toThrow(
+      'Unsupported SARIF file report.json: expected a list of runs',
+    );
+  });
+});
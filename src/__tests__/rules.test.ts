@@ -0,0 +1,241 @@
+import type { Octokit } from 'octokit';
+import { describe, expect, it, vi } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import type { GitHubRepo } from '../lib/git.js';
+import {
+  collectRules,
+  cweIds,
+  fetchRuleHelp,
+  rulesForAlerts,
+  securitySeverityLevel,
+  securitySeverityScore,
+} from '../lib/rules.js';
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 10,
+      end_line: 12,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+const xssAlert: CodeQLAlert = {
+  ...mockAlert,
+  number: 2,
+  rule: {
+    id: 'js/xss',
+    severity: 'warning',
+    description: 'Cross-site scripting',
+    name: 'XSS',
+  },
+};
+
+const mockRepo: GitHubRepo = {
+  owner: 'test-owner',
+  repo: 'test-repo',
+};
+
+function withRule(alert: CodeQLAlert, rule: Partial<CodeQLAlert['rule']>): CodeQLAlert {
+  return { ...alert, rule: { ...alert.rule, ...rule } };
+}
+
+function createOctokit(getAlert = vi.fn()) {
+  return { rest: { codeScanning: { getAlert } } } as unknown as Octokit;
+}
+
+describe('cweIds', () => {
+  it('should get CWE ids from rule tags', () => {
+    expect(
+      cweIds(['security', 'external/cwe/cwe-089', 'external/cwe/cwe-079', 'EXTERNAL/CWE/CWE-1']),
+    ).toEqual(['CWE-89', 'CWE-79', 'CWE-1']);
+    expect(cweIds(['external/cwe/cwe-abc'])).toEqual([]);
+    expect(cweIds()).toEqual([]);
+  });
+});
+
+describe('securitySeverityScore', () => {
+  it('should map levels to scores within their SARIF range', () => {
+    expect(securitySeverityScore('critical')).toBe('9.5');
+    expect(securitySeverityScore('High')).toBe('8.0');
+    expect(securitySeverityScore('medium')).toBe('5.5');
+    expect(securitySeverityScore('low')).toBe('2.0');
+    expect(securitySeverityScore('none')).toBeUndefined();
+  });
+});
+
+describe('securitySeverityLevel', () => {
+  it('should map scores back to levels', () => {
+    expect(securitySeverityLevel('9.8')).toBe('critical');
+    expect(securitySeverityLevel('9.0')).toBe('high');
+    expect(securitySeverityLevel('7.0')).toBe('high');
+    expect(securitySeverityLevel('6.1')).toBe('medium');
+    expect(securitySeverityLevel('4')).toBe('medium');
+    expect(securitySeverityLevel('3.9')).toBe('low');
+  });
+
+  it('should ignore scores without a severity', () => {
+    expect(securitySeverityLevel('0.0')).toBeUndefined();
+    expect(securitySeverityLevel('high')).toBeUndefined();
+  });
+
+  it('should round-trip every level', () => {
+    for (const level of ['critical', 'high', 'medium', 'low']) {
+      expect(securitySeverityLevel(securitySeverityScore(level) as string)).toBe(level);
+    }
+  });
+});
+
+describe('collectRules', () => {
+  it('should collect each rule once, sorted by id', () => {
+    const rules = collectRules([xssAlert, mockAlert, { ...mockAlert, number: 3 }]);
+
+    expect(rules).toEqual([
+      {
+        id: 'js/sql-injection',
+        name: 'SQL Injection',
+        severity: 'error',
+        description: 'SQL injection vulnerability',
+      },
+      { id: 'js/xss', name: 'XSS', severity: 'warning', description: 'Cross-site scripting' },
+    ]);
+  });
+
+  it('should keep help, documentation and tags', () => {
+    const [rule] = collectRules([
+      withRule(mockAlert, {
+        full_description: 'Building a query from user input',
+        help: '# SQL injection',
+        help_uri: 'https://codeql.github.com/js-sql-injection',
+        tags: ['security', 'external/cwe/cwe-089'],
+        security_severity_level: 'high',
+      }),
+    ]);
+
+    expect(rule).toEqual({
+      id: 'js/sql-injection',
+      name: 'SQL Injection',
+      severity: 'error',
+      description: 'SQL injection vulnerability',
+      full_description: 'Building a query from user input',
+      help: '# SQL injection',
+      help_uri: 'https://codeql.github.com/js-sql-injection',
+      tags: ['security', 'external/cwe/cwe-089'],
+      security_severity_level: 'high',
+    });
+  });
+
+  it('should take help from the alert when the rule has none', () => {
+    const [rule] = collectRules([{ ...mockAlert, help: 'Legacy help' }]);
+    expect(rule.help).toBe('Legacy help');
+  });
+
+  it('should fill in fields from later alerts of the same rule', () => {
+    const [rule] = collectRules([
+      withRule(mockAlert, { tags: [], security_severity_level: null }),
+      withRule(mockAlert, {
+        full_description: 'Full',
+        help: 'Help',
+        help_uri: 'https://example.com',
+        tags: ['security'],
+        security_severity_level: 'critical',
+      }),
+      withRule(mockAlert, { help: 'Other help', tags: ['other'] }),
+    ]);
+
+    expect(rule.full_description).toBe('Full');
+    expect(rule.help).toBe('Help');
+    expect(rule.help_uri).toBe('https://example.com');
+    expect(rule.tags).toEqual(['security']);
+    expect(rule.security_severity_level).toBe('critical');
+  });
+});
+
+describe('rulesForAlerts', () => {
+  it('should only keep the rules the alerts reference', () => {
+    const rules = collectRules([mockAlert, xssAlert]);
+
+    expect(rulesForAlerts([xssAlert], rules).map((rule) => rule.id)).toEqual(['js/xss']);
+    expect(rulesForAlerts([mockAlert]).map((rule) => rule.id)).toEqual(['js/sql-injection']);
+  });
+});
+
+describe('fetchRuleHelp', () => {
+  it('should not fetch help the alerts already carry', async () => {
+    const getAlert = vi.fn();
+
+    const rules = await fetchRuleHelp(
+      createOctokit(getAlert),
+      [withRule(mockAlert, { help: 'Help' })],
+      () => mockRepo,
+    );
+
+    expect(rules[0].help).toBe('Help');
+    expect(getAlert).not.toHaveBeenCalled();
+  });
+
+  it('should fetch each rule help once from one of its alerts', async () => {
+    const getAlert = vi.fn().mockImplementation(async ({ alert_number }) => ({
+      data: withRule(alert_number === 2 ? xssAlert : mockAlert, { help: `Help ${alert_number}` }),
+    }));
+    const repoOf = vi.fn().mockReturnValue(mockRepo);
+
+    const rules = await fetchRuleHelp(
+      createOctokit(getAlert),
+      [mockAlert, { ...mockAlert, number: 3 }, xssAlert],
+      repoOf,
+      { concurrency: 1 },
+    );
+
+    expect(rules.map((rule) => rule.help)).toEqual(['Help 1', 'Help 2']);
+    expect(getAlert).toHaveBeenCalledTimes(2);
+    expect(getAlert).toHaveBeenCalledWith({
+      owner: 'test-owner',
+      repo: 'test-repo',
+      alert_number: 1,
+    });
+    expect(repoOf).toHaveBeenCalledWith(mockAlert);
+  });
+
+  it('should keep rules without help when it is unavailable', async () => {
+    const getAlert = vi
+      .fn()
+      .mockResolvedValueOnce({ data: mockAlert })
+      .mockRejectedValueOnce(Object.assign(new Error('Not Found'), { status: 404 }));
+
+    const rules = await fetchRuleHelp(
+      createOctokit(getAlert),
+      [mockAlert, xssAlert],
+      () => mockRepo,
+      {
+        concurrency: 1,
+        retries: 0,
+      },
+    );
+
+    expect(rules).toHaveLength(2);
+    expect(rules.every((rule) => rule.help === undefined)).toBe(true);
+  });
+});
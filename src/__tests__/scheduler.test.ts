@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRetryDelay, mapWithConcurrency, withRetry } from '../lib/scheduler.js';
+
+function requestError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, response: { headers } });
+}
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should honor retry-after for secondary rate limits', () => {
+    expect(getRetryDelay(requestError(403, { 'retry-after': '30' }), 0)).toBe(30_000);
+  });
+
+  it('should wait until x-ratelimit-reset when the rate limit is exhausted', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const reset = String(Date.parse('2025-01-01T00:00:20Z') / 1000);
+
+    const delay = getRetryDelay(
+      requestError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }),
+      0,
+    );
+
+    expect(delay).toBe(20_000);
+  });
+
+  it('should back off exponentially on transient server errors', () => {
+    expect(getRetryDelay(requestError(502), 0, { baseDelayMs: 100 })).toBe(100);
+    expect(getRetryDelay(requestError(429), 2, { baseDelayMs: 100 })).toBe(400);
+  });
+
+  it('should not retry other errors', () => {
+    expect(getRetryDelay(requestError(404), 0)).toBeNull();
+    expect(getRetryDelay(requestError(403), 0)).toBeNull();
+    expect(getRetryDelay(new Error('network'), 0)).toBeNull();
+    expect(getRetryDelay('string error', 0)).toBeNull();
+  });
+
+  it('should not retry when the wait exceeds the maximum delay', () => {
+    expect(
+      getRetryDelay(requestError(403, { 'retry-after': '3600' }), 0, { maxDelayMs: 60_000 }),
+    ).toBeNull();
+    expect(getRetryDelay(requestError(429, { 'retry-after': 'soon' }), 0)).toBeNull();
+  });
+
+  it('should never return a negative delay', () => {
+    const reset = String(Math.floor(Date.now() / 1000) - 10);
+    expect(
+      getRetryDelay(
+        requestError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }),
+        0,
+      ),
+    ).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  it('should return the first successful result', async () => {
+    const fn = vi.fn().mockResolvedValue('ok');
+
+    await expect(withRetry(fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry rate limited requests', async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(requestError(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetry(fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const fn = vi.fn().mockRejectedValue(requestError(503));
+
+    await expect(withRetry(fn, { retries: 2, baseDelayMs: 0 })).rejects.toThrow('HTTP 503');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const fn = vi.fn().mockRejectedValue(requestError(404));
+
+    await expect(withRetry(fn)).rejects.toThrow('HTTP 404');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(result).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('should not exceed the concurrency limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        active--;
+      },
+    );
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should handle empty input', async () => {
+    const fn = vi.fn();
+
+    await expect(mapWithConcurrency([], 5, fn)).resolves.toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should stop scheduling after a failure', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue('ok');
+
+    await expect(mapWithConcurrency([1, 2, 3, 4], 1, fn)).rejects.toThrow('boom');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { readFile } from 'node:fs/promises';
+import type { SimpleGit } from 'simple-git';
+import simpleGit from 'simple-git';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import {
+  attachSnippets,
+  type CodeSnippet,
+  describeSnippetStatus,
+  extractSnippet,
+  formatSnippetLines,
+  snippetLanguage,
+} from '../lib/snippets.js';
+
+vi.mock('node:fs/promises');
+vi.mock('simple-git');
+
+const mockAlert: CodeQLAlert = {
+  number: 1,
+  rule: {
+    id: 'js/sql-injection',
+    severity: 'error',
+    description: 'SQL injection vulnerability',
+    name: 'SQL Injection',
+  },
+  most_recent_instance: {
+    ref: 'refs/heads/main',
+    analysis_key: 'test-analysis',
+    category: 'security',
+    state: 'open',
+    commit_sha: 'abc123',
+    message: {
+      text: 'Potential SQL injection detected',
+    },
+    location: {
+      path: 'src/database.js',
+      start_line: 3,
+      end_line: 4,
+      start_column: 5,
+      end_column: 20,
+    },
+  },
+  tool: {
+    name: 'CodeQL',
+    version: '2.0.0',
+  },
+};
+
+const fileContent = ['line 1', 'line 2', 'line 3', 'line 4', 'line 5', 'line 6', ''].join('\n');
+
+describe('extractSnippet', () => {
+  it('should include context lines around the flagged range', () => {
+    const result = extractSnippet(fileContent, 3, 4, 1);
+    expect(result).toEqual({ start_line: 2, end_line: 5, code: 'line 2\nline 3\nline 4\nline 5' });
+  });
+
+  it('should clamp context to file boundaries', () => {
+    const result = extractSnippet('a\nb\nc', 1, 3, 5);
+    expect(result).toEqual({ start_line: 1, end_line: 3, code: 'a\nb\nc' });
+  });
+
+  it('should not count the line break ending the file as a line', () => {
+    expect(extractSnippet('a\nb\nc\n', 2, 3, 5)).toEqual({
+      start_line: 1,
+      end_line: 3,
+      code: 'a\nb\nc',
+    });
+    expect(extractSnippet('a\r\nb\r\nc\r\n', 4, 4, 0)).toBeNull();
+  });
+
+  it('should return null when the location is outside the file', () => {
+    expect(extractSnippet('a\nb', 10, 12, 2)).toBeNull();
+    expect(extractSnippet('a\nb', 0, 1, 2)).toBeNull();
+  });
+});
+
+describe('formatSnippetLines', () => {
+  it('should number lines and mark the flagged ones', () => {
+    const snippet: CodeSnippet = {
+      start_line: 9,
+      end_line: 11,
+      code: 'before\nflagged\nafter',
+      status: 'unchanged',
+    };
+    expect(formatSnippetLines(snippet, 10, 10)).toBe('   9 | before\n> 10 | flagged\n  11 | after');
+  });
+});
+
+describe('describeSnippetStatus', () => {
+  const snippet: CodeSnippet = { start_line: 1, end_line: 1, code: 'x', status: 'unchanged' };
+
+  it('should return null for unchanged files', () => {
+    expect(describeSnippetStatus(snippet, 'abc123')).toBeNull();
+  });
+
+  it('should describe changed and unverified files', () => {
+    expect(describeSnippetStatus({ ...snippet, status: 'changed' }, 'abc123')).toContain(
+      'differs from analyzed commit abc123',
+    );
+    expect(describeSnippetStatus({ ...snippet, status: 'unverified' }, 'abc123')).toContain(
+      'not available locally',
+    );
+  });
+});
+
+describe('snippetLanguage', () => {
+  it('should use the file extension', () => {
+    expect(snippetLanguage('src/app.TS')).toBe('ts');
+    expect(snippetLanguage('Makefile')).toBe('');
+  });
+});
+
+describe('attachSnippets', () => {
+  let mockGit: { revparse: ReturnType<typeof vi.fn>; show: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGit = {
+      revparse: vi.fn().mockResolvedValue('/repo\n'),
+      show: vi.fn().mockResolvedValue(fileContent),
+    };
+    vi.mocked(simpleGit).mockReturnValue(mockGit as unknown as SimpleGit);
+    vi.mocked(readFile).mockResolvedValue(fileContent);
+  });
+
+  it('should attach working tree snippets when the file matches the analyzed commit', async () => {
+    const [alert] = await attachSnippets([mockAlert], { context: 1, cwd: '/repo/sub' });
+
+    expect(simpleGit).toHaveBeenCalledWith('/repo/sub');
+    expect(readFile).toHaveBeenCalledWith('/repo/src/database.js', 'utf-8');
+    expect(mockGit.show).toHaveBeenCalledWith(['abc123:src/database.js']);
+    expect(alert.snippet).toEqual({
+      start_line: 2,
+      end_line: 5,
+      code: 'line 2\nline 3\nline 4\nline 5',
+      status: 'unchanged',
+    });
+  });
+
+  it('should use the analyzed commit when the local file differs', async () => {
+    vi.mocked(readFile).mockResolvedValue('changed\ncontent\n');
+
+    const [alert] = await attachSnippets([mockAlert], { context: 0 });
+
+    expect(alert.snippet).toEqual({
+      start_line: 3,
+      end_line: 4,
+      code: 'line 3\nline 4',
+      status: 'changed',
+    });
+  });
+
+  it('should fall back to the working tree when the commit is unavailable', async () => {
+    mockGit.show.mockRejectedValue(new Error('bad object'));
+
+    const [alert] = await attachSnippets([mockAlert]);
+
+    expect(alert.snippet?.status).toBe('unverified');
+    expect(alert.snippet?.start_line).toBe(1);
+  });
+
+  it('should not read a commit for alerts without one', async () => {
+    const withoutCommit = {
+      ...mockAlert,
+      most_recent_instance: { ...mockAlert.most_recent_instance, commit_sha: '' },
+    };
+
+    const [alert] = await attachSnippets([withoutCommit]);
+
+    expect(mockGit.show).not.toHaveBeenCalled();
+    expect(alert.snippet?.status).toBe('unverified');
+  });
+
+  it('should leave alerts untouched when no source can be read', async () => {
+    mockGit.show.mockRejectedValue(new Error('bad object'));
+    vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+
+    const [alert] = await attachSnippets([mockAlert]);
+
+    expect(alert).toBe(mockAlert);
+  });
+
+  it('should leave alerts untouched when the location is outside the file', async () => {
+    const outOfRange = {
+      ...mockAlert,
+      most_recent_instance: {
+        ...mockAlert.most_recent_instance,
+        location: { ...mockAlert.most_recent_instance.location, start_line: 100, end_line: 100 },
+      },
+    };
+
+    const [alert] = await attachSnippets([outOfRange]);
+
+    expect(alert.snippet).toBeUndefined();
+  });
+
+  it('should read each file only once', async () => {
+    await attachSnippets([mockAlert, { ...mockAlert, number: 2 }]);
+
+    expect(readFile).toHaveBeenCalledTimes(1);
+    expect(mockGit.show).toHaveBeenCalledTimes(1);
+  });
+});
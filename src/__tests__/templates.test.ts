@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, validateTemplate } from '../lib/templates.js';
+
+describe('renderTemplate', () => {
+  it('should fill placeholders', () => {
+    expect(renderTemplate('Fix {{ file }} ({{count}})', { file: 'a.js', count: '2' })).toBe(
+      'Fix a.js (2)',
+    );
+  });
+
+  it('should not expand placeholders inside values', () => {
+    expect(renderTemplate('{{code}}', { code: '{{name}} $& $1' })).toBe('{{name}} $& $1');
+  });
+
+  it('should reject unknown placeholders', () => {
+    expect(() => renderTemplate('{{fiel}}', { file: 'a.js', code: '' })).toThrow(
+      'Unknown template placeholder {{fiel}}. Available: {{file}}, {{code}}',
+    );
+  });
+
+  it('should repeat sections per list item, looking names up in enclosing scopes', () => {
+    const values = {
+      repository: 'acme/api',
+      alerts: [{ number: '1' }, { number: '2', repository: 'acme/web' }],
+    };
+
+    expect(renderTemplate('{{#alerts}}[{{repository}}#{{number}}]{{/alerts}}', values)).toBe(
+      '[acme/api#1][acme/web#2]',
+    );
+  });
+
+  it('should render text sections when the text is not empty and inverted ones when it is', () => {
+    const template = '{{#ref}}at {{ref}}{{/ref}}{{^ref}}on the default branch{{/ref}}';
+
+    expect(renderTemplate(template, { ref: 'main' })).toBe('at main');
+    expect(renderTemplate(template, { ref: '' })).toBe('on the default branch');
+    expect(renderTemplate('{{^alerts}}none{{/alerts}}', { alerts: [] })).toBe('none');
+    expect(renderTemplate('{{^alerts}}none{{/alerts}}', { alerts: [{}] })).toBe('');
+  });
+
+  it('should leave out the lines of standalone section tags', () => {
+    const template = 'Alerts:\n{{#alerts}}\n  - {{number}}\n{{/alerts}}\nEnd\n';
+
+    expect(renderTemplate(template, { alerts: [{ number: '1' }, { number: '2' }] })).toBe(
+      'Alerts:\n  - 1\n  - 2\nEnd\n',
+    );
+  });
+
+  it.each([
+    ['{{/alerts}}', 'Unexpected template tag {{/alerts}}'],
+    ['{{#alerts}}{{/rules}}', 'Unexpected template tag {{/rules}}, expected {{/alerts}}'],
+    ['{{#alerts}}{{number}}', 'Unclosed template section {{#alerts}}'],
+    ['{{^alerts}}', 'Unclosed template section {{^alerts}}'],
+    [
+      '{{alerts}}',
+      'Template placeholder {{alerts}} is a list, repeat it with {{#alerts}}...{{/alerts}}',
+    ],
+    [
+      '{{#alert}}{{/alert}}',
+      'Unknown template placeholder {{#alert}}. Available: {{total}}, {{#alerts}}',
+    ],
+  ])('should reject %s', (template, message) => {
+    expect(() => renderTemplate(template, { total: '1', alerts: [] })).toThrow(message);
+  });
+});
+
+describe('validateTemplate', () => {
+  const values = { total: '', alerts: [{ number: '' }] };
+
+  it('should accept known placeholders in sections', () => {
+    expect(() =>
+      validateTemplate('{{#total}}{{total}}{{/total}}{{#alerts}}{{number}}{{/alerts}}', values),
+    ).not.toThrow();
+  });
+
+  it('should check sections the values would skip', () => {
+    expect(() => validateTemplate('{{#total}}{{totl}}{{/total}}', values)).toThrow(
+      'Unknown template placeholder {{totl}}',
+    );
+    expect(() => validateTemplate('{{^alerts}}{{numbr}}{{/alerts}}', values)).toThrow(
+      'Unknown template placeholder {{numbr}}. Available: {{total}}, {{#alerts}}, {{number}}',
+    );
+  });
+
+  it('should check sections of lists without example items', () => {
+    expect(() => validateTemplate('{{#alerts}}{{number}}{{/alerts}}', { alerts: [] })).toThrow(
+      'Unknown template placeholder {{number}}. Available: {{#alerts}}',
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { readFile } from 'node:fs/promises';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadTriage, parseTriage } from '../lib/triage.js';
+
+vi.mock('node:fs/promises');
+
+describe('parseTriage', () => {
+  it('should collect the decisions of alerts that carry one', () => {
+    const updates = parseTriage(
+      [
+        {
+          number: 1,
+          rule_id: 'js/sql-injection',
+          triage: { action: 'dismiss', reason: 'false positive', comment: 'Input is validated' },
+        },
+        { number: 2, rule_id: 'js/xss' },
+        { number: 3, rule_id: 'js/xss', triage: { action: 'reopen' } },
+      ],
+      'triage.json',
+    );
+
+    expect(updates).toEqual([
+      { number: 1, state: 'dismissed', reason: 'false positive', comment: 'Input is validated' },
+      { number: 3, state: 'open' },
+    ]);
+  });
+
+  it('should reject reports that are not a list of alerts', () => {
+    expect(() => parseTriage({ repositories: [] }, 'triage.json')).toThrow(
+      'Invalid triage file triage.json: expected a JSON report of a single repository',
+    );
+  });
+
+  it.each([
+    [{ triage: { action: 'reopen' } }, 'alert 1 has no alert number'],
+    [{ number: 0, triage: { action: 'reopen' } }, 'alert 1 has no alert number'],
+    [{ number: 4, triage: { action: 'fix' } }, 'alert #4 has triage action fix'],
+    [{ number: 4, triage: null }, 'alert #4 has triage action undefined'],
+    [
+      { number: 4, triage: { action: 'dismiss', reason: 'not a bug', comment: 'Fine' } },
+      "alert #4 needs a reason (false positive, won't fix, used in tests) and a comment",
+    ],
+    [
+      { number: 4, triage: { action: 'dismiss', reason: "won't fix" } },
+      "alert #4 needs a reason (false positive, won't fix, used in tests) and a comment",
+    ],
+  ])('should reject %j', (alert, message) => {
+    expect(() => parseTriage([alert], 'triage.json')).toThrow(
+      `Invalid triage file triage.json: ${message}`,
+    );
+  });
+});
+
+describe('loadTriage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load a triage file', async () => {
+    vi.mocked(readFile).mockResolvedValue(
+      JSON.stringify([{ number: 7, triage: { action: 'reopen' } }]),
+    );
+
+    const updates = await loadTriage('triage.json');
+
+    expect(readFile).toHaveBeenCalledWith('triage.json', 'utf-8');
+    expect(updates).toEqual([{ number: 7, state: 'open' }]);
+  });
+
+  it('should reject files that are not JSON', async () => {
+    vi.mocked(readFile).mockResolvedValue('not json');
+
+    await expect(loadTriage('triage.json')).rejects.toThrow(
+      'Could not parse triage file triage.json',
+    );
+  });
+});
@@ -0,0 +1,838 @@
+import { stat } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { Octokit } from 'octokit';
+import type { CSVOptions } from './formatters/csv.js';
+import { formatDiffAsJSON } from './formatters/json.js';
+import type { JUnitOptions } from './formatters/junit.js';
+import { formatDiffAsMarkdown } from './formatters/markdown.js';
+import { formatAsPrompt, type PromptOptions } from './formatters/prompt.js';
+import { getFormatter } from './formatters/registry.js';
+import { formatDiffAsSARIF } from './formatters/sarif.js';
+import { formatDiffAsText } from './formatters/text.js';
+import { getGitHubToken } from './lib/auth.js';
+import { applyBaseline, loadBaseline } from './lib/baseline.js';
+import { attachCodeFlows } from './lib/codeflows.js';
+import {
+  type AlertUpdate,
+  type CodeQLAlert,
+  type DismissedReason,
+  type FetchDetailsOptions,
+  fetchAllAlertsWithDetails,
+  fetchAllOrgAlertsWithDetails,
+  fetchCodeQLAlerts,
+  updateAlerts,
+} from './lib/codeql.js';
+import { type AlertDiff, diffAlerts } from './lib/diff.js';
+import { type AlertFilter, applyAlertFilter } from './lib/filters.js';
+import {
+  type GitHubRepo,
+  getCurrentBranch,
+  getGitHubRepoFromRemote,
+  isGitCheckout,
+  normalizeRef,
+  parseGitHubUrl,
+  parseRepositoryName,
+  pullRequestRef,
+} from './lib/git.js';
+import {
+  DEFAULT_HOST,
+  getApiUrl,
+  getConfiguredHosts,
+  getDefaultHost,
+  getHostFromApiUrl,
+} from './lib/hosts.js';
+import type { OrderOptions } from './lib/ordering.js';
+import { loadReport, loadSARIF } from './lib/reports.js';
+import { fetchRuleHelp, type RuleInfo } from './lib/rules.js';
+import { attachSnippets } from './lib/snippets.js';
+import { loadTriage } from './lib/triage.js';
+import {
+  type DetailLevel,
+  type DiffMetadata,
+  groupByRepository,
+  type ReportMetadata,
+  type RepositoryMetadata,
+} from './lib/types.js';
+
+/**
+ * How to render collected alerts
+ */
+export interface FormatOptions {
+  /** Name of a registered formatter, defaults to json */
+  format?: string;
+  /** Defaults to medium */
+  detail?: DetailLevel;
+  prompt?: PromptOptions;
+  csv?: CSVOptions;
+  junit?: JUnitOptions;
+  /** Report template of the md and txt formats, defaults to their built-in layouts */
+  template?: string;
+}
+
+/**
+ * Where to get alerts from and how to narrow and enrich them
+ * Alerts come from `input`, `org` or `repos`, defaulting to the repository of the git remote in
+ * the working directory
+ */
+export interface CollectOptions {
+  /** Repositories as owner/name, more than one makes a multi-repository report */
+  repos?: string[];
+  /** Organization whose repositories to report on, on their default branches */
+  org?: string;
+  /** SARIF file (e.g. CodeQL CLI output) to report on instead of the API */
+  input?: string;
+  /** Branch name or full ref, defaults to the default branch */
+  ref?: string;
+  /** Pull request number to report on */
+  pr?: number;
+  /** Report on the checked out branch */
+  currentBranch?: boolean;
+  /** REST API base URL, defaults to the API of the repository host */
+  apiUrl?: string;
+  /** Token to use instead of `GITHUB_TOKEN` or the GitHub CLI */
+  token?: string;
+  filter?: Omit<AlertFilter, 'ref'>;
+  /** Baseline file of accepted alerts to leave out, single repository reports only */
+  baselineFile?: string;
+  /** Code flows and rule help are only fetched at full detail, defaults to medium */
+  detail?: DetailLevel;
+  /**
+   * Attach source snippets from the local checkout, single repository reports only
+   * Skipped when the current directory is not a checkout of the repository named by `repos` or
+   * the input file
+   */
+  snippets?: boolean;
+  /** Context lines around flagged lines in snippets, defaults to 3 */
+  context?: number;
+  order?: OrderOptions;
+  /** Maximum number of requests in flight, defaults to 5 */
+  concurrency?: number;
+  /** Retries per request on rate limits and transient server errors, defaults to 3 */
+  retries?: number;
+  /** Keep alerts whose details could not be fetched as listed instead of failing */
+  partial?: boolean;
+  /** Progress messages, e.g. `🔍 Fetching CodeQL alerts...` */
+  onProgress?: (message: string) => void;
+  /** Warnings, e.g. expired baseline entries or alerts whose details could not be fetched */
+  onWarning?: (message: string) => void;
+  /** Progress of alert detail requests */
+  onDetailProgress?: (completed: number, total: number) => void;
+}
+
+export interface ReportOptions extends CollectOptions, FormatOptions {}
+
+/**
+ * Alerts ready to be formatted
+ */
+export interface AlertCollection {
+  alerts: CodeQLAlert[];
+  /** Report title: the repository, the repositories or the organization */
+  repoName: string;
+  metadata: ReportMetadata;
+}
+
+export interface Report extends AlertCollection {
+  /** The formatted report */
+  content: string;
+}
+
+/**
+ * Alert numbers whose details could not be fetched, by repository full name
+ */
+export type FailedAlerts = Map<string, number[]>;
+
+/**
+ * Alerts of a report and where they came from
+ */
+interface AlertSource {
+  alerts: CodeQLAlert[];
+  repoNames: string[];
+  host: string;
+  ref?: string;
+  /** API client and alert repositories for code flows and rule help, unset for SARIF input */
+  github?: { octokit: Octokit; repoOf: (alert: CodeQLAlert) => GitHubRepo };
+  /** Repository named by the caller instead of detected from the current directory */
+  named?: GitHubRepo;
+}
+
+/**
+ * Resolve the GitHub host to talk to: the API URL host, the repository remote's host, or
+ * GH_HOST, in that order
+ */
+export function resolveHost(apiUrl?: string, repo?: GitHubRepo): string {
+  if (apiUrl) {
+    return getHostFromApiUrl(apiUrl);
+  }
+  return repo?.host ?? getDefaultHost();
+}
+
+/**
+ * Authenticate with the host and create an API client for its REST API
+ */
+export function connect(
+  host: string,
+  options: Pick<CollectOptions, 'apiUrl' | 'token' | 'onProgress'> = {},
+): Octokit {
+  options.onProgress?.(
+    host === DEFAULT_HOST
+      ? '🔐 Authenticating with GitHub...'
+      : `🔐 Authenticating with ${host}...`,
+  );
+  const token = options.token ?? getGitHubToken(host);
+  const baseUrl = options.apiUrl?.replace(/\/+$/, '') ?? getApiUrl(host);
+  // Retries and rate limits are handled by withRetry, driven by the retries option
+  return new Octokit({
+    auth: token,
+    baseUrl,
+    retry: { enabled: false },
+    throttle: { enabled: false },
+  });
+}
+
+/**
+ * Build alert detail fetch options, collecting failed alert numbers
+ */
+export function buildFetchOptions(
+  options: Pick<CollectOptions, 'concurrency' | 'retries' | 'partial' | 'onDetailProgress'>,
+  failedAlerts: FailedAlerts,
+): FetchDetailsOptions {
+  return {
+    concurrency: options.concurrency,
+    retries: options.retries,
+    partial: options.partial,
+    onProgress: options.onDetailProgress,
+    onFailure: (alertNumber, _error, repo) => {
+      const name = `${repo.owner}/${repo.repo}`;
+      failedAlerts.set(name, [...(failedAlerts.get(name) ?? []), alertNumber]);
+    },
+  };
+}
+
+/**
+ * Describe alerts whose details could not be fetched, prefixed with their repository in
+ * multi-repository reports. Sorts the collected alert numbers.
+ */
+export function describeFailedAlerts(
+  failedAlerts: FailedAlerts,
+  grouped = false,
+): string | undefined {
+  const labels: string[] = [];
+  for (const [name, numbers] of failedAlerts) {
+    numbers.sort((a, b) => a - b);
+    labels.push(...numbers.map((n) => `${grouped ? name : ''}#${n}`));
+  }
+
+  if (labels.length > 0) {
+    return `⚠️  Could not fetch details for ${labels.length} alert(s): ${labels.join(', ')}`;
+  }
+  return undefined;
+}
+
+/**
+ * Reject combinations of alert sources, the CLI checks the same through its options
+ */
+function checkSources(options: CollectOptions): void {
+  const scoped = [options.ref, options.pr, options.currentBranch || undefined].filter(
+    (value) => value !== undefined,
+  ).length;
+
+  if (options.input && (options.repos?.length || options.org || scoped > 0)) {
+    throw new Error('input cannot be combined with repos, org, ref, pr or currentBranch');
+  }
+  // SARIF files hold the results of an analysis, which have no alert state
+  const state = options.filter?.state;
+  if (options.input && state && state !== 'open' && state !== 'all') {
+    throw new Error(`input only holds open alerts, state ${state} cannot be reported`);
+  }
+  if (options.org && (options.repos?.length || scoped > 0)) {
+    throw new Error('org cannot be combined with repos, ref, pr or currentBranch');
+  }
+  if (scoped > 1) {
+    throw new Error('Only one of ref, pr and currentBranch can be set');
+  }
+}
+
+/**
+ * Fetch the alerts of the repository, the repositories or the organization
+ */
+async function fetchAlerts(
+  options: CollectOptions,
+  grouped: boolean,
+  failedAlerts: FailedAlerts,
+): Promise<AlertSource> {
+  const progress = options.onProgress ?? (() => {});
+  let alerts: CodeQLAlert[] = [];
+  let repos: GitHubRepo[] = [];
+  let repoNames: string[];
+  let ref: string | undefined;
+
+  if (options.repos?.length) {
+    repos = options.repos.map(parseRepositoryName);
+  } else if (!options.org) {
+    // Get repository info from git remote
+    progress('📂 Detecting repository from git remote...');
+    repos = [await getGitHubRepoFromRemote(undefined, getConfiguredHosts(options.apiUrl))];
+  }
+
+  // The remote decides the host unless the API URL is given
+  const host = resolveHost(options.apiUrl, repos[0]);
+  const octokit = connect(host, options);
+
+  if (options.org) {
+    progress(`🔍 Fetching CodeQL alerts for organization ${options.org}...`);
+    alerts = await fetchAllOrgAlertsWithDetails(
+      octokit,
+      options.org,
+      { ...options.filter },
+      buildFetchOptions(options, failedAlerts),
+    );
+    repoNames = groupByRepository(alerts, [])
+      .map((group) => group.name)
+      .sort();
+  } else {
+    repoNames = repos.map((repo) => `${repo.owner}/${repo.repo}`);
+    for (const name of repoNames) {
+      progress(`   Repository: ${name}`);
+    }
+
+    // Resolve the ref to scope the report to, defaults to the repository's default branch
+    if (options.pr !== undefined) {
+      ref = pullRequestRef(options.pr);
+    } else if (options.currentBranch) {
+      ref = normalizeRef(await getCurrentBranch());
+    } else if (options.ref) {
+      ref = normalizeRef(options.ref);
+    }
+
+    if (ref) {
+      progress(`   Ref: ${ref}`);
+    }
+
+    // Fetch CodeQL alerts
+    for (const [index, repo] of repos.entries()) {
+      const name = repoNames[index];
+      progress(
+        grouped ? `🔍 Fetching CodeQL alerts for ${name}...` : '🔍 Fetching CodeQL alerts...',
+      );
+      const repoAlerts = await fetchAllAlertsWithDetails(
+        octokit,
+        repo,
+        { ...options.filter, ref },
+        buildFetchOptions(options, failedAlerts),
+      );
+      alerts.push(
+        ...(grouped
+          ? repoAlerts.map((alert) => ({ ...alert, repository: { full_name: name } }))
+          : repoAlerts),
+      );
+    }
+  }
+
+  const repoOf = (alert: CodeQLAlert) =>
+    alert.repository ? parseRepositoryName(alert.repository.full_name) : repos[0];
+  return {
+    alerts,
+    repoNames,
+    host,
+    ref,
+    github: { octokit, repoOf },
+    ...(options.repos?.length && { named: repos[0] }),
+  };
+}
+
+/**
+ * Load the alerts of a SARIF file, without a token or network access
+ * The repository and host come from the file's provenance, falling back to the file name
+ */
+async function loadInputAlerts(path: string, options: CollectOptions): Promise<AlertSource> {
+  options.onProgress?.(`📄 Loading SARIF file ${path}...`);
+  const input = await loadSARIF(path);
+
+  const repo = input.repositoryUri
+    ? parseGitHubUrl(input.repositoryUri, getConfiguredHosts(options.apiUrl))
+    : null;
+  const name = repo ? `${repo.owner}/${repo.repo}` : basename(path);
+  options.onProgress?.(`   Repository: ${name}`);
+
+  // Filters the API applies on fetch are applied to the file's results here
+  const toolName = options.filter?.toolName;
+  const alerts = applyAlertFilter(input.alerts, { ...options.filter }).filter(
+    (alert) => !toolName || alert.tool.name === toolName,
+  );
+  return {
+    alerts,
+    repoNames: [name],
+    host: repo?.host ?? DEFAULT_HOST,
+    ...(input.ref && { ref: input.ref }),
+    ...(repo && { named: repo }),
+  };
+}
+
+/**
+ * Whether the current directory is a checkout of the repository, snippets are read from it
+ */
+async function isLocalCheckout(repo: GitHubRepo, apiUrl?: string): Promise<boolean> {
+  try {
+    const local = await getGitHubRepoFromRemote(undefined, getConfiguredHosts(apiUrl));
+    return (
+      `${local.owner}/${local.repo}`.toLowerCase() === `${repo.owner}/${repo.repo}`.toLowerCase()
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch or load alerts, leave out the baseline file's accepted alerts and enrich the rest
+ * Enrichment is skipped when no alerts are left
+ */
+export async function collectAlerts(options: CollectOptions = {}): Promise<AlertCollection> {
+  checkSources(options);
+  const progress = options.onProgress ?? (() => {});
+  const warn = options.onWarning ?? (() => {});
+  const detail = options.detail ?? 'medium';
+
+  // Organization and multi-repository reports group their alerts per repository
+  const grouped = options.org !== undefined || (options.repos?.length ?? 0) > 1;
+
+  // Baseline files are keyed by path, so they only apply to single repository reports
+  const baselineFile = options.baselineFile;
+  if (baselineFile && grouped) {
+    throw new Error('Baseline files are only supported for single repository reports');
+  }
+  if (baselineFile) {
+    progress(`📄 Loading baseline file ${baselineFile}...`);
+  }
+  const baseline = baselineFile ? await loadBaseline(baselineFile) : undefined;
+
+  const failedAlerts: FailedAlerts = new Map();
+  const source = options.input
+    ? await loadInputAlerts(options.input, options)
+    : await fetchAlerts(options, grouped, failedAlerts);
+  const { repoNames, ref, host } = source;
+  let alerts = source.alerts;
+
+  let suppressed: number | undefined;
+  if (baseline) {
+    const result = applyBaseline(alerts, baseline);
+    alerts = result.alerts;
+    suppressed = result.suppressed;
+    progress(`   Suppressed ${suppressed} alert(s) listed in the baseline file`);
+    if (result.expired.length > 0) {
+      const entries = result.expired.map(
+        (entry) => `${entry.rule_id} in ${entry.path} (${entry.expires})`,
+      );
+      warn(
+        `⚠️  ${entries.length} baseline entr(ies) expired and no longer suppress alerts: ${entries.join(', ')}`,
+      );
+    }
+  }
+
+  let rules: RuleInfo[] | undefined;
+  if (alerts.length > 0) {
+    const state = options.filter?.state ?? 'open';
+    const stateLabel = state === 'all' ? '' : ` ${state}`;
+    const repoLabel = grouped ? ` across ${repoNames.length} repositories` : '';
+    progress(`   Found ${alerts.length}${stateLabel} alert(s)${repoLabel}`);
+
+    const failed = describeFailedAlerts(failedAlerts, grouped);
+    if (failed) {
+      warn(failed);
+    }
+
+    // Code flows and rule help need extra requests, only the full detail level shows them
+    // SARIF input already carries both
+    if (detail === 'full' && source.github) {
+      const { octokit, repoOf } = source.github;
+
+      progress('🧭 Fetching code flows and related locations...');
+      alerts = await attachCodeFlows(octokit, alerts, repoOf, {
+        concurrency: options.concurrency,
+        retries: options.retries,
+        ref,
+      });
+      const withFlows = alerts.filter((alert) => alert.code_flows).length;
+      progress(`   Found code flows for ${withFlows} alert(s)`);
+
+      progress('📚 Fetching rule help...');
+      rules = await fetchRuleHelp(octokit, alerts, repoOf, {
+        concurrency: options.concurrency,
+        retries: options.retries,
+      });
+      const withHelp = rules.filter((rule) => rule.help).length;
+      progress(`   Found help for ${withHelp} of ${rules.length} rule(s)`);
+    }
+
+    // Snippets are a local enrichment, raw output stays the original API response
+    if (options.snippets && detail !== 'raw') {
+      if (grouped) {
+        warn('⚠️  Snippets are only available for single repository reports, skipping');
+      } else if (source.named && !(await isLocalCheckout(source.named, options.apiUrl))) {
+        warn(`⚠️  The current directory is not a checkout of ${repoNames[0]}, skipping snippets`);
+      } else if (!(await isGitCheckout())) {
+        warn('⚠️  The current directory is not a git checkout, skipping snippets');
+      } else {
+        progress('📄 Reading source snippets from local checkout...');
+        alerts = await attachSnippets(alerts, { context: options.context });
+      }
+    }
+  }
+
+  const repoName = options.org ?? repoNames.join(', ');
+  const order = options.order;
+  let metadata: ReportMetadata;
+  if (grouped) {
+    const repositories = repoNames.map(
+      (name): RepositoryMetadata => ({
+        name,
+        ...(failedAlerts.has(name) && { failedAlerts: failedAlerts.get(name) }),
+      }),
+    );
+    metadata = {
+      ...(host !== DEFAULT_HOST && { host }),
+      ...(options.org && { organization: options.org }),
+      ref,
+      repositories,
+      ...(rules && { rules }),
+      ...(order && { order }),
+    };
+  } else {
+    const failed = failedAlerts.get(repoName);
+    metadata = {
+      ...(host !== DEFAULT_HOST && { host }),
+      ref,
+      ...(failed && { failedAlerts: failed }),
+      ...(suppressed !== undefined && { suppressed }),
+      ...(rules && { rules }),
+      ...(order && { order }),
+    };
+  }
+
+  return { alerts, repoName, metadata };
+}
+
+/**
+ * Render collected alerts with a registered formatter
+ */
+export function formatReport(collection: AlertCollection, options: FormatOptions = {}): string {
+  const { alerts, repoName, metadata } = collection;
+  const detail = options.detail ?? 'medium';
+  const formatter = getFormatter(options.format ?? 'json', detail);
+
+  return formatter.format(alerts, {
+    repoName,
+    detail,
+    metadata,
+    prompt: options.prompt,
+    csv: options.csv,
+    junit: options.junit,
+    template: options.template,
+  });
+}
+
+/**
+ * Generate a report: collect alerts and render them, without printing or writing files
+ * Returns the formatted report with the alerts and metadata it was rendered from
+ */
+export async function generateReport(options: ReportOptions = {}): Promise<Report> {
+  const collection = await collectAlerts(options);
+  return { ...collection, content: formatReport(collection, options) };
+}
+
+/**
+ * Formats with a diff formatter, the others only render reports
+ */
+export const DIFF_FORMATS = ['json', 'sarif', 'txt', 'md', 'prompt'];
+
+/**
+ * What to compare and how to narrow and enrich the alerts of both sides
+ * A side is a saved report (JSON or SARIF) when a file of that name exists, otherwise a ref of
+ * the repository of the git remote in the working directory
+ */
+export interface DiffOptions
+  extends Pick<
+    CollectOptions,
+    | 'apiUrl'
+    | 'token'
+    | 'filter'
+    | 'detail'
+    | 'snippets'
+    | 'context'
+    | 'concurrency'
+    | 'retries'
+    | 'partial'
+    | 'onProgress'
+    | 'onWarning'
+    | 'onDetailProgress'
+  > {
+  /** Report file or ref to compare against */
+  base: string;
+  /** Report file or ref with the current alerts */
+  head: string;
+}
+
+/**
+ * How to render a diff
+ */
+export interface DiffFormatOptions {
+  /** One of `DIFF_FORMATS`, defaults to json */
+  format?: string;
+  /** Defaults to medium */
+  detail?: DetailLevel;
+  prompt?: PromptOptions;
+}
+
+export interface DiffReportOptions extends DiffOptions, DiffFormatOptions {}
+
+/**
+ * Alerts of both sides matched up, ready to be formatted
+ */
+export interface DiffCollection {
+  diff: AlertDiff;
+  metadata: DiffMetadata;
+}
+
+export interface DiffReport extends DiffCollection {
+  /** The formatted diff */
+  content: string;
+}
+
+/**
+ * Whether the path is an existing file, sides of a diff that are not files are refs
+ */
+export async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load or fetch the alerts of both sides and match them up
+ * Snippets show the current code, so only the head side gets them
+ */
+export async function collectDiff(options: DiffOptions): Promise<DiffCollection> {
+  const progress = options.onProgress ?? (() => {});
+  const warn = options.onWarning ?? (() => {});
+  const failedAlerts: FailedAlerts = new Map();
+  let github: { octokit: Octokit; repo: GitHubRepo; host: string } | undefined;
+
+  // Only talk to GitHub when one of the sides is a ref
+  const connectOnce = async () => {
+    if (!github) {
+      progress('📂 Detecting repository from git remote...');
+      const repo = await getGitHubRepoFromRemote(undefined, getConfiguredHosts(options.apiUrl));
+      progress(`   Repository: ${repo.owner}/${repo.repo}`);
+      const host = resolveHost(options.apiUrl, repo);
+      github = { octokit: connect(host, options), repo, host };
+    }
+    return github;
+  };
+
+  const load = async (source: string): Promise<CodeQLAlert[]> => {
+    if (await isFile(source)) {
+      progress(`📄 Loading report ${source}...`);
+      return applyAlertFilter(await loadReport(source), { ...options.filter });
+    }
+
+    const { octokit, repo } = await connectOnce();
+    const ref = normalizeRef(source);
+    progress(`🔍 Fetching CodeQL alerts for ${ref}...`);
+    return fetchAllAlertsWithDetails(
+      octokit,
+      repo,
+      { ...options.filter, ref },
+      buildFetchOptions(options, failedAlerts),
+    );
+  };
+
+  const baseAlerts = await load(options.base);
+  let headAlerts = await load(options.head);
+  const failed = describeFailedAlerts(failedAlerts);
+  if (failed) {
+    warn(failed);
+  }
+
+  if (options.snippets && options.detail !== 'raw') {
+    if (!(await isGitCheckout())) {
+      warn('⚠️  The current directory is not a git checkout, skipping snippets');
+    } else {
+      progress('📄 Reading source snippets from local checkout...');
+      headAlerts = await attachSnippets(headAlerts, { context: options.context });
+    }
+  }
+
+  const diff = diffAlerts(baseAlerts, headAlerts);
+  progress(
+    `   New: ${diff.new.length}, Fixed: ${diff.fixed.length}, Unchanged: ${diff.unchanged.length}`,
+  );
+
+  const metadata: DiffMetadata = {
+    ...(github && github.host !== DEFAULT_HOST && { host: github.host }),
+    ...(github && { repoName: `${github.repo.owner}/${github.repo.repo}` }),
+    base: options.base,
+    head: options.head,
+  };
+  return { diff, metadata };
+}
+
+/**
+ * Render a diff with one of the diff formatters
+ */
+export function formatDiff(collection: DiffCollection, options: DiffFormatOptions = {}): string {
+  const { diff, metadata } = collection;
+  const format = options.format ?? 'json';
+  const detail = options.detail ?? 'medium';
+
+  switch (format) {
+    case 'json':
+      return formatDiffAsJSON(diff, detail, metadata);
+    case 'sarif':
+      return formatDiffAsSARIF(diff, detail);
+    case 'txt':
+      return formatDiffAsText(diff, detail, metadata);
+    case 'md':
+      return formatDiffAsMarkdown(diff, detail, metadata);
+    case 'prompt':
+      // Only newly introduced alerts need fixing
+      return formatAsPrompt(
+        diff.new,
+        metadata.repoName ?? 'this repository',
+        detail,
+        { ...(metadata.host && { host: metadata.host }) },
+        options.prompt,
+      );
+    default:
+      throw new Error(`Diffs support format ${DIFF_FORMATS.join(', ')}, not ${format}`);
+  }
+}
+
+/**
+ * Generate a diff: collect the alerts of both sides and render the changes, without printing
+ * or writing files
+ */
+export async function generateDiff(options: DiffReportOptions): Promise<DiffReport> {
+  const collection = await collectDiff(options);
+  return { ...collection, content: formatDiff(collection, options) };
+}
+
+/**
+ * Which alerts of a single repository to change and how
+ * Alerts are picked by exactly one of `numbers`, `filter` and `triage`
+ */
+export interface AlertUpdateOptions
+  extends Pick<CollectOptions, 'apiUrl' | 'token' | 'concurrency' | 'retries' | 'onProgress'> {
+  /** Repository as owner/name, defaults to the repository of the git remote */
+  repo?: string;
+  numbers?: number[];
+  /** Pick the alerts matching the filter among those that can change state */
+  filter?: Omit<AlertFilter, 'ref' | 'state'>;
+  /** Triage file whose decisions for the new state to apply */
+  triage?: string;
+  /** Needed to dismiss alerts picked by number or filter */
+  reason?: DismissedReason;
+  /** Needed to dismiss alerts picked by number or filter */
+  comment?: string;
+  /** Pick the alerts without changing them */
+  dryRun?: boolean;
+}
+
+export interface AlertUpdateResult {
+  /** The picked state changes */
+  updates: AlertUpdate[];
+  /** Changes that were made, none on a dry run */
+  applied: AlertUpdate[];
+  failed: Array<{ update: AlertUpdate; error: unknown }>;
+}
+
+/**
+ * Dismiss alerts of a single repository
+ */
+export function dismissAlerts(options: AlertUpdateOptions): Promise<AlertUpdateResult> {
+  return changeAlertStates('dismissed', options);
+}
+
+/**
+ * Reopen dismissed alerts of a single repository
+ */
+export function reopenAlerts(options: AlertUpdateOptions): Promise<AlertUpdateResult> {
+  return changeAlertStates('open', options);
+}
+
+/**
+ * Pick the alerts to change and apply the changes, a failed change does not stop the others
+ */
+async function changeAlertStates(
+  state: AlertUpdate['state'],
+  options: AlertUpdateOptions,
+): Promise<AlertUpdateResult> {
+  const progress = options.onProgress ?? (() => {});
+  const command = state === 'dismissed' ? 'dismiss' : 'reopen';
+  const numbers = options.numbers ?? [];
+  // An empty filter would pick every alert
+  const filtered = Object.values(options.filter ?? {}).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined,
+  );
+
+  if ([numbers.length > 0, filtered, options.triage !== undefined].filter(Boolean).length !== 1) {
+    throw new Error(`${command} needs one of: numbers, filter or triage`);
+  }
+  const invalid = numbers.filter((number) => !Number.isInteger(number) || number < 1);
+  if (invalid.length > 0) {
+    throw new Error(`Invalid alert number(s) ${invalid.join(', ')}`);
+  }
+  // Triage files carry a reason and comment per alert
+  if (state === 'dismissed' && !options.triage && (!options.reason || !options.comment)) {
+    throw new Error('dismiss needs reason and comment');
+  }
+
+  let updates: AlertUpdate[] | undefined;
+  if (options.triage) {
+    progress(`📄 Loading triage file ${options.triage}...`);
+    updates = (await loadTriage(options.triage)).filter((update) => update.state === state);
+  }
+
+  let repo: GitHubRepo;
+  if (options.repo) {
+    repo = parseRepositoryName(options.repo);
+  } else {
+    progress('📂 Detecting repository from git remote...');
+    repo = await getGitHubRepoFromRemote(undefined, getConfiguredHosts(options.apiUrl));
+  }
+  progress(`   Repository: ${repo.owner}/${repo.repo}`);
+  const octokit = connect(resolveHost(options.apiUrl, repo), options);
+
+  if (!updates) {
+    let selected = numbers;
+    if (filtered) {
+      // Only alerts that can change state are picked
+      const current = state === 'dismissed' ? 'open' : 'dismissed';
+      progress(`🔍 Fetching ${current} CodeQL alerts...`);
+      const alerts = await fetchCodeQLAlerts(octokit, repo, { ...options.filter, state: current });
+      selected = alerts.map((alert) => alert.number);
+    }
+    updates = selected.map((number) => ({
+      number,
+      state,
+      ...(state === 'dismissed' && { reason: options.reason, comment: options.comment }),
+    }));
+  }
+
+  if (updates.length === 0 || options.dryRun) {
+    return { updates, applied: [], failed: [] };
+  }
+
+  progress(
+    `✏️  ${state === 'dismissed' ? 'Dismissing' : 'Reopening'} ${updates.length} alert(s)...`,
+  );
+  const failed: AlertUpdateResult['failed'] = [];
+  const applied = await updateAlerts(octokit, repo, updates, {
+    concurrency: options.concurrency,
+    retries: options.retries,
+    onFailure: (update, error) => {
+      failed.push({ update, error });
+    },
+  });
+  return { updates, applied, failed };
+}
@@ -1,34 +1,743 @@
 #!/usr/bin/env node
 
-import { writeFile } from 'node:fs/promises';
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { Octokit } from 'octokit';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { formatAsJSON } from './formatters/json.js';
-import { formatAsMarkdown } from './formatters/markdown.js';
-import { formatAsSARIF } from './formatters/sarif.js';
-import { formatAsText } from './formatters/text.js';
-import { getGitHubToken } from './lib/auth.js';
-import { fetchAllAlertsWithDetails } from './lib/codeql.js';
-import { getGitHubRepoFromRemote } from './lib/git.js';
-import type { DetailLevel } from './lib/types.js';
+import {
+  type AlertUpdateOptions,
+  collectAlerts,
+  collectDiff,
+  DIFF_FORMATS,
+  dismissAlerts,
+  formatDiff,
+  formatReport,
+  isFile,
+  type ReportOptions,
+  reopenAlerts,
+} from './api.js';
+import { type CSVOptions, validateColumns } from './formatters/csv.js';
+import { formatAsMarkdown, formatChunkIndexAsMarkdown } from './formatters/markdown.js';
+import {
+  type PromptGrouping,
+  type PromptOptions,
+  validatePromptTemplate,
+} from './formatters/prompt.js';
+import { getFormatter, loadFormatterModule } from './formatters/registry.js';
+import { validateReportTemplate } from './formatters/template.js';
+import { formatAsText, formatChunkIndexAsText } from './formatters/text.js';
+import {
+  type Baseline,
+  createBaseline,
+  DEFAULT_BASELINE_FILE,
+  loadBaseline,
+  saveBaseline,
+  validateExpiry,
+} from './lib/baseline.js';
+import { chunkAlerts, chunkPath, estimateTokens, type ReportChunk } from './lib/chunks.js';
+import type { AlertUpdate, CodeQLAlert, DismissedReason } from './lib/codeql.js';
+import {
+  CONFIG_SCHEMA,
+  configForCommand,
+  ENV_PREFIX,
+  type LoadedConfig,
+  loadConfig,
+  type ReportConfig,
+} from './lib/config.js';
+import type { AlertFilter, AlertState, Severity } from './lib/filters.js';
+import { evaluateGate, formatGateSummary, type GateOptions } from './lib/gate.js';
+import {
+  type AlertGrouping,
+  type AlertSorting,
+  type OrderOptions,
+  orderAlerts,
+} from './lib/ordering.js';
+import { loadReport } from './lib/reports.js';
+import type { ChunkMetadata, DetailLevel, ReportMetadata } from './lib/types.js';
 
 interface Arguments {
+  _: (string | number)[];
+  base?: string;
+  head?: string;
   format: string;
+  formatterModule?: string[];
   output?: string;
+  quiet: boolean;
+  groupBy?: AlertGrouping;
+  sortBy?: AlertSorting;
+  maxTokens?: number;
+  promptGroup: PromptGrouping;
+  promptTemplate?: string;
+  template?: string;
+  columns?: string[];
+  junitFailOn: Severity;
+  failOn?: Severity;
+  maxAlerts?: number;
+  compareTo?: string;
+  baselineFile?: string;
+  input?: string;
+  reason: string;
+  expires?: string;
+  alerts?: string[];
+  dismissReason?: DismissedReason;
+  comment?: string;
+  triage?: string;
+  dryRun: boolean;
   detail: DetailLevel;
+  snippets: boolean;
+  context: number;
+  state: AlertState;
+  minSeverity?: Severity;
+  rule?: string[];
+  excludeRule?: string[];
+  tool?: string;
+  path?: string[];
+  excludePath?: string[];
+  ref?: string;
+  pr?: number;
+  currentBranch?: boolean;
+  concurrency: number;
+  retries: number;
+  partial: boolean;
+  repo?: string[];
+  org?: string;
+  apiUrl?: string;
 }
 
-export async function main(): Promise<number> {
-  const argv = (await yargs(hideBin(process.argv))
+/**
+ * Output path that streams the report to stdout
+ */
+const STDOUT = '-';
+
+/**
+ * Exit code when alerts exceed the `--fail-on`/`--max-alerts` gate, errors exit with 1
+ */
+const EXIT_GATE_FAILED = 2;
+
+/**
+ * Progress messages are suppressed with `--quiet`, warnings and errors are always shown
+ */
+let quiet = false;
+
+/**
+ * Print a progress message on stderr, stdout is reserved for the report
+ */
+function log(message: string): void {
+  if (!quiet) {
+    console.error(message);
+  }
+}
+
+/**
+ * Show alert detail fetch progress on a single updating line, only on interactive terminals
+ */
+function reportProgress(completed: number, total: number): void {
+  if (quiet || !process.stderr.isTTY) {
+    return;
+  }
+  process.stderr.write(`\r   Fetched details for ${completed}/${total} alert(s)`);
+  if (completed === total) {
+    process.stderr.write('\n');
+  }
+}
+
+/**
+ * Build the alert filter from CLI arguments
+ */
+function buildFilter(argv: Arguments, ref?: string): AlertFilter {
+  return {
+    ref,
+    state: argv.state,
+    minSeverity: argv.minSeverity,
+    toolName: argv.tool,
+    rules: argv.rule,
+    excludeRules: argv.excludeRule,
+    paths: argv.path,
+    excludePaths: argv.excludePath,
+  };
+}
+
+/**
+ * Generate a timestamped output filename, e.g. code-scanning-report-2024-01-31-12-00-00-000Z.md
+ */
+function defaultOutputPath(prefix: string, format: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace(/T/, '-').split('.')[0];
+  return `${prefix}-${timestamp}.${getFormatter(format).extension}`;
+}
+
+/**
+ * Error events of stdout, which crash the process without a listener even when the write
+ * callback handles the error. Other errors are thrown like without a listener.
+ */
+function ignoreClosedPipe(error: NodeJS.ErrnoException): void {
+  if (error.code !== 'EPIPE') {
+    throw error;
+  }
+}
+
+/**
+ * Write the report to stdout, resolving once it is flushed so exiting does not truncate piped
+ * output. A reader that stops early (e.g. `head`) closes the pipe, which is not an error.
+ */
+function writeToStdout(content: string): Promise<void> {
+  // Empty reports, e.g. JSON Lines without alerts, stay empty
+  const data = content === '' || content.endsWith('\n') ? content : `${content}\n`;
+  // Added once, however many reports a process writes
+  process.stdout.off('error', ignoreClosedPipe).on('error', ignoreClosedPipe);
+
+  return new Promise((resolve, reject) => {
+    process.stdout.write(data, (error) => {
+      if (error && (error as NodeJS.ErrnoException).code !== 'EPIPE') {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Write report content to the requested path, stdout for `-`, or a timestamped default file
+ */
+async function writeReport(
+  content: string,
+  output: string | undefined,
+  prefix: string,
+  format: string,
+): Promise<void> {
+  if (output === STDOUT) {
+    await writeToStdout(content);
+    return;
+  }
+
+  const outputPath = output || defaultOutputPath(prefix, format);
+
+  // Write to file
+  await writeFile(outputPath, content, 'utf-8');
+  log(`✅ Report saved to: ${outputPath}`);
+}
+
+/**
+ * Read and check a custom prompt template up front, before any alerts are fetched
+ */
+async function loadPromptOptions(argv: Arguments): Promise<PromptOptions> {
+  if (argv.format !== 'prompt' || !argv.promptTemplate) {
+    return { groupBy: argv.promptGroup };
+  }
+
+  const template = await readFile(argv.promptTemplate, 'utf-8');
+  validatePromptTemplate(template);
+  return { groupBy: argv.promptGroup, template };
+}
+
+/**
+ * Read and check a custom report template up front, only md and txt reports are templated
+ */
+async function loadReportTemplate(argv: Arguments): Promise<string | undefined> {
+  if ((argv.format !== 'md' && argv.format !== 'txt') || !argv.template) {
+    return undefined;
+  }
+
+  const template = await readFile(argv.template, 'utf-8');
+  validateReportTemplate(template);
+  return template;
+}
+
+/**
+ * Split and check `--columns` up front, before any alerts are fetched
+ * Columns can be repeated or comma separated
+ */
+function buildCSVOptions(argv: Arguments): CSVOptions {
+  if (argv.format !== 'csv' || !argv.columns) {
+    return {};
+  }
+
+  const columns = argv.columns.flatMap((value) =>
+    value
+      .split(',')
+      .map((column) => column.trim())
+      .filter(Boolean),
+  );
+  validateColumns(columns);
+  return { columns };
+}
+
+/**
+ * Get the `--group-by` and `--sort-by` ordering, undefined to keep alerts as fetched
+ */
+function buildOrder(argv: Arguments): OrderOptions | undefined {
+  if (argv.groupBy === undefined && argv.sortBy === undefined) {
+    return undefined;
+  }
+  return {
+    ...(argv.groupBy && { groupBy: argv.groupBy }),
+    ...(argv.sortBy && { sortBy: argv.sortBy }),
+  };
+}
+
+/**
+ * Get the `--fail-on` and `--max-alerts` gate, undefined when the report is not a gate
+ */
+function buildGate(argv: Arguments): GateOptions | undefined {
+  if (argv.maxAlerts !== undefined && (!Number.isInteger(argv.maxAlerts) || argv.maxAlerts < 0)) {
+    throw new Error('--max-alerts must be a non-negative integer');
+  }
+  if (argv.failOn === undefined && argv.maxAlerts === undefined) {
+    if (argv.compareTo) {
+      throw new Error('--compare-to requires --fail-on or --max-alerts');
+    }
+    return undefined;
+  }
+  if (argv.compareTo && argv._[0] === 'diff') {
+    throw new Error('--compare-to is only supported for reports, diffs only gate new alerts');
+  }
+  return {
+    ...(argv.failOn && { failOn: argv.failOn }),
+    ...(argv.maxAlerts !== undefined && { maxAlerts: argv.maxAlerts }),
+  };
+}
+
+/**
+ * Print the gate verdict, shown even with `--quiet`, and get the exit code
+ */
+function applyGate(alerts: CodeQLAlert[], gate?: GateOptions, baseline?: CodeQLAlert[]): number {
+  if (!gate) {
+    return 0;
+  }
+  const result = evaluateGate(alerts, gate, baseline);
+  console.error(formatGateSummary(result, gate));
+  return result.passed ? 0 : EXIT_GATE_FAILED;
+}
+
+/**
+ * Get the token budget to split the report by, rejecting `--max-tokens` combinations that
+ * cannot be split into chunk files
+ * A budget from the config file is a default, reports it cannot split are written whole
+ */
+function checkMaxTokens(argv: Arguments, fromConfig: boolean): number | undefined {
+  if (argv.maxTokens === undefined) {
+    return undefined;
+  }
+  if (!Number.isInteger(argv.maxTokens) || argv.maxTokens <= 0) {
+    throw new Error('--max-tokens must be a positive integer');
+  }
+
+  let conflict: string | undefined;
+  if (argv._[0] === 'diff') {
+    conflict = '--max-tokens is only supported for reports, not diffs';
+  } else if (argv.format !== 'md' && argv.format !== 'txt') {
+    conflict = '--max-tokens requires --format md or txt';
+  } else if (argv.output === STDOUT) {
+    conflict = '--max-tokens writes several files and cannot be combined with --output -';
+  }
+  if (conflict && !fromConfig) {
+    throw new Error(conflict);
+  }
+  return conflict ? undefined : argv.maxTokens;
+}
+
+/**
+ * Reject request limits that would start no workers or retry a fractional number of times,
+ * they can also come from environment variables and the config file
+ */
+function checkRequestOptions(argv: Arguments): void {
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency <= 0) {
+    throw new Error('--concurrency must be a positive integer');
+  }
+  if (!Number.isInteger(argv.retries) || argv.retries < 0) {
+    throw new Error('--retries must be a non-negative integer');
+  }
+}
+
+/**
+ * Split a Markdown or text report into numbered chunk files that fit the token budget, plus an
+ * index file at the output path listing them
+ */
+async function writeChunkedReport(
+  alerts: CodeQLAlert[],
+  argv: Arguments,
+  repoName: string,
+  metadata: ReportMetadata,
+  template: string | undefined,
+): Promise<void> {
+  const maxTokens = argv.maxTokens as number;
+
+  const render = (part: CodeQLAlert[], chunk: ChunkMetadata) => {
+    // Grouped chunks only summarize the repositories they have alerts for
+    const names = new Set(part.map((alert) => alert.repository?.full_name));
+    const partMetadata: ReportMetadata = {
+      ...metadata,
+      ...(metadata.repositories && {
+        repositories: metadata.repositories.filter((repository) => names.has(repository.name)),
+      }),
+      chunk,
+    };
+    return argv.format === 'md'
+      ? formatAsMarkdown(part, repoName, argv.detail, partMetadata, { template })
+      : formatAsText(part, argv.detail, partMetadata, { repoName, template });
+  };
+
+  // Chunk numbers are unknown while splitting, measure with the widest possible ones
+  const widest = { index: alerts.length, total: alerts.length, totalAlerts: alerts.length };
+  // Fill chunks in report order, so e.g. the most severe alerts come first
+  const ordered = orderAlerts(alerts, metadata.order);
+  const parts = chunkAlerts(ordered, maxTokens, (part) => render(part, widest));
+
+  const indexPath = argv.output || defaultOutputPath('code-scanning-report', argv.format);
+  const chunks: ReportChunk[] = [];
+  for (const [index, part] of parts.entries()) {
+    const path = chunkPath(indexPath, index + 1, parts.length);
+    const content = render(part, {
+      index: index + 1,
+      total: parts.length,
+      totalAlerts: alerts.length,
+    });
+    await writeFile(path, content, 'utf-8');
+    chunks.push({ file: basename(path), alerts: part, tokens: estimateTokens(content) });
+  }
+
+  const oversized = chunks.filter((chunk) => chunk.tokens > maxTokens).length;
+  if (oversized > 0) {
+    console.error(
+      `⚠️  ${oversized} chunk(s) exceed ${maxTokens} tokens, a single alert does not fit the budget`,
+    );
+  }
+
+  const content =
+    argv.format === 'md'
+      ? formatChunkIndexAsMarkdown(chunks, repoName, argv.detail, maxTokens, metadata)
+      : formatChunkIndexAsText(chunks, argv.detail, maxTokens, metadata);
+  await writeFile(indexPath, content, 'utf-8');
+  log(`✅ Report split into ${chunks.length} chunk(s), index saved to: ${indexPath}`);
+}
+
+/**
+ * Compare alerts between two saved reports or two refs
+ */
+async function runDiff(
+  argv: Arguments,
+  promptOptions: PromptOptions,
+  gate?: GateOptions,
+): Promise<number> {
+  if (!DIFF_FORMATS.includes(argv.format)) {
+    throw new Error(`Diffs support --format ${DIFF_FORMATS.join(', ')}, not ${argv.format}`);
+  }
+
+  const collection = await collectDiff({
+    base: String(argv.base),
+    head: String(argv.head),
+    apiUrl: argv.apiUrl,
+    filter: buildFilter(argv),
+    detail: argv.detail,
+    snippets: argv.snippets,
+    context: argv.context,
+    concurrency: argv.concurrency,
+    retries: argv.retries,
+    partial: argv.partial,
+    onProgress: log,
+    onWarning: (message) => console.error(message),
+    onDetailProgress: reportProgress,
+  });
+
+  log(`📝 Generating ${argv.format.toUpperCase()} diff (${argv.detail} detail)...`);
+  const content = formatDiff(collection, {
+    format: argv.format,
+    detail: argv.detail,
+    prompt: promptOptions,
+  });
+  await writeReport(content, argv.output, 'code-scanning-diff', argv.format);
+  // Alerts already in the base do not fail the gate
+  return applyGate(collection.diff.new, gate);
+}
+
+/**
+ * Whether any client-side alert filter is set, so `dismiss` and `reopen` never pick every alert
+ * by accident
+ */
+function hasAlertFilter(argv: Arguments): boolean {
+  return (
+    [argv.rule, argv.excludeRule, argv.path, argv.excludePath].some((globs) => globs?.length) ||
+    argv.minSeverity !== undefined ||
+    argv.tool !== undefined
+  );
+}
+
+/**
+ * The arguments with only the alert filters given on the command line. Filters of the config
+ * file and environment variables would make `dismiss` and `reopen` pick every alert they match
+ * without anyone asking for it.
+ */
+async function withCommandLineFilters(argv: Arguments): Promise<Arguments> {
+  const commandLine = await yargs(hideBin(process.argv))
+    .options({
+      rule: { type: 'string', array: true },
+      'exclude-rule': { type: 'string', array: true },
+      path: { type: 'string', array: true },
+      'exclude-path': { type: 'string', array: true },
+      'min-severity': { type: 'string' },
+      tool: { type: 'string' },
+    })
+    .help(false)
+    .version(false)
+    .parse();
+  return {
+    ...argv,
+    rule: commandLine.rule,
+    excludeRule: commandLine.excludeRule,
+    path: commandLine.path,
+    excludePath: commandLine.excludePath,
+    minSeverity: commandLine.minSeverity as Severity | undefined,
+    tool: commandLine.tool,
+  };
+}
+
+/**
+ * Describe a state change for dry runs, e.g. `dismiss #12 (false positive): Test fixture`
+ */
+function describeUpdate(update: AlertUpdate): string {
+  return update.state === 'dismissed'
+    ? `dismiss #${update.number} (${update.reason}): ${update.comment}`
+    : `reopen #${update.number}`;
+}
+
+/**
+ * Dismiss or reopen alerts of a single repository, picked by number, by filter or from the
+ * decisions of a triage file
+ */
+async function runAlertUpdates(parsed: Arguments, command: 'dismiss' | 'reopen'): Promise<number> {
+  const argv = await withCommandLineFilters(parsed);
+  // The positional defaults to an empty list for both commands
+  const values = argv.alerts as string[];
+  const numbers = values.map(Number);
+  const filtered = hasAlertFilter(argv);
+
+  if (argv.org || (argv.repo?.length ?? 0) > 1 || argv.input) {
+    throw new Error(`${command} is only supported for a single GitHub repository`);
+  }
+  if ([numbers.length > 0, filtered, argv.triage !== undefined].filter(Boolean).length !== 1) {
+    throw new Error(
+      `${command} needs one of: alert numbers, a filter (e.g. --rule or --path) or --triage`,
+    );
+  }
+  const invalid = values.filter((value) => !/^[1-9]\d*$/.test(value));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid alert number(s) ${invalid.join(', ')}`);
+  }
+  // Triage files carry a reason and comment per alert
+  if (command === 'dismiss' && !argv.triage && (!argv.dismissReason || !argv.comment)) {
+    throw new Error('dismiss needs --dismiss-reason and --comment');
+  }
+
+  // The command decides which state alerts are picked in
+  const { state: _state, ...filter } = buildFilter(argv);
+  const options: AlertUpdateOptions = {
+    repo: argv.repo?.[0],
+    numbers,
+    ...(filtered && { filter }),
+    triage: argv.triage,
+    reason: argv.dismissReason,
+    comment: argv.comment,
+    dryRun: argv.dryRun,
+    apiUrl: argv.apiUrl,
+    concurrency: argv.concurrency,
+    retries: argv.retries,
+    onProgress: log,
+  };
+  const { updates, applied, failed } =
+    command === 'dismiss' ? await dismissAlerts(options) : await reopenAlerts(options);
+
+  if (updates.length === 0) {
+    log(`✅ No alerts to ${command}`);
+    return 0;
+  }
+
+  if (argv.dryRun) {
+    await writeToStdout(updates.map(describeUpdate).join('\n'));
+    log(`🔎 Dry run: would ${command} ${updates.length} alert(s), nothing was changed`);
+    return 0;
+  }
+
+  log(`✅ ${command === 'dismiss' ? 'Dismissed' : 'Reopened'} ${applied.length} alert(s)`);
+  if (failed.length > 0) {
+    const labels = failed.map(
+      ({ update, error }) => `#${update.number} (${(error as Error).message})`,
+    );
+    console.error(`⚠️  Could not ${command} ${failed.length} alert(s): ${labels.join(', ')}`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Map CLI arguments to report options, progress goes to stderr unless `--quiet`
+ */
+function buildReportOptions(
+  argv: Arguments,
+  promptOptions: PromptOptions,
+  csvOptions: CSVOptions,
+  template: string | undefined,
+): ReportOptions {
+  const order = buildOrder(argv);
+  return {
+    repos: argv.repo,
+    org: argv.org,
+    input: argv.input,
+    ref: argv.ref,
+    pr: argv.pr,
+    currentBranch: argv.currentBranch,
+    apiUrl: argv.apiUrl,
+    filter: buildFilter(argv),
+    baselineFile: argv.baselineFile,
+    detail: argv.detail,
+    snippets: argv.snippets,
+    context: argv.context,
+    ...(order && { order }),
+    concurrency: argv.concurrency,
+    retries: argv.retries,
+    partial: argv.partial,
+    format: argv.format,
+    prompt: promptOptions,
+    csv: csvOptions,
+    junit: { failOn: argv.junitFailOn },
+    template,
+    onProgress: log,
+    onWarning: (message) => console.error(message),
+    onDetailProgress: reportProgress,
+  };
+}
+
+/**
+ * Snapshot the current alerts into the baseline file, keeping the reasons of the one it
+ * replaces
+ */
+async function runBaselineCreate(
+  argv: Arguments,
+  options: ReportOptions,
+  grouped: boolean,
+): Promise<number> {
+  if (grouped) {
+    throw new Error('Baseline files are only supported for single repository reports');
+  }
+  const path = argv.baselineFile ?? DEFAULT_BASELINE_FILE;
+  let previous: Baseline | undefined;
+  if (await isFile(path)) {
+    log(`📄 Loading baseline file ${path}...`);
+    previous = await loadBaseline(path);
+  }
+
+  // Entries only need the alerts' locations and messages, not enrichment
+  const { alerts } = await collectAlerts({
+    ...options,
+    baselineFile: undefined,
+    detail: 'minimum',
+    snippets: false,
+  });
+  const created = createBaseline(
+    alerts,
+    { reason: argv.reason, ...(argv.expires && { expires: argv.expires }) },
+    previous,
+  );
+  await saveBaseline(path, created);
+  log(`✅ Baseline of ${created.alerts.length} alert(s) saved to: ${path}`);
+  return 0;
+}
+
+/**
+ * Print the options a config file can set with the values the CLI resolves for them
+ */
+async function runConfigPrint(argv: Arguments, loaded: LoadedConfig | undefined): Promise<number> {
+  if (!loaded) {
+    log('📄 No config file found, showing environment variables, flags and defaults');
+  }
+  const keys = Object.keys(CONFIG_SCHEMA) as (keyof ReportConfig)[];
+  const effective = Object.fromEntries(
+    keys.filter((key) => argv[key] !== undefined).map((key) => [key, argv[key]]),
+  );
+  await writeToStdout(JSON.stringify(effective, null, 2));
+  return 0;
+}
+
+/**
+ * Print an error, returning the exit code of failed runs
+ */
+function reportError(error: unknown): number {
+  if (error instanceof Error) {
+    console.error(`❌ Error: ${error.message}`);
+  } else {
+    console.error('❌ An unexpected error occurred');
+  }
+  return 1;
+}
+
+/**
+ * Commands and options of the command line, without config file defaults
+ */
+function buildParser() {
+  return yargs(hideBin(process.argv))
+    .command('$0', 'Generate a report of CodeQL alerts')
+    .command(
+      'diff <base> <head>',
+      'Compare alerts between two saved JSON/SARIF reports or two refs',
+      (command) =>
+        command
+          .positional('base', {
+            type: 'string',
+            description: 'Base report file or ref (e.g. main)',
+          })
+          .positional('head', {
+            type: 'string',
+            description: 'Head report file or ref (e.g. feature/login)',
+          }),
+    )
+    .command('baseline <action>', 'Manage the baseline file of accepted alerts', (command) =>
+      command.positional('action', {
+        type: 'string',
+        description: 'create: snapshot the current alerts into the baseline file',
+        choices: ['create'],
+      }),
+    )
+    .command('config <action>', 'Inspect the configuration', (command) =>
+      command.positional('action', {
+        type: 'string',
+        description:
+          'print: show the effective options from flags, environment variables, the config file and defaults',
+        choices: ['print'],
+      }),
+    )
+    .command(
+      'dismiss [alerts..]',
+      'Dismiss alerts by number, by filter or from a triage file',
+      (command) =>
+        command.positional('alerts', {
+          type: 'string',
+          array: true,
+          description: 'Alert numbers to dismiss',
+        }),
+    )
+    .command(
+      'reopen [alerts..]',
+      'Reopen dismissed alerts by number, by filter or from a triage file',
+      (command) =>
+        command.positional('alerts', {
+          type: 'string',
+          array: true,
+          description: 'Alert numbers to reopen',
+        }),
+    )
     .option('format', {
       alias: 'f',
       type: 'string',
-      description: 'Output format',
-      choices: ['json', 'sarif', 'txt', 'md'],
+      description:
+        'Output format: json, jsonl, csv, sarif, junit, txt, md, prompt, html or one of a --formatter-module',
       default: 'json',
     })
+    .option('formatter-module', {
+      type: 'string',
+      array: true,
+      description:
+        'Local module whose default export is a formatter or a list of formatters to add, repeat for more',
+    })
     .option('detail', {
       alias: 'd',
       type: 'string',
@@ -40,79 +749,317 @@ export async function main(): Promise<number> {
     .option('output', {
       alias: 'o',
       type: 'string',
-      description: 'Output file path (optional, defaults to code-scanning-report-[timestamp])',
+      // Consume the next argument even when it is `-`, which yargs otherwise parses as positional
+      nargs: 1,
+      description:
+        'Output file path, or - for stdout (optional, defaults to code-scanning-report-[timestamp])',
+    })
+    .option('quiet', {
+      alias: 'q',
+      type: 'boolean',
+      description: 'Suppress progress messages, warnings and errors are still shown',
+      default: false,
+    })
+    .option('group-by', {
+      type: 'string',
+      description: 'Group alerts into sections, with a heading and count each in md and txt',
+      choices: ['file', 'rule', 'severity', 'directory', 'none'],
+    })
+    .option('sort-by', {
+      type: 'string',
+      description: 'Sort alerts (within each section), defaults to the order GitHub returns',
+      choices: ['severity', 'path', 'number', 'created'],
+    })
+    .option('prompt-group', {
+      type: 'string',
+      description: 'Prompt format: one task per file or per alert',
+      choices: ['file', 'alert'],
+      default: 'file',
+    })
+    .option('prompt-template', {
+      type: 'string',
+      description: 'Prompt format: template file for each task, with {{placeholder}}s',
+    })
+    .option('template', {
+      type: 'string',
+      description:
+        'Markdown and text formats: report template file with {{placeholder}}s and an {{#alerts}} section',
+    })
+    .option('columns', {
+      type: 'string',
+      array: true,
+      description:
+        'CSV format: columns to write, comma separated (defaults to the detail level fields)',
+    })
+    .option('junit-fail-on', {
+      type: 'string',
+      description: 'JUnit format: lowest severity reported as a failing test, others are skipped',
+      choices: ['note', 'warning', 'error'],
+      default: 'warning',
+    })
+    .option('fail-on', {
+      type: 'string',
+      description:
+        'Exit with code 2 when alerts at or above this severity exceed --max-alerts (default 0)',
+      choices: ['note', 'warning', 'error'],
+    })
+    .option('max-alerts', {
+      type: 'number',
+      description: 'Exit with code 2 when more alerts (at or above --fail-on) than this are found',
+    })
+    .option('compare-to', {
+      type: 'string',
+      description:
+        'Saved JSON or SARIF report whose alerts do not count towards --fail-on and --max-alerts',
+    })
+    .option('baseline-file', {
+      type: 'string',
+      description:
+        'Baseline file (JSON or YAML) of accepted alerts to leave out of the report, baseline create writes .codeql-baseline.json by default',
+    })
+    .option('reason', {
+      type: 'string',
+      description: 'baseline create: reason recorded for new entries',
+      default: 'Accepted when the baseline was created',
+    })
+    .option('expires', {
+      type: 'string',
+      description: 'baseline create: last day (YYYY-MM-DD) new entries suppress their alert',
+    })
+    .option('dismiss-reason', {
+      type: 'string',
+      description: 'dismiss: why the alerts are dismissed',
+      choices: ['false positive', "won't fix", 'used in tests'],
+    })
+    .option('comment', {
+      type: 'string',
+      description: 'dismiss: comment recorded with the dismissal, e.g. the triage rationale',
+    })
+    .option('triage', {
+      type: 'string',
+      description:
+        'dismiss, reopen: saved JSON report whose alerts carry the triage decisions to apply',
+    })
+    .option('dry-run', {
+      type: 'boolean',
+      description: 'dismiss, reopen: list the changes without making them',
+      default: false,
+    })
+    .option('max-tokens', {
+      type: 'number',
+      description: 'Split md/txt reports into chunk files of at most this many estimated tokens',
+    })
+    .option('snippets', {
+      alias: 's',
+      type: 'boolean',
+      description: 'Embed source code snippets around each alert location from the local checkout',
+      default: false,
+    })
+    .option('context', {
+      alias: 'C',
+      type: 'number',
+      description: 'Number of context lines to include around flagged lines in snippets',
+      default: 3,
+    })
+    .option('ref', {
+      alias: 'r',
+      type: 'string',
+      description: 'Git ref to report alerts for (branch name or full ref, e.g. refs/tags/v1.0.0)',
+    })
+    .option('pr', {
+      type: 'number',
+      description: 'Pull request number to report alerts for',
+    })
+    .option('current-branch', {
+      type: 'boolean',
+      description: 'Report alerts for the currently checked out branch',
     })
+    .conflicts('ref', ['pr', 'current-branch'])
+    .conflicts('pr', 'current-branch')
+    .option('repo', {
+      type: 'string',
+      array: true,
+      description:
+        'Repository to report on as owner/name (defaults to the git remote), repeat for a multi-repository report',
+    })
+    .option('org', {
+      type: 'string',
+      description: 'Report on every repository in an organization',
+    })
+    .conflicts('org', ['repo', 'ref', 'pr', 'current-branch'])
+    .option('input', {
+      type: 'string',
+      description:
+        'Report on a local SARIF file (e.g. CodeQL CLI output) instead of fetching alerts from GitHub',
+    })
+    .conflicts('input', ['repo', 'org', 'ref', 'pr', 'current-branch'])
+    .option('api-url', {
+      type: 'string',
+      description:
+        'GitHub REST API base URL, e.g. https://github.example.com/api/v3 (defaults to the API of the repository host)',
+    })
+    .option('state', {
+      type: 'string',
+      description: 'Alert state to report',
+      choices: ['open', 'dismissed', 'fixed', 'all'],
+      default: 'open',
+    })
+    .option('min-severity', {
+      type: 'string',
+      description: 'Only report alerts at or above this severity',
+      choices: ['note', 'warning', 'error'],
+    })
+    .option('rule', {
+      type: 'string',
+      array: true,
+      description: 'Only report alerts whose rule ID matches one of these globs (e.g. js/*)',
+    })
+    .option('exclude-rule', {
+      type: 'string',
+      array: true,
+      description: 'Skip alerts whose rule ID matches one of these globs',
+    })
+    .option('tool', {
+      type: 'string',
+      description: 'Only report alerts from this analysis tool (e.g. CodeQL)',
+    })
+    .option('path', {
+      type: 'string',
+      array: true,
+      description: 'Only report alerts in files matching one of these globs (e.g. src/**)',
+    })
+    .option('exclude-path', {
+      type: 'string',
+      array: true,
+      description: 'Skip alerts in files matching one of these globs',
+    })
+    .option('concurrency', {
+      type: 'number',
+      description: 'Maximum number of alert detail requests in flight',
+      default: 5,
+    })
+    .option('retries', {
+      type: 'number',
+      description: 'Retries per request on rate limits and transient server errors',
+      default: 3,
+    })
+    .option('partial', {
+      type: 'boolean',
+      description: 'Report alerts whose details could not be fetched as listed instead of failing',
+      default: false,
+    });
+}
+
+export async function main(): Promise<number> {
+  // Config files provide option defaults, so they are loaded before parsing the arguments
+  let loaded: LoadedConfig | undefined;
+  try {
+    loaded = await loadConfig();
+  } catch (error) {
+    return reportError(error);
+  }
+
+  // Flags and environment variables alone tell the command and which options a run asks for
+  const explicit = (await buildParser()
+    .env(ENV_PREFIX)
+    .help(false)
+    .version(false)
+    .parse()) as Arguments;
+
+  const argv = (await buildParser()
+    // Flags take precedence over environment variables, which take precedence over the config file
+    .config(configForCommand(loaded?.config ?? {}, explicit._[0]?.toString()))
+    .env(ENV_PREFIX)
     .help()
     .alias('help', 'h')
     .version()
     .alias('version', 'v')
     .parse()) as Arguments;
 
+  quiet = argv.quiet;
+  if (loaded) {
+    log(`📄 Loaded config file ${loaded.path}`);
+  }
+
   try {
-    // Get GitHub token
-    console.log('🔐 Authenticating with GitHub...');
-    const token = getGitHubToken();
-    const octokit = new Octokit({ auth: token });
+    if (argv._[0] === 'config') {
+      return await runConfigPrint(argv, loaded);
+    }
 
-    // Get repository info from git remote
-    console.log('📂 Detecting repository from git remote...');
-    const repo = await getGitHubRepoFromRemote();
-    console.log(`   Repository: ${repo.owner}/${repo.repo}`);
+    // Formats of formatter modules are only known once loaded, so --format is checked here
+    for (const path of argv.formatterModule ?? []) {
+      const loaded = await loadFormatterModule(path);
+      log(
+        `🧩 Loaded format(s) ${loaded.map((formatter) => formatter.name).join(', ')} from ${path}`,
+      );
+    }
+    argv.maxTokens = checkMaxTokens(argv, explicit.maxTokens === undefined);
+    checkRequestOptions(argv);
+    const promptOptions = await loadPromptOptions(argv);
+    const csvOptions = buildCSVOptions(argv);
+    const template = await loadReportTemplate(argv);
+    const gate = buildGate(argv);
+    const creatingBaseline = argv._[0] === 'baseline';
+    if (argv.expires !== undefined) {
+      validateExpiry(argv.expires);
+    }
 
-    // Fetch CodeQL alerts
-    console.log('🔍 Fetching CodeQL alerts...');
-    const alerts = await fetchAllAlertsWithDetails(octokit, repo);
+    if (argv._[0] === 'diff') {
+      if (argv.baselineFile) {
+        throw new Error('--baseline-file is only supported for reports');
+      }
+      if (argv.input) {
+        throw new Error('--input is only supported for reports, diff takes SARIF files directly');
+      }
+      return await runDiff(argv, promptOptions, gate);
+    }
 
-    if (alerts.length === 0) {
-      console.log('🎉 No CodeQL alerts found! Your repository is clean!');
-      return 0;
+    if (argv._[0] === 'dismiss' || argv._[0] === 'reopen') {
+      return await runAlertUpdates(argv, argv._[0]);
     }
 
-    console.log(`   Found ${alerts.length} open alert(s)`);
-
-    // Format the report
-    console.log(`📝 Generating ${argv.format.toUpperCase()} report (${argv.detail} detail)...`);
-    const repoName = `${repo.owner}/${repo.repo}`;
-    let content: string;
-
-    switch (argv.format) {
-      case 'json':
-        content = formatAsJSON(alerts, argv.detail);
-        break;
-      case 'sarif':
-        content = formatAsSARIF(alerts, repoName, argv.detail);
-        break;
-      case 'txt':
-        content = formatAsText(alerts, argv.detail);
-        break;
-      case 'md':
-        content = formatAsMarkdown(alerts, repoName, argv.detail);
-        break;
-      /* v8 ignore start -- defensive: yargs `choices` restricts format to the cases above */
-      default:
-        throw new Error(`Unsupported format: ${argv.format}`);
-      /* v8 ignore stop */
+    if (!creatingBaseline) {
+      getFormatter(argv.format, argv.detail);
     }
 
-    // Generate output filename
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[:.]/g, '-')
-      .replace(/T/, '-')
-      .split('.')[0];
-    const outputPath = argv.output || `code-scanning-report-${timestamp}.${argv.format}`;
-
-    // Write to file
-    await writeFile(outputPath, content, 'utf-8');
-    console.log(`✅ Report saved to: ${outputPath}`);
-    return 0;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error(`❌ Error: ${error.message}`);
+    // Organization and multi-repository reports group their alerts per repository
+    const grouped = argv.org !== undefined || (argv.repo?.length ?? 0) > 1;
+
+    // Alert numbers are per repository, so only single repository reports can be compared
+    let baseline: CodeQLAlert[] | undefined;
+    if (argv.compareTo) {
+      if (grouped) {
+        throw new Error('--compare-to is only supported for single repository reports');
+      }
+      log(`📄 Loading report to compare to ${argv.compareTo}...`);
+      baseline = await loadReport(argv.compareTo);
+    }
+
+    const options = buildReportOptions(argv, promptOptions, csvOptions, template);
+    if (creatingBaseline) {
+      return await runBaselineCreate(argv, options, grouped);
+    }
+
+    const { alerts, repoName, metadata } = await collectAlerts(options);
+    // A clean run still writes an empty report, for pipes and tools expecting one
+    if (alerts.length === 0) {
+      log(
+        grouped
+          ? '🎉 No CodeQL alerts found! Your repositories are clean!'
+          : '🎉 No CodeQL alerts found! Your repository is clean!',
+      );
+    }
+
+    log(`📝 Generating ${argv.format.toUpperCase()} report (${argv.detail} detail)...`);
+    if (argv.maxTokens !== undefined) {
+      await writeChunkedReport(alerts, argv, repoName, metadata, template);
     } else {
-      console.error('❌ An unexpected error occurred');
+      const content = formatReport({ alerts, repoName, metadata }, options);
+      await writeReport(content, argv.output, 'code-scanning-report', argv.format);
     }
-    return 1;
+    return applyGate(alerts, gate, baseline);
+  } catch (error) {
+    return reportError(error);
   }
 }
 
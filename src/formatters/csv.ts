@@ -0,0 +1,128 @@
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { orderAlerts } from '../lib/ordering.js';
+import {
+  type DetailLevel,
+  type FullAlert,
+  filterAlertByDetail,
+  type ReportMetadata,
+} from '../lib/types.js';
+
+export interface CSVOptions {
+  /** Columns to write, defaults to the fields of the detail level */
+  columns?: string[];
+}
+
+/**
+ * Flattened alert fields per detail level, in column order
+ * Snippets, code flows and related locations do not fit a cell and are left out
+ */
+const MINIMUM_COLUMNS = [
+  'number',
+  'rule_id',
+  'rule_name',
+  'severity',
+  'message',
+  'file_path',
+  'start_line',
+  'end_line',
+  'commit_sha',
+];
+const MEDIUM_COLUMNS = [
+  ...MINIMUM_COLUMNS,
+  'rule_description',
+  'start_column',
+  'end_column',
+  'state',
+  'security_severity',
+  'tags',
+  'cwe_ids',
+];
+const FULL_COLUMNS = [
+  ...MEDIUM_COLUMNS,
+  'ref',
+  'analysis_key',
+  'category',
+  'tool_name',
+  'tool_version',
+  'help_text',
+];
+
+const LEVEL_COLUMNS: Record<Exclude<DetailLevel, 'raw'>, string[]> = {
+  minimum: MINIMUM_COLUMNS,
+  medium: MEDIUM_COLUMNS,
+  full: FULL_COLUMNS,
+};
+
+/**
+ * Every column `--columns` can select, `repository` is set in grouped reports
+ */
+export const CSV_COLUMNS = ['repository', ...FULL_COLUMNS];
+
+/**
+ * Check selected columns before any alerts are fetched
+ */
+export function validateColumns(columns: string[]): void {
+  const unknown = columns.filter((column) => !CSV_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown CSV column(s) ${unknown.join(', ')}. Available: ${CSV_COLUMNS.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Quote a value for CSV when it contains a separator, quote or line break (RFC 4180)
+ */
+function escapeCSV(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Prefix text that spreadsheets would run as a formula with `'`, alert messages and paths come
+ * from the scanned code
+ */
+function escapeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Render a cell value, lists are joined with `; `
+ */
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return escapeCSV(escapeFormula(Array.isArray(value) ? value.join('; ') : String(value)));
+}
+
+/**
+ * Format alerts as CSV with a header row, one row per alert
+ * Raw detail has no flattened fields and is written like full detail. Selected columns are
+ * filled from the full flattened alert, so they do not depend on the detail level.
+ */
+export function formatAsCSV(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+  options: CSVOptions = {},
+): string {
+  const level = detailLevel === 'raw' ? 'full' : detailLevel;
+  const columns = options.columns ?? [
+    ...(metadata.repositories ? ['repository'] : []),
+    ...LEVEL_COLUMNS[level],
+  ];
+  const fieldLevel = options.columns ? 'full' : level;
+
+  const rows = orderAlerts(alerts, metadata.order).map((alert) => {
+    const fields: Record<string, unknown> = {
+      repository: alert.repository?.full_name,
+      ...(filterAlertByDetail(alert, fieldLevel) as FullAlert),
+    };
+    return columns.map((column) => formatCell(fields[column])).join(',');
+  });
+
+  return `${[columns.join(','), ...rows].join('\n')}\n`;
+}
@@ -0,0 +1,371 @@
+import { type FlowLocation, formatFlowLocation } from '../lib/codeflows.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { securitySeverityRank, severityRank } from '../lib/filters.js';
+import { orderAlerts } from '../lib/ordering.js';
+import { describeSnippetStatus, formatSnippetLines } from '../lib/snippets.js';
+import {
+  countBySecuritySeverity,
+  countBySeverity,
+  type DetailLevel,
+  type FullAlert,
+  filterAlertByDetail,
+  groupByRepository,
+  type MediumAlert,
+  type MinimumAlert,
+  type ReportMetadata,
+} from '../lib/types.js';
+
+/**
+ * Inline styles, the report is a single file without external assets
+ */
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { margin-top: 0; }
+dl.meta { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; }
+dl.meta dt { font-weight: 600; }
+dl.meta dd { margin: 0; }
+.summary { display: flex; flex-wrap: wrap; gap: 2rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+th[data-sort] { cursor: pointer; user-select: none; }
+th[data-sort]::after { content: " \\2195"; color: #8c959f; }
+#alerts { width: 100%; }
+.controls { display: flex; gap: 1rem; align-items: center; }
+.severity-error { color: #cf222e; font-weight: 600; }
+.severity-warning { color: #9a6700; font-weight: 600; }
+.severity-note { color: #0969da; }
+details summary { cursor: pointer; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; }
+.warning { color: #9a6700; }
+`;
+
+/**
+ * Inline script sorting the alert table by a clicked column and filtering it by text and
+ * severity
+ */
+const SCRIPT = `
+(function () {
+  var table = document.getElementById('alerts');
+  var body = table.tBodies[0];
+  var rows = Array.prototype.slice.call(body.rows);
+  var text = document.getElementById('filter');
+  var severity = document.getElementById('severity');
+  var count = document.getElementById('count');
+
+  function apply() {
+    var query = text.value.toLowerCase();
+    var shown = 0;
+    rows.forEach(function (row) {
+      var visible = row.textContent.toLowerCase().indexOf(query) !== -1 &&
+        (!severity.value || row.getAttribute('data-severity') === severity.value);
+      row.hidden = !visible;
+      if (visible) shown++;
+    });
+    count.textContent = 'Showing ' + shown + ' of ' + rows.length + ' alerts';
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (cell, index) {
+    if (!cell.hasAttribute('data-sort')) return;
+    cell.addEventListener('click', function () {
+      var numeric = cell.getAttribute('data-sort') === 'number';
+      var direction = cell.getAttribute('aria-sort') === 'ascending' ? -1 : 1;
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (other) {
+        other.removeAttribute('aria-sort');
+      });
+      cell.setAttribute('aria-sort', direction === 1 ? 'ascending' : 'descending');
+      rows.sort(function (a, b) {
+        var x = a.cells[index].getAttribute('data-value');
+        var y = b.cells[index].getAttribute('data-value');
+        var order = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+        return order * direction;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+
+  text.addEventListener('input', apply);
+  severity.addEventListener('change', apply);
+  apply();
+})();
+`;
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a table cell with the value the table is sorted by
+ */
+function cell(content: string, sortValue: string | number, className?: string): string {
+  const classAttribute = className ? ` class="${className}"` : '';
+  return `<td data-value="${escapeHtml(String(sortValue))}"${classAttribute}>${content}</td>`;
+}
+
+/**
+ * Render a two-column summary table
+ */
+function countTable(title: string, counts: Array<[string, number]>): string[] {
+  return [
+    '<table>',
+    `<thead><tr><th>${escapeHtml(title)}</th><th>Count</th></tr></thead>`,
+    '<tbody>',
+    ...counts.map(([name, count]) => `<tr><td>${escapeHtml(name)}</td><td>${count}</td></tr>`),
+    '</tbody>',
+    '</table>',
+  ];
+}
+
+/**
+ * Render locations as an ordered list, e.g. the steps of a code flow
+ */
+function formatLocationList(locations: FlowLocation[]): string[] {
+  return [
+    '<ol>',
+    ...locations.map((location) => {
+      const message = location.message ? ` - ${escapeHtml(location.message)}` : '';
+      return `<li><code>${escapeHtml(formatFlowLocation(location))}</code>${message}</li>`;
+    }),
+    '</ol>',
+  ];
+}
+
+/**
+ * Render the collapsible details of an alert with the fields of the detail level
+ */
+function formatDetails(alert: CodeQLAlert, detailLevel: DetailLevel): string[] {
+  const filtered = filterAlertByDetail(alert, detailLevel);
+  const lines: string[] = [];
+
+  // Raw detail shows the original API response
+  if (detailLevel === 'raw') {
+    lines.push(`<pre>${escapeHtml(JSON.stringify(filtered, null, 2))}</pre>`);
+    return lines;
+  }
+
+  // Type assertion: after raw check, we know filtered is a flattened alert type
+  const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
+  const fields: Array<[string, string]> = [
+    ['Rule', `<code>${escapeHtml(flatAlert.rule_id)}</code> ${escapeHtml(flatAlert.rule_name)}`],
+  ];
+
+  if ('rule_description' in flatAlert) {
+    fields.push(['Description', escapeHtml(flatAlert.rule_description)]);
+  }
+  if ('cwe_ids' in flatAlert && flatAlert.cwe_ids) {
+    fields.push(['CWE', escapeHtml(flatAlert.cwe_ids.join(', '))]);
+  }
+  fields.push(['Lines', `${flatAlert.start_line}-${flatAlert.end_line}`]);
+  if ('start_column' in flatAlert) {
+    fields.push(['Columns', `${flatAlert.start_column}-${flatAlert.end_column}`]);
+  }
+  fields.push(['Commit', `<code>${escapeHtml(flatAlert.commit_sha)}</code>`]);
+  if ('state' in flatAlert) {
+    fields.push(['State', escapeHtml(flatAlert.state)]);
+  }
+  if ('ref' in flatAlert) {
+    fields.push(['Reference', escapeHtml(flatAlert.ref)]);
+    fields.push(['Tool', escapeHtml(`${flatAlert.tool_name} ${flatAlert.tool_version}`)]);
+  }
+
+  lines.push('<dl class="meta">');
+  for (const [name, value] of fields) {
+    lines.push(`<dt>${name}</dt><dd>${value}</dd>`);
+  }
+  lines.push('</dl>');
+
+  if (flatAlert.snippet) {
+    const warning = describeSnippetStatus(flatAlert.snippet, flatAlert.commit_sha);
+    if (warning) {
+      lines.push(`<p class="warning">⚠️ ${escapeHtml(warning)}</p>`);
+    }
+    const code = formatSnippetLines(flatAlert.snippet, flatAlert.start_line, flatAlert.end_line);
+    lines.push(`<pre><code>${escapeHtml(code)}</code></pre>`);
+  }
+
+  // Code flows, related locations and help only in full
+  if ('code_flows' in flatAlert && flatAlert.code_flows) {
+    const flows = flatAlert.code_flows;
+    flows.forEach((flow, index) => {
+      lines.push(
+        `<h4>${flows.length > 1 ? `Code Flow ${index + 1} of ${flows.length}` : 'Code Flow'}</h4>`,
+      );
+      lines.push(...formatLocationList(flow));
+    });
+  }
+
+  if ('related_locations' in flatAlert && flatAlert.related_locations) {
+    lines.push('<h4>Related Locations</h4>');
+    lines.push(...formatLocationList(flatAlert.related_locations));
+  }
+
+  if ('help_text' in flatAlert && flatAlert.help_text) {
+    lines.push('<details><summary>Rule help</summary>');
+    lines.push(`<pre>${escapeHtml(flatAlert.help_text.trim())}</pre>`);
+    lines.push('</details>');
+  }
+
+  return lines;
+}
+
+/**
+ * Render an alert as a table row, its message expanding into the alert details
+ */
+function formatRow(alert: CodeQLAlert, detailLevel: DetailLevel, grouped: boolean): string[] {
+  const { location } = alert.most_recent_instance;
+  const severity = alert.rule.severity.toLowerCase();
+  const securitySeverity = alert.rule.security_severity_level ?? '';
+  const cells: string[] = [cell(String(alert.number), alert.number)];
+
+  if (grouped) {
+    const repository = alert.repository?.full_name ?? '';
+    cells.push(cell(escapeHtml(repository), repository));
+  }
+
+  cells.push(
+    cell(escapeHtml(severity), severityRank(severity), `severity-${escapeHtml(severity)}`),
+    cell(escapeHtml(securitySeverity), securitySeverityRank(securitySeverity)),
+    cell(`<code>${escapeHtml(alert.rule.id)}</code>`, alert.rule.id),
+    cell(
+      `<code>${escapeHtml(location.path)}:${location.start_line}</code>`,
+      `${location.path}:${String(location.start_line).padStart(8, '0')}`,
+    ),
+    cell(
+      [
+        '<details>',
+        `<summary>${escapeHtml(alert.most_recent_instance.message.text)}</summary>`,
+        ...formatDetails(alert, detailLevel),
+        '</details>',
+      ].join('\n'),
+      alert.most_recent_instance.message.text,
+    ),
+  );
+
+  return [`<tr data-severity="${escapeHtml(severity)}">`, ...cells, '</tr>'];
+}
+
+/**
+ * Format alerts as a self-contained HTML page with a severity summary and a sortable,
+ * filterable alert table whose rows expand into the alert details
+ */
+export function formatAsHTML(
+  alerts: CodeQLAlert[],
+  repoName: string,
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+): string {
+  const lines: string[] = [];
+  const groups = metadata.repositories && groupByRepository(alerts, metadata.repositories);
+  const title = `CodeQL Security Scan Report: ${metadata.organization ?? repoName}`;
+  const severityCounts = Object.entries(countBySeverity(alerts)).sort(
+    ([a], [b]) => severityRank(b) - severityRank(a),
+  );
+  const securityCounts = Object.entries(countBySecuritySeverity(alerts));
+
+  lines.push('<!DOCTYPE html>');
+  lines.push('<html lang="en">');
+  lines.push('<head>');
+  lines.push('<meta charset="utf-8">');
+  lines.push('<meta name="viewport" content="width=device-width, initial-scale=1">');
+  lines.push(`<title>${escapeHtml(title)}</title>`);
+  lines.push(`<style>${STYLE}</style>`);
+  lines.push('</head>');
+  lines.push('<body>');
+  lines.push('<h1>CodeQL Security Scan Report</h1>');
+
+  const meta: Array<[string, string]> = [];
+  if (metadata.host) {
+    meta.push(['Host', metadata.host]);
+  }
+  if (groups) {
+    if (metadata.organization) {
+      meta.push(['Organization', metadata.organization]);
+    }
+    meta.push(['Repositories', String(groups.length)]);
+  } else {
+    meta.push(['Repository', repoName]);
+  }
+  if (metadata.ref) {
+    meta.push(['Ref', metadata.ref]);
+  }
+  meta.push(['Total Alerts', String(alerts.length)]);
+  if (metadata.suppressed !== undefined) {
+    meta.push(['Suppressed', `${metadata.suppressed} alert(s) listed in the baseline file`]);
+  }
+  meta.push(['Detail Level', detailLevel]);
+  meta.push(['Generated', new Date().toISOString()]);
+  const failed = groups
+    ? groups
+        .filter((group) => group.failedAlerts?.length)
+        .map((group) => `${group.name} ${group.failedAlerts?.map((n) => `#${n}`).join(', ')}`)
+    : (metadata.failedAlerts ?? []).map((n) => `#${n}`);
+  if (failed.length > 0) {
+    meta.push(['Incomplete', `details could not be fetched for alert(s) ${failed.join(', ')}`]);
+  }
+
+  lines.push('<dl class="meta">');
+  for (const [name, value] of meta) {
+    lines.push(`<dt>${name}</dt><dd>${escapeHtml(value)}</dd>`);
+  }
+  lines.push('</dl>');
+
+  lines.push('<h2>Summary</h2>');
+  lines.push('<div class="summary">');
+  lines.push(...countTable('Severity', severityCounts));
+  if (securityCounts.length > 0) {
+    lines.push(...countTable('Security Severity', securityCounts));
+  }
+  if (groups) {
+    lines.push(
+      ...countTable(
+        'Repository',
+        groups.map((group): [string, number] => [group.name, group.alerts.length]),
+      ),
+    );
+  }
+  lines.push('</div>');
+
+  lines.push('<h2>Alerts</h2>');
+  lines.push('<div class="controls">');
+  lines.push('<input id="filter" type="search" placeholder="Filter alerts" aria-label="Filter">');
+  lines.push('<select id="severity" aria-label="Severity">');
+  lines.push('<option value="">All severities</option>');
+  for (const [severity] of severityCounts) {
+    lines.push(`<option value="${escapeHtml(severity)}">${escapeHtml(severity)}</option>`);
+  }
+  lines.push('</select>');
+  lines.push(`<span id="count">Showing ${alerts.length} of ${alerts.length} alerts</span>`);
+  lines.push('</div>');
+
+  const headers = [
+    '<th data-sort="number">#</th>',
+    ...(groups ? ['<th data-sort="text">Repository</th>'] : []),
+    '<th data-sort="number">Severity</th>',
+    '<th data-sort="number">Security Severity</th>',
+    '<th data-sort="text">Rule</th>',
+    '<th data-sort="text">Location</th>',
+    '<th data-sort="text">Message</th>',
+  ];
+  lines.push('<table id="alerts">');
+  lines.push(`<thead><tr>${headers.join('')}</tr></thead>`);
+  lines.push('<tbody>');
+  for (const alert of orderAlerts(alerts, metadata.order)) {
+    lines.push(...formatRow(alert, detailLevel, groups !== undefined));
+  }
+  lines.push('</tbody>');
+  lines.push('</table>');
+
+  lines.push(`<script>${SCRIPT}</script>`);
+  lines.push('</body>');
+  lines.push('</html>');
+
+  return lines.join('\n');
+}
@@ -1,10 +1,133 @@
 import type { CodeQLAlert } from '../lib/codeql.js';
-import { type DetailLevel, filterAlertByDetail } from '../lib/types.js';
+import type { AlertDiff } from '../lib/diff.js';
+import { orderAlerts } from '../lib/ordering.js';
+import {
+  countBySecuritySeverity,
+  countBySeverity,
+  type DetailLevel,
+  type DiffMetadata,
+  filterAlertByDetail,
+  groupByRepository,
+  type ReportMetadata,
+} from '../lib/types.js';
+
+/**
+ * Count alerts per severity, and per security severity when any alert has one
+ */
+function summarize(alerts: CodeQLAlert[]) {
+  const bySecuritySeverity = countBySecuritySeverity(alerts);
+  return {
+    total: alerts.length,
+    by_severity: countBySeverity(alerts),
+    ...(Object.keys(bySecuritySeverity).length > 0 && {
+      by_security_severity: bySecuritySeverity,
+    }),
+  };
+}
 
 /**
  * Format alerts as JSON
+ * Organization and multi-repository reports are an object with a combined summary and the
+ * alerts grouped per repository, other reports are a plain array of alerts. Alerts of a
+ * section (`--group-by`) are kept next to each other.
  */
-export function formatAsJSON(alerts: CodeQLAlert[], detailLevel: DetailLevel = 'medium'): string {
-  const filteredAlerts = alerts.map((alert) => filterAlertByDetail(alert, detailLevel));
+export function formatAsJSON(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+): string {
+  if (metadata.repositories) {
+    const groups = groupByRepository(alerts, metadata.repositories);
+
+    return JSON.stringify(
+      {
+        ...(metadata.host && { host: metadata.host }),
+        ...(metadata.organization && { organization: metadata.organization }),
+        summary: summarize(alerts),
+        repositories: groups.map((group) => ({
+          repository: group.name,
+          summary: summarize(group.alerts),
+          ...(group.failedAlerts?.length && { failed_alerts: group.failedAlerts }),
+          alerts: orderAlerts(group.alerts, metadata.order).map((alert) =>
+            filterAlertByDetail(alert, detailLevel),
+          ),
+        })),
+      },
+      null,
+      2,
+    );
+  }
+
+  const filteredAlerts = orderAlerts(alerts, metadata.order).map((alert) =>
+    filterAlertByDetail(alert, detailLevel),
+  );
   return JSON.stringify(filteredAlerts, null, 2);
 }
+
+/**
+ * Format alerts as JSON Lines, one compact alert per line so the output can be streamed and
+ * appended to
+ * Alerts of organization and multi-repository reports carry their `repository`
+ */
+export function formatAsJSONLines(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+): string {
+  const lines = orderAlerts(alerts, metadata.order).map((alert) => {
+    const filtered = filterAlertByDetail(alert, detailLevel);
+    // Raw alerts keep the API structure, which already includes the repository
+    if (detailLevel === 'raw' || !alert.repository) {
+      return JSON.stringify(filtered);
+    }
+    return JSON.stringify({ repository: alert.repository.full_name, ...filtered });
+  });
+
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * Format a comparison of two alert sets as JSON with new/fixed/unchanged arrays
+ * Unchanged alerts that moved carry their base location in `previous_location`
+ */
+export function formatDiffAsJSON(
+  diff: AlertDiff,
+  detailLevel: DetailLevel = 'medium',
+  metadata: DiffMetadata = { base: 'base', head: 'head' },
+): string {
+  const unchanged = diff.unchanged.map((match) => {
+    const filtered = filterAlertByDetail(match.head, detailLevel);
+    if (!match.moved) {
+      return filtered;
+    }
+    const from = match.base.most_recent_instance.location;
+    return {
+      ...filtered,
+      previous_location: {
+        file_path: from.path,
+        start_line: from.start_line,
+        end_line: from.end_line,
+      },
+    };
+  });
+
+  return JSON.stringify(
+    {
+      ...(metadata.host && { host: metadata.host }),
+      ...(metadata.repoName && { repository: metadata.repoName }),
+      base: metadata.base,
+      head: metadata.head,
+      summary: {
+        new: diff.new.length,
+        fixed: diff.fixed.length,
+        unchanged: diff.unchanged.length,
+        moved: diff.unchanged.filter((match) => match.moved).length,
+      },
+      new: diff.new.map((alert) => filterAlertByDetail(alert, detailLevel)),
+      fixed: diff.fixed.map((alert) => filterAlertByDetail(alert, detailLevel)),
+      unchanged,
+    },
+    null,
+    2,
+  );
+}
@@ -0,0 +1,224 @@
+import { type FlowLocation, formatFlowLocation } from '../lib/codeflows.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { type Severity, severityRank } from '../lib/filters.js';
+import { groupAlerts } from '../lib/ordering.js';
+import { describeSnippetStatus, formatSnippetLines } from '../lib/snippets.js';
+import {
+  type DetailLevel,
+  type FullAlert,
+  filterAlertByDetail,
+  type MediumAlert,
+  type MinimumAlert,
+  type ReportMetadata,
+} from '../lib/types.js';
+
+export interface JUnitOptions {
+  /** Lowest severity reported as a failure, alerts below it are skipped, defaults to warning */
+  failOn?: Severity;
+}
+
+/**
+ * Characters XML 1.0 does not allow, even escaped, e.g. control characters in snippets
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching control characters is the point
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/**
+ * Escape text for XML attributes and element content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render an element's attributes, skipping undefined values
+ */
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+/**
+ * Render locations as an indented numbered list, e.g. the steps of a code flow
+ */
+function formatLocationList(locations: FlowLocation[]): string[] {
+  return locations.map((location, index) => {
+    const message = location.message ? ` - ${location.message}` : '';
+    return `  ${index + 1}. ${formatFlowLocation(location)}${message}`;
+  });
+}
+
+/**
+ * Render the failure or skip body of an alert with the fields of the detail level
+ */
+function formatBody(alert: CodeQLAlert, detailLevel: DetailLevel): string {
+  const filtered = filterAlertByDetail(alert, detailLevel);
+
+  // Raw detail shows the original API response
+  if (detailLevel === 'raw') {
+    return JSON.stringify(filtered, null, 2);
+  }
+
+  // Type assertion: after raw check, we know filtered is a flattened alert type
+  const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
+  const lines: string[] = [];
+
+  lines.push(`Rule: ${flatAlert.rule_id} (${flatAlert.rule_name})`);
+  lines.push(`Severity: ${flatAlert.severity}`);
+
+  if ('security_severity' in flatAlert) {
+    lines.push(`Security Severity: ${flatAlert.security_severity}`);
+  }
+  if ('rule_description' in flatAlert) {
+    lines.push(`Description: ${flatAlert.rule_description}`);
+  }
+  if ('cwe_ids' in flatAlert && flatAlert.cwe_ids) {
+    lines.push(`CWE: ${flatAlert.cwe_ids.join(', ')}`);
+  }
+
+  const columns =
+    'start_column' in flatAlert
+      ? `, columns ${flatAlert.start_column}-${flatAlert.end_column}`
+      : '';
+  lines.push(
+    `Location: ${flatAlert.file_path}, lines ${flatAlert.start_line}-${flatAlert.end_line}${columns}`,
+  );
+  lines.push(`Message: ${flatAlert.message}`);
+  lines.push(`Commit: ${flatAlert.commit_sha}`);
+
+  if ('state' in flatAlert) {
+    lines.push(`State: ${flatAlert.state}`);
+  }
+
+  if (flatAlert.snippet) {
+    lines.push('');
+    lines.push('Code:');
+    const warning = describeSnippetStatus(flatAlert.snippet, flatAlert.commit_sha);
+    if (warning) {
+      lines.push(`  WARNING: ${warning}`);
+    }
+    const code = formatSnippetLines(flatAlert.snippet, flatAlert.start_line, flatAlert.end_line);
+    lines.push(...code.split('\n').map((line) => `  ${line}`));
+  }
+
+  // Code flows, related locations and help only in full
+  if ('code_flows' in flatAlert && flatAlert.code_flows) {
+    const flows = flatAlert.code_flows;
+    flows.forEach((flow, index) => {
+      lines.push('');
+      lines.push(flows.length > 1 ? `Code Flow ${index + 1}/${flows.length}:` : 'Code Flow:');
+      lines.push(...formatLocationList(flow));
+    });
+  }
+
+  if ('related_locations' in flatAlert && flatAlert.related_locations) {
+    lines.push('');
+    lines.push('Related Locations:');
+    lines.push(...formatLocationList(flatAlert.related_locations));
+  }
+
+  if ('help_text' in flatAlert && flatAlert.help_text) {
+    lines.push('');
+    lines.push('Help:');
+    lines.push(flatAlert.help_text.trim());
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render an alert as a testcase that fails, or is skipped when below the threshold
+ * The failure message leads with the file and line so test report UIs show where to look
+ */
+function formatTestCase(alert: CodeQLAlert, detailLevel: DetailLevel, failed: boolean): string[] {
+  const { location, message } = alert.most_recent_instance;
+  const position = `${location.path}:${location.start_line}`;
+  const prefix = alert.repository ? `${alert.repository.full_name}#` : '#';
+  const result = failed ? 'failure' : 'skipped';
+
+  return [
+    `    <testcase${attributes({
+      name: `${prefix}${alert.number} ${position}`,
+      classname: alert.rule.id,
+      file: location.path,
+      line: location.start_line,
+    })}>`,
+    `      <${result}${attributes({
+      message: `${position}: ${message.text}`,
+      type: failed ? alert.rule.severity.toLowerCase() : undefined,
+    })}>${escapeXml(formatBody(alert, detailLevel))}</${result}>`,
+    '    </testcase>',
+  ];
+}
+
+/**
+ * Format alerts as JUnit XML for CI test reporters
+ * Each rule is a testsuite and each alert a testcase, failing at or above the `failOn`
+ * severity and skipped below it. Testcases follow the report's sort order.
+ */
+export function formatAsJUnit(
+  alerts: CodeQLAlert[],
+  repoName: string,
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+  options: JUnitOptions = {},
+): string {
+  const threshold = severityRank(options.failOn ?? 'warning');
+  const fails = (alert: CodeQLAlert) => severityRank(alert.rule.severity) >= threshold;
+  const failures = alerts.filter(fails).length;
+
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  lines.push(
+    `<testsuites${attributes({
+      name: `CodeQL alerts: ${repoName}`,
+      tests: alerts.length,
+      failures,
+      errors: 0,
+      skipped: alerts.length - failures,
+    })}>`,
+  );
+
+  // One suite per rule, sorted by rule id
+  for (const suite of groupAlerts(alerts, { groupBy: 'rule', sortBy: metadata.order?.sortBy })) {
+    const { rule } = suite.alerts[0];
+    const suiteFailures = suite.alerts.filter(fails).length;
+
+    lines.push(
+      `  <testsuite${attributes({
+        name: suite.name,
+        tests: suite.alerts.length,
+        failures: suiteFailures,
+        errors: 0,
+        skipped: suite.alerts.length - suiteFailures,
+      })}>`,
+    );
+    lines.push('    <properties>');
+    lines.push(`      <property${attributes({ name: 'rule_name', value: rule.name })}/>`);
+    lines.push(`      <property${attributes({ name: 'severity', value: rule.severity })}/>`);
+    if (rule.security_severity_level) {
+      lines.push(
+        `      <property${attributes({ name: 'security_severity', value: rule.security_severity_level })}/>`,
+      );
+    }
+    if (metadata.ref) {
+      lines.push(`      <property${attributes({ name: 'ref', value: metadata.ref })}/>`);
+    }
+    lines.push('    </properties>');
+
+    for (const alert of suite.alerts) {
+      lines.push(...formatTestCase(alert, detailLevel, fails(alert)));
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
@@ -1,11 +1,26 @@
+import { chunkSourceFiles, type ReportChunk } from '../lib/chunks.js';
+import { type FlowLocation, formatFlowLocation } from '../lib/codeflows.js';
 import type { CodeQLAlert } from '../lib/codeql.js';
+import type { AlertDiff } from '../lib/diff.js';
+import { severityRank } from '../lib/filters.js';
+import { GROUP_LABELS, groupAlerts, type OrderOptions } from '../lib/ordering.js';
+import { cweIds, type RuleInfo, rulesForAlerts } from '../lib/rules.js';
+import { describeSnippetStatus, formatSnippetLines, snippetLanguage } from '../lib/snippets.js';
 import {
+  countBySecuritySeverity,
+  countBySeverity,
   type DetailLevel,
+  type DiffMetadata,
   type FullAlert,
   filterAlertByDetail,
+  formatAlertHeading,
+  groupByRepository,
   type MediumAlert,
   type MinimumAlert,
+  type ReportMetadata,
+  type RepositoryGroup,
 } from '../lib/types.js';
+import { renderReportTemplate, type TemplateOptions } from './template.js';
 
 /**
  * Generate a markdown table from 2D array data
@@ -45,37 +60,15 @@ export function generateMarkdownTable(data: string[][]): string {
 }
 
 /**
- * Format alerts as Markdown
+ * Render the severity summary table
  */
-export function formatAsMarkdown(
-  alerts: CodeQLAlert[],
-  repoName: string,
-  detailLevel: DetailLevel = 'medium',
-): string {
+function formatSeveritySummary(alerts: CodeQLAlert[]): string[] {
   const lines: string[] = [];
 
-  lines.push(`# CodeQL Security Scan Report`);
-  lines.push('');
-  lines.push(`**Repository:** ${repoName}`);
-  lines.push(`**Total Alerts:** ${alerts.length}`);
-  lines.push(`**Detail Level:** ${detailLevel}`);
-  lines.push(`**Generated:** ${new Date().toISOString()}`);
-  lines.push('');
-  lines.push('---');
-  lines.push('');
-
-  // Summary table
   lines.push('## Summary by Severity');
   lines.push('');
 
-  const severityCounts = alerts.reduce(
-    (acc, alert) => {
-      const severity = alert.rule.severity.toLowerCase();
-      acc[severity] = (acc[severity] || 0) + 1;
-      return acc;
-    },
-    {} as Record<string, number>,
-  );
+  const severityCounts = countBySeverity(alerts);
 
   const summaryTableData = [
     ['Severity', 'Count'],
@@ -85,72 +78,531 @@ export function formatAsMarkdown(
   lines.push(generateMarkdownTable(summaryTableData));
   lines.push('');
 
-  // Detailed alerts
-  lines.push('## Detailed Alerts');
+  // Severity only tells errors from warnings, security queries rank their impact separately
+  const securityCounts = Object.entries(countBySecuritySeverity(alerts));
+  if (securityCounts.length > 0) {
+    lines.push('## Summary by Security Severity');
+    lines.push('');
+    lines.push(
+      generateMarkdownTable([
+        ['Security Severity', 'Count'],
+        ...securityCounts.map(([level, count]) => [level, count.toString()]),
+      ]),
+    );
+    lines.push('');
+  }
+
+  return lines;
+}
+
+/**
+ * Render the per-repository summary table with a combined total row
+ */
+function formatRepositorySummary(groups: RepositoryGroup[]): string[] {
+  const lines: string[] = [];
+  const allAlerts = groups.flatMap((group) => group.alerts);
+  const severities = Object.keys(countBySeverity(allAlerts)).sort(
+    (a, b) => severityRank(b) - severityRank(a),
+  );
+
+  const row = (name: string, alerts: RepositoryGroup['alerts']) => {
+    const counts = countBySeverity(alerts);
+    return [
+      name,
+      alerts.length.toString(),
+      ...severities.map((severity) => (counts[severity] ?? 0).toString()),
+    ];
+  };
+
+  lines.push('## Summary by Repository');
+  lines.push('');
+  lines.push(
+    generateMarkdownTable([
+      ['Repository', 'Total', ...severities],
+      ...groups.map((group) => row(group.name, group.alerts)),
+      row('**Total**', allAlerts),
+    ]),
+  );
   lines.push('');
 
-  for (const alert of alerts) {
-    const filtered = filterAlertByDetail(alert, detailLevel);
+  return lines;
+}
 
-    // Handle raw format - return as code block
-    if (detailLevel === 'raw') {
-      lines.push('```json');
-      lines.push(JSON.stringify(filtered, null, 2));
-      lines.push('```');
-      lines.push('');
-      lines.push('---');
-      lines.push('');
-      continue;
+/**
+ * Render locations as a numbered list, e.g. the steps of a code flow
+ */
+function formatLocationList(locations: FlowLocation[]): string[] {
+  return locations.map((location, index) => {
+    const message = location.message ? ` - ${location.message}` : '';
+    return `${index + 1}. \`${formatFlowLocation(location)}\`${message}`;
+  });
+}
+
+/**
+ * Anchor of a rule in the rules appendix, e.g. js/sql-injection -> rule-js-sql-injection
+ */
+function ruleAnchor(ruleId: string): string {
+  return `rule-${ruleId.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+}
+
+/**
+ * Shift headings in rule help `levels` deeper, e.g. below the appendix's rule headings,
+ * skipping code blocks
+ */
+export function demoteHeadings(markdown: string, levels = 3): string[] {
+  let inFence = false;
+
+  return markdown.split('\n').map((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return line;
+    }
+    if (inFence) {
+      return line;
     }
+    return line.replace(/^(#{1,6})(?=\s)/, (hashes) =>
+      '#'.repeat(Math.min(hashes.length + levels, 6)),
+    );
+  });
+}
+
+/**
+ * Render the rules appendix, each rule once with its help in full detail
+ */
+function formatRules(rules: RuleInfo[], detailLevel: DetailLevel): string[] {
+  const lines: string[] = [];
 
-    // Type assertion: after raw check, we know filtered is a flattened alert type
-    const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
+  lines.push('## Rules');
+  lines.push('');
 
-    lines.push(`### Alert #${flatAlert.number}: ${flatAlert.rule_name}`);
+  for (const rule of rules) {
+    lines.push(`<a id="${ruleAnchor(rule.id)}"></a>`);
+    lines.push(`### \`${rule.id}\`: ${rule.name}`);
     lines.push('');
-    lines.push(`**Rule ID:** \`${flatAlert.rule_id}\``);
-    lines.push(`**Severity:** ${flatAlert.severity}`);
+    lines.push(`**Severity:** ${rule.severity}`);
+    if (rule.security_severity_level) {
+      lines.push(`**Security Severity:** ${rule.security_severity_level}`);
+    }
+    lines.push(`**Description:** ${rule.description}`);
+    if (rule.tags?.length) {
+      lines.push(`**Tags:** ${rule.tags.join(', ')}`);
+    }
+    const cwes = cweIds(rule.tags);
+    if (cwes.length > 0) {
+      lines.push(`**CWE:** ${cwes.join(', ')}`);
+    }
 
-    // Description only in medium and full
-    if ('rule_description' in flatAlert) {
-      lines.push(`**Description:** ${flatAlert.rule_description}`);
+    if (detailLevel === 'full') {
+      if (rule.help_uri) {
+        lines.push(`**Documentation:** ${rule.help_uri}`);
+      }
+      if (rule.help) {
+        lines.push('');
+        lines.push(...demoteHeadings(rule.help.trim()));
+      }
     }
 
     lines.push('');
-    lines.push('#### Location');
+    lines.push('---');
     lines.push('');
-    lines.push(`- **File:** \`${flatAlert.file_path}\``);
-    lines.push(`- **Lines:** ${flatAlert.start_line}-${flatAlert.end_line}`);
+  }
 
-    // Columns only in medium and full
-    if ('start_column' in flatAlert) {
-      lines.push(`- **Columns:** ${flatAlert.start_column}-${flatAlert.end_column}`);
-    }
+  return lines;
+}
+
+/**
+ * Render a single alert section
+ * `previous` is the base version of an alert that moved in a diff, `linkRule` links the rule
+ * id to the rules appendix and `level` is the heading level of the alert, 3 by default
+ */
+function formatAlert(
+  alert: CodeQLAlert,
+  detailLevel: DetailLevel,
+  options: { previous?: CodeQLAlert; linkRule?: boolean; level?: number } = {},
+): string[] {
+  const { previous, linkRule, level = 3 } = options;
+  const heading = '#'.repeat(level);
+  const subheading = '#'.repeat(level + 1);
+  const lines: string[] = [];
+  const filtered = filterAlertByDetail(alert, detailLevel);
+
+  // Handle raw format - return as code block
+  if (detailLevel === 'raw') {
+    lines.push('```json');
+    lines.push(JSON.stringify(filtered, null, 2));
+    lines.push('```');
+    lines.push('');
+    lines.push('---');
+    lines.push('');
+    return lines;
+  }
+
+  // Type assertion: after raw check, we know filtered is a flattened alert type
+  const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
+
+  lines.push(`${heading} ${formatAlertHeading(flatAlert)}: ${flatAlert.rule_name}`);
+  lines.push('');
+  lines.push(
+    linkRule
+      ? `**Rule ID:** [\`${flatAlert.rule_id}\`](#${ruleAnchor(flatAlert.rule_id)})`
+      : `**Rule ID:** \`${flatAlert.rule_id}\``,
+  );
+  lines.push(`**Severity:** ${flatAlert.severity}`);
+
+  // Security severity, description and CWE ids only in medium and full
+  if ('security_severity' in flatAlert) {
+    lines.push(`**Security Severity:** ${flatAlert.security_severity}`);
+  }
+
+  if ('rule_description' in flatAlert) {
+    lines.push(`**Description:** ${flatAlert.rule_description}`);
+  }
+
+  if ('cwe_ids' in flatAlert && flatAlert.cwe_ids) {
+    lines.push(`**CWE:** ${flatAlert.cwe_ids.join(', ')}`);
+  }
 
+  lines.push('');
+  lines.push(`${subheading} Location`);
+  lines.push('');
+  lines.push(`- **File:** \`${flatAlert.file_path}\``);
+  lines.push(`- **Lines:** ${flatAlert.start_line}-${flatAlert.end_line}`);
+
+  // Columns only in medium and full
+  if ('start_column' in flatAlert) {
+    lines.push(`- **Columns:** ${flatAlert.start_column}-${flatAlert.end_column}`);
+  }
+
+  if (previous) {
+    const from = previous.most_recent_instance.location;
+    lines.push(`- **Moved from:** \`${from.path}:${from.start_line}\``);
+  }
+
+  if (flatAlert.snippet) {
     lines.push('');
-    lines.push('#### Message');
+    lines.push(`${subheading} Code`);
     lines.push('');
-    lines.push(flatAlert.message);
+    const warning = describeSnippetStatus(flatAlert.snippet, flatAlert.commit_sha);
+    if (warning) {
+      lines.push(`> ⚠️ ${warning}`);
+      lines.push('');
+    }
+    lines.push(`\`\`\`${snippetLanguage(flatAlert.file_path)}`);
+    lines.push(formatSnippetLines(flatAlert.snippet, flatAlert.start_line, flatAlert.end_line));
+    lines.push('```');
+  }
+
+  lines.push('');
+  lines.push(`${subheading} Message`);
+  lines.push('');
+  lines.push(flatAlert.message);
 
-    // Details section - commit is now in all levels
+  // Code flows and related locations only in full
+  if ('code_flows' in flatAlert && flatAlert.code_flows) {
+    const flows = flatAlert.code_flows;
+    flows.forEach((flow, index) => {
+      lines.push('');
+      lines.push(
+        flows.length > 1
+          ? `${subheading} Code Flow ${index + 1} of ${flows.length}`
+          : `${subheading} Code Flow`,
+      );
+      lines.push('');
+      lines.push(...formatLocationList(flow));
+    });
+  }
+
+  if ('related_locations' in flatAlert && flatAlert.related_locations) {
     lines.push('');
-    lines.push('#### Details');
+    lines.push(`${subheading} Related Locations`);
     lines.push('');
-    lines.push(`- **Commit:** \`${flatAlert.commit_sha}\``);
+    lines.push(...formatLocationList(flatAlert.related_locations));
+  }
 
-    // State only in medium and full
-    if ('state' in flatAlert) {
-      lines.push(`- **State:** ${flatAlert.state}`);
-    }
+  // Details section - commit is now in all levels
+  lines.push('');
+  lines.push(`${subheading} Details`);
+  lines.push('');
+  lines.push(`- **Commit:** \`${flatAlert.commit_sha}\``);
+
+  // State only in medium and full
+  if ('state' in flatAlert) {
+    lines.push(`- **State:** ${flatAlert.state}`);
+  }
+
+  // Reference only in full
+  if ('ref' in flatAlert) {
+    lines.push(`- **Reference:** ${flatAlert.ref}`);
+  }
+
+  lines.push('');
+  lines.push('---');
+  lines.push('');
 
-    // Reference only in full
-    if ('ref' in flatAlert) {
-      lines.push(`- **Reference:** ${flatAlert.ref}`);
+  return lines;
+}
+
+/**
+ * Render alerts in report order, with a heading and count per section when grouped
+ */
+function formatAlertSections(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel,
+  order: OrderOptions = {},
+  linkRule = false,
+): string[] {
+  const lines: string[] = [];
+  const groupBy = order.groupBy ?? 'none';
+
+  for (const group of groupAlerts(alerts, order)) {
+    if (groupBy === 'none') {
+      for (const alert of group.alerts) {
+        lines.push(...formatAlert(alert, detailLevel, { linkRule }));
+      }
+      continue;
     }
 
+    const name = groupBy === 'severity' ? group.name : `\`${group.name}\``;
+    lines.push(`### ${GROUP_LABELS[groupBy]}: ${name} (${group.alerts.length})`);
     lines.push('');
-    lines.push('---');
+    for (const alert of group.alerts) {
+      lines.push(...formatAlert(alert, detailLevel, { linkRule, level: 4 }));
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Template reproducing the built-in Markdown layout
+ */
+export const DEFAULT_MARKDOWN_TEMPLATE = `# CodeQL Security Scan Report
+
+{{header}}
+
+---
+
+{{summary}}
+
+{{details}}
+{{#rules}}
+
+{{rules}}
+{{/rules}}
+`;
+
+/**
+ * Format alerts as Markdown
+ */
+export function formatAsMarkdown(
+  alerts: CodeQLAlert[],
+  repoName: string,
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+  options: TemplateOptions = {},
+): string {
+  const groups = metadata.repositories && groupByRepository(alerts, metadata.repositories);
+  // The rules appendix carries descriptions and help, minimum detail leaves them out
+  const rules =
+    detailLevel === 'medium' || detailLevel === 'full'
+      ? rulesForAlerts(alerts, metadata.rules)
+      : [];
+  const linkRule = rules.length > 0;
+
+  const header: string[] = [];
+  if (metadata.host) {
+    header.push(`**Host:** ${metadata.host}`);
+  }
+  if (groups) {
+    if (metadata.organization) {
+      header.push(`**Organization:** ${metadata.organization}`);
+    }
+    header.push(`**Repositories:** ${groups.length}`);
+  } else {
+    header.push(`**Repository:** ${repoName}`);
+  }
+  if (metadata.ref) {
+    header.push(`**Ref:** \`${metadata.ref}\``);
+  }
+  header.push(`**Total Alerts:** ${alerts.length}`);
+  if (metadata.suppressed !== undefined) {
+    header.push(`**Suppressed:** ${metadata.suppressed} alert(s) listed in the baseline file`);
+  }
+  if (metadata.chunk) {
+    const { index, total, totalAlerts } = metadata.chunk;
+    header.push(`**Chunk:** ${index} of ${total} (${alerts.length} of ${totalAlerts} alerts)`);
+  }
+  header.push(`**Detail Level:** ${detailLevel}`);
+  header.push(`**Generated:** ${new Date().toISOString()}`);
+  if (metadata.failedAlerts?.length) {
+    const failed = metadata.failedAlerts.map((n) => `#${n}`).join(', ');
+    header.push(`**Incomplete:** details could not be fetched for alert(s) ${failed}`);
+  }
+
+  const summary = [
+    ...(groups ? formatRepositorySummary(groups) : []),
+    ...formatSeveritySummary(alerts),
+  ];
+
+  const details: string[] = [];
+  if (groups) {
+    for (const group of groups) {
+      details.push(`## ${group.name}`);
+      details.push('');
+      details.push(`**Alerts:** ${group.alerts.length}`);
+      if (group.failedAlerts?.length) {
+        const failed = group.failedAlerts.map((n) => `#${n}`).join(', ');
+        details.push(`**Incomplete:** details could not be fetched for alert(s) ${failed}`);
+      }
+      details.push('');
+
+      details.push(...formatAlertSections(group.alerts, detailLevel, metadata.order, linkRule));
+    }
+  } else {
+    // Detailed alerts
+    details.push('## Detailed Alerts');
+    details.push('');
+
+    details.push(...formatAlertSections(alerts, detailLevel, metadata.order, linkRule));
+  }
+
+  return renderReportTemplate(
+    options.template ?? DEFAULT_MARKDOWN_TEMPLATE,
+    alerts,
+    repoName,
+    detailLevel,
+    metadata,
+    { header, summary, details, rules: rules.length > 0 ? formatRules(rules, detailLevel) : [] },
+  );
+}
+
+/**
+ * Format the index of a report split into chunks with `--max-tokens`
+ */
+export function formatChunkIndexAsMarkdown(
+  chunks: ReportChunk[],
+  repoName: string,
+  detailLevel: DetailLevel,
+  maxTokens: number,
+  metadata: ReportMetadata = {},
+): string {
+  const lines: string[] = [];
+  const totalAlerts = chunks.reduce((sum, chunk) => sum + chunk.alerts.length, 0);
+
+  lines.push(`# CodeQL Security Scan Report Index`);
+  lines.push('');
+  if (metadata.host) {
+    lines.push(`**Host:** ${metadata.host}`);
+  }
+  if (metadata.repositories) {
+    if (metadata.organization) {
+      lines.push(`**Organization:** ${metadata.organization}`);
+    }
+    lines.push(`**Repositories:** ${metadata.repositories.length}`);
+  } else {
+    lines.push(`**Repository:** ${repoName}`);
+  }
+  if (metadata.ref) {
+    lines.push(`**Ref:** \`${metadata.ref}\``);
+  }
+  lines.push(`**Total Alerts:** ${totalAlerts}`);
+  if (metadata.suppressed !== undefined) {
+    lines.push(`**Suppressed:** ${metadata.suppressed} alert(s) listed in the baseline file`);
+  }
+  lines.push(`**Chunks:** ${chunks.length} (up to ${maxTokens} estimated tokens each)`);
+  lines.push(`**Detail Level:** ${detailLevel}`);
+  lines.push(`**Generated:** ${new Date().toISOString()}`);
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+
+  lines.push('## Chunks');
+  lines.push('');
+  lines.push(
+    generateMarkdownTable([
+      ['Chunk', 'File', 'Alerts', 'Est. Tokens', 'Source Files'],
+      ...chunks.map((chunk, index) => {
+        const files = chunkSourceFiles(chunk.alerts);
+        const more = files.length > 3 ? ` +${files.length - 3} more` : '';
+        return [
+          (index + 1).toString(),
+          `[${chunk.file}](${encodeURI(chunk.file)})`,
+          chunk.alerts.length.toString(),
+          chunk.tokens > maxTokens ? `${chunk.tokens} (over budget)` : chunk.tokens.toString(),
+          `${files
+            .slice(0, 3)
+            .map((file) => `\`${file}\``)
+            .join(', ')}${more}`,
+        ];
+      }),
+    ]),
+  );
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a comparison of two alert sets as Markdown with new/fixed/unchanged sections
+ */
+export function formatDiffAsMarkdown(
+  diff: AlertDiff,
+  detailLevel: DetailLevel = 'medium',
+  metadata: DiffMetadata = { base: 'base', head: 'head' },
+): string {
+  const lines: string[] = [];
+  const moved = diff.unchanged.filter((match) => match.moved).length;
+
+  lines.push(`# CodeQL Alert Diff`);
+  lines.push('');
+  if (metadata.host) {
+    lines.push(`**Host:** ${metadata.host}`);
+  }
+  if (metadata.repoName) {
+    lines.push(`**Repository:** ${metadata.repoName}`);
+  }
+  lines.push(`**Base:** \`${metadata.base}\``);
+  lines.push(`**Head:** \`${metadata.head}\``);
+  lines.push(`**Detail Level:** ${detailLevel}`);
+  lines.push(`**Generated:** ${new Date().toISOString()}`);
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+
+  lines.push('## Summary');
+  lines.push('');
+  lines.push(
+    generateMarkdownTable([
+      ['Status', 'Count'],
+      ['New', diff.new.length.toString()],
+      ['Fixed', diff.fixed.length.toString()],
+      ['Unchanged', `${diff.unchanged.length}${moved > 0 ? ` (${moved} moved)` : ''}`],
+    ]),
+  );
+  lines.push('');
+
+  const sections: Array<[string, Array<[CodeQLAlert, CodeQLAlert?]>]> = [
+    ['New Alerts', diff.new.map((alert) => [alert])],
+    ['Fixed Alerts', diff.fixed.map((alert) => [alert])],
+    [
+      'Unchanged Alerts',
+      diff.unchanged.map((match) => [match.head, match.moved ? match.base : undefined]),
+    ],
+  ];
+
+  for (const [title, entries] of sections) {
+    lines.push(`## ${title} (${entries.length})`);
     lines.push('');
+
+    if (entries.length === 0) {
+      lines.push('_None_');
+      lines.push('');
+      continue;
+    }
+
+    for (const [alert, previous] of entries) {
+      lines.push(...formatAlert(alert, detailLevel, { previous }));
+    }
   }
 
   return lines.join('\n');
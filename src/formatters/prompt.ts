@@ -0,0 +1,244 @@
+import { formatFlowLocation } from '../lib/codeflows.js';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { orderAlerts } from '../lib/ordering.js';
+import { type RuleInfo, rulesForAlerts } from '../lib/rules.js';
+import { describeSnippetStatus, formatSnippetLines, snippetLanguage } from '../lib/snippets.js';
+import { renderTemplate, validateTemplate } from '../lib/templates.js';
+import type { DetailLevel, ReportMetadata } from '../lib/types.js';
+import { demoteHeadings } from './markdown.js';
+
+export type PromptGrouping = 'alert' | 'file';
+
+export interface PromptOptions {
+  /** One task per alert or per file, defaults to file */
+  groupBy?: PromptGrouping;
+  /** Task template with `{{placeholder}}`s, defaults to `DEFAULT_PROMPT_TEMPLATE` */
+  template?: string;
+}
+
+/**
+ * Template rendered for each task
+ * Placeholders: task, total, summary, repository, file, alerts, problems, code, guidance
+ */
+export const DEFAULT_PROMPT_TEMPLATE = `## Task {{task}} of {{total}}: {{summary}}
+
+**Repository:** {{repository}}
+**File:** \`{{file}}\`
+**Alerts:** {{alerts}}
+
+### Problem
+
+{{problems}}
+
+### Flagged Code
+
+{{code}}
+
+### Remediation Guidance
+
+{{guidance}}
+
+### Constraints
+
+- Only change the code needed to fix the alerts above; do not change unrelated code
+- Keep existing behavior, public interfaces and code style intact
+- Fix the underlying issue instead of suppressing the alert or disabling the rule
+- If an alert is a false positive, say so and explain why instead of changing the code
+
+### Expected Response
+
+For each alert, reply with:
+
+1. **Alert:** the alert number, or its lines for alerts without one
+2. **Assessment:** true or false positive, with a one-sentence reason
+3. **Fix:** a unified diff against \`{{file}}\`, or "No change" for a false positive
+4. **Notes:** follow-up changes needed outside this file, if any
+`;
+
+const PLACEHOLDERS = [
+  'task',
+  'total',
+  'summary',
+  'repository',
+  'file',
+  'alerts',
+  'problems',
+  'code',
+  'guidance',
+] as const;
+
+/**
+ * Check a user template for unknown placeholders before any alerts are fetched, including
+ * those in sections
+ */
+export function validatePromptTemplate(template: string): void {
+  validateTemplate(template, Object.fromEntries(PLACEHOLDERS.map((name) => [name, ''])));
+}
+
+/**
+ * Group alerts into tasks, per file (within a repository) or one per alert
+ */
+function groupTasks(alerts: CodeQLAlert[], groupBy: PromptGrouping): CodeQLAlert[][] {
+  if (groupBy === 'alert') {
+    return alerts.map((alert) => [alert]);
+  }
+
+  const groups = new Map<string, CodeQLAlert[]>();
+  for (const alert of alerts) {
+    const key = `${alert.repository?.full_name ?? ''}\0${alert.most_recent_instance.location.path}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(alert);
+    } else {
+      groups.set(key, [alert]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Describe an alert's flagged lines, e.g. `line 4` or `lines 10-12`
+ */
+function formatLines(alert: CodeQLAlert): string {
+  const { start_line, end_line } = alert.most_recent_instance.location;
+  return start_line === end_line ? `line ${start_line}` : `lines ${start_line}-${end_line}`;
+}
+
+/**
+ * Refer to an alert by number, or by its lines for SARIF results without an alert number
+ */
+function formatAlertLabel(alert: CodeQLAlert): string {
+  return alert.number > 0 ? `#${alert.number}` : formatLines(alert);
+}
+
+/**
+ * Describe each alert of a task, with its data flow at full detail
+ */
+function formatProblems(alerts: CodeQLAlert[], detailLevel: DetailLevel): string {
+  const withFlows = detailLevel === 'full' || detailLevel === 'raw';
+
+  return alerts
+    .map((alert) => {
+      const lines = [
+        `- **${alert.number > 0 ? `#${alert.number} ` : ''}${alert.rule.name}** (\`${alert.rule.id}\`, ${alert.rule.severity}) at ${formatLines(alert)}: ${alert.most_recent_instance.message.text}`,
+      ];
+
+      if (withFlows) {
+        for (const flow of alert.code_flows ?? []) {
+          const steps = flow.map((step) => {
+            const message = step.message ? ` (${step.message})` : '';
+            return `\`${formatFlowLocation(step)}\`${message}`;
+          });
+          lines.push(`  - Data flow: ${steps.join(' → ')}`);
+        }
+      }
+
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Show the flagged code of each alert, or where to find it when snippets were not read
+ */
+function formatCode(alerts: CodeQLAlert[]): string {
+  return alerts
+    .map((alert) => {
+      const { path, start_line, end_line } = alert.most_recent_instance.location;
+      if (!alert.snippet) {
+        const name = alert.number > 0 ? `Alert #${alert.number}` : 'Alert';
+        return `${name}: not included, read ${formatLines(alert)} of \`${path}\` before changing it.`;
+      }
+
+      const name =
+        alert.number > 0
+          ? `Alert #${alert.number} (${formatLines(alert)})`
+          : `Alert at ${formatLines(alert)}`;
+      const lines = [`${name}:`, ''];
+      const warning = describeSnippetStatus(alert.snippet, alert.most_recent_instance.commit_sha);
+      if (warning) {
+        lines.push(`> ⚠️ ${warning}`, '');
+      }
+      lines.push(`\`\`\`${snippetLanguage(path)}`);
+      lines.push(formatSnippetLines(alert.snippet, start_line, end_line));
+      lines.push('```');
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Render each rule's help as remediation guidance, falling back to its description
+ */
+function formatGuidance(rules: RuleInfo[]): string {
+  return rules
+    .map((rule) => {
+      const lines = [`#### ${rule.name} (\`${rule.id}\`)`, ''];
+      if (rule.help) {
+        lines.push(...demoteHeadings(rule.help.trim(), 4));
+      } else {
+        lines.push(rule.full_description || rule.description);
+      }
+      if (rule.help_uri) {
+        lines.push('', `Documentation: ${rule.help_uri}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Format alerts as a task-oriented prompt for AI assistants
+ * Each task covers one file (or alert) with the problem, the flagged code, the rule's
+ * remediation guidance, constraints and the expected response shape
+ */
+export function formatAsPrompt(
+  alerts: CodeQLAlert[],
+  repoName: string,
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+  options: PromptOptions = {},
+): string {
+  const tasks = groupTasks(orderAlerts(alerts, metadata.order), options.groupBy ?? 'file');
+  const template = options.template ?? DEFAULT_PROMPT_TEMPLATE;
+  const lines: string[] = [];
+
+  lines.push('# Fix CodeQL Security Alerts');
+  lines.push('');
+  const scope = metadata.ref ? `${repoName} at \`${metadata.ref}\`` : repoName;
+  lines.push(
+    `You are fixing CodeQL code scanning alerts in ${scope}. Work through the ${tasks.length} task(s) below in order. Each task lists the problem, the flagged code, guidance for the rule and the shape your answer should take.`,
+  );
+  if (metadata.host) {
+    lines.push('');
+    lines.push(`**Host:** ${metadata.host}`);
+  }
+  lines.push('');
+
+  tasks.forEach((task, index) => {
+    const [first] = task;
+    const summary =
+      task.length === 1
+        ? `Fix ${first.rule.name} (${formatAlertLabel(first)})`
+        : `Fix ${task.length} alerts in \`${first.most_recent_instance.location.path}\``;
+
+    lines.push('---');
+    lines.push('');
+    lines.push(
+      renderTemplate(template, {
+        task: String(index + 1),
+        total: String(tasks.length),
+        summary,
+        repository: first.repository?.full_name ?? repoName,
+        file: first.most_recent_instance.location.path,
+        alerts: task.map(formatAlertLabel).join(', '),
+        problems: formatProblems(task, detailLevel),
+        code: formatCode(task),
+        guidance: formatGuidance(rulesForAlerts(task, metadata.rules)),
+      }).trimEnd(),
+    );
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,189 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { CodeQLAlert } from '../lib/codeql.js';
+import type { DetailLevel, ReportMetadata } from '../lib/types.js';
+import { type CSVOptions, formatAsCSV } from './csv.js';
+import { formatAsHTML } from './html.js';
+import { formatAsJSON, formatAsJSONLines } from './json.js';
+import { formatAsJUnit, type JUnitOptions } from './junit.js';
+import { formatAsMarkdown } from './markdown.js';
+import { formatAsPrompt, type PromptOptions } from './prompt.js';
+import { formatAsSARIF } from './sarif.js';
+import { formatAsText } from './text.js';
+
+/**
+ * Everything a formatter renders a report from besides its alerts
+ */
+export interface FormatContext {
+  /** Report title: the repository, the repositories or the organization */
+  repoName: string;
+  detail: DetailLevel;
+  metadata: ReportMetadata;
+  /** Options of the built-in prompt, csv and junit formats */
+  prompt?: PromptOptions;
+  csv?: CSVOptions;
+  junit?: JUnitOptions;
+  /** Report template of the built-in md and txt formats */
+  template?: string;
+}
+
+/**
+ * A report format, selected by name with `--format`
+ */
+export interface Formatter {
+  name: string;
+  /** Extension of default output files without the dot, e.g. `md` or `junit.xml` */
+  extension: string;
+  /** Detail levels the format can render */
+  detailLevels: DetailLevel[];
+  format(alerts: CodeQLAlert[], context: FormatContext): string;
+}
+
+const ALL_DETAIL_LEVELS: DetailLevel[] = ['minimum', 'medium', 'full', 'raw'];
+
+const BUILTIN_FORMATTERS: Formatter[] = [
+  {
+    name: 'json',
+    extension: 'json',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { detail, metadata }) => formatAsJSON(alerts, detail, metadata),
+  },
+  {
+    name: 'sarif',
+    extension: 'sarif',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { repoName, detail, metadata }) =>
+      formatAsSARIF(alerts, repoName, detail, metadata),
+  },
+  {
+    name: 'txt',
+    extension: 'txt',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { repoName, detail, metadata, template }) =>
+      formatAsText(alerts, detail, metadata, { repoName, template }),
+  },
+  {
+    name: 'md',
+    extension: 'md',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { repoName, detail, metadata, template }) =>
+      formatAsMarkdown(alerts, repoName, detail, metadata, { template }),
+  },
+  {
+    name: 'prompt',
+    extension: 'prompt.md',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { repoName, detail, metadata, prompt }) =>
+      formatAsPrompt(alerts, repoName, detail, metadata, prompt),
+  },
+  {
+    name: 'html',
+    extension: 'html',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { repoName, detail, metadata }) =>
+      formatAsHTML(alerts, repoName, detail, metadata),
+  },
+  {
+    name: 'csv',
+    extension: 'csv',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { detail, metadata, csv }) => formatAsCSV(alerts, detail, metadata, csv),
+  },
+  {
+    name: 'jsonl',
+    extension: 'jsonl',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { detail, metadata }) => formatAsJSONLines(alerts, detail, metadata),
+  },
+  {
+    name: 'junit',
+    extension: 'junit.xml',
+    detailLevels: ALL_DETAIL_LEVELS,
+    format: (alerts, { repoName, detail, metadata, junit }) =>
+      formatAsJUnit(alerts, repoName, detail, metadata, junit),
+  },
+];
+
+const formatters = new Map<string, Formatter>();
+
+function isFormatter(value: unknown): value is Formatter {
+  const formatter = value as Partial<Formatter> | null;
+  return (
+    typeof formatter?.name === 'string' &&
+    formatter.name !== '' &&
+    typeof formatter.extension === 'string' &&
+    formatter.extension !== '' &&
+    Array.isArray(formatter.detailLevels) &&
+    formatter.detailLevels.length > 0 &&
+    formatter.detailLevels.every((level) => ALL_DETAIL_LEVELS.includes(level)) &&
+    typeof formatter.format === 'function'
+  );
+}
+
+/**
+ * Add a format, its name must not be taken by another formatter
+ * Registering the same formatter again is a no-op, e.g. when its module is loaded twice
+ */
+export function registerFormatter(formatter: Formatter): void {
+  if (!isFormatter(formatter)) {
+    throw new Error(
+      'Invalid formatter: expected a name, an extension, detail levels (minimum, medium, full, raw) and a format function',
+    );
+  }
+  const registered = formatters.get(formatter.name);
+  if (registered && registered !== formatter) {
+    throw new Error(`Format ${formatter.name} is already registered`);
+  }
+  formatters.set(formatter.name, formatter);
+}
+
+/**
+ * Registered formatters, the built-in ones first
+ */
+export function listFormatters(): Formatter[] {
+  return [...formatters.values()];
+}
+
+/**
+ * Look up the formatter of a format, checking it renders the detail level when one is given
+ */
+export function getFormatter(name: string, detail?: DetailLevel): Formatter {
+  const formatter = formatters.get(name);
+  if (!formatter) {
+    throw new Error(`Unknown format ${name}, available: ${[...formatters.keys()].join(', ')}`);
+  }
+  if (detail && !formatter.detailLevels.includes(detail)) {
+    throw new Error(
+      `Format ${name} does not support the ${detail} detail level, only ${formatter.detailLevels.join(', ')}`,
+    );
+  }
+  return formatter;
+}
+
+/**
+ * Import a local module and register its formatters
+ * The module's default export is a formatter or a list of formatters
+ */
+export async function loadFormatterModule(path: string): Promise<Formatter[]> {
+  let module: { default?: unknown };
+  try {
+    module = await import(pathToFileURL(resolve(path)).href);
+  } catch (error) {
+    throw new Error(`Could not load formatter module ${path}: ${(error as Error).message}`);
+  }
+
+  const exported = Array.isArray(module.default) ? module.default : [module.default];
+  if (exported.length === 0 || !exported.every(isFormatter)) {
+    throw new Error(
+      `Invalid formatter module ${path}: the default export must be a formatter or a list of formatters with a name, an extension, detail levels (minimum, medium, full, raw) and a format function`,
+    );
+  }
+  for (const formatter of exported) {
+    registerFormatter(formatter);
+  }
+  return exported;
+}
+
+for (const formatter of BUILTIN_FORMATTERS) {
+  registerFormatter(formatter);
+}
@@ -1,11 +1,29 @@
-import { SarifBuilder, SarifResultBuilder, SarifRunBuilder } from 'node-sarif-builder';
+import {
+  SarifBuilder,
+  SarifResultBuilder,
+  SarifRuleBuilder,
+  SarifRunBuilder,
+} from 'node-sarif-builder';
+import type { FlowLocation } from '../lib/codeflows.js';
 import type { CodeQLAlert } from '../lib/codeql.js';
+import type { AlertDiff } from '../lib/diff.js';
+import { DEFAULT_HOST } from '../lib/hosts.js';
+import { orderAlerts } from '../lib/ordering.js';
+import {
+  collectRules,
+  cweIds,
+  type RuleInfo,
+  rulesForAlerts,
+  securitySeverityScore,
+} from '../lib/rules.js';
 import {
   type DetailLevel,
   type FullAlert,
   filterAlertByDetail,
+  groupByRepository,
   type MediumAlert,
   type MinimumAlert,
+  type ReportMetadata,
 } from '../lib/types.js';
 
 /**
@@ -13,16 +31,91 @@ import {
  */
 export function formatAsSARIF(
   alerts: CodeQLAlert[],
-  _repoName: string,
+  repoName: string,
   detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
 ): string {
   // For raw format, return alerts as JSON (SARIF doesn't make sense for raw)
   if (detailLevel === 'raw') {
-    return JSON.stringify(alerts, null, 2);
+    return JSON.stringify(orderAlerts(alerts, metadata.order), null, 2);
   }
 
   const sarifBuilder = new SarifBuilder();
+  // Organization and multi-repository reports get one run per repository
+  const groups = metadata.repositories
+    ? groupByRepository(alerts, metadata.repositories)
+    : [{ name: repoName, alerts }];
+  const rules = metadata.rules ?? collectRules(alerts);
+
+  for (const group of groups) {
+    const runBuilder = createRunBuilder(
+      group.alerts,
+      detailLevel,
+      rulesForAlerts(group.alerts, rules),
+    );
+
+    // Record which repository and ref the results belong to, e.g. a branch or pull request
+    // merge ref
+    if (metadata.ref || metadata.repositories) {
+      runBuilder.run.versionControlProvenance = [
+        {
+          repositoryUri: `https://${metadata.host ?? DEFAULT_HOST}/${group.name}`,
+          ...(metadata.ref && { branch: metadata.ref }),
+        },
+      ];
+    }
+
+    for (const alert of orderAlerts(group.alerts, metadata.order)) {
+      runBuilder.addResult(buildResult(alert, detailLevel));
+    }
+
+    sarifBuilder.addRun(runBuilder);
+  }
+
+  // buildSarifJsonString returns a JSON string
+  return sarifBuilder.buildSarifJsonString();
+}
+
+type BaselineState = 'new' | 'unchanged' | 'updated' | 'absent';
+
+/**
+ * Format a comparison of two alert sets as SARIF, using `baselineState` to mark
+ * new, absent (fixed), unchanged and updated (moved) results
+ */
+export function formatDiffAsSARIF(diff: AlertDiff, detailLevel: DetailLevel = 'medium'): string {
+  // For raw format, return the diff as JSON (SARIF doesn't make sense for raw)
+  if (detailLevel === 'raw') {
+    return JSON.stringify(diff, null, 2);
+  }
+
+  const sarifBuilder = new SarifBuilder();
+  const alerts = [...diff.new, ...diff.unchanged.map((match) => match.head), ...diff.fixed];
+  const runBuilder = createRunBuilder(alerts, detailLevel, collectRules(alerts));
+
+  const results: Array<[CodeQLAlert, BaselineState]> = [
+    ...diff.new.map((alert): [CodeQLAlert, BaselineState] => [alert, 'new']),
+    ...diff.unchanged.map((match): [CodeQLAlert, BaselineState] => [
+      match.head,
+      match.moved ? 'updated' : 'unchanged',
+    ]),
+    ...diff.fixed.map((alert): [CodeQLAlert, BaselineState] => [alert, 'absent']),
+  ];
+
+  for (const [alert, baselineState] of results) {
+    const result = buildResult(alert, detailLevel);
+    result.result.baselineState = baselineState;
+    runBuilder.addResult(result);
+  }
+
+  sarifBuilder.addRun(runBuilder);
+  return sarifBuilder.buildSarifJsonString();
+}
 
+function createRunBuilder(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel,
+  rules: RuleInfo[],
+): SarifRunBuilder {
   // Tool version only available in full mode
   let toolVersion = '1.0.0';
   if (detailLevel === 'full' && alerts.length > 0) {
@@ -38,31 +131,98 @@ export function formatAsSARIF(
     toolDriverVersion: toolVersion,
   });
 
-  for (const alert of alerts) {
-    const filtered = filterAlertByDetail(alert, detailLevel);
-    // Type assertion: we know filtered is a flattened alert type (not raw, checked above)
-    const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
-    const result = new SarifResultBuilder();
-
-    // SARIF requires certain minimum fields
-    // For minimum level, we use line numbers but set column to 1 if not available
-    const startColumn = 'start_column' in flatAlert ? flatAlert.start_column : 1;
-
-    result.initSimple({
-      ruleId: flatAlert.rule_id,
-      level: mapSeverityToLevel(flatAlert.severity),
-      messageText: flatAlert.message,
-      fileUri: flatAlert.file_path,
-      startLine: flatAlert.start_line,
-      startColumn,
-    });
+  for (const rule of rules) {
+    runBuilder.addRule(buildRule(rule, detailLevel));
+  }
 
-    runBuilder.addResult(result);
+  return runBuilder;
+}
+
+/**
+ * Describe a rule once in `tool.driver.rules`, help and documentation only in full
+ */
+function buildRule(rule: RuleInfo, detailLevel: DetailLevel): SarifRuleBuilder {
+  const full = detailLevel === 'full';
+  const builder = new SarifRuleBuilder().initSimple({
+    ruleId: rule.id,
+    shortDescriptionText: rule.description || rule.name,
+    ...(full && rule.full_description && { fullDescriptionText: rule.full_description }),
+    ...(full && rule.help_uri && { helpUri: rule.help_uri }),
+  });
+
+  builder.rule.name = rule.name;
+  builder.rule.defaultConfiguration = { level: mapSeverityToLevel(rule.severity) };
+
+  if (full && rule.help) {
+    builder.rule.help = { text: rule.help, markdown: rule.help };
   }
 
-  sarifBuilder.addRun(runBuilder);
-  // buildSarifJsonString returns a JSON string
-  return sarifBuilder.buildSarifJsonString();
+  const cwes = cweIds(rule.tags);
+  // GitHub code scanning reads the security severity of a rule from this property
+  const score = rule.security_severity_level && securitySeverityScore(rule.security_severity_level);
+  if (rule.tags?.length || cwes.length > 0 || score) {
+    builder.rule.properties = {
+      ...(rule.tags?.length && { tags: rule.tags }),
+      ...(cwes.length > 0 && { cwe: cwes }),
+      ...(score && { 'security-severity': score }),
+    };
+  }
+
+  return builder;
+}
+
+function buildResult(alert: CodeQLAlert, detailLevel: DetailLevel): SarifResultBuilder {
+  const filtered = filterAlertByDetail(alert, detailLevel);
+  // Type assertion: we know filtered is a flattened alert type (callers handle raw)
+  const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
+  const result = new SarifResultBuilder();
+
+  // SARIF requires certain minimum fields
+  // For minimum level, we use line numbers but set column to 1 if not available
+  const startColumn = 'start_column' in flatAlert ? flatAlert.start_column : 1;
+
+  result.initSimple({
+    ruleId: flatAlert.rule_id,
+    level: mapSeverityToLevel(flatAlert.severity),
+    messageText: flatAlert.message,
+    fileUri: flatAlert.file_path,
+    startLine: flatAlert.start_line,
+    startColumn,
+  });
+
+  // Keep the alert number so saved SARIF reports can be matched back to alerts
+  result.result.properties = { alertNumber: flatAlert.number };
+
+  // Code flows and related locations only in full
+  if ('code_flows' in flatAlert && flatAlert.code_flows) {
+    result.result.codeFlows = flatAlert.code_flows.map((flow) => ({
+      threadFlows: [{ locations: flow.map((step) => ({ location: toSarifLocation(step) })) }],
+    }));
+  }
+
+  if ('related_locations' in flatAlert && flatAlert.related_locations) {
+    result.result.relatedLocations = flatAlert.related_locations.map((location, index) => ({
+      id: index + 1,
+      ...toSarifLocation(location),
+    }));
+  }
+
+  return result;
+}
+
+function toSarifLocation(location: FlowLocation) {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: location.path },
+      region: {
+        startLine: location.start_line,
+        endLine: location.end_line,
+        startColumn: location.start_column,
+        endColumn: location.end_column,
+      },
+    },
+    ...(location.message && { message: { text: location.message } }),
+  };
 }
 
 function mapSeverityToLevel(severity: string): 'error' | 'warning' | 'note' {
@@ -0,0 +1,123 @@
+import type { CodeQLAlert } from '../lib/codeql.js';
+import { orderAlerts } from '../lib/ordering.js';
+import { renderTemplate, type TemplateValues, validateTemplate } from '../lib/templates.js';
+import {
+  countBySeverity,
+  type DetailLevel,
+  type FullAlert,
+  filterAlertByDetail,
+  type ReportMetadata,
+} from '../lib/types.js';
+import { CSV_COLUMNS } from './csv.js';
+
+export interface TemplateOptions {
+  /** Report template with `{{placeholder}}`s and an `{{#alerts}}` section, defaults to the built-in layout */
+  template?: string;
+}
+
+/**
+ * Parts of the built-in layout, as lines
+ */
+export interface LayoutBlocks {
+  /** Report details: repository, ref, counts, detail level */
+  header: string[];
+  /** Summary tables or counts */
+  summary: string[];
+  /** Alert sections, per repository in organization and multi-repository reports */
+  details: string[];
+  /** Rules appendix, empty without one */
+  rules: string[];
+}
+
+/**
+ * Report-level placeholders besides the `{{#alerts}}` section
+ */
+const REPORT_PLACEHOLDERS = [
+  'repository',
+  'organization',
+  'host',
+  'ref',
+  'detail',
+  'generated',
+  'total',
+  'errors',
+  'warnings',
+  'notes',
+  'suppressed',
+  'header',
+  'summary',
+  'details',
+  'rules',
+] as const;
+
+/**
+ * Render a flattened field, lists are joined with `, ` and missing fields are empty
+ */
+function formatField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Fields of an alert for the `{{#alerts}}` section, the CSV columns
+ * Like selected CSV columns, they are filled from the full flattened alert at every detail level
+ */
+function alertFields(alert: CodeQLAlert): TemplateValues {
+  const fields: Record<string, unknown> = {
+    repository: alert.repository?.full_name,
+    ...(filterAlertByDetail(alert, 'full') as FullAlert),
+  };
+  return Object.fromEntries(CSV_COLUMNS.map((column) => [column, formatField(fields[column])]));
+}
+
+/**
+ * Join the lines of a block, leaving the blank lines after it to the template
+ */
+function joinBlock(lines: string[]): string {
+  return lines.join('\n').replace(/\n+$/, '');
+}
+
+/**
+ * Render a report template with the report's metadata, severity counts, the parts of the
+ * built-in layout and the alerts in report order
+ */
+export function renderReportTemplate(
+  template: string,
+  alerts: CodeQLAlert[],
+  repoName: string,
+  detailLevel: DetailLevel,
+  metadata: ReportMetadata,
+  blocks: LayoutBlocks,
+): string {
+  const counts = countBySeverity(alerts);
+  return renderTemplate(template, {
+    repository: repoName,
+    organization: metadata.organization ?? '',
+    host: metadata.host ?? '',
+    ref: metadata.ref ?? '',
+    detail: detailLevel,
+    generated: new Date().toISOString(),
+    total: alerts.length.toString(),
+    errors: (counts.error ?? 0).toString(),
+    warnings: (counts.warning ?? 0).toString(),
+    notes: (counts.note ?? 0).toString(),
+    suppressed: metadata.suppressed?.toString() ?? '',
+    header: joinBlock(blocks.header),
+    summary: joinBlock(blocks.summary),
+    details: joinBlock(blocks.details),
+    rules: joinBlock(blocks.rules),
+    alerts: orderAlerts(alerts, metadata.order).map(alertFields),
+  });
+}
+
+/**
+ * Check a user report template for unknown placeholders before any alerts are fetched
+ */
+export function validateReportTemplate(template: string): void {
+  validateTemplate(template, {
+    ...Object.fromEntries(REPORT_PLACEHOLDERS.map((name) => [name, ''])),
+    alerts: [Object.fromEntries(CSV_COLUMNS.map((column) => [column, '']))],
+  });
+}
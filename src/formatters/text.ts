@@ -1,71 +1,413 @@
+import { chunkSourceFiles, type ReportChunk } from '../lib/chunks.js';
+import { type FlowLocation, formatFlowLocation } from '../lib/codeflows.js';
 import type { CodeQLAlert } from '../lib/codeql.js';
+import type { AlertDiff } from '../lib/diff.js';
+import { severityRank } from '../lib/filters.js';
+import { GROUP_LABELS, groupAlerts, type OrderOptions } from '../lib/ordering.js';
+import { cweIds, type RuleInfo, rulesForAlerts } from '../lib/rules.js';
+import { describeSnippetStatus, formatSnippetLines } from '../lib/snippets.js';
 import {
+  countBySecuritySeverity,
+  countBySeverity,
   type DetailLevel,
+  type DiffMetadata,
   type FullAlert,
   filterAlertByDetail,
+  formatAlertHeading,
+  groupByRepository,
   type MediumAlert,
   type MinimumAlert,
+  type ReportMetadata,
 } from '../lib/types.js';
+import { renderReportTemplate, type TemplateOptions } from './template.js';
 
 /**
- * Format alerts as plain text
+ * Render locations as an indented numbered list, e.g. the steps of a code flow
+ */
+function formatLocationList(locations: FlowLocation[]): string[] {
+  return locations.map((location, index) => {
+    const message = location.message ? ` - ${location.message}` : '';
+    return `  ${index + 1}. ${formatFlowLocation(location)}${message}`;
+  });
+}
+
+/**
+ * Render a single alert block
+ * `previous` is the base version of an alert that moved in a diff
  */
-export function formatAsText(alerts: CodeQLAlert[], detailLevel: DetailLevel = 'medium'): string {
+function formatAlert(
+  alert: CodeQLAlert,
+  detailLevel: DetailLevel,
+  previous?: CodeQLAlert,
+): string[] {
   const lines: string[] = [];
+  const filtered = filterAlertByDetail(alert, detailLevel);
 
-  lines.push(`CodeQL Security Scan Report`);
-  lines.push(`Total Alerts: ${alerts.length}`);
-  lines.push(`Detail Level: ${detailLevel}`);
-  lines.push(`${'='.repeat(80)}\n`);
+  // Handle raw format - return original JSON-like structure
+  if (detailLevel === 'raw') {
+    lines.push(JSON.stringify(filtered, null, 2));
+    lines.push(`${'-'.repeat(80)}\n`);
+    return lines;
+  }
 
-  for (const alert of alerts) {
-    const filtered = filterAlertByDetail(alert, detailLevel);
+  // Type assertion: after raw check, we know filtered is a flattened alert type
+  const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
 
-    // Handle raw format - return original JSON-like structure
-    if (detailLevel === 'raw') {
-      lines.push(JSON.stringify(filtered, null, 2));
-      lines.push(`${'-'.repeat(80)}\n`);
-      continue;
-    }
+  lines.push(formatAlertHeading(flatAlert));
+  lines.push(`Rule: ${flatAlert.rule_id}`);
+  lines.push(`Name: ${flatAlert.rule_name}`);
+  lines.push(`Severity: ${flatAlert.severity}`);
+
+  // Security severity, description and CWE ids only in medium and full
+  if ('security_severity' in flatAlert) {
+    lines.push(`Security Severity: ${flatAlert.security_severity}`);
+  }
+
+  if ('rule_description' in flatAlert) {
+    lines.push(`Description: ${flatAlert.rule_description}`);
+  }
 
-    // Type assertion: after raw check, we know filtered is a flattened alert type
-    const flatAlert = filtered as MinimumAlert | MediumAlert | FullAlert;
+  if ('cwe_ids' in flatAlert && flatAlert.cwe_ids) {
+    lines.push(`CWE: ${flatAlert.cwe_ids.join(', ')}`);
+  }
+
+  lines.push('');
+  lines.push('Location:');
+  lines.push(`  File: ${flatAlert.file_path}`);
+  lines.push(`  Lines: ${flatAlert.start_line}-${flatAlert.end_line}`);
+
+  // Columns only in medium and full
+  if ('start_column' in flatAlert) {
+    lines.push(`  Columns: ${flatAlert.start_column}-${flatAlert.end_column}`);
+  }
 
-    lines.push(`Alert #${flatAlert.number}`);
-    lines.push(`Rule: ${flatAlert.rule_id}`);
-    lines.push(`Name: ${flatAlert.rule_name}`);
-    lines.push(`Severity: ${flatAlert.severity}`);
+  if (previous) {
+    const from = previous.most_recent_instance.location;
+    lines.push(`  Moved from: ${from.path}:${from.start_line}`);
+  }
 
-    // Description only in medium and full
-    if ('rule_description' in flatAlert) {
-      lines.push(`Description: ${flatAlert.rule_description}`);
+  if (flatAlert.snippet) {
+    lines.push('');
+    lines.push('Code:');
+    const warning = describeSnippetStatus(flatAlert.snippet, flatAlert.commit_sha);
+    if (warning) {
+      lines.push(`  WARNING: ${warning}`);
     }
+    const snippetLines = formatSnippetLines(
+      flatAlert.snippet,
+      flatAlert.start_line,
+      flatAlert.end_line,
+    );
+    for (const line of snippetLines.split('\n')) {
+      lines.push(`  ${line}`);
+    }
+  }
 
+  lines.push('');
+  lines.push('Message:');
+  lines.push(`  ${flatAlert.message}`);
+
+  // Code flows and related locations only in full
+  if ('code_flows' in flatAlert && flatAlert.code_flows) {
+    const flows = flatAlert.code_flows;
+    flows.forEach((flow, index) => {
+      lines.push('');
+      lines.push(flows.length > 1 ? `Code Flow ${index + 1}/${flows.length}:` : 'Code Flow:');
+      lines.push(...formatLocationList(flow));
+    });
+  }
+
+  if ('related_locations' in flatAlert && flatAlert.related_locations) {
     lines.push('');
-    lines.push('Location:');
-    lines.push(`  File: ${flatAlert.file_path}`);
-    lines.push(`  Lines: ${flatAlert.start_line}-${flatAlert.end_line}`);
+    lines.push('Related Locations:');
+    lines.push(...formatLocationList(flatAlert.related_locations));
+  }
+
+  // Commit is now in all levels
+  lines.push('');
+  lines.push(`Commit: ${flatAlert.commit_sha}`);
+
+  // State only in medium and full
+  if ('state' in flatAlert) {
+    lines.push(`State: ${flatAlert.state}`);
+  }
 
-    // Columns only in medium and full
-    if ('start_column' in flatAlert) {
-      lines.push(`  Columns: ${flatAlert.start_column}-${flatAlert.end_column}`);
+  lines.push(`${'-'.repeat(80)}\n`);
+
+  return lines;
+}
+
+/**
+ * Render alerts in report order, with a heading and count per section when grouped
+ */
+function formatAlertSections(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel,
+  order: OrderOptions = {},
+): string[] {
+  const lines: string[] = [];
+  const groupBy = order.groupBy ?? 'none';
+
+  for (const group of groupAlerts(alerts, order)) {
+    if (groupBy !== 'none') {
+      lines.push(`${GROUP_LABELS[groupBy].toUpperCase()}: ${group.name} (${group.alerts.length})`);
+      lines.push(`${'-'.repeat(80)}\n`);
     }
 
-    lines.push('');
-    lines.push('Message:');
-    lines.push(`  ${flatAlert.message}`);
+    for (const alert of group.alerts) {
+      lines.push(...formatAlert(alert, detailLevel));
+    }
+  }
 
-    // Commit is now in all levels
-    lines.push('');
-    lines.push(`Commit: ${flatAlert.commit_sha}`);
+  return lines;
+}
 
-    // State only in medium and full
-    if ('state' in flatAlert) {
-      lines.push(`State: ${flatAlert.state}`);
+/**
+ * Summarize alert counts, e.g. `3 (error: 1, warning: 2)`
+ */
+function formatCounts(alerts: CodeQLAlert[]): string {
+  const severities = Object.entries(countBySeverity(alerts))
+    .sort(([a], [b]) => severityRank(b) - severityRank(a))
+    .map(([severity, count]) => `${severity}: ${count}`);
+  return severities.length > 0 ? `${alerts.length} (${severities.join(', ')})` : '0';
+}
+
+/**
+ * Render the rules appendix, each rule once with its help in full detail
+ */
+function formatRules(rules: RuleInfo[], detailLevel: DetailLevel): string[] {
+  const lines: string[] = [];
+
+  lines.push(`RULES (${rules.length})`);
+  lines.push(`${'='.repeat(80)}\n`);
+
+  for (const rule of rules) {
+    lines.push(`${rule.id}: ${rule.name}`);
+    lines.push(`Severity: ${rule.severity}`);
+    if (rule.security_severity_level) {
+      lines.push(`Security Severity: ${rule.security_severity_level}`);
+    }
+    lines.push(`Description: ${rule.description}`);
+    if (rule.tags?.length) {
+      lines.push(`Tags: ${rule.tags.join(', ')}`);
+    }
+    const cwes = cweIds(rule.tags);
+    if (cwes.length > 0) {
+      lines.push(`CWE: ${cwes.join(', ')}`);
+    }
+
+    if (detailLevel === 'full') {
+      if (rule.help_uri) {
+        lines.push(`Documentation: ${rule.help_uri}`);
+      }
+      if (rule.help) {
+        lines.push('');
+        lines.push('Help:');
+        const helpLines = rule.help.trim().split('\n');
+        lines.push(...helpLines.map((line) => (line ? `  ${line}` : '')));
+      }
     }
 
     lines.push(`${'-'.repeat(80)}\n`);
   }
 
+  return lines;
+}
+
+/**
+ * Template reproducing the built-in text layout, `{{#summary}}` only shows in multi-repository reports
+ */
+export const DEFAULT_TEXT_TEMPLATE = `CodeQL Security Scan Report
+{{header}}
+================================================================================
+{{#summary}}
+
+{{summary}}
+================================================================================
+{{/summary}}
+{{#details}}
+
+{{details}}
+{{/details}}
+{{#rules}}
+
+{{rules}}
+{{/rules}}
+`;
+
+export interface TextOptions extends TemplateOptions {
+  /** Repository of the `{{repository}}` placeholder, the text layout itself does not show it */
+  repoName?: string;
+}
+
+/**
+ * Format alerts as plain text
+ */
+export function formatAsText(
+  alerts: CodeQLAlert[],
+  detailLevel: DetailLevel = 'medium',
+  metadata: ReportMetadata = {},
+  options: TextOptions = {},
+): string {
+  const groups = metadata.repositories && groupByRepository(alerts, metadata.repositories);
+  // The rules appendix carries descriptions and help, minimum detail leaves them out
+  const rules =
+    detailLevel === 'medium' || detailLevel === 'full'
+      ? rulesForAlerts(alerts, metadata.rules)
+      : [];
+
+  const header: string[] = [];
+  if (metadata.host) {
+    header.push(`Host: ${metadata.host}`);
+  }
+  if (metadata.organization) {
+    header.push(`Organization: ${metadata.organization}`);
+  }
+  if (groups) {
+    header.push(`Repositories: ${groups.length}`);
+  }
+  if (metadata.ref) {
+    header.push(`Ref: ${metadata.ref}`);
+  }
+  header.push(`Total Alerts: ${alerts.length}`);
+  if (metadata.suppressed !== undefined) {
+    header.push(`Suppressed: ${metadata.suppressed} alert(s) listed in the baseline file`);
+  }
+  const securityCounts = Object.entries(countBySecuritySeverity(alerts));
+  if (securityCounts.length > 0) {
+    const counts = securityCounts.map(([level, count]) => `${level}: ${count}`);
+    header.push(`Security Severity: ${counts.join(', ')}`);
+  }
+  if (metadata.chunk) {
+    const { index, total, totalAlerts } = metadata.chunk;
+    header.push(`Chunk: ${index} of ${total} (${alerts.length} of ${totalAlerts} alerts)`);
+  }
+  header.push(`Detail Level: ${detailLevel}`);
+  if (metadata.failedAlerts?.length) {
+    const failed = metadata.failedAlerts.map((n) => `#${n}`).join(', ');
+    header.push(`Incomplete: details could not be fetched for alert(s) ${failed}`);
+  }
+  const summary: string[] = [];
+  const details: string[] = [];
+  if (groups) {
+    summary.push('Summary by Repository:');
+    for (const group of groups) {
+      summary.push(`  ${group.name}: ${formatCounts(group.alerts)}`);
+    }
+    summary.push(`  Total: ${formatCounts(alerts)}`);
+
+    for (const group of groups) {
+      details.push(`REPOSITORY: ${group.name} (${group.alerts.length})`);
+      if (group.failedAlerts?.length) {
+        const failed = group.failedAlerts.map((n) => `#${n}`).join(', ');
+        details.push(`Incomplete: details could not be fetched for alert(s) ${failed}`);
+      }
+      details.push(`${'='.repeat(80)}\n`);
+
+      details.push(...formatAlertSections(group.alerts, detailLevel, metadata.order));
+    }
+  } else {
+    details.push(...formatAlertSections(alerts, detailLevel, metadata.order));
+  }
+
+  return renderReportTemplate(
+    options.template ?? DEFAULT_TEXT_TEMPLATE,
+    alerts,
+    options.repoName ?? '',
+    detailLevel,
+    metadata,
+    { header, summary, details, rules: rules.length > 0 ? formatRules(rules, detailLevel) : [] },
+  );
+}
+
+/**
+ * Format the index of a report split into chunks with `--max-tokens`
+ */
+export function formatChunkIndexAsText(
+  chunks: ReportChunk[],
+  detailLevel: DetailLevel,
+  maxTokens: number,
+  metadata: ReportMetadata = {},
+): string {
+  const lines: string[] = [];
+  const totalAlerts = chunks.reduce((sum, chunk) => sum + chunk.alerts.length, 0);
+
+  lines.push(`CodeQL Security Scan Report Index`);
+  if (metadata.host) {
+    lines.push(`Host: ${metadata.host}`);
+  }
+  if (metadata.organization) {
+    lines.push(`Organization: ${metadata.organization}`);
+  }
+  if (metadata.repositories) {
+    lines.push(`Repositories: ${metadata.repositories.length}`);
+  }
+  if (metadata.ref) {
+    lines.push(`Ref: ${metadata.ref}`);
+  }
+  lines.push(`Total Alerts: ${totalAlerts}`);
+  if (metadata.suppressed !== undefined) {
+    lines.push(`Suppressed: ${metadata.suppressed} alert(s) listed in the baseline file`);
+  }
+  lines.push(`Chunks: ${chunks.length} (up to ${maxTokens} estimated tokens each)`);
+  lines.push(`Detail Level: ${detailLevel}`);
+  lines.push(`${'='.repeat(80)}\n`);
+
+  chunks.forEach((chunk, index) => {
+    const overBudget = chunk.tokens > maxTokens ? ', over budget' : '';
+    lines.push(
+      `${index + 1}. ${chunk.file} - ${chunk.alerts.length} alert(s), ~${chunk.tokens} tokens${overBudget}`,
+    );
+    lines.push(`   Files: ${chunkSourceFiles(chunk.alerts).join(', ')}`);
+  });
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a comparison of two alert sets as plain text with new/fixed/unchanged sections
+ */
+export function formatDiffAsText(
+  diff: AlertDiff,
+  detailLevel: DetailLevel = 'medium',
+  metadata: DiffMetadata = { base: 'base', head: 'head' },
+): string {
+  const lines: string[] = [];
+  const moved = diff.unchanged.filter((match) => match.moved).length;
+
+  lines.push(`CodeQL Alert Diff`);
+  if (metadata.host) {
+    lines.push(`Host: ${metadata.host}`);
+  }
+  if (metadata.repoName) {
+    lines.push(`Repository: ${metadata.repoName}`);
+  }
+  lines.push(`Base: ${metadata.base}`);
+  lines.push(`Head: ${metadata.head}`);
+  lines.push(`Detail Level: ${detailLevel}`);
+  lines.push(`New: ${diff.new.length}`);
+  lines.push(`Fixed: ${diff.fixed.length}`);
+  lines.push(`Unchanged: ${diff.unchanged.length}${moved > 0 ? ` (${moved} moved)` : ''}`);
+  lines.push(`${'='.repeat(80)}\n`);
+
+  const sections: Array<[string, Array<[CodeQLAlert, CodeQLAlert?]>]> = [
+    ['NEW ALERTS', diff.new.map((alert) => [alert])],
+    ['FIXED ALERTS', diff.fixed.map((alert) => [alert])],
+    [
+      'UNCHANGED ALERTS',
+      diff.unchanged.map((match) => [match.head, match.moved ? match.base : undefined]),
+    ],
+  ];
+
+  for (const [title, entries] of sections) {
+    lines.push(`${title} (${entries.length})`);
+    lines.push(`${'='.repeat(80)}\n`);
+
+    for (const [alert, previous] of entries) {
+      lines.push(...formatAlert(alert, detailLevel, previous));
+    }
+  }
+
   return lines.join('\n');
 }
@@ -0,0 +1,55 @@
+export {
+  type AlertCollection,
+  type AlertUpdateOptions,
+  type AlertUpdateResult,
+  type CollectOptions,
+  collectAlerts,
+  collectDiff,
+  DIFF_FORMATS,
+  type DiffCollection,
+  type DiffFormatOptions,
+  type DiffOptions,
+  type DiffReport,
+  type DiffReportOptions,
+  dismissAlerts,
+  type FormatOptions,
+  formatDiff,
+  formatReport,
+  generateDiff,
+  generateReport,
+  type Report,
+  type ReportOptions,
+  reopenAlerts,
+} from './api.js';
+export { CSV_COLUMNS, type CSVOptions, formatAsCSV } from './formatters/csv.js';
+export { formatAsHTML } from './formatters/html.js';
+export { formatAsJSON, formatAsJSONLines } from './formatters/json.js';
+export { formatAsJUnit, type JUnitOptions } from './formatters/junit.js';
+export { DEFAULT_MARKDOWN_TEMPLATE, formatAsMarkdown } from './formatters/markdown.js';
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  formatAsPrompt,
+  type PromptGrouping,
+  type PromptOptions,
+} from './formatters/prompt.js';
+export {
+  type FormatContext,
+  type Formatter,
+  getFormatter,
+  listFormatters,
+  loadFormatterModule,
+  registerFormatter,
+} from './formatters/registry.js';
+export { formatAsSARIF } from './formatters/sarif.js';
+export { type TemplateOptions, validateReportTemplate } from './formatters/template.js';
+export { DEFAULT_TEXT_TEMPLATE, formatAsText, type TextOptions } from './formatters/text.js';
+export type { AlertUpdate, CodeQLAlert, DismissedReason } from './lib/codeql.js';
+export type { AlertDiff, MatchedAlert } from './lib/diff.js';
+export {
+  type AlertFilter,
+  type AlertState,
+  applyAlertFilter,
+  type Severity,
+} from './lib/filters.js';
+export type { AlertGrouping, AlertSorting, OrderOptions } from './lib/ordering.js';
+export type { DetailLevel, DiffMetadata, ReportMetadata } from './lib/types.js';
@@ -1,9 +1,16 @@
-import { execSync } from 'node:child_process';
+import { execFileSync } from 'node:child_process';
+import { DEFAULT_HOST } from './hosts.js';
 
 /**
  * Get GitHub token from GITHUB_TOKEN env var, or fall back to gh CLI
+ * GitHub Enterprise Server hosts use GH_ENTERPRISE_TOKEN / GITHUB_ENTERPRISE_TOKEN like the
+ * gh CLI, falling back to the gh CLI token for that host
  */
-export function getGitHubToken(): string {
+export function getGitHubToken(host: string = DEFAULT_HOST): string {
+  if (host !== DEFAULT_HOST) {
+    return getEnterpriseToken(host);
+  }
+
   // First, try GITHUB_TOKEN environment variable
   const envToken = process.env.GITHUB_TOKEN;
   if (envToken) {
@@ -11,16 +18,40 @@ export function getGitHubToken(): string {
   }
 
   // Fall back to gh CLI
-  try {
-    const token = execSync('gh auth token', { encoding: 'utf-8' }).trim();
-    if (token) {
-      return token;
-    }
-  } catch (_error) {
-    // gh CLI not available or not authenticated
+  const token = getGhCliToken(['auth', 'token']);
+  if (token) {
+    return token;
   }
 
   throw new Error(
     'GitHub token not found. Please set GITHUB_TOKEN environment variable or authenticate with `gh auth login`',
   );
 }
+
+function getEnterpriseToken(host: string): string {
+  const envToken = process.env.GH_ENTERPRISE_TOKEN || process.env.GITHUB_ENTERPRISE_TOKEN;
+  if (envToken) {
+    return envToken;
+  }
+
+  const token = getGhCliToken(['auth', 'token', '--hostname', host]);
+  if (token) {
+    return token;
+  }
+
+  throw new Error(
+    `GitHub token for ${host} not found. Please set GH_ENTERPRISE_TOKEN environment variable or authenticate with \`gh auth login --hostname ${host}\``,
+  );
+}
+
+/**
+ * Run `gh` with arguments rather than through a shell, the host comes from user input
+ */
+function getGhCliToken(args: string[]): string | undefined {
+  try {
+    return execFileSync('gh', args, { encoding: 'utf-8' }).trim() || undefined;
+  } catch (_error) {
+    // gh CLI not available or not authenticated
+    return undefined;
+  }
+}
@@ -0,0 +1,222 @@
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parse, stringify } from 'yaml';
+import type { CodeQLAlert } from './codeql.js';
+import { alertFingerprint } from './diff.js';
+
+/**
+ * Baseline file used by `baseline create` when no path is given
+ */
+export const DEFAULT_BASELINE_FILE = '.codeql-baseline.json';
+
+/**
+ * A known alert left out of reports
+ */
+export interface BaselineEntry {
+  rule_id: string;
+  path: string;
+  /**
+   * Hash of the rule, path and message, and which of the alerts sharing them this is in line
+   * order. Stable when lines shift.
+   */
+  fingerprint: string;
+  /** Why the alert is accepted, e.g. a link to the risk assessment */
+  reason: string;
+  /** Last day (YYYY-MM-DD) the entry suppresses its alert */
+  expires?: string;
+  /** The alert's message when the entry was created, for reviewers */
+  message?: string;
+}
+
+export interface Baseline {
+  version: 1;
+  alerts: BaselineEntry[];
+}
+
+export interface BaselineOptions {
+  reason: string;
+  expires?: string;
+}
+
+export interface BaselineResult {
+  /** Alerts not listed in the baseline */
+  alerts: CodeQLAlert[];
+  /** Number of alerts left out */
+  suppressed: number;
+  /** Entries past their expiry date, which no longer suppress alerts */
+  expired: BaselineEntry[];
+}
+
+/**
+ * Fingerprint of an alert as stored in baseline files
+ * `occurrence` counts the alerts before it with the same rule, path and message, the first one
+ * is hashed without it
+ */
+export function baselineFingerprint(alert: CodeQLAlert, occurrence = 0): string {
+  const key = alertFingerprint(alert) + (occurrence > 0 ? `\0${occurrence}` : '');
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * Baseline fingerprints of alerts, in the order given
+ * Alerts sharing rule, path and message are numbered in line order, so each entry stands for one
+ * alert and another alert with the same message is still reported
+ */
+function fingerprintAlerts(alerts: CodeQLAlert[]): string[] {
+  const byLine = [...alerts.keys()].sort((a, b) => {
+    const from = alerts[a].most_recent_instance.location;
+    const to = alerts[b].most_recent_instance.location;
+    return from.start_line - to.start_line || from.start_column - to.start_column;
+  });
+
+  const seen = new Map<string, number>();
+  const fingerprints: string[] = [];
+  for (const index of byLine) {
+    const key = alertFingerprint(alerts[index]);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    fingerprints[index] = baselineFingerprint(alerts[index], occurrence);
+  }
+  return fingerprints;
+}
+
+function entryKey(entry: Pick<BaselineEntry, 'rule_id' | 'path' | 'fingerprint'>): string {
+  return [entry.rule_id, entry.path, entry.fingerprint].join('\0');
+}
+
+function alertKey(alert: CodeQLAlert, fingerprint: string): string {
+  return entryKey({
+    rule_id: alert.rule.id,
+    path: alert.most_recent_instance.location.path,
+    fingerprint,
+  });
+}
+
+function isDate(value: unknown): boolean {
+  return (
+    typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Check an expiry date, e.g. from `--expires`
+ */
+export function validateExpiry(expires: string): void {
+  if (!isDate(expires)) {
+    throw new Error(`Invalid expiry date ${expires}, expected YYYY-MM-DD`);
+  }
+}
+
+/**
+ * Snapshot alerts as a baseline, one entry per alert
+ * Entries of a previous baseline keep their reason and expiry date
+ */
+export function createBaseline(
+  alerts: CodeQLAlert[],
+  options: BaselineOptions,
+  previous?: Baseline,
+): Baseline {
+  const kept = new Map((previous?.alerts ?? []).map((entry) => [entryKey(entry), entry]));
+  const fingerprints = fingerprintAlerts(alerts);
+
+  const entries = alerts.map((alert, index): BaselineEntry => {
+    const existing = kept.get(alertKey(alert, fingerprints[index]));
+    const expires = existing ? existing.expires : options.expires;
+    return {
+      rule_id: alert.rule.id,
+      path: alert.most_recent_instance.location.path,
+      fingerprint: fingerprints[index],
+      reason: existing?.reason ?? options.reason,
+      ...(expires && { expires }),
+      message: alert.most_recent_instance.message.text,
+    };
+  });
+
+  const sorted = entries.sort(
+    (a, b) => a.path.localeCompare(b.path) || a.rule_id.localeCompare(b.rule_id),
+  );
+  return { version: 1, alerts: sorted };
+}
+
+/**
+ * Check the structure of a parsed baseline file
+ */
+export function parseBaseline(data: unknown, source: string): Baseline {
+  if (
+    typeof data !== 'object' ||
+    data === null ||
+    !('version' in data) ||
+    data.version !== 1 ||
+    !('alerts' in data) ||
+    !Array.isArray(data.alerts)
+  ) {
+    throw new Error(`Invalid baseline file ${source}: expected version 1 and a list of alerts`);
+  }
+
+  data.alerts.forEach((entry: Partial<BaselineEntry> | null, index: number) => {
+    const required = [entry?.rule_id, entry?.path, entry?.fingerprint, entry?.reason];
+    if (!required.every((value) => typeof value === 'string' && value !== '')) {
+      throw new Error(
+        `Invalid baseline file ${source}: alert ${index + 1} needs a rule_id, path, fingerprint and reason`,
+      );
+    }
+    if (entry?.expires !== undefined && !isDate(entry.expires)) {
+      throw new Error(
+        `Invalid baseline file ${source}: alert ${index + 1} expires on ${entry.expires}, expected YYYY-MM-DD`,
+      );
+    }
+  });
+
+  return data as Baseline;
+}
+
+function isYaml(path: string): boolean {
+  return ['.yml', '.yaml'].includes(extname(path).toLowerCase());
+}
+
+/**
+ * Load a JSON or YAML baseline file, by extension
+ */
+export async function loadBaseline(path: string): Promise<Baseline> {
+  const content = await readFile(path, 'utf-8');
+  let data: unknown;
+  try {
+    // YAML parses dates as strings by default, so `expires` stays YYYY-MM-DD
+    data = isYaml(path) ? parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not parse baseline file ${path}: ${(error as Error).message}`);
+  }
+  return parseBaseline(data, path);
+}
+
+/**
+ * Write a baseline as JSON or YAML, by extension
+ */
+export async function saveBaseline(path: string, baseline: Baseline): Promise<void> {
+  const content = isYaml(path) ? stringify(baseline) : `${JSON.stringify(baseline, null, 2)}\n`;
+  await writeFile(path, content, 'utf-8');
+}
+
+/**
+ * Leave out alerts listed in the baseline
+ * Entries expire at the end of their expiry date, `today` is a YYYY-MM-DD date
+ */
+export function applyBaseline(
+  alerts: CodeQLAlert[],
+  baseline: Baseline,
+  today = new Date().toISOString().slice(0, 10),
+): BaselineResult {
+  const expired = baseline.alerts.filter((entry) => entry.expires && entry.expires < today);
+  const active = new Set(
+    baseline.alerts.filter((entry) => !expired.includes(entry)).map((entry) => entryKey(entry)),
+  );
+  const fingerprints = fingerprintAlerts(alerts);
+  const remaining = alerts.filter(
+    (alert, index) => !active.has(alertKey(alert, fingerprints[index])),
+  );
+
+  return { alerts: remaining, suppressed: alerts.length - remaining.length, expired };
+}
@@ -0,0 +1,126 @@
+import { format, parse } from 'node:path';
+import type { CodeQLAlert } from './codeql.js';
+
+/**
+ * A chunk of a report split to fit a token budget, as listed in the chunk index
+ */
+export interface ReportChunk {
+  /** File name of the chunk, relative to the index */
+  file: string;
+  alerts: CodeQLAlert[];
+  /** Estimated tokens of the rendered chunk */
+  tokens: number;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ * Uses roughly four characters per token, which is close to common BPE tokenizers for English
+ * prose and code and errs on the high side for Markdown tables
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Group alerts by a key, in order of first appearance
+ */
+function groupBy(alerts: CodeQLAlert[], key: (alert: CodeQLAlert) => string): CodeQLAlert[][] {
+  const groups = new Map<string, CodeQLAlert[]>();
+
+  for (const alert of alerts) {
+    const name = key(alert);
+    const group = groups.get(name);
+    if (group) {
+      group.push(alert);
+    } else {
+      groups.set(name, [alert]);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Ways to split a group of related alerts that does not fit a chunk, from the loosest
+ * relation to single alerts
+ * Single alerts are split by position, alerts of SARIF files may all have number 0
+ */
+const SPLITTERS: Array<(group: CodeQLAlert[]) => CodeQLAlert[][]> = [
+  (group) => groupBy(group, (alert) => alert.rule.id),
+  (group) => group.map((alert) => [alert]),
+];
+
+/**
+ * Split alerts into chunks whose rendered size fits a token budget
+ * Alerts in the same file stay together, files that do not fit a chunk on their own are
+ * split by rule and then into single alerts. `render` produces a chunk's complete content,
+ * including its header and rules glossary. An alert too large for the budget on its own gets
+ * a chunk of its own.
+ */
+export function chunkAlerts(
+  alerts: CodeQLAlert[],
+  maxTokens: number,
+  render: (alerts: CodeQLAlert[]) => string,
+): CodeQLAlert[][] {
+  const chunks: CodeQLAlert[][] = [];
+  let current: CodeQLAlert[] = [];
+
+  const fits = (candidate: CodeQLAlert[]) => estimateTokens(render(candidate)) <= maxTokens;
+
+  const add = (group: CodeQLAlert[], level: number) => {
+    if (fits([...current, ...group])) {
+      current.push(...group);
+      return;
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+      current = [];
+    }
+
+    if (level >= SPLITTERS.length || fits(group)) {
+      current = [...group];
+      return;
+    }
+
+    for (const part of SPLITTERS[level](group)) {
+      add(part, level + 1);
+    }
+  };
+
+  const files = groupBy(
+    alerts,
+    (alert) => `${alert.repository?.full_name ?? ''}\0${alert.most_recent_instance.location.path}`,
+  );
+  for (const file of files) {
+    add(file, 0);
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Get the distinct source files of a chunk's alerts, prefixed with the repository in grouped
+ * reports
+ */
+export function chunkSourceFiles(alerts: CodeQLAlert[]): string[] {
+  const files = alerts.map((alert) => {
+    const path = alert.most_recent_instance.location.path;
+    return alert.repository ? `${alert.repository.full_name}:${path}` : path;
+  });
+  return [...new Set(files)];
+}
+
+/**
+ * Get the file name of a numbered chunk next to the index
+ * - report.md, chunk 2 of 12 -> report-02.md
+ */
+export function chunkPath(indexPath: string, index: number, total: number): string {
+  const { dir, name, ext } = parse(indexPath);
+  const number = String(index).padStart(String(total).length, '0');
+  return format({ dir, name: `${name}-${number}`, ext });
+}
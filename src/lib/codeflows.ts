@@ -0,0 +1,293 @@
+import type { Octokit } from 'octokit';
+import type { CodeQLAlert } from './codeql.js';
+import type { GitHubRepo } from './git.js';
+import { mapWithConcurrency, type RetryOptions, withRetry } from './scheduler.js';
+
+/**
+ * A step in a code flow or a related location
+ */
+export interface FlowLocation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  start_column: number;
+  end_column: number;
+  message?: string;
+}
+
+/**
+ * Steps of one source-to-sink path, in order
+ */
+export type CodeFlow = FlowLocation[];
+
+/**
+ * Subset of a SARIF location used for alerts, code flows and related locations
+ */
+export interface SarifLocation {
+  id?: number;
+  physicalLocation?: {
+    artifactLocation?: { uri?: string };
+    region?: {
+      startLine?: number;
+      endLine?: number;
+      startColumn?: number;
+      endColumn?: number;
+    };
+  };
+  message?: { text?: string };
+}
+
+export interface SarifResult {
+  ruleId?: string;
+  /** Rule reference, CodeQL sets it alongside or instead of `ruleId` */
+  rule?: { id?: string };
+  level?: string;
+  message?: { text?: string };
+  locations?: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+  codeFlows?: Array<{
+    threadFlows?: Array<{
+      locations?: Array<{ location?: SarifLocation }>;
+    }>;
+  }>;
+  properties?: Record<string, unknown>;
+  baselineState?: string;
+}
+
+export interface SarifRule {
+  id: string;
+  name?: string;
+  shortDescription?: { text?: string };
+  fullDescription?: { text?: string };
+  help?: { text?: string; markdown?: string };
+  helpUri?: string;
+  /** Level of results that do not set their own */
+  defaultConfiguration?: { level?: string };
+  properties?: { tags?: string[]; 'security-severity'?: string };
+}
+
+export interface SarifLog {
+  runs: Array<{
+    tool?: {
+      driver?: {
+        name?: string;
+        version?: string;
+        rules?: SarifRule[];
+      };
+      /** Query packs, the CodeQL CLI lists its rules here rather than on the driver */
+      extensions?: Array<{ rules?: SarifRule[] }>;
+    };
+    /** Analyzed repository and commit, recorded when the analysis ran in a checkout */
+    versionControlProvenance?: Array<{
+      repositoryUri?: string;
+      revisionId?: string;
+      branch?: string;
+    }>;
+    /** Analysis category, e.g. `/language:javascript` */
+    automationDetails?: { id?: string };
+    results?: SarifResult[];
+  }>;
+}
+
+/**
+ * Subset of a code scanning analysis used to find the analysis an alert instance belongs to
+ */
+interface Analysis {
+  id: number;
+  commit_sha: string;
+  analysis_key: string;
+  category?: string;
+}
+
+export interface CodeFlowOptions extends RetryOptions {
+  /** Maximum number of alerts looked up at a time, defaults to 5 */
+  concurrency?: number;
+  /** Ref the report is scoped to, selects the alert instance to take code flows from */
+  ref?: string;
+}
+
+/**
+ * Convert a SARIF location, columns default to 1 like the rest of the report
+ */
+export function toFlowLocation(location: SarifLocation): FlowLocation {
+  const region = location.physicalLocation?.region ?? {};
+  const startLine = region.startLine ?? 0;
+  const startColumn = region.startColumn ?? 1;
+
+  return {
+    path: location.physicalLocation?.artifactLocation?.uri ?? '',
+    start_line: startLine,
+    end_line: region.endLine ?? startLine,
+    start_column: startColumn,
+    end_column: region.endColumn ?? startColumn,
+    ...(location.message?.text && { message: location.message.text }),
+  };
+}
+
+/**
+ * Get the code flows of a SARIF result, one per thread flow
+ */
+export function extractCodeFlows(result: SarifResult): CodeFlow[] {
+  const flows: CodeFlow[] = [];
+
+  for (const codeFlow of result.codeFlows ?? []) {
+    for (const threadFlow of codeFlow.threadFlows ?? []) {
+      const steps = (threadFlow.locations ?? []).flatMap((step) =>
+        step.location ? [toFlowLocation(step.location)] : [],
+      );
+      if (steps.length > 0) {
+        flows.push(steps);
+      }
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Get the related locations of a SARIF result, e.g. the sources referenced in its message
+ */
+export function extractRelatedLocations(result: SarifResult): FlowLocation[] {
+  return (result.relatedLocations ?? []).map(toFlowLocation);
+}
+
+/**
+ * Find the SARIF result for an alert by rule and primary location
+ */
+export function findSarifResult(log: SarifLog, alert: CodeQLAlert): SarifResult | undefined {
+  const location = alert.most_recent_instance.location;
+
+  for (const run of log.runs) {
+    for (const result of run.results ?? []) {
+      const primary = result.locations?.[0];
+      if (
+        result.ruleId === alert.rule.id &&
+        primary?.physicalLocation?.artifactLocation?.uri === location.path &&
+        primary.physicalLocation.region?.startLine === location.start_line
+      ) {
+        return result;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Format a flow location as `path:line:column`
+ */
+export function formatFlowLocation(location: FlowLocation): string {
+  return `${location.path}:${location.start_line}:${location.start_column}`;
+}
+
+/**
+ * Parse an analysis downloaded as SARIF, Octokit does not decode `application/sarif+json`
+ */
+function parseSarifResponse(data: unknown): SarifLog {
+  if (typeof data === 'string') {
+    return JSON.parse(data) as SarifLog;
+  }
+  if (data instanceof ArrayBuffer) {
+    return JSON.parse(Buffer.from(data).toString('utf-8')) as SarifLog;
+  }
+  return data as SarifLog;
+}
+
+/**
+ * Attach code flows and related locations to path-problem alerts
+ * Each alert's instance on the report's ref is matched to its analysis, whose SARIF holds the
+ * flows. Analyses are downloaded once. Alerts whose analysis or result cannot be found are
+ * returned unchanged, e.g. when the analysis was deleted.
+ */
+export async function attachCodeFlows(
+  octokit: Octokit,
+  alerts: CodeQLAlert[],
+  repoOf: (alert: CodeQLAlert) => GitHubRepo,
+  options: CodeFlowOptions = {},
+): Promise<CodeQLAlert[]> {
+  const analysesCache = new Map<string, Promise<Analysis[]>>();
+  const sarifCache = new Map<string, Promise<SarifLog>>();
+
+  const listAnalyses = (repo: GitHubRepo, ref: string) => {
+    const key = `${repo.owner}/${repo.repo}\0${ref}`;
+    let analyses = analysesCache.get(key);
+    if (!analyses) {
+      analyses = withRetry(async () => {
+        const response = await octokit.rest.codeScanning.listRecentAnalyses({
+          owner: repo.owner,
+          repo: repo.repo,
+          ref,
+          per_page: 100,
+        });
+        return response.data as Analysis[];
+      }, options);
+      analysesCache.set(key, analyses);
+    }
+    return analyses;
+  };
+
+  const downloadSarif = (repo: GitHubRepo, analysisId: number) => {
+    const key = `${repo.owner}/${repo.repo}\0${analysisId}`;
+    let sarif = sarifCache.get(key);
+    if (!sarif) {
+      sarif = withRetry(async () => {
+        const response = await octokit.rest.codeScanning.getAnalysis({
+          owner: repo.owner,
+          repo: repo.repo,
+          analysis_id: analysisId,
+          headers: { accept: 'application/sarif+json' },
+        });
+        return parseSarifResponse(response.data);
+      }, options);
+      sarifCache.set(key, sarif);
+    }
+    return sarif;
+  };
+
+  return mapWithConcurrency(alerts, options.concurrency ?? 5, async (alert) => {
+    const repo = repoOf(alert);
+
+    try {
+      const instances = await withRetry(async () => {
+        const response = await octokit.rest.codeScanning.listAlertInstances({
+          owner: repo.owner,
+          repo: repo.repo,
+          alert_number: alert.number,
+          ...(options.ref && { ref: options.ref }),
+          per_page: 100,
+        });
+        return response.data;
+      }, options);
+      const instance = instances[0] ?? alert.most_recent_instance;
+
+      const analyses = await listAnalyses(repo, String(instance.ref));
+      const analysis = analyses.find(
+        (candidate) =>
+          candidate.commit_sha === instance.commit_sha &&
+          candidate.analysis_key === instance.analysis_key &&
+          (candidate.category ?? '') === (instance.category ?? ''),
+      );
+      if (!analysis) {
+        return alert;
+      }
+
+      const sarif = await downloadSarif(repo, analysis.id);
+      const result = findSarifResult(sarif, alert);
+      if (!result) {
+        return alert;
+      }
+
+      const codeFlows = extractCodeFlows(result);
+      const relatedLocations = extractRelatedLocations(result);
+
+      return {
+        ...alert,
+        ...(codeFlows.length > 0 && { code_flows: codeFlows }),
+        ...(relatedLocations.length > 0 && { related_locations: relatedLocations }),
+      };
+    } catch {
+      // Code flows are best effort, the alert is still reported without them
+      return alert;
+    }
+  });
+}
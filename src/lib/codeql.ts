@@ -1,5 +1,9 @@
 import type { Octokit } from 'octokit';
-import type { GitHubRepo } from './git.js';
+import type { CodeFlow, FlowLocation } from './codeflows.js';
+import { type AlertFilter, applyAlertFilter } from './filters.js';
+import { type GitHubRepo, parseRepositoryName } from './git.js';
+import { mapWithConcurrency, type RetryOptions, withRetry } from './scheduler.js';
+import type { CodeSnippet } from './snippets.js';
 
 export interface CodeQLAlert {
   number: number;
@@ -8,6 +12,13 @@ export interface CodeQLAlert {
     severity: string;
     description: string;
     name: string;
+    full_description?: string;
+    /** Rule help as Markdown, returned when fetching a single alert */
+    help?: string;
+    help_uri?: string;
+    tags?: string[];
+    /** critical, high, medium or low for security queries, null otherwise */
+    security_severity_level?: string | null;
   };
   most_recent_instance: {
     ref: string;
@@ -27,28 +38,59 @@ export interface CodeQLAlert {
     };
   };
   help?: string;
+  /** ISO 8601 creation time, missing in saved reports */
+  created_at?: string;
   tool: {
     name: string;
     version: string;
   };
+  /** Source code around the location, attached locally by `attachSnippets` */
+  snippet?: CodeSnippet;
+  /** Source-to-sink paths of path-problem alerts, attached by `attachCodeFlows` */
+  code_flows?: CodeFlow[];
+  /** Locations referenced by the alert message, attached by `attachCodeFlows` */
+  related_locations?: FlowLocation[];
+  /** Repository the alert belongs to, set for organization and multi-repository reports */
+  repository?: {
+    full_name: string;
+  };
+}
+
+export interface FetchDetailsOptions extends RetryOptions {
+  /** Maximum number of alert detail requests in flight, defaults to 5 */
+  concurrency?: number;
+  /**
+   * Keep going when an alert's details cannot be fetched, using the alert as listed instead.
+   * Failed alert numbers are reported through `onFailure`.
+   */
+  partial?: boolean;
+  onProgress?: (completed: number, total: number) => void;
+  onFailure?: (alertNumber: number, error: unknown, repo: GitHubRepo) => void;
 }
 
 /**
- * Fetch all open CodeQL alerts for a repository with pagination
+ * Fetch CodeQL alerts for a repository with pagination
+ * Defaults to open alerts on the default branch; ref, state and tool name are filtered by the
+ * API, the rest client-side
  */
 export async function fetchCodeQLAlerts(
   octokit: Octokit,
   repo: GitHubRepo,
+  filter: AlertFilter = {},
 ): Promise<CodeQLAlert[]> {
   const alerts: CodeQLAlert[] = [];
   let page = 1;
   const perPage = 100;
+  const state = filter.state ?? 'open';
 
   while (true) {
     const response = await octokit.rest.codeScanning.listAlertsForRepo({
       owner: repo.owner,
       repo: repo.repo,
-      state: 'open',
+      // 'all' is not an API state, omitting the parameter returns every state
+      ...(state !== 'all' && { state }),
+      ...(filter.toolName && { tool_name: filter.toolName }),
+      ...(filter.ref && { ref: filter.ref }),
       per_page: perPage,
       page,
     });
@@ -70,7 +112,48 @@ export async function fetchCodeQLAlerts(
     page++;
   }
 
-  return alerts;
+  return applyAlertFilter(alerts, filter);
+}
+
+/**
+ * Fetch CodeQL alerts for every repository in an organization with pagination
+ * The organization endpoint has no ref filter, alerts are for each repository's default branch
+ */
+export async function fetchOrgCodeQLAlerts(
+  octokit: Octokit,
+  org: string,
+  filter: AlertFilter = {},
+): Promise<CodeQLAlert[]> {
+  const alerts: CodeQLAlert[] = [];
+  let page = 1;
+  const perPage = 100;
+  const state = filter.state ?? 'open';
+
+  while (true) {
+    const response = await octokit.rest.codeScanning.listAlertsForOrg({
+      org,
+      ...(state !== 'all' && { state }),
+      ...(filter.toolName && { tool_name: filter.toolName }),
+      per_page: perPage,
+      page,
+    });
+
+    if (response.data.length === 0) {
+      break;
+    }
+
+    for (const alert of response.data) {
+      alerts.push(alert as CodeQLAlert);
+    }
+
+    if (response.data.length < perPage) {
+      break;
+    }
+
+    page++;
+  }
+
+  return applyAlertFilter(alerts, filter);
 }
 
 /**
@@ -90,19 +173,138 @@ export async function fetchAlertDetails(
   return response.data as CodeQLAlert;
 }
 
+/**
+ * Fetch details for listed alerts through a bounded worker pool, retrying on rate limits
+ * The listed alert's repository is kept, the single alert endpoint does not return it
+ */
+async function fetchDetailsForAlerts(
+  octokit: Octokit,
+  alerts: CodeQLAlert[],
+  repoOf: (alert: CodeQLAlert) => GitHubRepo,
+  options: FetchDetailsOptions,
+): Promise<CodeQLAlert[]> {
+  let completed = 0;
+
+  return mapWithConcurrency(alerts, options.concurrency ?? 5, async (alert) => {
+    const repo = repoOf(alert);
+    try {
+      const details = await withRetry(
+        () => fetchAlertDetails(octokit, repo, alert.number),
+        options,
+      );
+      return alert.repository ? { ...details, repository: alert.repository } : details;
+    } catch (error) {
+      if (!options.partial) {
+        throw error;
+      }
+      options.onFailure?.(alert.number, error, repo);
+      return alert;
+    } finally {
+      completed++;
+      options.onProgress?.(completed, alerts.length);
+    }
+  });
+}
+
 /**
  * Fetch all alerts with full details
+ * Detail requests run through a bounded worker pool and are retried on rate limits
  */
 export async function fetchAllAlertsWithDetails(
   octokit: Octokit,
   repo: GitHubRepo,
+  filter: AlertFilter = {},
+  options: FetchDetailsOptions = {},
 ): Promise<CodeQLAlert[]> {
-  const alerts = await fetchCodeQLAlerts(octokit, repo);
+  const alerts = await fetchCodeQLAlerts(octokit, repo, filter);
+  return fetchDetailsForAlerts(octokit, alerts, () => repo, options);
+}
 
-  // Fetch details for each alert
-  const detailedAlerts = await Promise.all(
-    alerts.map((alert) => fetchAlertDetails(octokit, repo, alert.number)),
+/**
+ * Fetch all alerts in an organization with full details
+ * Each alert carries the repository it belongs to in `repository.full_name`
+ */
+export async function fetchAllOrgAlertsWithDetails(
+  octokit: Octokit,
+  org: string,
+  filter: AlertFilter = {},
+  options: FetchDetailsOptions = {},
+): Promise<CodeQLAlert[]> {
+  const alerts = await fetchOrgCodeQLAlerts(octokit, org, filter);
+  return fetchDetailsForAlerts(
+    octokit,
+    alerts,
+    // Organization alerts always include their repository
+    (alert) => parseRepositoryName((alert.repository as { full_name: string }).full_name),
+    options,
   );
+}
+
+/**
+ * Reasons the API accepts for dismissing an alert
+ */
+export const DISMISSED_REASONS = ['false positive', "won't fix", 'used in tests'] as const;
+
+export type DismissedReason = (typeof DISMISSED_REASONS)[number];
+
+/**
+ * A state change for one alert, dismissals carry a reason and comment
+ */
+export interface AlertUpdate {
+  number: number;
+  state: 'dismissed' | 'open';
+  reason?: DismissedReason;
+  comment?: string;
+}
+
+export interface UpdateAlertsOptions extends RetryOptions {
+  /** Maximum number of update requests in flight, defaults to 5 */
+  concurrency?: number;
+  onFailure?: (update: AlertUpdate, error: unknown) => void;
+}
+
+/**
+ * Dismiss or reopen an alert
+ */
+export async function updateAlertState(
+  octokit: Octokit,
+  repo: GitHubRepo,
+  update: AlertUpdate,
+): Promise<CodeQLAlert> {
+  const response = await octokit.rest.codeScanning.updateAlert({
+    owner: repo.owner,
+    repo: repo.repo,
+    alert_number: update.number,
+    state: update.state,
+    ...(update.state === 'dismissed' && {
+      dismissed_reason: update.reason,
+      dismissed_comment: update.comment,
+    }),
+  });
+
+  return response.data as CodeQLAlert;
+}
+
+/**
+ * Apply state changes through a bounded worker pool, retrying on rate limits
+ * A failed update does not stop the others, it is reported through `onFailure`
+ * Returns the updates that were applied
+ */
+export async function updateAlerts(
+  octokit: Octokit,
+  repo: GitHubRepo,
+  updates: AlertUpdate[],
+  options: UpdateAlertsOptions = {},
+): Promise<AlertUpdate[]> {
+  const applied = await mapWithConcurrency(updates, options.concurrency ?? 5, async (update) => {
+    try {
+      await withRetry(() => updateAlertState(octokit, repo, update), options);
+      return true;
+    } catch (error) {
+      options.onFailure?.(update, error);
+      return false;
+    }
+  });
 
-  return detailedAlerts;
+  return updates.filter((_update, index) => applied[index]);
 }
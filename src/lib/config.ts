@@ -0,0 +1,275 @@
+import { access, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import simpleGit from 'simple-git';
+import type { PromptGrouping } from '../formatters/prompt.js';
+import type { AlertState, Severity } from './filters.js';
+import type { AlertGrouping, AlertSorting } from './ordering.js';
+import type { DetailLevel } from './types.js';
+
+/**
+ * Config files looked up in the repository root, the first one found is used
+ */
+export const CONFIG_FILES = ['.codeql-report.json', 'codeql-report.config.js'];
+
+/**
+ * package.json key read when the repository root has no config file
+ */
+export const PACKAGE_JSON_KEY = 'codeql-report';
+
+/**
+ * Prefix of environment variables setting options, e.g. CODEQL_REPORT_FORMAT=md
+ */
+export const ENV_PREFIX = 'CODEQL_REPORT';
+
+/**
+ * Defaults for CLI options, named like the flags in camelCase
+ * Invocation-specific options (refs, inputs, outputs, commands) and the API URL are left to the
+ * command line
+ */
+export interface ReportConfig {
+  format?: string;
+  formatterModule?: string[];
+  detail?: DetailLevel;
+  quiet?: boolean;
+  groupBy?: AlertGrouping;
+  sortBy?: AlertSorting;
+  promptGroup?: PromptGrouping;
+  promptTemplate?: string;
+  template?: string;
+  columns?: string[];
+  junitFailOn?: Severity;
+  failOn?: Severity;
+  maxAlerts?: number;
+  baselineFile?: string;
+  maxTokens?: number;
+  snippets?: boolean;
+  context?: number;
+  state?: AlertState;
+  minSeverity?: Severity;
+  rule?: string[];
+  excludeRule?: string[];
+  tool?: string;
+  path?: string[];
+  excludePath?: string[];
+  concurrency?: number;
+  retries?: number;
+  partial?: boolean;
+}
+
+/**
+ * Runs an option can apply to, `report` is a run without a command
+ */
+export type ConfigCommand = 'report' | 'baseline' | 'diff' | 'dismiss' | 'reopen';
+
+export interface ConfigOption {
+  type: 'string' | 'string[]' | 'number' | 'boolean';
+  choices?: string[];
+  /** File paths, resolved against the repository root */
+  path?: boolean;
+  /** Runs the config file's value is applied to, all when unset */
+  commands?: ConfigCommand[];
+}
+
+const SEVERITIES = ['note', 'warning', 'error'];
+
+/**
+ * Options a config file can set, in the order `config print` lists them
+ */
+export const CONFIG_SCHEMA: Record<keyof ReportConfig, ConfigOption> = {
+  format: { type: 'string' },
+  formatterModule: { type: 'string[]', path: true },
+  detail: { type: 'string', choices: ['minimum', 'medium', 'full', 'raw'] },
+  quiet: { type: 'boolean' },
+  groupBy: { type: 'string', choices: ['file', 'rule', 'severity', 'directory', 'none'] },
+  sortBy: { type: 'string', choices: ['severity', 'path', 'number', 'created'] },
+  promptGroup: { type: 'string', choices: ['file', 'alert'] },
+  promptTemplate: { type: 'string', path: true },
+  template: { type: 'string', path: true, commands: ['report'] },
+  columns: { type: 'string[]' },
+  junitFailOn: { type: 'string', choices: SEVERITIES },
+  failOn: { type: 'string', choices: SEVERITIES, commands: ['report'] },
+  maxAlerts: { type: 'number', commands: ['report'] },
+  baselineFile: { type: 'string', path: true, commands: ['report', 'baseline'] },
+  maxTokens: { type: 'number', commands: ['report'] },
+  snippets: { type: 'boolean' },
+  context: { type: 'number' },
+  state: { type: 'string', choices: ['open', 'dismissed', 'fixed', 'all'] },
+  minSeverity: { type: 'string', choices: SEVERITIES },
+  rule: { type: 'string[]' },
+  excludeRule: { type: 'string[]' },
+  tool: { type: 'string' },
+  path: { type: 'string[]' },
+  excludePath: { type: 'string[]' },
+  concurrency: { type: 'number' },
+  retries: { type: 'number' },
+  partial: { type: 'boolean' },
+};
+
+/**
+ * A discovered config file and its options
+ */
+export interface LoadedConfig {
+  /** The config file, or the package.json holding the options */
+  path: string;
+  config: ReportConfig;
+}
+
+/**
+ * Describe a value that does not match its option, undefined when it matches
+ */
+function checkOption(option: ConfigOption, value: unknown): string | undefined {
+  switch (option.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'true or false';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0
+        ? undefined
+        : 'a non-negative number';
+    case 'string[]':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string' && item)
+        ? undefined
+        : 'a list of strings';
+    default:
+      if (typeof value !== 'string' || !value) {
+        return 'a string';
+      }
+      if (option.choices && !option.choices.includes(value)) {
+        return `one of ${option.choices.join(', ')}`;
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Check the options of a parsed config file against the schema
+ * Paths are resolved against `root`, so the config applies from any directory of the checkout
+ */
+export function parseConfig(data: unknown, source: string, root: string): ReportConfig {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Invalid config file ${source}: expected an object of options`);
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const option: ConfigOption | undefined = CONFIG_SCHEMA[key as keyof ReportConfig];
+    if (!option) {
+      throw new Error(
+        `Invalid config file ${source}: unknown option ${key}, expected one of ${Object.keys(CONFIG_SCHEMA).join(', ')}`,
+      );
+    }
+    const expected = checkOption(option, value);
+    if (expected) {
+      throw new Error(
+        `Invalid config file ${source}: ${key} must be ${expected}, got ${JSON.stringify(value)}`,
+      );
+    }
+
+    if (option.path) {
+      config[key] = Array.isArray(value)
+        ? value.map((item: string) => resolve(root, item))
+        : resolve(root, value as string);
+    } else {
+      config[key] = value;
+    }
+  }
+  return config as ReportConfig;
+}
+
+/**
+ * Leave out the options of a config file that do not apply to a run, e.g. `maxTokens` for `diff`
+ * `command` is unset for reports, `config print` keeps every option
+ */
+export function configForCommand(config: ReportConfig, command?: string): ReportConfig {
+  if (command === 'config') {
+    return config;
+  }
+  const run = (command ?? 'report') as ConfigCommand;
+  return Object.fromEntries(
+    Object.entries(config).filter(([key]) => {
+      const commands = CONFIG_SCHEMA[key as keyof ReportConfig].commands;
+      return !commands || commands.includes(run);
+    }),
+  );
+}
+
+/**
+ * Repository root of the working directory, or the working directory outside a repository
+ */
+async function findRoot(cwd: string): Promise<string> {
+  try {
+    return (await simpleGit(cwd).revparse(['--show-toplevel'])).trim();
+  } catch {
+    return resolve(cwd);
+  }
+}
+
+/**
+ * Read a file that may not exist, null when it does not
+ */
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseJSON(content: string, path: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not parse config file ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Find and load the configuration of the repository: `.codeql-report.json`,
+ * `codeql-report.config.js` or the `codeql-report` key of package.json in the repository root,
+ * in that order. Returns undefined without one.
+ */
+export async function loadConfig(cwd = process.cwd()): Promise<LoadedConfig | undefined> {
+  const root = await findRoot(cwd);
+
+  const jsonPath = join(root, CONFIG_FILES[0]);
+  const json = await readOptional(jsonPath);
+  if (json !== null) {
+    return { path: jsonPath, config: parseConfig(parseJSON(json, jsonPath), jsonPath, root) };
+  }
+
+  // The module's default export, or module.exports of a CommonJS package
+  const modulePath = join(root, CONFIG_FILES[1]);
+  if (await exists(modulePath)) {
+    let module: { default?: unknown };
+    try {
+      module = await import(pathToFileURL(modulePath).href);
+    } catch (error) {
+      throw new Error(`Could not load config file ${modulePath}: ${(error as Error).message}`);
+    }
+    return { path: modulePath, config: parseConfig(module.default, modulePath, root) };
+  }
+
+  const packagePath = join(root, 'package.json');
+  const packageJson = await readOptional(packagePath);
+  if (packageJson !== null) {
+    const data = parseJSON(packageJson, packagePath) as Record<string, unknown> | null;
+    if (data?.[PACKAGE_JSON_KEY] !== undefined) {
+      const source = `${packagePath} (${PACKAGE_JSON_KEY} key)`;
+      return { path: packagePath, config: parseConfig(data[PACKAGE_JSON_KEY], source, root) };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,96 @@
+import type { CodeQLAlert } from './codeql.js';
+
+/**
+ * An alert present on both sides of a diff
+ */
+export interface MatchedAlert {
+  base: CodeQLAlert;
+  head: CodeQLAlert;
+  /** The alert's file or line changed between base and head */
+  moved: boolean;
+}
+
+export interface AlertDiff {
+  /** Alerts only present in head */
+  new: CodeQLAlert[];
+  /** Alerts only present in base */
+  fixed: CodeQLAlert[];
+  unchanged: MatchedAlert[];
+}
+
+/**
+ * Stable identity for an alert across refs and reports, where alert numbers may be missing
+ * (e.g. SARIF files) or line numbers may shift
+ */
+export function alertFingerprint(alert: CodeQLAlert): string {
+  return [
+    alert.rule.id,
+    alert.most_recent_instance.location.path,
+    alert.most_recent_instance.message.text,
+  ].join('\0');
+}
+
+function hasMoved(base: CodeQLAlert, head: CodeQLAlert): boolean {
+  const from = base.most_recent_instance.location;
+  const to = head.most_recent_instance.location;
+  return from.path !== to.path || from.start_line !== to.start_line;
+}
+
+/**
+ * Compare two sets of alerts
+ * Alerts are matched by alert number and rule first, then by fingerprint for alerts without a
+ * matching number (reports from different sources, or alerts re-created on another ref)
+ */
+export function diffAlerts(base: CodeQLAlert[], head: CodeQLAlert[]): AlertDiff {
+  const unmatchedBase = new Set(base);
+  const unmatchedHead: CodeQLAlert[] = [];
+  const unchanged: MatchedAlert[] = [];
+
+  const match = (baseAlert: CodeQLAlert, headAlert: CodeQLAlert) => {
+    unmatchedBase.delete(baseAlert);
+    unchanged.push({ base: baseAlert, head: headAlert, moved: hasMoved(baseAlert, headAlert) });
+  };
+
+  // Alert numbers are only meaningful when present (> 0) on both sides
+  const baseByNumber = new Map<number, CodeQLAlert>();
+  for (const alert of base) {
+    if (alert.number > 0) {
+      baseByNumber.set(alert.number, alert);
+    }
+  }
+
+  for (const alert of head) {
+    // The same number on alerts of different rules is a coincidence, e.g. numbers made up by a tool
+    const baseAlert = alert.number > 0 ? baseByNumber.get(alert.number) : undefined;
+    if (baseAlert && baseAlert.rule.id === alert.rule.id) {
+      match(baseAlert, alert);
+    } else {
+      unmatchedHead.push(alert);
+    }
+  }
+
+  // Several alerts can share a fingerprint, pair them up in order
+  const baseByFingerprint = new Map<string, CodeQLAlert[]>();
+  for (const alert of unmatchedBase) {
+    const key = alertFingerprint(alert);
+    const bucket = baseByFingerprint.get(key) ?? [];
+    bucket.push(alert);
+    baseByFingerprint.set(key, bucket);
+  }
+
+  const newAlerts: CodeQLAlert[] = [];
+  for (const alert of unmatchedHead) {
+    const baseAlert = baseByFingerprint.get(alertFingerprint(alert))?.shift();
+    if (baseAlert) {
+      match(baseAlert, alert);
+    } else {
+      newAlerts.push(alert);
+    }
+  }
+
+  return {
+    new: newAlerts,
+    fixed: [...unmatchedBase],
+    unchanged,
+  };
+}
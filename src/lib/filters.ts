@@ -0,0 +1,121 @@
+import type { CodeQLAlert } from './codeql.js';
+
+export type AlertState = 'open' | 'dismissed' | 'fixed' | 'all';
+
+export type Severity = 'note' | 'warning' | 'error';
+
+/**
+ * Filters for narrowing the alerts that end up in a report.
+ * `ref`, `state` and `toolName` are pushed to the API query, the rest are applied client-side.
+ */
+export interface AlertFilter {
+  /** Fully qualified git ref, e.g. refs/heads/main or refs/pull/42/merge */
+  ref?: string;
+  state?: AlertState;
+  minSeverity?: Severity;
+  toolName?: string;
+  rules?: string[];
+  excludeRules?: string[];
+  paths?: string[];
+  excludePaths?: string[];
+}
+
+const SEVERITY_RANK: Record<string, number> = {
+  note: 1,
+  warning: 2,
+  error: 3,
+};
+
+/**
+ * Rank a severity for threshold comparisons, unknown severities rank lowest
+ */
+export function severityRank(severity: string): number {
+  return SEVERITY_RANK[severity.toLowerCase()] ?? 0;
+}
+
+const SECURITY_SEVERITY_RANK: Record<string, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+/**
+ * Rank a security severity level, alerts of non-security queries rank lowest
+ */
+export function securitySeverityRank(level: string | null | undefined): number {
+  return level ? (SECURITY_SEVERITY_RANK[level.toLowerCase()] ?? 0) : 0;
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ * Supports `**` (any characters), `*` (any characters except `/`) and `?` (single character)
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a value matches any of the given glob patterns
+ */
+export function matchesAnyGlob(value: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(value));
+}
+
+/**
+ * Check whether an alert passes the client-side part of a filter
+ */
+export function matchesAlertFilter(alert: CodeQLAlert, filter: AlertFilter): boolean {
+  if (filter.minSeverity && severityRank(alert.rule.severity) < severityRank(filter.minSeverity)) {
+    return false;
+  }
+
+  if (filter.rules?.length && !matchesAnyGlob(alert.rule.id, filter.rules)) {
+    return false;
+  }
+
+  if (filter.excludeRules?.length && matchesAnyGlob(alert.rule.id, filter.excludeRules)) {
+    return false;
+  }
+
+  const path = alert.most_recent_instance.location.path;
+
+  if (filter.paths?.length && !matchesAnyGlob(path, filter.paths)) {
+    return false;
+  }
+
+  if (filter.excludePaths?.length && matchesAnyGlob(path, filter.excludePaths)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply the client-side part of a filter to a list of alerts
+ */
+export function applyAlertFilter(alerts: CodeQLAlert[], filter: AlertFilter): CodeQLAlert[] {
+  return alerts.filter((alert) => matchesAlertFilter(alert, filter));
+}
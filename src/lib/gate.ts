@@ -0,0 +1,77 @@
+import type { CodeQLAlert } from './codeql.js';
+import { diffAlerts } from './diff.js';
+import { type Severity, severityRank } from './filters.js';
+
+/**
+ * Thresholds for using a report as a build gate
+ * Alerts at or above `failOn` (all alerts when unset) count towards the gate, which fails
+ * when more than `maxAlerts` (0 when unset) of them are found
+ */
+export interface GateOptions {
+  failOn?: Severity;
+  maxAlerts?: number;
+}
+
+export interface GateResult {
+  passed: boolean;
+  /** Alerts counting towards the gate */
+  counted: CodeQLAlert[];
+  /** Counted alerts allowed before the gate fails */
+  allowed: number;
+  /** Alerts matching the baseline, undefined without a baseline */
+  baselined?: number;
+}
+
+/**
+ * Alert numbers listed in the gate summary before it is cut short
+ */
+const MAX_LISTED_ALERTS = 10;
+
+/**
+ * Decide whether alerts pass the gate
+ * With a baseline (e.g. a saved report of the default branch) only alerts that are not in it
+ * count, matched the same way as `diff`
+ */
+export function evaluateGate(
+  alerts: CodeQLAlert[],
+  options: GateOptions,
+  baseline?: CodeQLAlert[],
+): GateResult {
+  const candidates = baseline ? diffAlerts(baseline, alerts).new : alerts;
+  const threshold = options.failOn ? severityRank(options.failOn) : 0;
+  const counted = candidates.filter((alert) => severityRank(alert.rule.severity) >= threshold);
+  const allowed = options.maxAlerts ?? 0;
+
+  return {
+    passed: counted.length <= allowed,
+    counted,
+    allowed,
+    ...(baseline && { baselined: alerts.length - candidates.length }),
+  };
+}
+
+/**
+ * Summarize the verdict on one line, listing the first counted alerts when the gate fails
+ */
+export function formatGateSummary(result: GateResult, options: GateOptions): string {
+  const scope = `${result.baselined === undefined ? '' : 'new '}alert(s)${options.failOn ? ` at or above ${options.failOn}` : ''}`;
+  const parts = [`${result.counted.length} ${scope}`, `${result.allowed} allowed`];
+  if (result.baselined !== undefined) {
+    parts.push(`${result.baselined} in compared report`);
+  }
+
+  if (result.passed) {
+    return `✅ Gate passed: ${parts.join(', ')}`;
+  }
+
+  const labels = result.counted.slice(0, MAX_LISTED_ALERTS).map((alert) => {
+    // Alerts from SARIF files may have no number
+    const { path, start_line } = alert.most_recent_instance.location;
+    return alert.number > 0
+      ? `${alert.repository?.full_name ?? ''}#${alert.number}`
+      : `${path}:${start_line}`;
+  });
+  const more = result.counted.length - labels.length;
+  const listed = more > 0 ? `${labels.join(', ')} and ${more} more` : labels.join(', ');
+  return `❌ Gate failed: ${parts.join(', ')} (${listed})`;
+}
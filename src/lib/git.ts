@@ -1,38 +1,82 @@
 import simpleGit from 'simple-git';
+import { DEFAULT_HOST } from './hosts.js';
 
 export interface GitHubRepo {
   owner: string;
   repo: string;
+  /** GitHub Enterprise Server host, undefined for github.com */
+  host?: string;
 }
 
+const URL_PATTERNS = [
+  // https://host/owner/repo.git, ssh://git@host:2222/owner/repo.git, git://host/owner/repo.git
+  /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]+@)?([^:/]+)(?::\d+)?\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/i,
+  // git@host:owner/repo.git
+  /^(?:[^@/]+@)?([^:/]+):([^/]+)\/([^/]+?)(?:\.git)?\/?$/,
+];
+
 /**
  * Extract GitHub owner and repository name from git remote URL
+ * Only URLs on one of `hosts` are accepted, ports are ignored
  */
-export function parseGitHubUrl(url: string): GitHubRepo | null {
+export function parseGitHubUrl(url: string, hosts: string[] = [DEFAULT_HOST]): GitHubRepo | null {
   // Match various GitHub URL formats:
   // - https://github.com/owner/repo.git
   // - git@github.com:owner/repo.git
   // - https://github.com/owner/repo
   // - git://github.com/owner/repo.git
-  const patterns = [/github\.com[:/]([^/]+)\/([^/]+?)(\.git)?$/, /^([^/]+)\/([^/]+)(\.git)?$/];
-
-  for (const pattern of patterns) {
+  // - ssh://git@github.example.com:2222/owner/repo.git
+  for (const pattern of URL_PATTERNS) {
     const match = url.match(pattern);
     if (match) {
+      const host = match[1].toLowerCase();
+      if (!hosts.some((configured) => configured.toLowerCase() === host)) {
+        return null;
+      }
       return {
-        owner: match[1],
-        repo: match[2].replace(/\.git$/, ''),
+        owner: match[2],
+        repo: match[3],
+        ...(host !== DEFAULT_HOST && { host }),
       };
     }
   }
 
+  // Bare owner/repo
+  const match = url.match(/^([^/]+)\/([^/]+?)(\.git)?$/);
+  if (match) {
+    return {
+      owner: match[1],
+      repo: match[2],
+    };
+  }
+
   return null;
 }
 
+/**
+ * Parse an `owner/name` repository argument
+ */
+export function parseRepositoryName(name: string): GitHubRepo {
+  const match = name.match(/^([^/\s]+)\/([^/\s]+)$/);
+
+  if (!match) {
+    throw new Error(`Invalid repository: ${name}. Expected owner/name`);
+  }
+
+  return {
+    owner: match[1],
+    repo: match[2].replace(/\.git$/, ''),
+  };
+}
+
 /**
  * Get GitHub owner and repo from current directory's git remote
+ * Remotes on GitHub Enterprise Server hosts are recognized when listed in `hosts`
  */
-export async function getGitHubRepoFromRemote(cwd?: string): Promise<GitHubRepo> {
+export async function getGitHubRepoFromRemote(
+  cwd?: string,
+  hosts: string[] = [DEFAULT_HOST],
+): Promise<GitHubRepo> {
   const git = simpleGit(cwd);
 
   try {
@@ -51,10 +95,12 @@ export async function getGitHubRepoFromRemote(cwd?: string): Promise<GitHubRepo>
     }
 
     const remoteUrl = remote.refs.fetch || remote.refs.push;
-    const repoInfo = parseGitHubUrl(remoteUrl);
+    const repoInfo = parseGitHubUrl(remoteUrl, hosts);
 
     if (!repoInfo) {
-      throw new Error(`Unable to parse GitHub repository from remote URL: ${remoteUrl}`);
+      throw new Error(
+        `Unable to parse GitHub repository from remote URL: ${remoteUrl}. For GitHub Enterprise Server, set GH_HOST or --api-url`,
+      );
     }
 
     return repoInfo;
@@ -65,3 +111,47 @@ export async function getGitHubRepoFromRemote(cwd?: string): Promise<GitHubRepo>
     throw new Error('Failed to get git remote information.');
   }
 }
+
+/**
+ * Whether a directory is inside a git working tree
+ */
+export async function isGitCheckout(cwd?: string): Promise<boolean> {
+  try {
+    return await simpleGit(cwd).checkIsRepo();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the currently checked out branch name
+ */
+export async function getCurrentBranch(cwd?: string): Promise<string> {
+  const git = simpleGit(cwd);
+  const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+
+  if (!branch || branch === 'HEAD') {
+    throw new Error('Unable to detect current branch: HEAD is detached. Use --ref instead.');
+  }
+
+  return branch;
+}
+
+/**
+ * Expand a short branch name to a fully qualified git ref
+ * - main -> refs/heads/main
+ * - refs/tags/v1.0.0 -> refs/tags/v1.0.0 (unchanged)
+ */
+export function normalizeRef(ref: string): string {
+  return ref.startsWith('refs/') ? ref : `refs/heads/${ref}`;
+}
+
+/**
+ * Get the code scanning ref for a pull request's merge commit
+ */
+export function pullRequestRef(pullNumber: number): string {
+  if (!Number.isInteger(pullNumber) || pullNumber < 1) {
+    throw new Error(`Invalid pull request number: ${pullNumber}`);
+  }
+  return `refs/pull/${pullNumber}/merge`;
+}
@@ -0,0 +1,45 @@
+export const DEFAULT_HOST = 'github.com';
+
+/**
+ * Get the host used when no repository remote is available, `GH_HOST` as with the gh CLI
+ */
+export function getDefaultHost(): string {
+  return process.env.GH_HOST || DEFAULT_HOST;
+}
+
+/**
+ * Get the REST API base URL for a host
+ * - github.com -> https://api.github.com
+ * - github.example.com -> https://github.example.com/api/v3 (GitHub Enterprise Server)
+ */
+export function getApiUrl(host: string): string {
+  return host === DEFAULT_HOST ? 'https://api.github.com' : `https://${host}/api/v3`;
+}
+
+/**
+ * Get the web host for a REST API base URL
+ * - https://api.github.com -> github.com
+ * - https://github.example.com/api/v3 -> github.example.com
+ */
+export function getHostFromApiUrl(apiUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(apiUrl);
+  } catch {
+    throw new Error(`Invalid API URL: ${apiUrl}`);
+  }
+
+  return url.hostname === 'api.github.com' ? DEFAULT_HOST : url.hostname;
+}
+
+/**
+ * Hosts that git remotes are matched against: github.com, `GH_HOST` and the host of a
+ * custom API URL
+ */
+export function getConfiguredHosts(apiUrl?: string): string[] {
+  const hosts = [DEFAULT_HOST, getDefaultHost()];
+  if (apiUrl) {
+    hosts.push(getHostFromApiUrl(apiUrl));
+  }
+  return [...new Set(hosts.map((host) => host.toLowerCase()))];
+}
@@ -0,0 +1,134 @@
+import { posix } from 'node:path';
+import type { CodeQLAlert } from './codeql.js';
+import { securitySeverityRank, severityRank } from './filters.js';
+
+export type AlertGrouping = 'file' | 'rule' | 'severity' | 'directory' | 'none';
+
+export type AlertSorting = 'severity' | 'path' | 'number' | 'created';
+
+/**
+ * How formatters arrange alerts
+ */
+export interface OrderOptions {
+  /** Section alerts by a shared property, defaults to none */
+  groupBy?: AlertGrouping;
+  /** Order of alerts within a section, defaults to the order the alerts were given in */
+  sortBy?: AlertSorting;
+}
+
+/**
+ * A section of alerts sharing a file, rule, severity or directory
+ */
+export interface AlertGroup {
+  /** Shared value, e.g. a file path or rule id, empty when not grouped */
+  name: string;
+  alerts: CodeQLAlert[];
+}
+
+/**
+ * Section titles for each grouping, e.g. `File: src/db.js`
+ */
+export const GROUP_LABELS: Record<Exclude<AlertGrouping, 'none'>, string> = {
+  file: 'File',
+  rule: 'Rule',
+  severity: 'Severity',
+  directory: 'Directory',
+};
+
+type Comparator = (a: CodeQLAlert, b: CodeQLAlert) => number;
+
+const byNumber: Comparator = (a, b) => a.number - b.number;
+
+const byPath: Comparator = (a, b) => {
+  const from = a.most_recent_instance.location;
+  const to = b.most_recent_instance.location;
+  return (
+    (a.repository?.full_name ?? '').localeCompare(b.repository?.full_name ?? '') ||
+    from.path.localeCompare(to.path) ||
+    from.start_line - to.start_line ||
+    byNumber(a, b)
+  );
+};
+
+/**
+ * Oldest first, alerts without a creation date (e.g. from saved reports) last
+ */
+const byCreated: Comparator = (a, b) => {
+  if (!a.created_at || !b.created_at) {
+    return Number(!a.created_at) - Number(!b.created_at);
+  }
+  return a.created_at.localeCompare(b.created_at);
+};
+
+/**
+ * Comparators per sort key, ties are broken by location and alert number so output is stable
+ */
+const COMPARATORS: Record<AlertSorting, Comparator> = {
+  // Security severity ranks alerts of the same severity, e.g. critical before medium errors
+  severity: (a, b) =>
+    severityRank(b.rule.severity) - severityRank(a.rule.severity) ||
+    securitySeverityRank(b.rule.security_severity_level) -
+      securitySeverityRank(a.rule.security_severity_level) ||
+    byPath(a, b),
+  path: byPath,
+  number: (a, b) => byNumber(a, b) || byPath(a, b),
+  created: (a, b) => byCreated(a, b) || byNumber(a, b),
+};
+
+/**
+ * Group key of an alert; directories of top-level files are `.`
+ */
+const GROUP_KEYS: Record<Exclude<AlertGrouping, 'none'>, (alert: CodeQLAlert) => string> = {
+  file: (alert) => alert.most_recent_instance.location.path,
+  rule: (alert) => alert.rule.id,
+  severity: (alert) => alert.rule.severity.toLowerCase(),
+  directory: (alert) => posix.dirname(alert.most_recent_instance.location.path),
+};
+
+/**
+ * Sort alerts without modifying the input, keeping the given order when `sortBy` is unset
+ */
+export function sortAlerts(alerts: CodeQLAlert[], sortBy?: AlertSorting): CodeQLAlert[] {
+  return sortBy ? [...alerts].sort(COMPARATORS[sortBy]) : [...alerts];
+}
+
+/**
+ * Split alerts into sections and sort each one
+ * Severity sections run from the most to the least severe, other sections by name. Without
+ * grouping all alerts form a single unnamed section.
+ */
+export function groupAlerts(alerts: CodeQLAlert[], options: OrderOptions = {}): AlertGroup[] {
+  const sorted = sortAlerts(alerts, options.sortBy);
+  const groupBy = options.groupBy ?? 'none';
+
+  if (groupBy === 'none') {
+    return [{ name: '', alerts: sorted }];
+  }
+
+  const groups = new Map<string, CodeQLAlert[]>();
+  for (const alert of sorted) {
+    const name = GROUP_KEYS[groupBy](alert);
+    const group = groups.get(name);
+    if (group) {
+      group.push(alert);
+    } else {
+      groups.set(name, [alert]);
+    }
+  }
+
+  const compare =
+    groupBy === 'severity'
+      ? (a: string, b: string) => severityRank(b) - severityRank(a) || a.localeCompare(b)
+      : (a: string, b: string) => a.localeCompare(b);
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => compare(a, b))
+    .map(([name, group]) => ({ name, alerts: group }));
+}
+
+/**
+ * Arrange alerts in report order, sections back to back, for formats without headings
+ */
+export function orderAlerts(alerts: CodeQLAlert[], options: OrderOptions = {}): CodeQLAlert[] {
+  return groupAlerts(alerts, options).flatMap((group) => group.alerts);
+}
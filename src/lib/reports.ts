@@ -0,0 +1,207 @@
+import { readFile } from 'node:fs/promises';
+import { extractCodeFlows, extractRelatedLocations, type SarifLog } from './codeflows.js';
+import type { CodeQLAlert } from './codeql.js';
+import { securitySeverityLevel } from './rules.js';
+import type { FullAlert } from './types.js';
+
+/**
+ * Flattened alert as written by the JSON formatter, any detail level
+ */
+type FlatAlert = Partial<FullAlert> & Pick<FullAlert, 'rule_id' | 'file_path'>;
+
+/**
+ * Convert a flattened alert back into the API alert shape
+ * Fields missing from lower detail levels are left empty, columns default to 1
+ */
+function fromFlatAlert(alert: FlatAlert): CodeQLAlert {
+  return {
+    number: alert.number ?? 0,
+    rule: {
+      id: alert.rule_id,
+      severity: alert.severity ?? '',
+      description: alert.rule_description ?? '',
+      name: alert.rule_name ?? alert.rule_id,
+      ...(alert.tags?.length && { tags: alert.tags }),
+      ...(alert.security_severity && { security_severity_level: alert.security_severity }),
+    },
+    most_recent_instance: {
+      ref: alert.ref ?? '',
+      analysis_key: alert.analysis_key ?? '',
+      category: alert.category ?? '',
+      state: alert.state ?? '',
+      commit_sha: alert.commit_sha ?? '',
+      message: { text: alert.message ?? '' },
+      location: {
+        path: alert.file_path,
+        start_line: alert.start_line ?? 0,
+        end_line: alert.end_line ?? alert.start_line ?? 0,
+        start_column: alert.start_column ?? 1,
+        end_column: alert.end_column ?? 1,
+      },
+    },
+    ...(alert.help_text && { help: alert.help_text }),
+    ...(alert.code_flows && { code_flows: alert.code_flows }),
+    ...(alert.related_locations && { related_locations: alert.related_locations }),
+    tool: {
+      name: alert.tool_name ?? '',
+      version: alert.tool_version ?? '',
+    },
+  };
+}
+
+/**
+ * Parse a report written by the JSON formatter (flattened or raw detail)
+ */
+export function parseJSONReport(data: unknown): CodeQLAlert[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Unsupported JSON report: expected an array of alerts');
+  }
+
+  return data.map((alert) => {
+    if (typeof alert === 'object' && alert !== null) {
+      // Raw detail level keeps the API structure
+      if ('rule' in alert && 'most_recent_instance' in alert) {
+        return alert as CodeQLAlert;
+      }
+      if ('rule_id' in alert && 'file_path' in alert) {
+        return fromFlatAlert(alert as FlatAlert);
+      }
+    }
+    throw new Error('Unsupported JSON report: unrecognized alert structure');
+  });
+}
+
+/**
+ * Parse a SARIF log into alerts, from saved reports or the CodeQL CLI
+ * SARIF has no alert numbers unless recorded in result properties, those alerts get number 0
+ */
+export function parseSARIFReport(data: SarifLog): CodeQLAlert[] {
+  const alerts: CodeQLAlert[] = [];
+
+  for (const run of data.runs) {
+    const driver = run.tool?.driver;
+    const rules = new Map(
+      [
+        ...(driver?.rules ?? []),
+        ...(run.tool?.extensions ?? []).flatMap((pack) => pack.rules ?? []),
+      ].map((rule) => [rule.id, rule]),
+    );
+    const provenance = run.versionControlProvenance?.[0];
+
+    for (const result of run.results ?? []) {
+      // Results marked absent in a SARIF diff are no longer present
+      if (result.baselineState === 'absent') {
+        continue;
+      }
+
+      const ruleId = result.ruleId ?? result.rule?.id ?? '';
+      const rule = rules.get(ruleId);
+      const location = result.locations?.[0]?.physicalLocation;
+      const region = location?.region ?? {};
+      const alertNumber = result.properties?.alertNumber;
+      const codeFlows = extractCodeFlows(result);
+      const relatedLocations = extractRelatedLocations(result);
+      const help = rule?.help?.markdown ?? rule?.help?.text;
+      const tags = rule?.properties?.tags;
+      const score = rule?.properties?.['security-severity'];
+      const securitySeverity = score && securitySeverityLevel(score);
+
+      alerts.push({
+        number: typeof alertNumber === 'number' ? alertNumber : 0,
+        rule: {
+          id: ruleId,
+          // SARIF results default to the rule's level, then to warning
+          severity: result.level ?? rule?.defaultConfiguration?.level ?? 'warning',
+          description: rule?.shortDescription?.text ?? '',
+          name: rule?.name ?? ruleId,
+          ...(rule?.fullDescription?.text && { full_description: rule.fullDescription.text }),
+          ...(help && { help }),
+          ...(rule?.helpUri && { help_uri: rule.helpUri }),
+          ...(tags?.length && { tags }),
+          ...(securitySeverity && { security_severity_level: securitySeverity }),
+        },
+        most_recent_instance: {
+          ref: provenance?.branch ?? '',
+          analysis_key: '',
+          category: run.automationDetails?.id ?? '',
+          state: 'open',
+          commit_sha: provenance?.revisionId ?? '',
+          message: { text: result.message?.text ?? '' },
+          location: {
+            path: location?.artifactLocation?.uri ?? '',
+            start_line: region.startLine ?? 0,
+            end_line: region.endLine ?? region.startLine ?? 0,
+            start_column: region.startColumn ?? 1,
+            end_column: region.endColumn ?? region.startColumn ?? 1,
+          },
+        },
+        tool: {
+          name: driver?.name ?? '',
+          version: driver?.version ?? '',
+        },
+        ...(codeFlows.length > 0 && { code_flows: codeFlows }),
+        ...(relatedLocations.length > 0 && { related_locations: relatedLocations }),
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Alerts of a SARIF file, e.g. CodeQL CLI output that was never uploaded
+ */
+export interface SARIFInput {
+  alerts: CodeQLAlert[];
+  /** Analyzed repository URL, when the SARIF records its provenance */
+  repositoryUri?: string;
+  /** Analyzed branch or ref, when the SARIF records its provenance */
+  ref?: string;
+}
+
+async function readJSON(filePath: string): Promise<unknown> {
+  const content = await readFile(filePath, 'utf-8');
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`Unable to parse report ${filePath}: not valid JSON`);
+  }
+}
+
+function isSarifLog(data: unknown): data is SarifLog {
+  return typeof data === 'object' && data !== null && 'runs' in data && Array.isArray(data.runs);
+}
+
+/**
+ * Load alerts from a previously saved JSON or SARIF report
+ */
+export async function loadReport(filePath: string): Promise<CodeQLAlert[]> {
+  const data = await readJSON(filePath);
+
+  if (isSarifLog(data)) {
+    return parseSARIFReport(data);
+  }
+
+  return parseJSONReport(data);
+}
+
+/**
+ * Load a SARIF file to report on without the API
+ * Results without a recorded alert number keep number 0: made-up numbers would end up in saved
+ * reports, where diffs and triage files take them for GitHub alert numbers
+ */
+export async function loadSARIF(filePath: string): Promise<SARIFInput> {
+  const data = await readJSON(filePath);
+
+  if (!isSarifLog(data)) {
+    throw new Error(`Unsupported SARIF file ${filePath}: expected a list of runs`);
+  }
+
+  const provenance = data.runs.find((run) => run.versionControlProvenance?.length)
+    ?.versionControlProvenance?.[0];
+  return {
+    alerts: parseSARIFReport(data),
+    ...(provenance?.repositoryUri && { repositoryUri: provenance.repositoryUri }),
+    ...(provenance?.branch && { ref: provenance.branch }),
+  };
+}
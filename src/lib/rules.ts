@@ -0,0 +1,166 @@
+import type { Octokit } from 'octokit';
+import { type CodeQLAlert, fetchAlertDetails } from './codeql.js';
+import type { GitHubRepo } from './git.js';
+import { mapWithConcurrency, type RetryOptions, withRetry } from './scheduler.js';
+
+/**
+ * A rule referenced by the alerts in a report, rendered once in the report's rules appendix
+ */
+export interface RuleInfo {
+  id: string;
+  name: string;
+  severity: string;
+  description: string;
+  full_description?: string;
+  /** Rule help as Markdown */
+  help?: string;
+  help_uri?: string;
+  tags?: string[];
+  /** critical, high, medium or low for security queries */
+  security_severity_level?: string;
+}
+
+export interface RuleHelpOptions extends RetryOptions {
+  /** Maximum number of help requests in flight, defaults to 5 */
+  concurrency?: number;
+}
+
+/**
+ * Get CWE ids from rule tags
+ * - external/cwe/cwe-089 -> CWE-89
+ */
+export function cweIds(tags: string[] = []): string[] {
+  return tags.flatMap((tag) => {
+    const match = tag.match(/^external\/cwe\/cwe-0*(\d+)$/i);
+    return match ? [`CWE-${match[1]}`] : [];
+  });
+}
+
+/**
+ * Representative `security-severity` scores of each level, GitHub shows scores over 9.0 as
+ * critical, 7.0 to 8.9 as high, 4.0 to 6.9 as medium and lower ones as low
+ */
+const SECURITY_SEVERITY_SCORES: Record<string, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0',
+};
+
+/**
+ * Get the SARIF `security-severity` score of a security severity level
+ */
+export function securitySeverityScore(level: string): string | undefined {
+  return SECURITY_SEVERITY_SCORES[level.toLowerCase()];
+}
+
+/**
+ * Get the security severity level of a SARIF `security-severity` score
+ */
+export function securitySeverityLevel(score: string): string | undefined {
+  const value = Number.parseFloat(score);
+  if (Number.isNaN(value) || value <= 0) {
+    return undefined;
+  }
+  if (value > 9) {
+    return 'critical';
+  }
+  if (value >= 7) {
+    return 'high';
+  }
+  return value >= 4 ? 'medium' : 'low';
+}
+
+/**
+ * Get the help text of an alert's rule, older responses carry it on the alert itself
+ */
+function ruleHelp(alert: CodeQLAlert): string | undefined {
+  return alert.rule.help || alert.help || undefined;
+}
+
+/**
+ * Collect the distinct rules of a set of alerts, sorted by rule id
+ * Fields missing on one alert are filled in from other alerts of the same rule
+ */
+export function collectRules(alerts: CodeQLAlert[]): RuleInfo[] {
+  const rules = new Map<string, RuleInfo>();
+
+  for (const alert of alerts) {
+    const { rule } = alert;
+    const existing = rules.get(rule.id);
+    const help = ruleHelp(alert);
+
+    if (!existing) {
+      rules.set(rule.id, {
+        id: rule.id,
+        name: rule.name,
+        severity: rule.severity,
+        description: rule.description,
+        ...(rule.full_description && { full_description: rule.full_description }),
+        ...(help && { help }),
+        ...(rule.help_uri && { help_uri: rule.help_uri }),
+        ...(rule.tags?.length && { tags: rule.tags }),
+        ...(rule.security_severity_level && {
+          security_severity_level: rule.security_severity_level,
+        }),
+      });
+      continue;
+    }
+
+    existing.full_description ||= rule.full_description;
+    existing.help ||= help;
+    existing.help_uri ||= rule.help_uri;
+    existing.security_severity_level ||= rule.security_severity_level ?? undefined;
+    if (!existing.tags?.length && rule.tags?.length) {
+      existing.tags = rule.tags;
+    }
+  }
+
+  return [...rules.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Get the rules referenced by a set of alerts, taken from `rules` when given (e.g. rules with
+ * fetched help) and collected from the alerts otherwise
+ */
+export function rulesForAlerts(
+  alerts: CodeQLAlert[],
+  rules: RuleInfo[] = collectRules(alerts),
+): RuleInfo[] {
+  const ids = new Set(alerts.map((alert) => alert.rule.id));
+  return rules.filter((rule) => ids.has(rule.id));
+}
+
+/**
+ * Collect the rules of a report, fetching help for rules none of the alerts carry it for
+ * (e.g. alerts reported as listed after a failed detail request). Each rule's help is
+ * requested at most once, from one of its alerts; rules whose help cannot be fetched are
+ * kept without it.
+ */
+export async function fetchRuleHelp(
+  octokit: Octokit,
+  alerts: CodeQLAlert[],
+  repoOf: (alert: CodeQLAlert) => GitHubRepo,
+  options: RuleHelpOptions = {},
+): Promise<RuleInfo[]> {
+  const rules = collectRules(alerts);
+
+  return mapWithConcurrency(rules, options.concurrency ?? 5, async (rule) => {
+    if (rule.help) {
+      return rule;
+    }
+
+    // Every collected rule comes from at least one alert
+    const alert = alerts.find((candidate) => candidate.rule.id === rule.id) as CodeQLAlert;
+    try {
+      const details = await withRetry(
+        () => fetchAlertDetails(octokit, repoOf(alert), alert.number),
+        options,
+      );
+      const help = ruleHelp(details);
+      return help ? { ...rule, help } : rule;
+    } catch {
+      return rule;
+    }
+  });
+}
@@ -0,0 +1,110 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries?: number;
+  /** Base delay for exponential backoff when the response has no rate limit headers */
+  baseDelayMs?: number;
+  /** Longest delay to wait before a retry, errors needing a longer wait are not retried */
+  maxDelayMs?: number;
+}
+
+/**
+ * Minimal shape of an Octokit RequestError used to decide on retries
+ */
+interface RequestErrorLike {
+  status?: number;
+  response?: {
+    headers?: Record<string, string | number | undefined>;
+  };
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Get the delay before retrying a failed request, or null if it should not be retried
+ * Honors `retry-after` (secondary rate limits) and `x-ratelimit-reset` (primary rate limits)
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  options: RetryOptions = {},
+): number | null {
+  const { baseDelayMs = 1000, maxDelayMs = 60_000 } = options;
+
+  if (typeof error !== 'object' || error === null) {
+    return null;
+  }
+
+  const { status, response } = error as RequestErrorLike;
+  const headers = response?.headers ?? {};
+  const retryAfter = headers['retry-after'];
+  const rateLimitExhausted = String(headers['x-ratelimit-remaining']) === '0';
+
+  let delay: number;
+  if (retryAfter !== undefined) {
+    delay = Number(retryAfter) * 1000;
+  } else if (rateLimitExhausted && headers['x-ratelimit-reset'] !== undefined) {
+    delay = Number(headers['x-ratelimit-reset']) * 1000 - Date.now();
+  } else if (status !== undefined && RETRYABLE_STATUSES.has(status)) {
+    delay = baseDelayMs * 2 ** attempt;
+  } else {
+    return null;
+  }
+
+  if (Number.isNaN(delay) || delay > maxDelayMs) {
+    return null;
+  }
+
+  return Math.max(0, delay);
+}
+
+/**
+ * Run a request, retrying rate limited and transient server errors with backoff
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const retries = options.retries ?? 3;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const delay = attempt < retries ? getRetryDelay(error, attempt, options) : null;
+      if (delay === null) {
+        throw error;
+      }
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at a time
+ * Results keep the input order. The first rejection stops scheduling new items and is rethrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,162 @@
+import { readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import simpleGit from 'simple-git';
+import type { CodeQLAlert } from './codeql.js';
+
+/**
+ * How the snippet source relates to the commit the alert was analyzed at:
+ * - unchanged: the local file matches the analyzed commit
+ * - changed: the local file differs, snippet was read from the analyzed commit
+ * - unverified: the analyzed commit is not available locally, snippet was read
+ *   from the working tree and may not match what was analyzed
+ */
+export type SnippetStatus = 'unchanged' | 'changed' | 'unverified';
+
+export interface CodeSnippet {
+  start_line: number;
+  end_line: number;
+  code: string;
+  status: SnippetStatus;
+}
+
+export interface SnippetOptions {
+  context?: number;
+  cwd?: string;
+}
+
+/**
+ * Extract lines [startLine - context, endLine + context] from file content
+ * Returns null when the flagged lines are outside the file
+ */
+export function extractSnippet(
+  content: string,
+  startLine: number,
+  endLine: number,
+  context: number,
+): Omit<CodeSnippet, 'status'> | null {
+  const lines = content.split(/\r?\n/);
+  // A final line break ends the last line, it does not start another
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  if (startLine < 1 || startLine > lines.length) {
+    return null;
+  }
+
+  const first = Math.max(1, startLine - context);
+  const last = Math.min(lines.length, Math.max(startLine, endLine) + context);
+
+  return {
+    start_line: first,
+    end_line: last,
+    code: lines.slice(first - 1, last).join('\n'),
+  };
+}
+
+/**
+ * Render snippet code with line numbers, marking the flagged lines with `>`
+ */
+export function formatSnippetLines(
+  snippet: CodeSnippet,
+  startLine: number,
+  endLine: number,
+): string {
+  const width = String(snippet.end_line).length;
+  return snippet.code
+    .split('\n')
+    .map((line, i) => {
+      const lineNumber = snippet.start_line + i;
+      const marker = lineNumber >= startLine && lineNumber <= endLine ? '>' : ' ';
+      return `${marker} ${String(lineNumber).padStart(width)} | ${line}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Human readable warning for snippets that may not reflect the analyzed code
+ */
+export function describeSnippetStatus(snippet: CodeSnippet, commitSha: string): string | null {
+  switch (snippet.status) {
+    case 'changed':
+      return `Local file differs from analyzed commit ${commitSha}; snippet taken from that commit.`;
+    case 'unverified':
+      return `Analyzed commit ${commitSha} is not available locally; snippet taken from the working tree and may not match.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Guess a fenced code block language from the file extension
+ */
+export function snippetLanguage(filePath: string): string {
+  return extname(filePath).slice(1).toLowerCase();
+}
+
+/**
+ * Read source snippets for each alert location from the local checkout,
+ * falling back to the analyzed commit when the working tree differs
+ */
+export async function attachSnippets(
+  alerts: CodeQLAlert[],
+  options: SnippetOptions = {},
+): Promise<CodeQLAlert[]> {
+  const context = options.context ?? 3;
+  const git = simpleGit(options.cwd);
+  const root = (await git.revparse(['--show-toplevel'])).trim();
+
+  // Several alerts commonly point at the same file, read each version once
+  const workingTreeCache = new Map<string, Promise<string | null>>();
+  const commitCache = new Map<string, Promise<string | null>>();
+
+  const readWorkingTree = (path: string) => {
+    let cached = workingTreeCache.get(path);
+    if (!cached) {
+      cached = readFile(join(root, path), 'utf-8').catch(() => null);
+      workingTreeCache.set(path, cached);
+    }
+    return cached;
+  };
+
+  const readCommit = (sha: string, path: string) => {
+    const key = `${sha}:${path}`;
+    let cached = commitCache.get(key);
+    if (!cached) {
+      cached = git.show([key]).catch(() => null);
+      commitCache.set(key, cached);
+    }
+    return cached;
+  };
+
+  return Promise.all(
+    alerts.map(async (alert) => {
+      const { commit_sha: sha, location } = alert.most_recent_instance;
+      // Alerts from SARIF files without provenance have no commit to compare with
+      const [local, analyzed] = await Promise.all([
+        readWorkingTree(location.path),
+        sha ? readCommit(sha, location.path) : null,
+      ]);
+
+      let content: string | null;
+      let status: SnippetStatus;
+      if (analyzed === null) {
+        content = local;
+        status = 'unverified';
+      } else {
+        content = analyzed;
+        status = local === analyzed ? 'unchanged' : 'changed';
+      }
+
+      if (content === null) {
+        return alert;
+      }
+
+      const snippet = extractSnippet(content, location.start_line, location.end_line, context);
+      if (!snippet) {
+        return alert;
+      }
+
+      return { ...alert, snippet: { ...snippet, status } };
+    }),
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Values of a template: text for `{{name}}` placeholders and lists for `{{#name}}` sections
+ */
+export interface TemplateValues {
+  [name: string]: string | TemplateValues[];
+}
+
+/**
+ * `{{#name}}...{{/name}}` renders its body once per item of a list or once for non-empty text,
+ * `{{^name}}...{{/name}}` renders it once for an empty list or text
+ */
+interface TemplateSection {
+  name: string;
+  inverted: boolean;
+  body: TemplateNode[];
+}
+
+type TemplateNode = string | { placeholder: string } | TemplateSection;
+
+const TAG = /\{\{\s*([#^/]?)\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Section tags alone on their line, whose line is left out of the output
+ */
+const STANDALONE_TAG = /^[ \t]*(\{\{\s*[#^/]\s*[\w-]+\s*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+function parseTemplate(template: string): TemplateNode[] {
+  const source = template.replace(STANDALONE_TAG, '$1');
+  const root: TemplateNode[] = [];
+  const open: TemplateSection[] = [];
+  let nodes = root;
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, kind, name] = match;
+    nodes.push(source.slice(last, match.index));
+    last = match.index + tag.length;
+
+    if (kind === '/') {
+      const section = open.pop();
+      if (section?.name !== name) {
+        const expected = section ? `, expected {{/${section.name}}}` : '';
+        throw new Error(`Unexpected template tag {{/${name}}}${expected}`);
+      }
+      nodes = open.at(-1)?.body ?? root;
+    } else if (kind) {
+      const section: TemplateSection = { name, inverted: kind === '^', body: [] };
+      nodes.push(section);
+      open.push(section);
+      nodes = section.body;
+    } else {
+      nodes.push({ placeholder: name });
+    }
+  }
+
+  const unclosed = open.pop();
+  if (unclosed) {
+    throw new Error(
+      `Unclosed template section {{${unclosed.inverted ? '^' : '#'}${unclosed.name}}}`,
+    );
+  }
+  nodes.push(source.slice(last));
+  return root;
+}
+
+/**
+ * Look up a name in the innermost section item that has it, then the enclosing ones
+ */
+function lookup(name: string, tag: string, scopes: TemplateValues[]): string | TemplateValues[] {
+  const scope = [...scopes].reverse().find((values) => Object.hasOwn(values, name));
+  if (!scope) {
+    const names = new Map(scopes.flatMap((values) => Object.entries(values)));
+    const available = [...names]
+      .map(([key, value]) => (typeof value === 'string' ? `{{${key}}}` : `{{#${key}}}`))
+      .join(', ');
+    throw new Error(`Unknown template placeholder {{${tag}}}. Available: ${available}`);
+  }
+  return scope[name];
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateValues[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') {
+        return node;
+      }
+      if ('placeholder' in node) {
+        const value = lookup(node.placeholder, node.placeholder, scopes);
+        if (typeof value !== 'string') {
+          const name = node.placeholder;
+          throw new Error(
+            `Template placeholder {{${name}}} is a list, repeat it with {{#${name}}}...{{/${name}}}`,
+          );
+        }
+        return value;
+      }
+
+      const value = lookup(node.name, `${node.inverted ? '^' : '#'}${node.name}`, scopes);
+      const items = typeof value === 'string' ? (value ? [{}] : []) : value;
+      if (node.inverted) {
+        return items.length === 0 ? renderNodes(node.body, scopes) : '';
+      }
+      return items.map((item) => renderNodes(node.body, [...scopes, item])).join('');
+    })
+    .join('');
+}
+
+/**
+ * Fill `{{name}}` placeholders and `{{#name}}` sections in a template
+ * Unknown placeholders are rejected so typos in user templates do not go unnoticed
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return renderNodes(parseTemplate(template), [values]);
+}
+
+/**
+ * Check every placeholder of a template against example values, including those in sections
+ * the values would skip. Lists need one example item.
+ */
+export function validateTemplate(template: string, values: TemplateValues): void {
+  const visit = (nodes: TemplateNode[], scopes: TemplateValues[]) => {
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        continue;
+      }
+      if ('placeholder' in node) {
+        renderNodes([node], scopes);
+        continue;
+      }
+      const value = lookup(node.name, `${node.inverted ? '^' : '#'}${node.name}`, scopes);
+      visit(node.body, typeof value === 'string' ? scopes : [...scopes, value[0] ?? {}]);
+    }
+  };
+  visit(parseTemplate(template), [values]);
+}
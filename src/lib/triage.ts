@@ -0,0 +1,76 @@
+import { readFile } from 'node:fs/promises';
+import { type AlertUpdate, DISMISSED_REASONS, type DismissedReason } from './codeql.js';
+
+/**
+ * Decision added to an alert of a saved JSON report, applied by `dismiss` and `reopen`
+ */
+export interface TriageDecision {
+  action: 'dismiss' | 'reopen';
+  /** Required to dismiss, one of the API's dismissal reasons */
+  reason?: DismissedReason;
+  /** Required to dismiss, recorded with the dismissal */
+  comment?: string;
+}
+
+function isReason(value: unknown): value is DismissedReason {
+  return DISMISSED_REASONS.includes(value as DismissedReason);
+}
+
+/**
+ * Collect the decisions of a triage file, a JSON report whose alerts carry a `triage` field
+ * Alerts without one are left alone
+ */
+export function parseTriage(data: unknown, source: string): AlertUpdate[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid triage file ${source}: expected a JSON report of a single repository`);
+  }
+
+  const updates: AlertUpdate[] = [];
+  data.forEach((alert: { number?: unknown; triage?: Partial<TriageDecision> } | null, index) => {
+    const decision = alert?.triage;
+    if (decision === undefined) {
+      return;
+    }
+
+    const number = alert?.number;
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+      throw new Error(`Invalid triage file ${source}: alert ${index + 1} has no alert number`);
+    }
+
+    if (decision?.action === 'reopen') {
+      updates.push({ number, state: 'open' });
+    } else if (decision?.action === 'dismiss') {
+      if (!isReason(decision.reason) || typeof decision.comment !== 'string' || !decision.comment) {
+        throw new Error(
+          `Invalid triage file ${source}: alert #${number} needs a reason (${DISMISSED_REASONS.join(', ')}) and a comment to be dismissed`,
+        );
+      }
+      updates.push({
+        number,
+        state: 'dismissed',
+        reason: decision.reason,
+        comment: decision.comment,
+      });
+    } else {
+      throw new Error(
+        `Invalid triage file ${source}: alert #${number} has triage action ${decision?.action}, expected dismiss or reopen`,
+      );
+    }
+  });
+
+  return updates;
+}
+
+/**
+ * Load the decisions of a triage file
+ */
+export async function loadTriage(path: string): Promise<AlertUpdate[]> {
+  const content = await readFile(path, 'utf-8');
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not parse triage file ${path}: ${(error as Error).message}`);
+  }
+  return parseTriage(data, path);
+}
@@ -1,7 +1,145 @@
+import type { CodeFlow, FlowLocation } from './codeflows.js';
 import type { CodeQLAlert } from './codeql.js';
+import { securitySeverityRank } from './filters.js';
+import type { OrderOptions } from './ordering.js';
+import { cweIds, type RuleInfo } from './rules.js';
+import type { CodeSnippet } from './snippets.js';
 
 export type DetailLevel = 'minimum' | 'medium' | 'full' | 'raw';
 
+/**
+ * Report-wide context shown in report headers
+ */
+export interface ReportMetadata {
+  /** GitHub Enterprise Server host, undefined for github.com */
+  host?: string;
+  /** Git ref the alerts were fetched for, defaults to the repository's default branch */
+  ref?: string;
+  /** Alerts whose details could not be fetched and are reported as listed */
+  failedAlerts?: number[];
+  /** Alerts left out because the baseline file lists them */
+  suppressed?: number;
+  /** Organization the report covers, for organization-wide reports */
+  organization?: string;
+  /**
+   * Repositories covered by an organization or multi-repository report
+   * When set, formatters group alerts per repository using `alert.repository`
+   */
+  repositories?: RepositoryMetadata[];
+  /**
+   * Rules referenced by the alerts, with help fetched once per rule
+   * Formatters collect them from the alerts when unset
+   */
+  rules?: RuleInfo[];
+  /** Position of this part in a report split to fit a token budget */
+  chunk?: ChunkMetadata;
+  /** How alerts are grouped into sections and sorted, in the given order when unset */
+  order?: OrderOptions;
+}
+
+/**
+ * Position of a chunk in a report split with `--max-tokens`
+ */
+export interface ChunkMetadata {
+  /** 1-based chunk number */
+  index: number;
+  total: number;
+  /** Alerts in the whole report */
+  totalAlerts: number;
+}
+
+/**
+ * A repository in an organization or multi-repository report
+ */
+export interface RepositoryMetadata {
+  /** Repository full name, e.g. owner/name */
+  name: string;
+  /** Alerts whose details could not be fetched and are reported as listed */
+  failedAlerts?: number[];
+}
+
+/**
+ * A repository's alerts in a grouped report
+ */
+export interface RepositoryGroup extends RepositoryMetadata {
+  alerts: CodeQLAlert[];
+}
+
+/**
+ * Context shown in diff report headers
+ */
+export interface DiffMetadata {
+  /** GitHub Enterprise Server host, undefined for github.com */
+  host?: string;
+  repoName?: string;
+  /** Label of the base side, a report file path or ref */
+  base: string;
+  /** Label of the head side, a report file path or ref */
+  head: string;
+}
+
+/**
+ * Group alerts per repository, in the order of `repositories`
+ * Repositories without alerts are kept for summaries, alerts from unlisted repositories get
+ * their own group at the end
+ */
+export function groupByRepository(
+  alerts: CodeQLAlert[],
+  repositories: RepositoryMetadata[],
+): RepositoryGroup[] {
+  const groups = new Map<string, RepositoryGroup>(
+    repositories.map((repository) => [repository.name, { ...repository, alerts: [] }]),
+  );
+
+  for (const alert of alerts) {
+    const name = alert.repository?.full_name ?? '';
+    let group = groups.get(name);
+    if (!group) {
+      group = { name, alerts: [] };
+      groups.set(name, group);
+    }
+    group.alerts.push(alert);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Count alerts per lowercased severity
+ */
+export function countBySeverity(alerts: CodeQLAlert[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  for (const alert of alerts) {
+    const severity = alert.rule.severity.toLowerCase();
+    counts[severity] = (counts[severity] || 0) + 1;
+  }
+
+  return counts;
+}
+
+/**
+ * Count alerts per lowercased security severity, most severe first
+ * Alerts of non-security queries count as `none`. Empty when no alert has a security severity,
+ * e.g. reports of code quality queries only.
+ */
+export function countBySecuritySeverity(alerts: CodeQLAlert[]): Record<string, number> {
+  if (!alerts.some((alert) => alert.rule.security_severity_level)) {
+    return {};
+  }
+
+  const counts: Record<string, number> = {};
+  const levels = alerts
+    .map((alert) => alert.rule.security_severity_level?.toLowerCase() || 'none')
+    .sort((a, b) => securitySeverityRank(b) - securitySeverityRank(a));
+
+  for (const level of levels) {
+    counts[level] = (counts[level] || 0) + 1;
+  }
+
+  return counts;
+}
+
 /**
  * Flattened alert structure with minimum essential fields
  * All levels include commit_sha for LLM context
@@ -16,6 +154,7 @@ export interface MinimumAlert {
   start_line: number;
   end_line: number;
   commit_sha: string;
+  snippet?: CodeSnippet;
 }
 
 /**
@@ -26,6 +165,11 @@ export interface MediumAlert extends MinimumAlert {
   start_column: number;
   end_column: number;
   state: string;
+  /** critical, high, medium or low, only for security queries */
+  security_severity?: string;
+  tags?: string[];
+  /** CWE ids from the rule tags, e.g. CWE-89 */
+  cwe_ids?: string[];
 }
 
 /**
@@ -38,6 +182,24 @@ export interface FullAlert extends MediumAlert {
   tool_name: string;
   tool_version: string;
   help_text?: string;
+  code_flows?: CodeFlow[];
+  related_locations?: FlowLocation[];
+}
+
+/**
+ * Security severity, tags and CWE ids of medium and full alerts, left out when the rule has none
+ */
+function securityFields(
+  alert: CodeQLAlert,
+): Pick<MediumAlert, 'security_severity' | 'tags' | 'cwe_ids'> {
+  const { security_severity_level, tags } = alert.rule;
+  const cwes = cweIds(tags);
+
+  return {
+    ...(security_severity_level && { security_severity: security_severity_level }),
+    ...(tags?.length && { tags }),
+    ...(cwes.length > 0 && { cwe_ids: cwes }),
+  };
 }
 
 /**
@@ -72,11 +234,25 @@ export function filterAlertByDetail(
       category: alert.most_recent_instance.category,
       tool_name: alert.tool.name,
       tool_version: alert.tool.version,
+      ...securityFields(alert),
     };
 
-    // Add help_text if available
-    if (alert.help) {
-      fullAlert.help_text = alert.help;
+    // Add help_text if available, the API returns it on the rule
+    const helpText = alert.rule.help || alert.help;
+    if (helpText) {
+      fullAlert.help_text = helpText;
+    }
+
+    if (alert.snippet) {
+      fullAlert.snippet = alert.snippet;
+    }
+
+    if (alert.code_flows) {
+      fullAlert.code_flows = alert.code_flows;
+    }
+
+    if (alert.related_locations) {
+      fullAlert.related_locations = alert.related_locations;
     }
 
     return fullAlert;
@@ -97,7 +273,13 @@ export function filterAlertByDetail(
       start_column: alert.most_recent_instance.location.start_column,
       end_column: alert.most_recent_instance.location.end_column,
       state: alert.most_recent_instance.state,
+      ...securityFields(alert),
     };
+
+    if (alert.snippet) {
+      mediumAlert.snippet = alert.snippet;
+    }
+
     return mediumAlert;
   }
 
@@ -113,5 +295,20 @@ export function filterAlertByDetail(
     end_line: alert.most_recent_instance.location.end_line,
     commit_sha: alert.most_recent_instance.commit_sha,
   };
+
+  if (alert.snippet) {
+    minimumAlert.snippet = alert.snippet;
+  }
+
   return minimumAlert;
 }
+
+/**
+ * Name an alert in report headings, e.g. `Alert #12`, or `Alert at src/db.js:10` for SARIF
+ * results without an alert number
+ */
+export function formatAlertHeading(alert: MinimumAlert): string {
+  return alert.number > 0
+    ? `Alert #${alert.number}`
+    : `Alert at ${alert.file_path}:${alert.start_line}`;
+}